@@ -6,6 +6,8 @@ type UUID = string;
 
 type GraphNode = { id: UUID; role: string; parentId: UUID | null };
 type GraphEdge = { from: UUID; to: UUID; count: number; lastSendTime: string };
+/** An allowed edge of a blueprint communication graph. */
+type GraphLink = { from: UUID; to: UUID; type: string; groupId: UUID | null };
 
 export async function GET(req: Request) {
   const url = new URL(req.url);
@@ -19,6 +21,7 @@ export async function GET(req: Request) {
   const agents = await store.listAgentsMeta({ workspaceId });
   const groups = await store.listGroups({ workspaceId });
   const recentMessages = await store.listRecentWorkspaceMessages({ workspaceId, limit: limitMessages });
+  const agentLinks = await store.listAgentLinks({ workspaceId });
 
   const groupMembersById = new Map<UUID, UUID[]>();
   for (const g of groups) {
@@ -49,9 +52,17 @@ export async function GET(req: Request) {
 
   const edges = [...edgeByKey.values()].sort((a, b) => b.lastSendTime.localeCompare(a.lastSendTime));
 
+  const links: GraphLink[] = agentLinks.map((l) => ({
+    from: l.fromAgentId,
+    to: l.toAgentId,
+    type: l.type,
+    groupId: l.groupId,
+  }));
+
   return Response.json({
     nodes,
     edges,
+    links,
     meta: {
       workspaceId,
       groups: groups.length,
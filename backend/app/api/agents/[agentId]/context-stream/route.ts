@@ -35,7 +35,15 @@ export async function GET(
 
       const channel = getUpstashRealtime().channel(`agent:${agentId}`);
       upstashUnsubscribe = await channel.subscribe({
-        events: ["agent.wakeup", "agent.unread", "agent.stream", "agent.done", "agent.error"],
+        events: [
+          "agent.wakeup",
+          "agent.unread",
+          "agent.stream",
+          "agent.compaction.start",
+          "agent.compaction.done",
+          "agent.done",
+          "agent.error",
+        ],
         history: { start: "-" as any, end: "+" as any, limit: 2000 },
         onData: (evt) => {
           // evt shape: { id: string, channel: string, event: string, data: unknown }
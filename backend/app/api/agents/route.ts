@@ -38,13 +38,15 @@ export async function POST(req: Request) {
         workspaceId?: string;
         creatorId?: string;
         role?: string;
+        /** Persona id or name; the role defaults to the persona name. */
+        persona?: string;
         groupId?: string;
       }
     | null;
 
   const workspaceId = body?.workspaceId?.trim();
   const creatorId = body?.creatorId?.trim();
-  const role = body?.role?.trim();
+  const personaRef = body?.persona?.trim();
 
   if (!workspaceId) {
     return Response.json({ error: "Missing workspaceId" }, { status: 400 });
@@ -52,6 +54,11 @@ export async function POST(req: Request) {
   if (!creatorId) {
     return Response.json({ error: "Missing creatorId" }, { status: 400 });
   }
+  const persona = personaRef ? await store.getAgentPersona({ workspaceId, ref: personaRef }) : null;
+  if (personaRef && !persona) {
+    return Response.json({ error: "persona not found" }, { status: 404 });
+  }
+  const role = body?.role?.trim() || persona?.name;
   if (!role) {
     return Response.json({ error: "Missing role" }, { status: 400 });
   }
@@ -61,7 +68,7 @@ export async function POST(req: Request) {
   const { humanAgentId } = await store.ensureWorkspaceDefaults({ workspaceId });
 
   if (body?.groupId) {
-    const created = await store.createSubAgentWithP2P({ workspaceId, creatorId, role });
+    const created = await store.createSubAgentWithP2P({ workspaceId, creatorId, role, persona });
     await store.addGroupMembers({ groupId: body.groupId, userIds: [created.agentId] });
     runtime.ensureRunner(created.agentId);
     getWorkspaceUIBus().emit(workspaceId, {
@@ -82,7 +89,7 @@ export async function POST(req: Request) {
     );
   }
 
-  const created = await store.createSubAgentWithP2P({ workspaceId, creatorId, role });
+  const created = await store.createSubAgentWithP2P({ workspaceId, creatorId, role, persona });
   runtime.ensureRunner(created.agentId);
   getWorkspaceUIBus().emit(workspaceId, {
     event: "ui.agent.created",
@@ -0,0 +1,37 @@
+export const runtime = "nodejs";
+
+import { generateUserToken, normalizeUsername, SESSION_TTL_MS, sessionCookie, verifyPassword } from "@/lib/auth";
+import { store } from "@/lib/storage";
+
+/** Password login; the session token is set as an HttpOnly cookie and also returned for scripts. */
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as
+    | {
+        username?: string;
+        password?: string;
+      }
+    | null;
+
+  const username = normalizeUsername(body?.username);
+  const password = typeof body?.password === "string" ? body.password : "";
+  if (!username || !password) return Response.json({ error: "Missing username/password" }, { status: 400 });
+
+  const found = await store.findUserByUsername({ username });
+  if (!found || found.disabledAt || !verifyPassword(password, found.passwordHash)) {
+    return Response.json({ error: "Invalid username or password" }, { status: 401 });
+  }
+
+  const { passwordHash: _passwordHash, ...user } = found;
+  const { token, tokenHash } = generateUserToken("session");
+  const session = await store.createUserSession({
+    userId: user.id,
+    kind: "session",
+    name: req.headers.get("user-agent")?.slice(0, 200) ?? "",
+    tokenHash,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  return Response.json(
+    { ok: true, user, token, expiresAt: session.expiresAt },
+    { headers: { "Set-Cookie": sessionCookie(token, SESSION_TTL_MS) } }
+  );
+}
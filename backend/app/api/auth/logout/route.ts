@@ -0,0 +1,13 @@
+export const runtime = "nodejs";
+
+import { clearedSessionCookie, extractUserToken, hashUserToken } from "@/lib/auth";
+import { store } from "@/lib/storage";
+
+export async function POST(req: Request) {
+  const token = extractUserToken(req.headers);
+  if (token) {
+    const found = await store.findUserSessionByTokenHash({ tokenHash: hashUserToken(token) });
+    if (found) await store.revokeUserSession({ id: found.session.id, userId: found.user.id });
+  }
+  return Response.json({ ok: true }, { headers: { "Set-Cookie": clearedSessionCookie() } });
+}
@@ -0,0 +1,12 @@
+export const runtime = "nodejs";
+
+import { accountsEnabled, getRequestUser } from "@/lib/api-auth";
+import { store } from "@/lib/storage";
+
+export async function GET(req: Request) {
+  const enabled = await accountsEnabled();
+  const user = await getRequestUser(req);
+  if (!user) return Response.json({ ok: true, accountsEnabled: enabled, user: null, workspaces: [] });
+  const workspaces = await store.listUserWorkspaces({ userId: user.id });
+  return Response.json({ ok: true, accountsEnabled: enabled, user, workspaces });
+}
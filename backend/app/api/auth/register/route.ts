@@ -0,0 +1,82 @@
+export const runtime = "nodejs";
+
+import { getRequestUser } from "@/lib/api-auth";
+import {
+  generateUserToken,
+  hashPassword,
+  MIN_PASSWORD_LENGTH,
+  normalizeUsername,
+  SESSION_TTL_MS,
+  sessionCookie,
+} from "@/lib/auth";
+import { store } from "@/lib/storage";
+
+/**
+ * Creates a user account. The first account bootstraps login for the whole
+ * deployment: it becomes an instance admin, owns every existing workspace
+ * through that workspace's default human agent, and is signed in right away.
+ * Later accounts can only be created by an instance admin.
+ */
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as
+    | {
+        username?: string;
+        password?: string;
+        displayName?: string;
+        isAdmin?: boolean;
+      }
+    | null;
+
+  const username = normalizeUsername(body?.username);
+  if (!username) {
+    return Response.json(
+      { error: "username must be 2-32 chars of a-z, 0-9, '.', '_' or '-'" },
+      { status: 400 }
+    );
+  }
+  const password = typeof body?.password === "string" ? body.password : "";
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return Response.json({ error: `password must be at least ${MIN_PASSWORD_LENGTH} chars` }, { status: 400 });
+  }
+
+  const bootstrap = (await store.countUsers()) === 0;
+  if (!bootstrap) {
+    const caller = await getRequestUser(req);
+    if (!caller?.isAdmin) return Response.json({ error: "Instance admin required" }, { status: 403 });
+  }
+  if (await store.findUserByUsername({ username })) {
+    return Response.json({ error: "username already taken" }, { status: 409 });
+  }
+
+  const user = await store.createUser({
+    username,
+    displayName: body?.displayName?.trim() || username,
+    passwordHash: hashPassword(password),
+    isAdmin: bootstrap || body?.isAdmin === true,
+  });
+  if (!bootstrap) return Response.json({ ok: true, user }, { status: 201 });
+
+  for (const workspace of await store.listWorkspaces()) {
+    const defaults = await store.ensureWorkspaceDefaults({ workspaceId: workspace.id });
+    await store.addWorkspaceMember({
+      workspaceId: workspace.id,
+      userId: user.id,
+      role: "owner",
+      humanAgentId: defaults.humanAgentId,
+      defaultGroupId: defaults.defaultGroupId,
+    });
+  }
+
+  const { token, tokenHash } = generateUserToken("session");
+  await store.createUserSession({
+    userId: user.id,
+    kind: "session",
+    name: "",
+    tokenHash,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  return Response.json(
+    { ok: true, user, token },
+    { status: 201, headers: { "Set-Cookie": sessionCookie(token, SESSION_TTL_MS) } }
+  );
+}
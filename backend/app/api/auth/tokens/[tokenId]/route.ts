@@ -0,0 +1,14 @@
+export const runtime = "nodejs";
+
+import { getRequestUser } from "@/lib/api-auth";
+import { store } from "@/lib/storage";
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ tokenId: string }> }) {
+  const user = await getRequestUser(req);
+  if (!user) return Response.json({ error: "Login required" }, { status: 401 });
+  const { tokenId } = await params;
+  if (!tokenId?.trim()) return Response.json({ error: "Missing tokenId" }, { status: 400 });
+  const revoked = await store.revokeUserSession({ id: tokenId.trim(), userId: user.id });
+  if (!revoked) return Response.json({ error: "token not found" }, { status: 404 });
+  return Response.json({ ok: true });
+}
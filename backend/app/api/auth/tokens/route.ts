@@ -0,0 +1,41 @@
+export const runtime = "nodejs";
+
+import { getRequestUser } from "@/lib/api-auth";
+import { generateUserToken } from "@/lib/auth";
+import { store } from "@/lib/storage";
+
+const MAX_TOKEN_DAYS = 365;
+
+export async function GET(req: Request) {
+  const user = await getRequestUser(req);
+  if (!user) return Response.json({ error: "Login required" }, { status: 401 });
+  const tokens = await store.listUserSessions({ userId: user.id, kind: "token" });
+  return Response.json({ ok: true, tokens });
+}
+
+/** Issues a personal access token for scripts; it acts with the user's own memberships. */
+export async function POST(req: Request) {
+  const user = await getRequestUser(req);
+  if (!user) return Response.json({ error: "Login required" }, { status: 401 });
+  const body = (await req.json().catch(() => null)) as
+    | {
+        name?: string;
+        expiresInDays?: number;
+      }
+    | null;
+
+  const name = body?.name?.trim();
+  if (!name) return Response.json({ error: "Missing name" }, { status: 400 });
+  let expiresAt: Date | null = null;
+  if (body?.expiresInDays !== undefined && body.expiresInDays !== null) {
+    const days = Number(body.expiresInDays);
+    if (!Number.isFinite(days) || days <= 0 || days > MAX_TOKEN_DAYS) {
+      return Response.json({ error: `expiresInDays must be between 1 and ${MAX_TOKEN_DAYS}` }, { status: 400 });
+    }
+    expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  }
+
+  const { token, tokenHash } = generateUserToken("token");
+  const record = await store.createUserSession({ userId: user.id, kind: "token", name, tokenHash, expiresAt });
+  return Response.json({ ok: true, token: record, secret: token }, { status: 201 });
+}
@@ -1,7 +1,14 @@
 export const runtime = "nodejs";
 
 import { BLUEPRINT_CASES } from "@/lib/blueprints";
+import { store } from "@/lib/storage";
 
-export async function GET() {
-  return Response.json({ ok: true, cases: BLUEPRINT_CASES });
+/** Built-in cases, followed by the workspace's custom blueprints when `workspaceId` is given. */
+export async function GET(req: Request) {
+  const workspaceId = (new URL(req.url).searchParams.get("workspaceId") ?? "").trim();
+  const custom = workspaceId ? await store.listBlueprints({ workspaceId }).catch(() => []) : [];
+  return Response.json({
+    ok: true,
+    cases: [...BLUEPRINT_CASES.map((c) => ({ ...c, source: "builtin" as const })), ...custom],
+  });
 }
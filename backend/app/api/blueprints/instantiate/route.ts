@@ -1,6 +1,6 @@
 export const runtime = "nodejs";
 
-import { getBlueprintCase } from "@/lib/blueprints";
+import { blueprintHubRoles, getBlueprintCase } from "@/lib/blueprints";
 import { store } from "@/lib/storage";
 import { getAgentRuntime } from "@/runtime/agent-runtime";
 import { getWorkspaceUIBus } from "@/runtime/ui-bus";
@@ -24,11 +24,21 @@ export async function POST(req: Request) {
     );
   }
 
-  const blueprint = getBlueprintCase(blueprintId);
+  // Built-in case ids first, then the workspace's own blueprints.
+  const blueprint = getBlueprintCase(blueprintId) ?? (await store.getBlueprint({ id: blueprintId, workspaceId }));
   if (!blueprint) {
     return Response.json({ error: "Unknown blueprintId" }, { status: 404 });
   }
 
+  // Personas are resolved now, so later edits to a persona shape every future instantiation.
+  const personas = await store.findAgentPersonasByName({
+    workspaceId,
+    names: blueprint.roles.flatMap((r) => (r.persona ? [r.persona] : [])),
+  });
+  if (personas.missing.length > 0) {
+    return Response.json({ error: `unknown persona: ${personas.missing.join(", ")}` }, { status: 409 });
+  }
+
   const defaults = await store.ensureWorkspaceDefaults({ workspaceId });
   await store.ensurePresetModelProfiles({ workspaceId });
 
@@ -45,7 +55,14 @@ export async function POST(req: Request) {
       guidance: role.guidance,
       kind: "worker",
       autoRunEnabled: false,
+      persona: role.persona ? personas.byName.get(role.persona) : null,
     });
+    if (role.modelProfileId) {
+      // The profile may have been deleted since the blueprint was saved; the agent then keeps the default.
+      await store
+        .setAgentModelProfile({ agentId: created.agentId, workspaceId, modelProfileId: role.modelProfileId })
+        .catch(() => undefined);
+    }
     runtime.ensureRunner(created.agentId);
     createdAgents.push({
       id: created.agentId,
@@ -62,10 +79,36 @@ export async function POST(req: Request) {
     });
   }
 
+  // Edges become the enforced communication graph: each one gets its own group,
+  // and only hub roles share the case group (see blueprintHubRoles).
+  const agentIdByRole = new Map<string, string>([
+    ["human", defaults.humanAgentId],
+    ["assistant", defaults.assistantAgentId],
+    ...createdAgents.map((x) => [x.role, x.id] as [string, string]),
+  ]);
+  const links: Array<{ from: string; to: string; type: string; groupId: string | null }> = [];
+  for (const edge of blueprint.previewEdges) {
+    const fromId = agentIdByRole.get(edge.from);
+    const toId = agentIdByRole.get(edge.to);
+    if (!fromId || !toId || fromId === toId) continue;
+    let groupId = await store.findLatestExactP2PGroupId({ workspaceId, memberA: fromId, memberB: toId });
+    if (!groupId) {
+      const name = `${edge.from} → ${edge.to} · ${edge.type}`;
+      groupId = (await store.createGroup({ workspaceId, memberIds: [fromId, toId], name })).id;
+      getWorkspaceUIBus().emit(workspaceId, {
+        event: "ui.group.created",
+        data: { workspaceId, group: { id: groupId, name, memberIds: [fromId, toId] } },
+      });
+    }
+    await store.createAgentLink({ workspaceId, fromAgentId: fromId, toAgentId: toId, type: edge.type, groupId });
+    links.push({ from: edge.from, to: edge.to, type: edge.type, groupId });
+  }
+
+  const hubRoles = new Set(blueprintHubRoles(blueprint));
   const collaborationMemberIds = [
     defaults.humanAgentId,
     defaults.assistantAgentId,
-    ...createdAgents.map((x) => x.id),
+    ...createdAgents.filter((x) => hubRoles.has(x.role)).map((x) => x.id),
   ];
 
   const collaborationGroup = await store.createGroup({
@@ -122,8 +165,10 @@ export async function POST(req: Request) {
     workspaceId,
     groupId: collaborationGroup.id,
     createdAgents,
+    links,
     awaitingTopic: true,
     topicPrompt,
     goalTemplate,
+    workflowId: blueprint.workflowId,
   });
 }
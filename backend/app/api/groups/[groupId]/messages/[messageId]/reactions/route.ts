@@ -0,0 +1,53 @@
+export const runtime = "nodejs";
+
+import { normalizeReaction } from "@/lib/message-meta";
+import { store } from "@/lib/storage";
+import { getWorkspaceUIBus } from "@/runtime/ui-bus";
+
+/** Adds (or, with `remove: true`, withdraws) one member's reaction. Reactions never wake agents. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ groupId: string; messageId: string }> }
+) {
+  const { groupId, messageId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        agentId?: string;
+        /** "ack", "+1" or a single emoji. */
+        reaction?: string;
+        remove?: boolean;
+      }
+    | null;
+
+  const agentId = body?.agentId?.trim();
+  if (!agentId) {
+    return Response.json({ error: "Missing agentId" }, { status: 400 });
+  }
+  const reaction = normalizeReaction(body?.reaction);
+  if (!reaction) {
+    return Response.json({ error: "reaction must be a short code like \"ack\" or a single emoji" }, { status: 400 });
+  }
+
+  const message = await store.getGroupMessage({ groupId, messageId });
+  if (!message) {
+    return Response.json({ error: "message not found" }, { status: 404 });
+  }
+  const memberIds = await store.listGroupMemberIds({ groupId });
+  if (!memberIds.includes(agentId)) {
+    return Response.json({ error: "agentId is not a member of this group" }, { status: 403 });
+  }
+
+  const reactions = await store.setMessageReaction({
+    workspaceId: message.workspaceId,
+    messageId: message.id,
+    agentId,
+    reaction,
+    active: body?.remove !== true,
+  });
+  getWorkspaceUIBus().emit(message.workspaceId, {
+    event: "ui.message.reactions",
+    data: { workspaceId: message.workspaceId, groupId, messageId: message.id, reactions },
+  });
+
+  return Response.json({ ok: true, messageId: message.id, reactions });
+}
@@ -0,0 +1,58 @@
+export const runtime = "nodejs";
+
+import { API_KEY_ID_HEADER } from "@/lib/api-keys";
+import { USER_ID_HEADER } from "@/lib/auth";
+import { REDACTED_CONTENT, type MessageActorKind } from "@/lib/message-meta";
+import { store } from "@/lib/storage";
+import { getWorkspaceUIBus } from "@/runtime/ui-bus";
+
+/**
+ * Admin redaction: the row stays, but its content and every earlier version become
+ * "[redacted]". Verbatim copies of the text in agents' llmHistory are replaced the
+ * same way (see store.redactMessage), so agents later see the placeholder where the
+ * text used to be. Owners only (or an API key with the admin scope).
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ groupId: string; messageId: string }> }
+) {
+  const { groupId, messageId } = await params;
+  const body = (await req.json().catch(() => null)) as { reason?: string } | null;
+  const reason = typeof body?.reason === "string" ? body.reason.trim().slice(0, 500) || null : null;
+
+  const message = await store.getGroupMessage({ groupId, messageId });
+  if (!message) {
+    return Response.json({ error: "message not found" }, { status: 404 });
+  }
+
+  const userId = req.headers.get(USER_ID_HEADER);
+  const keyId = req.headers.get(API_KEY_ID_HEADER);
+  const actor: { kind: MessageActorKind; id: string | null } = userId
+    ? { kind: "user", id: userId }
+    : keyId
+      ? { kind: "api_key", id: keyId }
+      : { kind: "anonymous", id: null };
+
+  const redacted = await store.redactMessage({
+    messageId: message.id,
+    actorKind: actor.kind,
+    actorId: actor.id,
+    reason,
+  });
+  if (!redacted) {
+    return Response.json({ error: "message not found" }, { status: 404 });
+  }
+  getWorkspaceUIBus().emit(message.workspaceId, {
+    event: "ui.message.updated",
+    data: {
+      workspaceId: message.workspaceId,
+      groupId,
+      messageId: message.id,
+      content: REDACTED_CONTENT,
+      editedAt: null,
+      redactedAt: redacted.redactedAt,
+    },
+  });
+
+  return Response.json({ ok: true, ...redacted });
+}
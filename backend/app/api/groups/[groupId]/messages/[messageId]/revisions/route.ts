@@ -0,0 +1,17 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+
+/** The message's audit trail, oldest first. */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ groupId: string; messageId: string }> }
+) {
+  const { groupId, messageId } = await params;
+  const message = await store.getGroupMessage({ groupId, messageId });
+  if (!message) {
+    return Response.json({ error: "message not found" }, { status: 404 });
+  }
+  const revisions = await store.listMessageRevisions({ messageId: message.id });
+  return Response.json({ ok: true, revisions });
+}
@@ -0,0 +1,90 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+import { getWorkspaceUIBus } from "@/runtime/ui-bus";
+
+/**
+ * Edits a message. Only its sender may edit, and the previous text is kept in the
+ * revision log. Edits wake nobody: agents that already read the message keep the
+ * version they saw.
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ groupId: string; messageId: string }> }
+) {
+  const { groupId, messageId } = await params;
+  const body = (await req.json().catch(() => null)) as { actorId?: string; content?: string } | null;
+
+  const actorId = body?.actorId?.trim();
+  if (!actorId) {
+    return Response.json({ error: "Missing actorId" }, { status: 400 });
+  }
+  if (typeof body?.content !== "string" || !body.content.trim()) {
+    return Response.json({ error: "Missing content" }, { status: 400 });
+  }
+
+  const message = await store.getGroupMessage({ groupId, messageId });
+  if (!message) {
+    return Response.json({ error: "message not found" }, { status: 404 });
+  }
+  if (message.senderId !== actorId) {
+    return Response.json({ error: "only the sender can edit a message" }, { status: 403 });
+  }
+  if (message.deletedAt || message.redactedAt) {
+    return Response.json({ error: "message was deleted or redacted" }, { status: 409 });
+  }
+
+  const edited = await store.editMessage({ messageId: message.id, content: body.content, actorId });
+  if (!edited) {
+    return Response.json({ error: "message was deleted or redacted" }, { status: 409 });
+  }
+  getWorkspaceUIBus().emit(message.workspaceId, {
+    event: "ui.message.updated",
+    data: {
+      workspaceId: message.workspaceId,
+      groupId,
+      messageId: message.id,
+      content: edited.content,
+      editedAt: edited.editedAt,
+      redactedAt: null,
+    },
+  });
+
+  return Response.json({ ok: true, ...edited });
+}
+
+/** Soft-deletes a message. Its sender or the workspace's human agent may delete it. */
+export async function DELETE(
+  req: Request,
+  { params }: { params: Promise<{ groupId: string; messageId: string }> }
+) {
+  const { groupId, messageId } = await params;
+  const body = (await req.json().catch(() => null)) as { actorId?: string } | null;
+
+  const actorId = body?.actorId?.trim();
+  if (!actorId) {
+    return Response.json({ error: "Missing actorId" }, { status: 400 });
+  }
+
+  const message = await store.getGroupMessage({ groupId, messageId });
+  if (!message) {
+    return Response.json({ error: "message not found" }, { status: 404 });
+  }
+  if (message.senderId !== actorId) {
+    const actor = await store.getAgent({ agentId: actorId }).catch(() => null);
+    if (actor?.workspaceId !== message.workspaceId || actor.kind !== "system_human") {
+      return Response.json({ error: "only the sender or the human agent can delete a message" }, { status: 403 });
+    }
+  }
+
+  const deleted = await store.deleteMessage({ messageId: message.id, actorId });
+  if (!deleted) {
+    return Response.json({ error: "message already deleted" }, { status: 409 });
+  }
+  getWorkspaceUIBus().emit(message.workspaceId, {
+    event: "ui.message.deleted",
+    data: { workspaceId: message.workspaceId, groupId, messageId: message.id, deletedAt: deleted.deletedAt },
+  });
+
+  return Response.json({ ok: true, ...deleted });
+}
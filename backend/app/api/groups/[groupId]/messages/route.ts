@@ -1,9 +1,18 @@
 export const runtime = "nodejs";
 
+import { parseAttachmentIds } from "@/lib/artifacts";
+import { decodeMessageCursor, encodeMessageCursor } from "@/lib/message-cursor";
+import { resolveMentions } from "@/lib/message-meta";
 import { store } from "@/lib/storage";
 import { getAgentRuntime } from "@/runtime/agent-runtime";
 import { getWorkspaceUIBus } from "@/runtime/ui-bus";
 
+/**
+ * Pages through a group's messages, oldest first within a page. Without a cursor the
+ * newest `limit` (default 50, max 200) are returned; pass `before=<beforeCursor>` to
+ * scroll back, and `after=<afterCursor>` or `since=<ISO time>` to poll for new ones.
+ * `hasMore` says whether the page was cut short in the direction it was read.
+ */
 export async function GET(
   req: Request,
   { params }: { params: Promise<{ groupId: string }> }
@@ -13,15 +22,45 @@ export async function GET(
   const markRead = url.searchParams.get("markRead") === "true";
   const readerId = url.searchParams.get("readerId") ?? undefined;
 
-  const messages = await store.listMessages({
+  const cursors: { before?: string; after?: string } = {};
+  for (const key of ["before", "after"] as const) {
+    const raw = (url.searchParams.get(key) ?? "").trim();
+    if (raw) cursors[key] = raw;
+  }
+  const before = decodeMessageCursor(cursors.before);
+  const after = decodeMessageCursor(cursors.after);
+  if ((cursors.before && !before) || (cursors.after && !after)) {
+    return Response.json({ error: "invalid cursor" }, { status: 400 });
+  }
+  const rawSince = (url.searchParams.get("since") ?? "").trim();
+  const since = rawSince ? new Date(rawSince) : null;
+  if (since && Number.isNaN(since.getTime())) {
+    return Response.json({ error: "since must be an ISO timestamp" }, { status: 400 });
+  }
+  if (before && (after || since)) {
+    return Response.json({ error: "before cannot be combined with after/since" }, { status: 400 });
+  }
+
+  const { messages, hasMore } = await store.listMessages({
     groupId,
+    before,
+    after,
+    since,
+    limit: Number(url.searchParams.get("limit") ?? "") || undefined,
   });
 
   if (markRead && readerId) {
     await store.markGroupRead({ groupId, readerId });
   }
 
-  return Response.json({ messages });
+  const first = messages[0];
+  const last = messages[messages.length - 1];
+  return Response.json({
+    messages,
+    hasMore,
+    beforeCursor: first ? encodeMessageCursor(first) : (cursors.before ?? null),
+    afterCursor: last ? encodeMessageCursor(last) : (cursors.after ?? null),
+  });
 }
 
 export async function POST(
@@ -33,17 +72,48 @@ export async function POST(
     senderId: string;
     content: string;
     contentType?: string;
+    /** Message of this group being answered. */
+    replyToId?: string;
+    /** Member agent ids or roles; `@role` in content is picked up as well. */
+    mentions?: string[];
+    /** Artifact ids of this workspace, uploaded beforehand via /api/workspaces/<id>/artifacts. */
+    attachments?: string[];
   };
 
+  const replyToId = body.replyToId?.trim();
+  const replyTo = replyToId ? await store.getGroupMessage({ groupId, messageId: replyToId }) : null;
+  if (replyToId && !replyTo) {
+    return Response.json({ error: "reply target not found" }, { status: 404 });
+  }
+  const mentions = resolveMentions({
+    mentions: body.mentions,
+    content: body.content ?? "",
+    members: await store.listGroupMemberRoles({ groupId }),
+  });
+  if (!mentions.ok) {
+    return Response.json({ error: mentions.error }, { status: 400 });
+  }
+  const attachmentIds = parseAttachmentIds(body.attachments);
+  if (!attachmentIds.ok) {
+    return Response.json({ error: attachmentIds.error }, { status: 400 });
+  }
+  const workspaceId = await store.getGroupWorkspaceId({ groupId });
+  const attachments = await store.listArtifactsByIds({ workspaceId, ids: attachmentIds.ids });
+  if (attachments.length !== attachmentIds.ids.length) {
+    return Response.json({ error: "attachment not found" }, { status: 404 });
+  }
+
   const result = await store.sendMessage({
     groupId,
     senderId: body.senderId,
     content: body.content,
     contentType: body.contentType ?? "text",
+    replyToId: replyTo?.id ?? null,
+    mentions: mentions.ids,
+    attachments: attachments.map((a) => a.id),
   });
 
   const memberIds = await store.listGroupMemberIds({ groupId });
-  const workspaceId = await store.getGroupWorkspaceId({ groupId });
   getWorkspaceUIBus().emit(workspaceId, {
     event: "ui.message.created",
     data: {
@@ -56,6 +126,9 @@ export async function POST(
         sendTime: result.sendTime,
         content: body.content,
         contentType: body.contentType ?? "text",
+        replyToId: replyTo?.id ?? null,
+        mentions: mentions.ids,
+        attachments,
       },
     },
   });
@@ -64,7 +137,9 @@ export async function POST(
   void runtime.wakeAgentsForGroup(groupId, body.senderId, {
     content: body.content,
     contentType: body.contentType ?? "text",
+    mentions: mentions.ids,
+    replyToSenderId: replyTo?.senderId ?? null,
   });
 
-  return Response.json(result, { status: 201 });
+  return Response.json({ ...result, mentions: mentions.ids, attachments }, { status: 201 });
 }
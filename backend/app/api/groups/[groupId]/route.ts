@@ -0,0 +1,30 @@
+export const runtime = "nodejs";
+
+import { parseGroupWakeMode } from "@/lib/message-meta";
+import { store } from "@/lib/storage";
+import { getWorkspaceUIBus } from "@/runtime/ui-bus";
+
+/** Group settings; currently only `wakeMode` ("all" or "mentions"). */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ groupId: string }> }
+) {
+  const { groupId } = await params;
+  const body = (await req.json().catch(() => null)) as { wakeMode?: string } | null;
+
+  const wakeMode = parseGroupWakeMode(body?.wakeMode);
+  if (!wakeMode) {
+    return Response.json({ error: "wakeMode must be \"all\" or \"mentions\"" }, { status: 400 });
+  }
+
+  const workspaceId = await store.getGroupWorkspaceId({ groupId }).catch(() => null);
+  if (!workspaceId || !(await store.setGroupWakeMode({ groupId, wakeMode }))) {
+    return Response.json({ error: "group not found" }, { status: 404 });
+  }
+  getWorkspaceUIBus().emit(workspaceId, {
+    event: "ui.group.wake_mode",
+    data: { workspaceId, groupId, wakeMode },
+  });
+
+  return Response.json({ ok: true, groupId, wakeMode });
+}
@@ -4,6 +4,8 @@ import { and, desc, eq, gte, isNull } from "drizzle-orm";
 
 import { getDb } from "@/db";
 import { groups, taskRuns, undercoverGames, werewolfGames } from "@/db/schema";
+import { getRequestUser } from "@/lib/api-auth";
+import { API_KEY_ID_HEADER } from "@/lib/api-keys";
 import { store } from "@/lib/storage";
 
 type Range = "24h" | "7d";
@@ -32,52 +34,49 @@ function getBucketKey(iso: string, range: Range) {
 
 export async function GET(req: Request) {
   const url = new URL(req.url);
-  const workspaceIdQuery = url.searchParams.get("workspaceId");
+  const workspaceId = (url.searchParams.get("workspaceId") ?? "").trim();
   const range = getRange(url.searchParams.get("range"));
   const since = getSince(range);
 
-  let workspaceId = workspaceIdQuery?.trim() || "";
   if (!workspaceId) {
-    const workspaces = await store.listWorkspaces();
-    workspaceId = workspaces[0]?.id ?? "";
-  }
-  if (!workspaceId) {
-    return Response.json(
-      {
-        workspaceId: null,
-        range,
-        kpi: { activeAgents: 0, runningTasks: 0, messages: 0, tokenDelta: 0 },
-        charts: { messageSeries: [], taskStopReasons: [], modelUsage: [], gameMatches: [] },
-        topWorkspaces: [],
-      },
-      { status: 200 }
-    );
+    return Response.json({ error: "Missing workspaceId" }, { status: 400 });
   }
 
   const db = getDb();
-  const [agents, runningTasks, recentMessages, workspaceRows, taskRows, undercoverRows, werewolfRows] =
-    await Promise.all([
-      store.listAgentsMeta({ workspaceId }),
-      store.listRunningTaskRuns(),
-      store.listRecentWorkspaceMessages({ workspaceId, limit: range === "7d" ? 5000 : 2500 }),
-      db
-        .select({ contextTokens: groups.contextTokens })
-        .from(groups)
-        .where(and(eq(groups.workspaceId, workspaceId), isNull(groups.deletedAt))),
-      db
-        .select({ stopReason: taskRuns.stopReason, createdAt: taskRuns.createdAt })
-        .from(taskRuns)
-        .where(and(eq(taskRuns.workspaceId, workspaceId), gte(taskRuns.createdAt, since)))
-        .orderBy(desc(taskRuns.createdAt)),
-      db
-        .select({ createdAt: undercoverGames.createdAt })
-        .from(undercoverGames)
-        .where(and(eq(undercoverGames.workspaceId, workspaceId), gte(undercoverGames.createdAt, since))),
-      db
-        .select({ createdAt: werewolfGames.createdAt })
-        .from(werewolfGames)
-        .where(and(eq(werewolfGames.workspaceId, workspaceId), gte(werewolfGames.createdAt, since))),
-    ]);
+  const [
+    agents,
+    runningTasks,
+    recentMessages,
+    workspaceRows,
+    taskRows,
+    undercoverRows,
+    werewolfRows,
+    usageTotals,
+    usageRows,
+  ] = await Promise.all([
+    store.listAgentsMeta({ workspaceId }),
+    store.listRunningTaskRuns(),
+    store.listRecentWorkspaceMessages({ workspaceId, limit: range === "7d" ? 5000 : 2500 }),
+    db
+      .select({ contextTokens: groups.contextTokens })
+      .from(groups)
+      .where(and(eq(groups.workspaceId, workspaceId), isNull(groups.deletedAt))),
+    db
+      .select({ stopReason: taskRuns.stopReason, createdAt: taskRuns.createdAt })
+      .from(taskRuns)
+      .where(and(eq(taskRuns.workspaceId, workspaceId), gte(taskRuns.createdAt, since)))
+      .orderBy(desc(taskRuns.createdAt)),
+    db
+      .select({ createdAt: undercoverGames.createdAt })
+      .from(undercoverGames)
+      .where(and(eq(undercoverGames.workspaceId, workspaceId), gte(undercoverGames.createdAt, since))),
+    db
+      .select({ createdAt: werewolfGames.createdAt })
+      .from(werewolfGames)
+      .where(and(eq(werewolfGames.workspaceId, workspaceId), gte(werewolfGames.createdAt, since))),
+    store.sumLlmUsage({ workspaceId, since }),
+    store.summarizeLlmUsage({ workspaceId, since, groupBy: "model", limit: 8 }),
+  ]);
 
   const activeAgents = agents.filter((a) => a.role !== "human" && !a.deletedAt && a.autoRunEnabled).length;
   const runningTasksCount = runningTasks.filter((t) => t.workspaceId === workspaceId).length;
@@ -117,12 +116,26 @@ export async function GET(req: Request) {
 
   const tokenDelta = workspaceRows.reduce((sum, row) => sum + Number(row.contextTokens ?? 0), 0);
 
+  const usageByModel = usageRows.map((row) => ({
+    model: row.key ?? "unknown",
+    calls: row.calls,
+    totalTokens: row.totalTokens,
+    costUsd: row.costUsd,
+  }));
+
   const gameMatches = [
     { game: "undercover" as const, count: undercoverRows.length },
     { game: "werewolf" as const, count: werewolfRows.length },
   ];
 
-  const topWorkspaces = (await store.listWorkspaces()).slice(0, 8).map((w) => ({
+  // Only workspaces the caller may open: their memberships, the key's own workspace, or all in open mode.
+  const user = await getRequestUser(req);
+  const visibleWorkspaces = req.headers.get(API_KEY_ID_HEADER)
+    ? (await store.listWorkspaces()).filter((w) => w.id === workspaceId)
+    : user && !user.isAdmin
+      ? await store.listUserWorkspaces({ userId: user.id })
+      : await store.listWorkspaces();
+  const topWorkspaces = visibleWorkspaces.slice(0, 8).map((w) => ({
     id: w.id,
     name: w.name,
     lastActiveAt: w.createdAt,
@@ -136,12 +149,15 @@ export async function GET(req: Request) {
       runningTasks: runningTasksCount,
       messages: filteredMessages.length,
       tokenDelta,
+      usageTokens: usageTotals.totalTokens,
+      costUsd: usageTotals.costUsd,
     },
     charts: {
       messageSeries,
       taskStopReasons,
       modelUsage,
       gameMatches,
+      usageByModel,
     },
     topWorkspaces,
   });
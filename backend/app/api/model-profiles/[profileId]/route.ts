@@ -1,12 +1,24 @@
 export const runtime = "nodejs";
 
-import { store, type ModelProvider } from "@/lib/storage";
+import { store, type ModelProvider, type ModelRetryPolicy } from "@/lib/storage";
 
 function parseProvider(raw: unknown): ModelProvider | undefined {
-  if (raw === "glm" || raw === "openrouter" || raw === "openai_compatible") return raw;
+  if (raw === "glm" || raw === "openrouter" || raw === "openai_compatible" || raw === "anthropic") {
+    return raw;
+  }
   return undefined;
 }
 
+function parseFallbackProfileIds(raw: unknown): string[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.filter((id): id is string => typeof id === "string" && !!id.trim()).map((id) => id.trim());
+}
+
+function parseRetryPolicy(raw: unknown): Partial<ModelRetryPolicy> | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+  return raw as Partial<ModelRetryPolicy>;
+}
+
 export async function PATCH(
   req: Request,
   { params }: { params: Promise<{ profileId: string }> }
@@ -21,6 +33,8 @@ export async function PATCH(
         model?: string;
         apiKey?: string | null;
         headers?: Record<string, string>;
+        fallbackProfileIds?: string[];
+        retryPolicy?: Record<string, unknown>;
         isDefault?: boolean;
       }
     | null;
@@ -38,6 +52,8 @@ export async function PATCH(
     model: body?.model,
     apiKey: body?.apiKey,
     headers: body?.headers,
+    fallbackProfileIds: parseFallbackProfileIds(body?.fallbackProfileIds),
+    retryPolicy: parseRetryPolicy(body?.retryPolicy),
     isDefault: body?.isDefault,
   });
   if (!updated) return Response.json({ error: "Not found" }, { status: 404 });
@@ -1,12 +1,24 @@
 export const runtime = "nodejs";
 
-import { store, type ModelProvider } from "@/lib/storage";
+import { store, type ModelProvider, type ModelRetryPolicy } from "@/lib/storage";
 
 function parseProvider(raw: unknown): ModelProvider | null {
-  if (raw === "glm" || raw === "openrouter" || raw === "openai_compatible") return raw;
+  if (raw === "glm" || raw === "openrouter" || raw === "openai_compatible" || raw === "anthropic") {
+    return raw;
+  }
   return null;
 }
 
+function parseFallbackProfileIds(raw: unknown): string[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.filter((id): id is string => typeof id === "string" && !!id.trim()).map((id) => id.trim());
+}
+
+function parseRetryPolicy(raw: unknown): Partial<ModelRetryPolicy> | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+  return raw as Partial<ModelRetryPolicy>;
+}
+
 export async function GET(req: Request) {
   const url = new URL(req.url);
   const workspaceId = (url.searchParams.get("workspaceId") ?? "").trim();
@@ -30,6 +42,8 @@ export async function POST(req: Request) {
         model?: string;
         apiKey?: string | null;
         headers?: Record<string, string>;
+        fallbackProfileIds?: string[];
+        retryPolicy?: Record<string, unknown>;
         isDefault?: boolean;
       }
     | null;
@@ -52,6 +66,8 @@ export async function POST(req: Request) {
     model,
     apiKey: body?.apiKey ?? null,
     headers: body?.headers ?? {},
+    fallbackProfileIds: parseFallbackProfileIds(body?.fallbackProfileIds),
+    retryPolicy: parseRetryPolicy(body?.retryPolicy),
     isDefault: body?.isDefault ?? false,
   });
   const { apiKey: _apiKey, ...safe } = created;
@@ -1,19 +1,49 @@
 export const runtime = "nodejs";
 
+import { parseSearchKinds, parseSearchTerms } from "@/lib/search";
 import { store } from "@/lib/storage";
 
 type UUID = string;
 
+function isUuid(value: string | null | undefined): value is string {
+  if (!value) return false;
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(
+    value.trim()
+  );
+}
+
 export async function GET(req: Request) {
   const url = new URL(req.url);
   const workspaceId = (url.searchParams.get("workspaceId") ?? "").trim();
   const agentId = (url.searchParams.get("agentId") ?? "").trim();
-  const q = (url.searchParams.get("q") ?? "").trim().toLowerCase();
+  const rawQuery = (url.searchParams.get("q") ?? "").trim();
+  const q = rawQuery.toLowerCase();
   const limit = Math.max(1, Math.min(50, Number(url.searchParams.get("limit") ?? "20") || 20));
+  // Content filters; they only narrow `results`, not the agent/group matches.
+  const groupId = (url.searchParams.get("groupId") ?? "").trim() || undefined;
+  const senderId = (url.searchParams.get("senderId") ?? "").trim() || undefined;
+  const contentType = (url.searchParams.get("contentType") ?? "").trim() || undefined;
 
   if (!workspaceId) {
     return Response.json({ error: "Missing workspaceId" }, { status: 400 });
   }
+  if ((groupId && !isUuid(groupId)) || (senderId && !isUuid(senderId))) {
+    return Response.json({ error: "groupId/senderId must be UUIDs" }, { status: 400 });
+  }
+  const kinds = parseSearchKinds(url.searchParams.get("kinds"));
+  if (typeof kinds === "string") {
+    return Response.json({ error: kinds }, { status: 400 });
+  }
+  const range: { from?: Date; to?: Date } = {};
+  for (const key of ["from", "to"] as const) {
+    const raw = (url.searchParams.get(key) ?? "").trim();
+    if (!raw) continue;
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) {
+      return Response.json({ error: `${key} must be an ISO timestamp` }, { status: 400 });
+    }
+    range[key] = date;
+  }
 
   const agents = await store.listAgentsMeta({ workspaceId });
   const agentResults = agents
@@ -40,5 +70,16 @@ export async function GET(req: Request) {
     })
     .slice(0, limit);
 
-  return Response.json({ agents: agentResults, groups: groupResults });
+  const results = await store.searchContent({
+    workspaceId,
+    terms: parseSearchTerms(rawQuery),
+    kinds,
+    groupId,
+    senderId,
+    contentType,
+    ...range,
+    limit,
+  });
+
+  return Response.json({ agents: agentResults, groups: groupResults, results });
 }
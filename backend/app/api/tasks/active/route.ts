@@ -5,11 +5,19 @@ import { getAgentRuntime } from "@/runtime/agent-runtime";
 export async function GET(req: Request) {
   const url = new URL(req.url);
   const workspaceId = (url.searchParams.get("workspaceId") ?? "").trim();
+  const taskId = (url.searchParams.get("taskId") ?? "").trim();
   if (!workspaceId) {
     return Response.json({ error: "Missing workspaceId" }, { status: 400 });
   }
 
   const runtime = getAgentRuntime();
-  const task = await runtime.getActiveTaskRun(workspaceId);
-  return Response.json({ ok: true, task });
+  if (taskId) {
+    const task = await runtime.getTaskRunState({ taskId });
+    if (!task || task.workspaceId !== workspaceId) {
+      return Response.json({ error: "task not found" }, { status: 404 });
+    }
+    return Response.json({ ok: true, task, tasks: [task] });
+  }
+  const tasks = await runtime.listWorkspaceTaskRuns(workspaceId);
+  return Response.json({ ok: true, task: tasks[0] ?? null, tasks });
 }
@@ -0,0 +1,41 @@
+export const runtime = "nodejs";
+
+import { getRequestUser } from "@/lib/api-auth";
+import { store } from "@/lib/storage";
+import { getAgentRuntime } from "@/runtime/agent-runtime";
+
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as
+    | {
+        workspaceId?: string;
+        taskId?: string;
+        name?: string;
+      }
+    | null;
+
+  const workspaceId = body?.workspaceId?.trim();
+  const taskId = body?.taskId?.trim();
+  if (!workspaceId || !taskId) {
+    return Response.json({ error: "Missing workspaceId/taskId" }, { status: 400 });
+  }
+
+  const fork = await getAgentRuntime().forkTaskRun({ workspaceId, taskId, name: body?.name });
+  if (!fork) {
+    return Response.json({ error: "task not found" }, { status: 404 });
+  }
+
+  // The caller owns the fork, acting through the copy of their own human agent when the fork has one.
+  const user = await getRequestUser(req);
+  if (user) {
+    const member = await store.getWorkspaceMember({ workspaceId, userId: user.id }).catch(() => null);
+    const humanAgentId = member?.humanAgentId ? fork.agentIdMap[member.humanAgentId] : undefined;
+    await store.addWorkspaceMember({
+      workspaceId: fork.workspaceId,
+      userId: user.id,
+      role: "owner",
+      humanAgentId,
+      defaultGroupId: humanAgentId ? fork.rootGroupId : undefined,
+    });
+  }
+  return Response.json({ ok: true, fork });
+}
@@ -0,0 +1,24 @@
+export const runtime = "nodejs";
+
+import { getAgentRuntime } from "@/runtime/agent-runtime";
+
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as
+    | {
+        workspaceId?: string;
+        taskId?: string;
+      }
+    | null;
+
+  const workspaceId = body?.workspaceId?.trim();
+  const taskId = body?.taskId?.trim();
+  if (!workspaceId || !taskId) {
+    return Response.json({ error: "Missing workspaceId/taskId" }, { status: 400 });
+  }
+
+  const task = await getAgentRuntime().pauseTaskRun({ workspaceId, taskId });
+  if (!task) {
+    return Response.json({ error: "Task is not running" }, { status: 409 });
+  }
+  return Response.json({ ok: true, task });
+}
@@ -9,6 +9,8 @@ export async function GET(req: Request) {
     return Response.json({ error: "Missing taskId" }, { status: 400 });
   }
   const review = await store.getTaskReview({ taskId });
-  return Response.json({ ok: true, review });
+  // Listed live rather than read from reviewJson, so files written after the review show up too.
+  const artifacts = review ? await store.listArtifacts({ workspaceId: review.workspaceId, taskRunId: taskId }) : [];
+  return Response.json({ ok: true, review, artifacts });
 }
 
@@ -1,7 +1,10 @@
 export const runtime = "nodejs";
 
 import { getAgentRuntime } from "@/runtime/agent-runtime";
-import { buildTemplateGoal, getTaskTemplate } from "@/lib/task-templates";
+import { parseCompletionConfig } from "@/runtime/completion-detector";
+import { store } from "@/lib/storage";
+import { renderTemplateGoal, resolveTemplateVariables } from "@/lib/task-templates";
+import { getWorkflowPreset } from "@/lib/workflows";
 
 export async function POST(req: Request) {
   const body = (await req.json().catch(() => null)) as
@@ -9,12 +12,20 @@ export async function POST(req: Request) {
         workspaceId?: string;
         groupId?: string;
         ownerAgentId?: string;
+        /** Template id or slug. */
         templateId?: string;
+        /** Defaults to the latest version. */
+        templateVersion?: number;
+        /** Shorthand for `variables.topic`. */
         topic?: string;
+        variables?: Record<string, unknown>;
         overrides?: {
           maxDurationMs?: number;
           maxTurns?: number;
           maxTokenDelta?: number;
+          maxCostUsd?: number;
+          maxUsageTokens?: number;
+          completion?: unknown;
         };
       }
     | null;
@@ -22,16 +33,36 @@ export async function POST(req: Request) {
   const workspaceId = body?.workspaceId?.trim();
   const groupId = body?.groupId?.trim() || undefined;
   const ownerAgentId = body?.ownerAgentId?.trim();
-  const template = getTaskTemplate(body?.templateId);
+  const templateId = body?.templateId?.trim();
 
-  if (!workspaceId || !ownerAgentId || !template) {
+  if (!workspaceId || !ownerAgentId || !templateId) {
     return Response.json(
       { error: "Missing workspaceId/ownerAgentId/templateId" },
       { status: 400 }
     );
   }
+  const templateVersion = body?.templateVersion;
+  if (templateVersion !== undefined && (!Number.isInteger(templateVersion) || templateVersion < 1)) {
+    return Response.json({ error: "templateVersion must be a positive integer" }, { status: 400 });
+  }
+
+  const template = await store.getTaskTemplate({ workspaceId, ref: templateId, version: templateVersion });
+  if (!template) return Response.json({ error: "template not found" }, { status: 404 });
+  if (template.archivedAt) return Response.json({ error: "template is archived" }, { status: 409 });
+
+  const variables = resolveTemplateVariables(template, body?.variables, body?.topic);
+  if (!variables.ok) return Response.json({ error: `Invalid variables: ${variables.error}` }, { status: 400 });
+
+  const completion = parseCompletionConfig(body?.overrides?.completion);
+  if (!completion.ok) return Response.json({ error: `Invalid completion: ${completion.error}` }, { status: 400 });
 
-  const goal = buildTemplateGoal(template, body?.topic ?? "");
+  const personas = await store.findAgentPersonasByName({ workspaceId, names: template.personas });
+  if (personas.missing.length > 0) {
+    return Response.json({ error: `unknown persona: ${personas.missing.join(", ")}` }, { status: 409 });
+  }
+
+  const goal = renderTemplateGoal(template, variables.values);
+  const topic = typeof variables.values.topic === "string" ? variables.values.topic : (body?.topic ?? "");
 
   const runtime = getAgentRuntime();
   const task = await runtime.startTaskRun({
@@ -39,12 +70,25 @@ export async function POST(req: Request) {
     rootGroupId: groupId,
     ownerAgentId,
     goal,
-    maxDurationMs:
-      Math.max(1, body?.overrides?.maxDurationMs ?? template.suggestedDurationMin * 60 * 1000),
-    maxTurns: Math.max(1, body?.overrides?.maxTurns ?? template.defaultMaxTurns),
-    maxTokenDelta: Math.max(1000, body?.overrides?.maxTokenDelta ?? template.defaultMaxTokenDelta),
+    maxDurationMs: Math.max(1, body?.overrides?.maxDurationMs ?? template.budget.maxDurationMs),
+    maxTurns: Math.max(1, body?.overrides?.maxTurns ?? template.budget.maxTurns),
+    maxTokenDelta: Math.max(1000, body?.overrides?.maxTokenDelta ?? template.budget.maxTokenDelta),
+    maxCostUsd: body?.overrides?.maxCostUsd ?? template.budget.maxCostUsd ?? undefined,
+    maxUsageTokens: body?.overrides?.maxUsageTokens ?? template.budget.maxUsageTokens ?? undefined,
+    workflow: getWorkflowPreset(template.workflowId) ?? undefined,
+    topic,
+    completion: completion.config,
+    template: { id: template.id, version: template.version },
+    personas: template.personas.map((name) => personas.byName.get(name)!),
   });
 
-  return Response.json({ ok: true, task, templateId: template.id, goal });
+  return Response.json({
+    ok: true,
+    task,
+    templateId: template.id,
+    templateVersion: template.version,
+    variables: variables.values,
+    goal,
+  });
 }
 
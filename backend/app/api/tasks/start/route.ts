@@ -1,6 +1,8 @@
 ﻿export const runtime = "nodejs";
 
+import { getWorkflowPreset, parseWorkflowDefinition, type WorkflowDefinition } from "@/lib/workflows";
 import { getAgentRuntime } from "@/runtime/agent-runtime";
+import { parseCompletionConfig } from "@/runtime/completion-detector";
 
 export async function POST(req: Request) {
   const body = (await req.json().catch(() => null)) as
@@ -12,6 +14,12 @@ export async function POST(req: Request) {
         maxDurationMs?: number;
         maxTurns?: number;
         maxTokenDelta?: number;
+        maxCostUsd?: number;
+        maxUsageTokens?: number;
+        workflowId?: string;
+        workflow?: unknown;
+        topic?: string;
+        completion?: unknown;
       }
     | null;
 
@@ -25,6 +33,19 @@ export async function POST(req: Request) {
     );
   }
 
+  let workflow: WorkflowDefinition | undefined;
+  if (body?.workflow !== undefined) {
+    const parsed = parseWorkflowDefinition(body.workflow);
+    if (!parsed.ok) return Response.json({ error: `Invalid workflow: ${parsed.error}` }, { status: 400 });
+    workflow = parsed.workflow;
+  } else if (body?.workflowId?.trim()) {
+    workflow = getWorkflowPreset(body.workflowId.trim()) ?? undefined;
+    if (!workflow) return Response.json({ error: "Unknown workflowId" }, { status: 404 });
+  }
+
+  const completion = parseCompletionConfig(body?.completion);
+  if (!completion.ok) return Response.json({ error: `Invalid completion: ${completion.error}` }, { status: 400 });
+
   const runtime = getAgentRuntime();
   const active = await runtime.startTaskRun({
     workspaceId,
@@ -34,6 +55,11 @@ export async function POST(req: Request) {
     maxDurationMs: body?.maxDurationMs,
     maxTurns: body?.maxTurns,
     maxTokenDelta: body?.maxTokenDelta,
+    maxCostUsd: body?.maxCostUsd,
+    maxUsageTokens: body?.maxUsageTokens,
+    workflow,
+    topic: body?.topic,
+    completion: completion.config,
   });
 
   return Response.json({ ok: true, task: active });
@@ -6,16 +6,18 @@ export async function POST(req: Request) {
   const body = (await req.json().catch(() => null)) as
     | {
         workspaceId?: string;
+        taskId?: string;
       }
     | null;
 
   const workspaceId = body?.workspaceId?.trim();
-  if (!workspaceId) {
-    return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const taskId = body?.taskId?.trim();
+  if (!workspaceId || !taskId) {
+    return Response.json({ error: "Missing workspaceId/taskId" }, { status: 400 });
   }
 
   const runtime = getAgentRuntime();
-  const result = await runtime.stopTaskRun({ workspaceId, reason: "manual" });
+  const result = await runtime.stopTaskRun({ workspaceId, taskId, reason: "manual" });
   return Response.json({ ok: true, task: result });
 }
 
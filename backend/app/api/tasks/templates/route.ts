@@ -1,8 +1,12 @@
 export const runtime = "nodejs";
 
-import { TASK_TEMPLATES } from "@/lib/task-templates";
+import { store } from "@/lib/storage";
 
-export async function GET() {
-  return Response.json({ ok: true, templates: TASK_TEMPLATES });
+/** Latest version of every active template in the workspace; built-ins are seeded on first use. */
+export async function GET(req: Request) {
+  const workspaceId = (new URL(req.url).searchParams.get("workspaceId") ?? "").trim();
+  if (!workspaceId) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  await store.ensurePresetTaskTemplates({ workspaceId });
+  const templates = await store.listTaskTemplates({ workspaceId });
+  return Response.json({ ok: true, templates });
 }
-
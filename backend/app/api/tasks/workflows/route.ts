@@ -0,0 +1,7 @@
+export const runtime = "nodejs";
+
+import { WORKFLOW_PRESETS } from "@/lib/workflows";
+
+export async function GET() {
+  return Response.json({ ok: true, workflows: WORKFLOW_PRESETS });
+}
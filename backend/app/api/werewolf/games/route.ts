@@ -1,5 +1,6 @@
 export const runtime = "nodejs";
 
+import { resolveSeatPersonas } from "@/game/personas";
 import { createWerewolfGame, listWerewolfGames } from "@/game/werewolf/service";
 
 export async function GET(req: Request) {
@@ -19,10 +20,21 @@ export async function GET(req: Request) {
 
 export async function POST(req: Request) {
   try {
-    const body = (await req.json().catch(() => null)) as { workspaceId?: string; humanAgentId?: string | null } | null;
+    const body = (await req.json().catch(() => null)) as {
+      workspaceId?: string;
+      humanAgentId?: string | null;
+      /** Persona names for the AI seats in order; null or "" keeps a seat on its strategy alone. */
+      personas?: Array<string | null>;
+    } | null;
     const workspaceId = (body?.workspaceId ?? "").trim();
     if (!workspaceId) return Response.json({ error: "workspaceId is required" }, { status: 400 });
-    const result = await createWerewolfGame({ workspaceId, humanAgentId: body?.humanAgentId ?? null });
+    const seats = await resolveSeatPersonas(workspaceId, body?.personas);
+    if (!seats.ok) return Response.json({ error: seats.error }, { status: 400 });
+    const result = await createWerewolfGame({
+      workspaceId,
+      humanAgentId: body?.humanAgentId ?? null,
+      personas: seats.personas,
+    });
     return Response.json(result, { status: 201 });
   } catch (e) {
     return Response.json(
@@ -0,0 +1,15 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; keyId: string }> }
+) {
+  const { workspaceId, keyId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!keyId?.trim()) return Response.json({ error: "Missing keyId" }, { status: 400 });
+  const key = await store.revokeApiKey({ id: keyId.trim(), workspaceId: workspaceId.trim() });
+  if (!key) return Response.json({ error: "key not found" }, { status: 404 });
+  return Response.json({ ok: true, key });
+}
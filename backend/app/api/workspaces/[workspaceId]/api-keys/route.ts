@@ -0,0 +1,44 @@
+export const runtime = "nodejs";
+
+import { generateApiKey, parseApiKeyScopes } from "@/lib/api-keys";
+import { store } from "@/lib/storage";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const keys = await store.listApiKeys({ workspaceId: workspaceId.trim() });
+  return Response.json({ ok: true, keys });
+}
+
+/** Issues a key; the token is returned only in this response. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        name?: string;
+        scopes?: unknown;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const name = body?.name?.trim();
+  if (!name) return Response.json({ error: "Missing name" }, { status: 400 });
+  const scopes = parseApiKeyScopes(body?.scopes);
+  if (!scopes.ok) return Response.json({ error: `Invalid scopes: ${scopes.error}` }, { status: 400 });
+
+  const generated = generateApiKey();
+  const key = await store.createApiKey({
+    workspaceId: workspaceId.trim(),
+    name,
+    prefix: generated.prefix,
+    keyHash: generated.keyHash,
+    scopes: scopes.scopes,
+  });
+  return Response.json({ ok: true, key, token: generated.token }, { status: 201 });
+}
@@ -0,0 +1,33 @@
+export const runtime = "nodejs";
+
+import { readArtifactBytes } from "@/lib/artifact-blobs";
+import { store } from "@/lib/storage";
+
+/**
+ * Serves the raw bytes. Raster images render inline and every other previewable
+ * file is served as plain text, so HTML or SVG never runs in the app's origin;
+ * the rest downloads.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; artifactId: string }> }
+) {
+  const { workspaceId, artifactId } = await params;
+  const artifact = await store.getArtifact({ workspaceId, id: artifactId });
+  if (!artifact) return Response.json({ error: "artifact not found" }, { status: 404 });
+  const bytes = await readArtifactBytes(artifact);
+  if (!bytes) return Response.json({ error: "artifact content is missing from storage" }, { status: 410 });
+
+  const download = new URL(req.url).searchParams.get("download") === "1";
+  const inline = !download && artifact.previewKind !== "binary";
+  const contentType = artifact.previewKind === "image" ? artifact.mimeType : inline ? "text/plain; charset=utf-8" : artifact.mimeType;
+  return new Response(new Uint8Array(bytes), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Length": String(bytes.length),
+      "Content-Disposition": `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(artifact.name)}`,
+      "X-Content-Type-Options": "nosniff",
+      "Cache-Control": "private, max-age=31536000, immutable",
+    },
+  });
+}
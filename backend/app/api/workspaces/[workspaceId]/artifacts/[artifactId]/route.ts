@@ -0,0 +1,13 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; artifactId: string }> }
+) {
+  const { workspaceId, artifactId } = await params;
+  const artifact = await store.getArtifact({ workspaceId, id: artifactId });
+  if (!artifact) return Response.json({ error: "artifact not found" }, { status: 404 });
+  return Response.json({ ok: true, artifact });
+}
@@ -0,0 +1,66 @@
+export const runtime = "nodejs";
+
+import { saveArtifact } from "@/lib/artifact-blobs";
+import { decodeArtifactContent, guessMimeType, normalizeArtifactName } from "@/lib/artifacts";
+import { store } from "@/lib/storage";
+
+function isUuid(value: string | null | undefined): value is string {
+  if (!value) return false;
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(
+    value.trim()
+  );
+}
+
+/** Lists artifact metadata, newest first; `taskId` narrows to what one task run produced. */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const url = new URL(req.url);
+  const taskId = (url.searchParams.get("taskId") ?? "").trim() || undefined;
+  const groupId = (url.searchParams.get("groupId") ?? "").trim() || undefined;
+  const limit = Number(url.searchParams.get("limit") ?? "100") || 100;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if ((taskId && !isUuid(taskId)) || (groupId && !isUuid(groupId))) {
+    return Response.json({ error: "taskId/groupId must be UUIDs" }, { status: 400 });
+  }
+  const artifacts = await store.listArtifacts({ workspaceId: workspaceId.trim(), taskRunId: taskId, groupId, limit });
+  return Response.json({ ok: true, artifacts });
+}
+
+/** Uploads `{ name, content, encoding?, mimeType?, groupId? }`; binary files are sent base64-encoded. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as {
+    name?: string;
+    content?: string;
+    encoding?: string;
+    mimeType?: string;
+    groupId?: string;
+  } | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const name = normalizeArtifactName(body?.name);
+  if (!name) return Response.json({ error: "name must be a file name" }, { status: 400 });
+  const decoded = decodeArtifactContent(body?.content, body?.encoding);
+  if (!decoded.ok) return Response.json({ error: decoded.error }, { status: 400 });
+  const groupId = (body?.groupId ?? "").trim() || null;
+  if (groupId) {
+    const groupWorkspaceId = isUuid(groupId) ? await store.getGroupWorkspaceId({ groupId }).catch(() => null) : null;
+    if (groupWorkspaceId !== workspaceId.trim()) return Response.json({ error: "group not found" }, { status: 404 });
+  }
+
+  const artifact = await saveArtifact({
+    workspaceId: workspaceId.trim(),
+    name,
+    mimeType: guessMimeType(name, body?.mimeType),
+    bytes: decoded.bytes,
+    groupId,
+  });
+  return Response.json({ ok: true, artifact }, { status: 201 });
+}
@@ -0,0 +1,24 @@
+export const runtime = "nodejs";
+
+import { toBlueprintExport } from "@/lib/blueprints";
+import { store } from "@/lib/storage";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; blueprintId: string }> }
+) {
+  const { workspaceId, blueprintId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!blueprintId?.trim()) return Response.json({ error: "Missing blueprintId" }, { status: 400 });
+  const blueprint = await store.getBlueprint({ id: blueprintId.trim(), workspaceId: workspaceId.trim() });
+  if (!blueprint) return Response.json({ error: "blueprint not found" }, { status: 404 });
+
+  const { id: _id, workspaceId: _workspaceId, source: _source, createdAt: _createdAt, updatedAt: _updatedAt, ...definition } =
+    blueprint;
+  return new Response(JSON.stringify(toBlueprintExport(definition), null, 2), {
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Disposition": `attachment; filename="blueprint-${blueprint.id.slice(0, 8)}.json"`,
+    },
+  });
+}
@@ -0,0 +1,58 @@
+export const runtime = "nodejs";
+
+import { checkBlueprintModelProfiles, checkBlueprintPersonas, parseBlueprintDefinition } from "@/lib/blueprints";
+import { store } from "@/lib/storage";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; blueprintId: string }> }
+) {
+  const { workspaceId, blueprintId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!blueprintId?.trim()) return Response.json({ error: "Missing blueprintId" }, { status: 400 });
+  const blueprint = await store.getBlueprint({ id: blueprintId.trim(), workspaceId: workspaceId.trim() });
+  if (!blueprint) return Response.json({ error: "blueprint not found" }, { status: 404 });
+  return Response.json({ ok: true, blueprint });
+}
+
+/** Replaces the whole definition, as saved by the editor. */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; blueprintId: string }> }
+) {
+  const { workspaceId, blueprintId } = await params;
+  const body = (await req.json().catch(() => null)) as { blueprint?: unknown } | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!blueprintId?.trim()) return Response.json({ error: "Missing blueprintId" }, { status: 400 });
+  if (!body?.blueprint) return Response.json({ error: "Missing blueprint" }, { status: 400 });
+  const parsed = parseBlueprintDefinition(body.blueprint);
+  if (!parsed.ok) return Response.json({ error: `Invalid blueprint: ${parsed.error}` }, { status: 400 });
+
+  const profiles = await store.listModelProfiles({ workspaceId: workspaceId.trim() });
+  const profileError = checkBlueprintModelProfiles(parsed.definition, profiles.map((p) => p.id));
+  if (profileError) return Response.json({ error: `Invalid blueprint: ${profileError}` }, { status: 400 });
+  const personas = await store.listAgentPersonas({ workspaceId: workspaceId.trim() });
+  const personaError = checkBlueprintPersonas(parsed.definition, personas.map((p) => p.name));
+  if (personaError) return Response.json({ error: `Invalid blueprint: ${personaError}` }, { status: 400 });
+
+  const blueprint = await store.updateBlueprint({
+    id: blueprintId.trim(),
+    workspaceId: workspaceId.trim(),
+    definition: parsed.definition,
+  });
+  if (!blueprint) return Response.json({ error: "blueprint not found" }, { status: 404 });
+  return Response.json({ ok: true, blueprint });
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; blueprintId: string }> }
+) {
+  const { workspaceId, blueprintId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!blueprintId?.trim()) return Response.json({ error: "Missing blueprintId" }, { status: 400 });
+  const deleted = await store.deleteBlueprint({ id: blueprintId.trim(), workspaceId: workspaceId.trim() });
+  if (!deleted) return Response.json({ error: "blueprint not found" }, { status: 404 });
+  return Response.json({ ok: true });
+}
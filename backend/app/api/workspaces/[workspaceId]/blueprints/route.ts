@@ -0,0 +1,40 @@
+export const runtime = "nodejs";
+
+import { checkBlueprintModelProfiles, checkBlueprintPersonas, parseBlueprintDefinition, unwrapBlueprintImport } from "@/lib/blueprints";
+import { store } from "@/lib/storage";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const blueprints = await store.listBlueprints({ workspaceId: workspaceId.trim() });
+  return Response.json({ ok: true, blueprints });
+}
+
+/** Creates a custom blueprint from `{ blueprint }`, which may also be a file from the export route. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as { blueprint?: unknown } | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!body?.blueprint) return Response.json({ error: "Missing blueprint" }, { status: 400 });
+  const unwrapped = unwrapBlueprintImport(body.blueprint);
+  if (!unwrapped.ok) return Response.json({ error: `Invalid blueprint: ${unwrapped.error}` }, { status: 400 });
+  const parsed = parseBlueprintDefinition(unwrapped.definition);
+  if (!parsed.ok) return Response.json({ error: `Invalid blueprint: ${parsed.error}` }, { status: 400 });
+
+  const profiles = await store.listModelProfiles({ workspaceId: workspaceId.trim() });
+  const profileError = checkBlueprintModelProfiles(parsed.definition, profiles.map((p) => p.id));
+  if (profileError) return Response.json({ error: `Invalid blueprint: ${profileError}` }, { status: 400 });
+  const personas = await store.listAgentPersonas({ workspaceId: workspaceId.trim() });
+  const personaError = checkBlueprintPersonas(parsed.definition, personas.map((p) => p.name));
+  if (personaError) return Response.json({ error: `Invalid blueprint: ${personaError}` }, { status: 400 });
+
+  const blueprint = await store.createBlueprint({ workspaceId: workspaceId.trim(), definition: parsed.definition });
+  return Response.json({ ok: true, blueprint }, { status: 201 });
+}
@@ -1,14 +1,26 @@
 export const runtime = "nodejs";
 
+import { getRequestUser } from "@/lib/api-auth";
 import { store } from "@/lib/storage";
 
 export async function GET(
-  _req: Request,
+  req: Request,
   { params }: { params: Promise<{ workspaceId: string }> }
 ) {
   const { workspaceId } = await params;
   const result = await store.ensureWorkspaceDefaults({ workspaceId });
   await store.ensurePresetModelProfiles({ workspaceId });
+
+  // A signed-in member talks through their own human agent and assistant chat.
+  const user = await getRequestUser(req);
+  const member = user ? await store.getWorkspaceMember({ workspaceId, userId: user.id }) : null;
+  if (member) {
+    return Response.json({
+      ...result,
+      humanAgentId: member.humanAgentId,
+      defaultGroupId: member.defaultGroupId,
+      role: member.role,
+    });
+  }
   return Response.json(result);
 }
-
@@ -0,0 +1,24 @@
+export const runtime = "nodejs";
+
+import { exportWorkspaceArchive } from "@/lib/workspace-archive";
+
+/** Downloads the workspace as a versioned JSON archive; model profile secrets are redacted unless `redactSecrets=false`. */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const redactSecrets = new URL(req.url).searchParams.get("redactSecrets") !== "false";
+
+  const archive = await exportWorkspaceArchive({ workspaceId: workspaceId.trim(), redactSecrets });
+  if (!archive) return Response.json({ error: "workspace not found" }, { status: 404 });
+
+  const fileName = `workspace-${archive.workspace.id.slice(0, 8)}-${archive.exportedAt.slice(0, 10)}.json`;
+  return new Response(JSON.stringify(archive), {
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+    },
+  });
+}
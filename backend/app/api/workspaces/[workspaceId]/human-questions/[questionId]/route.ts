@@ -0,0 +1,42 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+import { getAgentRuntime } from "@/runtime/agent-runtime";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; questionId: string }> }
+) {
+  const { workspaceId, questionId } = await params;
+  const question = await store.getHumanQuestion({ workspaceId: workspaceId.trim(), id: questionId.trim() });
+  if (!question) return Response.json({ error: "Question not found" }, { status: 404 });
+  return Response.json({ ok: true, question });
+}
+
+/** Answers a pending ask_human question; the answer becomes the waiting agent's tool result. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; questionId: string }> }
+) {
+  const { workspaceId, questionId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        answer?: unknown;
+        answeredBy?: string;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!questionId?.trim()) return Response.json({ error: "Missing questionId" }, { status: 400 });
+
+  const result = await getAgentRuntime().answerHumanQuestion({
+    workspaceId: workspaceId.trim(),
+    questionId: questionId.trim(),
+    answer: body?.answer,
+    answeredBy: body?.answeredBy?.trim() || null,
+  });
+  if (!result.ok) {
+    return Response.json({ error: result.error }, { status: result.status });
+  }
+  return Response.json({ ok: true });
+}
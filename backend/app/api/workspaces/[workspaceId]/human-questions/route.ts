@@ -0,0 +1,27 @@
+export const runtime = "nodejs";
+
+import { store, type HumanQuestionStatus } from "@/lib/storage";
+
+const STATUSES: HumanQuestionStatus[] = ["pending", "answered", "expired", "cancelled"];
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+
+  const url = new URL(req.url);
+  const rawStatus = url.searchParams.get("status")?.trim() ?? "";
+  if (rawStatus && !(STATUSES as string[]).includes(rawStatus)) {
+    return Response.json({ error: "Invalid status" }, { status: 400 });
+  }
+  const limit = Number(url.searchParams.get("limit") ?? "");
+
+  const questions = await store.listHumanQuestions({
+    workspaceId: workspaceId.trim(),
+    status: rawStatus ? (rawStatus as HumanQuestionStatus) : undefined,
+    limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+  });
+  return Response.json({ ok: true, questions });
+}
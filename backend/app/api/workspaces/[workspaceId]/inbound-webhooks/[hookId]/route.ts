@@ -0,0 +1,49 @@
+export const runtime = "nodejs";
+
+import { parseInboundTemplate } from "@/lib/inbound-webhooks";
+import { store } from "@/lib/storage";
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; hookId: string }> }
+) {
+  const { workspaceId, hookId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        name?: string;
+        template?: unknown;
+        enabled?: boolean;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!hookId?.trim()) return Response.json({ error: "Missing hookId" }, { status: 400 });
+  let template: string | undefined;
+  if (body?.template !== undefined) {
+    const parsed = parseInboundTemplate(body.template);
+    if (!parsed.ok) return Response.json({ error: `Invalid template: ${parsed.error}` }, { status: 400 });
+    template = parsed.template;
+  }
+
+  const hook = await store.updateInboundWebhook({
+    id: hookId.trim(),
+    workspaceId: workspaceId.trim(),
+    name: body?.name?.trim() || undefined,
+    template,
+    enabled: body?.enabled,
+  });
+  if (!hook) return Response.json({ error: "hook not found" }, { status: 404 });
+  return Response.json({ ok: true, hook });
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; hookId: string }> }
+) {
+  const { workspaceId, hookId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!hookId?.trim()) return Response.json({ error: "Missing hookId" }, { status: 400 });
+  const deleted = await store.deleteInboundWebhook({ id: hookId.trim(), workspaceId: workspaceId.trim() });
+  if (!deleted) return Response.json({ error: "hook not found" }, { status: 404 });
+  return Response.json({ ok: true });
+}
@@ -0,0 +1,50 @@
+export const runtime = "nodejs";
+
+import { parseInboundTemplate } from "@/lib/inbound-webhooks";
+import { store } from "@/lib/storage";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const hooks = await store.listInboundWebhooks({ workspaceId: workspaceId.trim() });
+  return Response.json({ ok: true, hooks });
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        name?: string;
+        groupId?: string;
+        template?: unknown;
+        enabled?: boolean;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const name = body?.name?.trim();
+  const groupId = body?.groupId?.trim();
+  if (!name || !groupId) return Response.json({ error: "Missing name/groupId" }, { status: 400 });
+  const template = parseInboundTemplate(body?.template);
+  if (!template.ok) return Response.json({ error: `Invalid template: ${template.error}` }, { status: 400 });
+
+  const groupWorkspaceId = await store.getGroupWorkspaceId({ groupId }).catch(() => null);
+  if (groupWorkspaceId !== workspaceId.trim()) {
+    return Response.json({ error: "group not found" }, { status: 404 });
+  }
+
+  const hook = await store.createInboundWebhook({
+    workspaceId: workspaceId.trim(),
+    name,
+    groupId,
+    template: template.template,
+    enabled: body?.enabled ?? true,
+  });
+  return Response.json({ ok: true, hook }, { status: 201 });
+}
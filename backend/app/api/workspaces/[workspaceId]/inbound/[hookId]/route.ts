@@ -0,0 +1,82 @@
+export const runtime = "nodejs";
+
+import { API_KEY_WORKSPACE_HEADER } from "@/lib/api-keys";
+import { renderInboundTemplate } from "@/lib/inbound-webhooks";
+import { resolveMentions } from "@/lib/message-meta";
+import { store } from "@/lib/storage";
+import { getAgentRuntime } from "@/runtime/agent-runtime";
+import { getWorkspaceUIBus } from "@/runtime/ui-bus";
+
+/**
+ * Receives an external event and posts it into the hook's group as the hook's
+ * integration agent. Unlike the UI routes this always requires an API key with
+ * the "post" scope; the auth proxy has already checked scope and workspace.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; hookId: string }> }
+) {
+  const { workspaceId, hookId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!hookId?.trim()) return Response.json({ error: "Missing hookId" }, { status: 400 });
+  if (req.headers.get(API_KEY_WORKSPACE_HEADER) !== workspaceId.trim()) {
+    return Response.json({ error: "API key required" }, { status: 401 });
+  }
+
+  const hook = await store.getInboundWebhook({ id: hookId.trim(), workspaceId: workspaceId.trim() });
+  if (!hook) return Response.json({ error: "hook not found" }, { status: 404 });
+  if (!hook.enabled) return Response.json({ error: "hook is disabled" }, { status: 409 });
+
+  const raw = await req.text().catch(() => "");
+  let payload: unknown = null;
+  try {
+    payload = raw.trim() ? JSON.parse(raw) : null;
+  } catch {
+    payload = null;
+  }
+  const query = Object.fromEntries(new URL(req.url).searchParams.entries());
+  const content = renderInboundTemplate(hook.template, { payload: payload ?? raw, body: raw, query }).trim();
+  if (!content) return Response.json({ error: "Rendered message is empty" }, { status: 400 });
+
+  // Templates may address members with @role; explicit mention lists are not part of the hook contract.
+  const mentions = resolveMentions({
+    mentions: null,
+    content,
+    members: await store.listGroupMemberRoles({ groupId: hook.groupId }),
+  });
+  const mentionIds = mentions.ok ? mentions.ids : [];
+
+  const result = await store.sendMessage({
+    groupId: hook.groupId,
+    senderId: hook.senderAgentId,
+    content,
+    contentType: "text",
+    mentions: mentionIds,
+  });
+
+  const memberIds = await store.listGroupMemberIds({ groupId: hook.groupId });
+  getWorkspaceUIBus().emit(hook.workspaceId, {
+    event: "ui.message.created",
+    data: {
+      workspaceId: hook.workspaceId,
+      groupId: hook.groupId,
+      memberIds,
+      message: {
+        id: result.id,
+        senderId: hook.senderAgentId,
+        sendTime: result.sendTime,
+        content,
+        contentType: "text",
+        mentions: mentionIds,
+      },
+    },
+  });
+
+  void getAgentRuntime().wakeAgentsForGroup(hook.groupId, hook.senderAgentId, {
+    content,
+    contentType: "text",
+    mentions: mentionIds,
+  });
+
+  return Response.json({ ok: true, messageId: result.id }, { status: 201 });
+}
@@ -0,0 +1,52 @@
+export const runtime = "nodejs";
+
+import { parseWorkspaceRole } from "@/lib/auth";
+import { store } from "@/lib/storage";
+
+type UUID = string;
+
+/** True when removing or demoting this member would leave the workspace without an owner. */
+async function isLastOwner(workspaceId: UUID, userId: UUID) {
+  const owners = (await store.listWorkspaceMembers({ workspaceId })).filter((m) => m.role === "owner");
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; userId: string }> }
+) {
+  const { workspaceId, userId } = await params;
+  const body = (await req.json().catch(() => null)) as { role?: string } | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!userId?.trim()) return Response.json({ error: "Missing userId" }, { status: 400 });
+  const role = parseWorkspaceRole(body?.role);
+  if (!role) return Response.json({ error: "role must be owner, editor or viewer" }, { status: 400 });
+
+  if (role !== "owner" && (await isLastOwner(workspaceId.trim(), userId.trim()))) {
+    return Response.json({ error: "workspace needs at least one owner" }, { status: 409 });
+  }
+  const member = await store.updateWorkspaceMemberRole({
+    workspaceId: workspaceId.trim(),
+    userId: userId.trim(),
+    role,
+  });
+  if (!member) return Response.json({ error: "member not found" }, { status: 404 });
+  return Response.json({ ok: true, member });
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; userId: string }> }
+) {
+  const { workspaceId, userId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!userId?.trim()) return Response.json({ error: "Missing userId" }, { status: 400 });
+
+  if (await isLastOwner(workspaceId.trim(), userId.trim())) {
+    return Response.json({ error: "workspace needs at least one owner" }, { status: 409 });
+  }
+  const removed = await store.removeWorkspaceMember({ workspaceId: workspaceId.trim(), userId: userId.trim() });
+  if (!removed) return Response.json({ error: "member not found" }, { status: 404 });
+  return Response.json({ ok: true });
+}
@@ -0,0 +1,43 @@
+export const runtime = "nodejs";
+
+import { normalizeUsername, parseWorkspaceRole } from "@/lib/auth";
+import { store } from "@/lib/storage";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const members = await store.listWorkspaceMembers({ workspaceId: workspaceId.trim() });
+  return Response.json({ ok: true, members });
+}
+
+/** Adds an existing user; they get their own human agent and assistant chat in this workspace. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        username?: string;
+        role?: string;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const username = normalizeUsername(body?.username);
+  if (!username) return Response.json({ error: "Missing username" }, { status: 400 });
+  const role = parseWorkspaceRole(body?.role ?? "editor");
+  if (!role) return Response.json({ error: "role must be owner, editor or viewer" }, { status: 400 });
+
+  const user = await store.findUserByUsername({ username });
+  if (!user) return Response.json({ error: "user not found" }, { status: 404 });
+  if (await store.getWorkspaceMember({ workspaceId: workspaceId.trim(), userId: user.id })) {
+    return Response.json({ error: "user is already a member" }, { status: 409 });
+  }
+
+  const member = await store.addWorkspaceMember({ workspaceId: workspaceId.trim(), userId: user.id, role });
+  return Response.json({ ok: true, member }, { status: 201 });
+}
@@ -0,0 +1,66 @@
+export const runtime = "nodejs";
+
+import { checkPersonaReferences, parsePersonaDefinition } from "@/lib/personas";
+import { store } from "@/lib/storage";
+import { getSkillLoader } from "@/runtime/skill-loader";
+
+/** `personaId` may also be the persona name. */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; personaId: string }> }
+) {
+  const { workspaceId, personaId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!personaId?.trim()) return Response.json({ error: "Missing personaId" }, { status: 400 });
+  const persona = await store.getAgentPersona({ workspaceId: workspaceId.trim(), ref: personaId.trim() });
+  if (!persona) return Response.json({ error: "persona not found" }, { status: 404 });
+  return Response.json({ ok: true, persona });
+}
+
+/**
+ * Replaces the definition. Agents already built from the persona pick up its tools
+ * and decode parameters at once; prompt, skills and model profile shape agents built afterwards.
+ */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; personaId: string }> }
+) {
+  const { workspaceId, personaId } = await params;
+  const body = (await req.json().catch(() => null)) as { persona?: unknown } | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!personaId?.trim()) return Response.json({ error: "Missing personaId" }, { status: 400 });
+  if (!body?.persona) return Response.json({ error: "Missing persona" }, { status: 400 });
+  const parsed = parsePersonaDefinition(body.persona);
+  if (!parsed.ok) return Response.json({ error: `Invalid persona: ${parsed.error}` }, { status: 400 });
+  const profiles = await store.listModelProfiles({ workspaceId: workspaceId.trim() });
+  const skills = await (await getSkillLoader()).listSkills();
+  const referenceError = checkPersonaReferences(parsed.definition, {
+    modelProfileIds: profiles.map((p) => p.id),
+    skills,
+  });
+  if (referenceError) return Response.json({ error: `Invalid persona: ${referenceError}` }, { status: 400 });
+
+  const existing = await store.getAgentPersona({ workspaceId: workspaceId.trim(), ref: personaId.trim() });
+  if (!existing) return Response.json({ error: "persona not found" }, { status: 404 });
+  const persona = await store.updateAgentPersona({
+    id: existing.id,
+    workspaceId: workspaceId.trim(),
+    definition: parsed.definition,
+  });
+  if (!persona) return Response.json({ error: "persona not found" }, { status: 404 });
+  return Response.json({ ok: true, persona });
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; personaId: string }> }
+) {
+  const { workspaceId, personaId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!personaId?.trim()) return Response.json({ error: "Missing personaId" }, { status: 400 });
+  const existing = await store.getAgentPersona({ workspaceId: workspaceId.trim(), ref: personaId.trim() });
+  if (!existing) return Response.json({ error: "persona not found" }, { status: 404 });
+  await store.deleteAgentPersona({ id: existing.id, workspaceId: workspaceId.trim() });
+  return Response.json({ ok: true });
+}
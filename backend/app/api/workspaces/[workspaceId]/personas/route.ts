@@ -0,0 +1,51 @@
+export const runtime = "nodejs";
+
+import { checkPersonaReferences, normalizePersonaName, parsePersonaDefinition } from "@/lib/personas";
+import { store } from "@/lib/storage";
+import { getSkillLoader } from "@/runtime/skill-loader";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const personas = await store.listAgentPersonas({ workspaceId: workspaceId.trim() });
+  return Response.json({ ok: true, personas });
+}
+
+/** Creates a persona from `{ name, persona }`; names are unique per workspace and fixed afterwards. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as { name?: string; persona?: unknown } | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!body?.persona) return Response.json({ error: "Missing persona" }, { status: 400 });
+  const name = normalizePersonaName(body.name);
+  if (!name) {
+    return Response.json(
+      { error: "name must be snake_case (a-z, 0-9, _), at most 40 chars, and not human/assistant" },
+      { status: 400 }
+    );
+  }
+  const parsed = parsePersonaDefinition(body.persona);
+  if (!parsed.ok) return Response.json({ error: `Invalid persona: ${parsed.error}` }, { status: 400 });
+  const profiles = await store.listModelProfiles({ workspaceId: workspaceId.trim() });
+  const skills = await (await getSkillLoader()).listSkills();
+  const referenceError = checkPersonaReferences(parsed.definition, {
+    modelProfileIds: profiles.map((p) => p.id),
+    skills,
+  });
+  if (referenceError) return Response.json({ error: `Invalid persona: ${referenceError}` }, { status: 400 });
+
+  const persona = await store.createAgentPersona({
+    workspaceId: workspaceId.trim(),
+    name,
+    definition: parsed.definition,
+  });
+  if (!persona) return Response.json({ error: `persona "${name}" already exists` }, { status: 409 });
+  return Response.json({ ok: true, persona }, { status: 201 });
+}
@@ -0,0 +1,93 @@
+export const runtime = "nodejs";
+
+import { computeNextRunAt, parseScheduledTaskSpec, parseScheduleTrigger } from "@/lib/schedules";
+import { store } from "@/lib/storage";
+import { resolveTemplateVariables } from "@/lib/task-templates";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; scheduleId: string }> }
+) {
+  const { workspaceId, scheduleId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!scheduleId?.trim()) return Response.json({ error: "Missing scheduleId" }, { status: 400 });
+  const schedule = await store.getTaskSchedule({ id: scheduleId.trim(), workspaceId: workspaceId.trim() });
+  if (!schedule) return Response.json({ error: "schedule not found" }, { status: 404 });
+  return Response.json({ ok: true, schedule });
+}
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; scheduleId: string }> }
+) {
+  const { workspaceId, scheduleId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        name?: string;
+        trigger?: unknown;
+        task?: unknown;
+        enabled?: boolean;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!scheduleId?.trim()) return Response.json({ error: "Missing scheduleId" }, { status: 400 });
+  const existing = await store.getTaskSchedule({ id: scheduleId.trim(), workspaceId: workspaceId.trim() });
+  if (!existing) return Response.json({ error: "schedule not found" }, { status: 404 });
+
+  let trigger = existing.trigger;
+  if (body?.trigger !== undefined) {
+    const parsed = parseScheduleTrigger(body.trigger);
+    if (!parsed.ok) return Response.json({ error: `Invalid trigger: ${parsed.error}` }, { status: 400 });
+    trigger = parsed.trigger;
+  }
+  let task = existing.task;
+  if (body?.task !== undefined) {
+    const parsed = parseScheduledTaskSpec(body.task);
+    if (!parsed.ok) return Response.json({ error: `Invalid task: ${parsed.error}` }, { status: 400 });
+    if (parsed.spec.templateId) {
+      const template = await store.getTaskTemplate({
+        workspaceId: workspaceId.trim(),
+        ref: parsed.spec.templateId,
+        version: parsed.spec.templateVersion ?? undefined,
+      });
+      if (!template || template.archivedAt) {
+        return Response.json({ error: `Invalid task: unknown templateId "${parsed.spec.templateId}"` }, { status: 400 });
+      }
+      const variables = resolveTemplateVariables(template, parsed.spec.variables, parsed.spec.topic);
+      if (!variables.ok) return Response.json({ error: `Invalid task: ${variables.error}` }, { status: 400 });
+    }
+    task = parsed.spec;
+  }
+  const name = body?.name?.trim();
+  const enabled = typeof body?.enabled === "boolean" ? body.enabled : existing.enabled;
+
+  // A new trigger or re-enabling restarts the cadence from now.
+  const reschedule = body?.trigger !== undefined || enabled !== existing.enabled;
+  const nowMs = Date.now();
+  const nextRunAt = enabled ? computeNextRunAt(trigger, nowMs, nowMs) : null;
+  const schedule = await store.updateTaskSchedule({
+    id: existing.id,
+    workspaceId: existing.workspaceId,
+    name: name || undefined,
+    trigger: body?.trigger !== undefined ? trigger : undefined,
+    task: body?.task !== undefined ? task : undefined,
+    enabled,
+    anchorAt: reschedule ? new Date(nowMs) : undefined,
+    nextRunAt: reschedule ? (nextRunAt === null ? null : new Date(nextRunAt)) : undefined,
+  });
+  if (!schedule) return Response.json({ error: "schedule not found" }, { status: 404 });
+  return Response.json({ ok: true, schedule });
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; scheduleId: string }> }
+) {
+  const { workspaceId, scheduleId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!scheduleId?.trim()) return Response.json({ error: "Missing scheduleId" }, { status: 400 });
+  const deleted = await store.deleteTaskSchedule({ id: scheduleId.trim(), workspaceId: workspaceId.trim() });
+  if (!deleted) return Response.json({ error: "schedule not found" }, { status: 404 });
+  return Response.json({ ok: true });
+}
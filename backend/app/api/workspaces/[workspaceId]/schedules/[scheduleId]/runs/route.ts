@@ -0,0 +1,36 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+import { getAgentRuntime } from "@/runtime/agent-runtime";
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; scheduleId: string }> }
+) {
+  const { workspaceId, scheduleId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!scheduleId?.trim()) return Response.json({ error: "Missing scheduleId" }, { status: 400 });
+  const limit = Number(new URL(req.url).searchParams.get("limit") ?? "");
+  const runs = await store.listTaskScheduleRuns({
+    scheduleId: scheduleId.trim(),
+    workspaceId: workspaceId.trim(),
+    limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+  });
+  return Response.json({ ok: true, runs });
+}
+
+/** Fires the schedule now; its next regular run is unchanged. */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; scheduleId: string }> }
+) {
+  const { workspaceId, scheduleId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!scheduleId?.trim()) return Response.json({ error: "Missing scheduleId" }, { status: 400 });
+  const run = await getAgentRuntime().runScheduleNow({
+    workspaceId: workspaceId.trim(),
+    scheduleId: scheduleId.trim(),
+  });
+  if (!run) return Response.json({ error: "schedule not found" }, { status: 404 });
+  return Response.json({ ok: true, run });
+}
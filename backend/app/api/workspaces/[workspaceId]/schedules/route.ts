@@ -0,0 +1,67 @@
+export const runtime = "nodejs";
+
+import { computeNextRunAt, parseScheduledTaskSpec, parseScheduleTrigger } from "@/lib/schedules";
+import { store } from "@/lib/storage";
+import { resolveTemplateVariables } from "@/lib/task-templates";
+import { getAgentRuntime } from "@/runtime/agent-runtime";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const schedules = await store.listTaskSchedules({ workspaceId: workspaceId.trim() });
+  return Response.json({ ok: true, schedules });
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        name?: string;
+        trigger?: unknown;
+        task?: unknown;
+        enabled?: boolean;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const name = body?.name?.trim();
+  if (!name) return Response.json({ error: "Missing name" }, { status: 400 });
+  const trigger = parseScheduleTrigger(body?.trigger);
+  if (!trigger.ok) return Response.json({ error: `Invalid trigger: ${trigger.error}` }, { status: 400 });
+  const task = parseScheduledTaskSpec(body?.task);
+  if (!task.ok) return Response.json({ error: `Invalid task: ${task.error}` }, { status: 400 });
+  if (task.spec.templateId) {
+    const template = await store.getTaskTemplate({
+      workspaceId: workspaceId.trim(),
+      ref: task.spec.templateId,
+      version: task.spec.templateVersion ?? undefined,
+    });
+    if (!template || template.archivedAt) {
+      return Response.json({ error: `Invalid task: unknown templateId "${task.spec.templateId}"` }, { status: 400 });
+    }
+    const variables = resolveTemplateVariables(template, task.spec.variables, task.spec.topic);
+    if (!variables.ok) return Response.json({ error: `Invalid task: ${variables.error}` }, { status: 400 });
+  }
+
+  const enabled = body?.enabled ?? true;
+  const anchorAt = new Date();
+  const nextRunAt = enabled ? computeNextRunAt(trigger.trigger, anchorAt.getTime(), anchorAt.getTime()) : null;
+  const schedule = await store.createTaskSchedule({
+    workspaceId: workspaceId.trim(),
+    name,
+    trigger: trigger.trigger,
+    task: task.spec,
+    enabled,
+    anchorAt,
+    nextRunAt: nextRunAt === null ? null : new Date(nextRunAt),
+  });
+  // The scheduler tick starts with the runtime; make sure it is running.
+  await getAgentRuntime().bootstrap();
+  return Response.json({ ok: true, schedule }, { status: 201 });
+}
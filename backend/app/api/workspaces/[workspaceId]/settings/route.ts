@@ -0,0 +1,57 @@
+export const runtime = "nodejs";
+
+import { store, type ShellBackend } from "@/lib/storage";
+
+function parseShellBackend(raw: unknown): ShellBackend | undefined {
+  if (raw === "host" || raw === "bwrap") return raw;
+  return undefined;
+}
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const settings = await store.getWorkspaceSettings({ workspaceId: workspaceId.trim() });
+  if (!settings) return Response.json({ error: "workspace not found" }, { status: 404 });
+  return Response.json({ ok: true, settings });
+}
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        shell?: {
+          backend?: string;
+          networkEnabled?: boolean;
+          cpuSeconds?: number;
+          memoryMb?: number;
+          maxProcesses?: number;
+        };
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (body?.shell?.backend !== undefined && !parseShellBackend(body.shell.backend)) {
+    return Response.json({ error: "Invalid shell backend" }, { status: 400 });
+  }
+
+  const settings = await store.updateWorkspaceSettings({
+    workspaceId: workspaceId.trim(),
+    shell: body?.shell
+      ? {
+          backend: parseShellBackend(body.shell.backend),
+          networkEnabled: body.shell.networkEnabled,
+          cpuSeconds: body.shell.cpuSeconds,
+          memoryMb: body.shell.memoryMb,
+          maxProcesses: body.shell.maxProcesses,
+        }
+      : undefined,
+  });
+  if (!settings) return Response.json({ error: "workspace not found" }, { status: 404 });
+  return Response.json({ ok: true, settings });
+}
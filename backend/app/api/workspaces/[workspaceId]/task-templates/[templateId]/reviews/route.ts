@@ -0,0 +1,87 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+
+const SCORE_KEYS = ["completion", "relevance", "clarity", "nonRedundancy", "safety", "overall"] as const;
+
+type VersionSummary = {
+  version: number;
+  runs: number;
+  reviewed: number;
+  verdicts: Record<string, number>;
+  avgScores: Record<(typeof SCORE_KEYS)[number], number | null>;
+};
+
+/** Task reviews of runs started from this template, averaged per template version. */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; templateId: string }> }
+) {
+  const { workspaceId, templateId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!templateId?.trim()) return Response.json({ error: "Missing templateId" }, { status: 400 });
+  const template = await store.getTaskTemplate({ workspaceId: workspaceId.trim(), ref: templateId.trim() });
+  if (!template) return Response.json({ error: "template not found" }, { status: 404 });
+
+  const runs = await store.listTemplateTaskRuns({ workspaceId: template.workspaceId, templateId: template.id });
+  const byVersion = new Map<number, { summary: VersionSummary; sums: Record<string, { total: number; n: number }> }>();
+  const reviews = [];
+  for (const run of runs) {
+    let entry = byVersion.get(run.templateVersion);
+    if (!entry) {
+      entry = {
+        summary: {
+          version: run.templateVersion,
+          runs: 0,
+          reviewed: 0,
+          verdicts: {},
+          avgScores: Object.fromEntries(SCORE_KEYS.map((k) => [k, null])) as VersionSummary["avgScores"],
+        },
+        sums: {},
+      };
+      byVersion.set(run.templateVersion, entry);
+    }
+    entry.summary.runs += 1;
+    if (!run.reviewJson) continue;
+
+    const review = (() => {
+      try {
+        return JSON.parse(run.reviewJson) as { score?: Record<string, unknown>; verdict?: unknown };
+      } catch {
+        return null;
+      }
+    })();
+    if (!review) continue;
+    entry.summary.reviewed += 1;
+    const verdict = typeof review.verdict === "string" ? review.verdict : "unknown";
+    entry.summary.verdicts[verdict] = (entry.summary.verdicts[verdict] ?? 0) + 1;
+    for (const key of SCORE_KEYS) {
+      const value = Number(review.score?.[key]);
+      if (!Number.isFinite(value)) continue;
+      const sum = (entry.sums[key] ??= { total: 0, n: 0 });
+      sum.total += value;
+      sum.n += 1;
+    }
+    reviews.push({
+      taskId: run.taskId,
+      templateVersion: run.templateVersion,
+      startAt: run.startAt,
+      status: run.status,
+      stopReason: run.stopReason,
+      verdict,
+      score: review.score ?? null,
+    });
+  }
+
+  const versions = [...byVersion.values()]
+    .map(({ summary, sums }) => {
+      for (const key of SCORE_KEYS) {
+        const sum = sums[key];
+        summary.avgScores[key] = sum ? Math.round((sum.total / sum.n) * 100) / 100 : null;
+      }
+      return summary;
+    })
+    .sort((a, b) => b.version - a.version);
+
+  return Response.json({ ok: true, templateId: template.id, latestVersion: template.latestVersion, versions, reviews });
+}
@@ -0,0 +1,71 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+import { parseTaskTemplateDefinition } from "@/lib/task-templates";
+
+/** The template at `?version=` (default latest), plus its version history. */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; templateId: string }> }
+) {
+  const { workspaceId, templateId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!templateId?.trim()) return Response.json({ error: "Missing templateId" }, { status: 400 });
+  const rawVersion = new URL(req.url).searchParams.get("version");
+  const version = rawVersion ? Number(rawVersion) : undefined;
+  if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+    return Response.json({ error: "version must be a positive integer" }, { status: 400 });
+  }
+
+  const template = await store.getTaskTemplate({ workspaceId: workspaceId.trim(), ref: templateId.trim(), version });
+  if (!template) return Response.json({ error: "template not found" }, { status: 404 });
+  const versions = await store.listTaskTemplateVersions({ workspaceId: template.workspaceId, templateId: template.id });
+  return Response.json({
+    ok: true,
+    template,
+    versions: versions.map((v) => ({ version: v.version, createdAt: v.createdAt })),
+  });
+}
+
+/** Saves `{ template }` as a new version; earlier versions stay intact for runs that used them. */
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; templateId: string }> }
+) {
+  const { workspaceId, templateId } = await params;
+  const body = (await req.json().catch(() => null)) as { template?: unknown } | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!templateId?.trim()) return Response.json({ error: "Missing templateId" }, { status: 400 });
+  if (!body?.template) return Response.json({ error: "Missing template" }, { status: 400 });
+  const parsed = parseTaskTemplateDefinition(body.template);
+  if (!parsed.ok) return Response.json({ error: `Invalid template: ${parsed.error}` }, { status: 400 });
+  const { missing } = await store.findAgentPersonasByName({
+    workspaceId: workspaceId.trim(),
+    names: parsed.definition.personas,
+  });
+  if (missing.length > 0) {
+    return Response.json({ error: `Invalid template: unknown persona ${missing.join(", ")}` }, { status: 400 });
+  }
+
+  const template = await store.updateTaskTemplate({
+    workspaceId: workspaceId.trim(),
+    id: templateId.trim(),
+    definition: parsed.definition,
+  });
+  if (!template) return Response.json({ error: "template not found" }, { status: 404 });
+  return Response.json({ ok: true, template });
+}
+
+/** Archives the template: it leaves the list and cannot start runs, but its versions stay resolvable. */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; templateId: string }> }
+) {
+  const { workspaceId, templateId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!templateId?.trim()) return Response.json({ error: "Missing templateId" }, { status: 400 });
+  const archived = await store.archiveTaskTemplate({ workspaceId: workspaceId.trim(), id: templateId.trim() });
+  if (!archived) return Response.json({ error: "template not found" }, { status: 404 });
+  return Response.json({ ok: true });
+}
@@ -0,0 +1,53 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+import { normalizeTemplateSlug, parseTaskTemplateDefinition } from "@/lib/task-templates";
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const includeArchived = new URL(req.url).searchParams.get("includeArchived") === "true";
+  await store.ensurePresetTaskTemplates({ workspaceId: workspaceId.trim() });
+  const templates = await store.listTaskTemplates({ workspaceId: workspaceId.trim(), includeArchived });
+  return Response.json({ ok: true, templates });
+}
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as { slug?: string; template?: unknown } | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!body?.template) return Response.json({ error: "Missing template" }, { status: 400 });
+  const slug = normalizeTemplateSlug(body.slug);
+  if (!slug) {
+    return Response.json(
+      { error: "slug must be 2-48 chars of lowercase letters, digits, _ or -" },
+      { status: 400 }
+    );
+  }
+  const parsed = parseTaskTemplateDefinition(body.template);
+  if (!parsed.ok) return Response.json({ error: `Invalid template: ${parsed.error}` }, { status: 400 });
+  const { missing } = await store.findAgentPersonasByName({
+    workspaceId: workspaceId.trim(),
+    names: parsed.definition.personas,
+  });
+  if (missing.length > 0) {
+    return Response.json({ error: `Invalid template: unknown persona ${missing.join(", ")}` }, { status: 400 });
+  }
+
+  // Seed first so a custom template cannot take a built-in slug out from under the presets.
+  await store.ensurePresetTaskTemplates({ workspaceId: workspaceId.trim() });
+  const template = await store.createTaskTemplate({
+    workspaceId: workspaceId.trim(),
+    slug,
+    definition: parsed.definition,
+  });
+  if (!template) return Response.json({ error: `slug "${slug}" is already in use` }, { status: 409 });
+  return Response.json({ ok: true, template }, { status: 201 });
+}
@@ -0,0 +1,37 @@
+export const runtime = "nodejs";
+
+import { getAgentRuntime } from "@/runtime/agent-runtime";
+
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; approvalId: string }> }
+) {
+  const { workspaceId, approvalId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        decision?: string;
+        decidedBy?: string;
+        note?: string;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!approvalId?.trim()) return Response.json({ error: "Missing approvalId" }, { status: 400 });
+  const decision = body?.decision?.trim();
+  if (decision !== "approve" && decision !== "deny") {
+    return Response.json({ error: "Invalid decision" }, { status: 400 });
+  }
+
+  const runtime = getAgentRuntime();
+  const resolved = await runtime.resolveToolApproval({
+    workspaceId: workspaceId.trim(),
+    approvalId: approvalId.trim(),
+    approved: decision === "approve",
+    decidedBy: body?.decidedBy?.trim() || null,
+    note: body?.note?.trim() || null,
+  });
+  if (!resolved) {
+    return Response.json({ error: "Approval not found or already decided" }, { status: 404 });
+  }
+  return Response.json({ ok: true });
+}
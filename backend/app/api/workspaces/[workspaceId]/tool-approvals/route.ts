@@ -0,0 +1,27 @@
+export const runtime = "nodejs";
+
+import { store, type ToolApprovalStatus } from "@/lib/storage";
+
+const STATUSES: ToolApprovalStatus[] = ["pending", "approved", "denied", "expired", "cancelled"];
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+
+  const url = new URL(req.url);
+  const rawStatus = url.searchParams.get("status")?.trim() ?? "";
+  if (rawStatus && !(STATUSES as string[]).includes(rawStatus)) {
+    return Response.json({ error: "Invalid status" }, { status: 400 });
+  }
+  const limit = Number(url.searchParams.get("limit") ?? "");
+
+  const approvals = await store.listToolApprovals({
+    workspaceId: workspaceId.trim(),
+    status: rawStatus ? (rawStatus as ToolApprovalStatus) : undefined,
+    limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+  });
+  return Response.json({ ok: true, approvals });
+}
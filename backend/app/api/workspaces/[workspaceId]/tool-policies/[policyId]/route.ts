@@ -0,0 +1,14 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; policyId: string }> }
+) {
+  const { workspaceId, policyId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!policyId?.trim()) return Response.json({ error: "Missing policyId" }, { status: 400 });
+  await store.deleteToolPolicy({ id: policyId.trim(), workspaceId: workspaceId.trim() });
+  return Response.json({ ok: true });
+}
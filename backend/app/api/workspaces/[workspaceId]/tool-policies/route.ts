@@ -0,0 +1,42 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+import { parseToolPolicyMode } from "@/runtime/tool-policy";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const policies = await store.listToolPolicies({ workspaceId: workspaceId.trim() });
+  return Response.json({ ok: true, policies });
+}
+
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        agentRole?: string;
+        toolName?: string;
+        mode?: string;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const toolName = body?.toolName?.trim();
+  if (!toolName) return Response.json({ error: "Missing toolName" }, { status: 400 });
+  const mode = parseToolPolicyMode(body?.mode);
+  if (!mode) return Response.json({ error: "Invalid mode" }, { status: 400 });
+
+  const policy = await store.upsertToolPolicy({
+    workspaceId: workspaceId.trim(),
+    agentRole: body?.agentRole,
+    toolName,
+    mode,
+  });
+  return Response.json({ ok: true, policy });
+}
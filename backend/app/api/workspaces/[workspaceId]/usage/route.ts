@@ -0,0 +1,59 @@
+export const runtime = "nodejs";
+
+import { store, type LlmUsageGroupBy } from "@/lib/storage";
+
+const GROUP_BYS: LlmUsageGroupBy[] = ["agent", "model", "profile", "task", "game"];
+const RANGE_MS: Record<string, number> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId: rawWorkspaceId } = await params;
+  const workspaceId = rawWorkspaceId?.trim();
+  if (!workspaceId) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+
+  const url = new URL(req.url);
+  const groupBy = (url.searchParams.get("groupBy")?.trim() || "model") as LlmUsageGroupBy;
+  if (!GROUP_BYS.includes(groupBy)) {
+    return Response.json({ error: "Invalid groupBy" }, { status: 400 });
+  }
+  const range = url.searchParams.get("range")?.trim() || "all";
+  if (range !== "all" && !RANGE_MS[range]) {
+    return Response.json({ error: "Invalid range" }, { status: 400 });
+  }
+  const since = range === "all" ? undefined : new Date(Date.now() - RANGE_MS[range]!);
+  const filters = {
+    taskRunId: url.searchParams.get("taskRunId")?.trim() || undefined,
+    agentId: url.searchParams.get("agentId")?.trim() || undefined,
+    gameId: url.searchParams.get("gameId")?.trim() || undefined,
+  };
+
+  const [totals, rows] = await Promise.all([
+    store.sumLlmUsage({ workspaceId, since, ...filters }),
+    store.summarizeLlmUsage({ workspaceId, groupBy, since, ...filters }),
+  ]);
+
+  const labels = new Map<string, string>();
+  if (groupBy === "agent") {
+    for (const a of await store.listAgentsMeta({ workspaceId, includeDeleted: true })) labels.set(a.id, a.role);
+  } else if (groupBy === "profile") {
+    for (const p of await store.listModelProfiles({ workspaceId })) labels.set(p.id, p.name);
+  }
+
+  return Response.json({
+    ok: true,
+    workspaceId,
+    range,
+    groupBy,
+    totals,
+    rows: rows.map((row) => ({
+      ...row,
+      label: row.key ? labels.get(row.key) ?? row.key : null,
+    })),
+  });
+}
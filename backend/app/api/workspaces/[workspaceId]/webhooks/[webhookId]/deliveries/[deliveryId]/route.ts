@@ -0,0 +1,30 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+import { getWebhookDispatcher } from "@/runtime/webhooks";
+
+/** Redelivers a dead-lettered delivery immediately. */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; webhookId: string; deliveryId: string }> }
+) {
+  const { workspaceId, webhookId, deliveryId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!webhookId?.trim() || !deliveryId?.trim()) {
+    return Response.json({ error: "Missing webhookId/deliveryId" }, { status: 400 });
+  }
+  const existing = await store.getWebhookDelivery({ id: deliveryId.trim(), workspaceId: workspaceId.trim() });
+  if (!existing || existing.subscriptionId !== webhookId.trim()) {
+    return Response.json({ error: "delivery not found" }, { status: 404 });
+  }
+  if (existing.status !== "dead") {
+    return Response.json({ error: "Only dead deliveries can be redelivered" }, { status: 409 });
+  }
+
+  const delivery = await getWebhookDispatcher().redeliver({
+    workspaceId: workspaceId.trim(),
+    deliveryId: existing.id,
+  });
+  if (!delivery) return Response.json({ error: "Only dead deliveries can be redelivered" }, { status: 409 });
+  return Response.json({ ok: delivery.status === "delivered", delivery });
+}
@@ -0,0 +1,27 @@
+export const runtime = "nodejs";
+
+import { store, type WebhookDeliveryStatus } from "@/lib/storage";
+
+function parseStatus(raw: string | null): WebhookDeliveryStatus | undefined {
+  if (raw === "pending" || raw === "delivered" || raw === "dead") return raw;
+  return undefined;
+}
+
+/** Delivery log for one subscription; `?status=dead` lists the dead letters. */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; webhookId: string }> }
+) {
+  const { workspaceId, webhookId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!webhookId?.trim()) return Response.json({ error: "Missing webhookId" }, { status: 400 });
+  const url = new URL(req.url);
+  const limit = Number(url.searchParams.get("limit") ?? "");
+  const deliveries = await store.listWebhookDeliveries({
+    subscriptionId: webhookId.trim(),
+    workspaceId: workspaceId.trim(),
+    status: parseStatus(url.searchParams.get("status")),
+    limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+  });
+  return Response.json({ ok: true, deliveries });
+}
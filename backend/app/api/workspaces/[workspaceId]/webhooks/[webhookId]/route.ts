@@ -0,0 +1,70 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+import {
+  checkWebhookTarget,
+  generateWebhookSecret,
+  getWebhookDispatcher,
+  parseWebhookEventTypes,
+  parseWebhookUrl,
+} from "@/runtime/webhooks";
+
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string; webhookId: string }> }
+) {
+  const { workspaceId, webhookId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        name?: string;
+        url?: string;
+        eventTypes?: unknown;
+        enabled?: boolean;
+        rotateSecret?: boolean;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!webhookId?.trim()) return Response.json({ error: "Missing webhookId" }, { status: 400 });
+
+  let url: string | undefined;
+  if (body?.url !== undefined) {
+    url = parseWebhookUrl(body.url) ?? undefined;
+    if (!url) return Response.json({ error: "Invalid url" }, { status: 400 });
+    const targetError = await checkWebhookTarget(url);
+    if (targetError) return Response.json({ error: `Invalid url: ${targetError}` }, { status: 400 });
+  }
+  let eventTypes: string[] | undefined;
+  if (body?.eventTypes !== undefined) {
+    const parsed = parseWebhookEventTypes(body.eventTypes);
+    if (!parsed.ok) return Response.json({ error: `Invalid eventTypes: ${parsed.error}` }, { status: 400 });
+    eventTypes = parsed.eventTypes;
+  }
+
+  const updated = await store.updateWebhookSubscription({
+    id: webhookId.trim(),
+    workspaceId: workspaceId.trim(),
+    name: body?.name?.trim() || undefined,
+    url,
+    eventTypes,
+    enabled: body?.enabled,
+    secret: body?.rotateSecret ? generateWebhookSecret() : undefined,
+  });
+  if (!updated) return Response.json({ error: "webhook not found" }, { status: 404 });
+  getWebhookDispatcher().invalidate(updated.workspaceId);
+  const { secret, ...rest } = updated;
+  return Response.json({ ok: true, webhook: body?.rotateSecret ? { ...rest, secret } : rest });
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; webhookId: string }> }
+) {
+  const { workspaceId, webhookId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!webhookId?.trim()) return Response.json({ error: "Missing webhookId" }, { status: 400 });
+  const deleted = await store.deleteWebhookSubscription({ id: webhookId.trim(), workspaceId: workspaceId.trim() });
+  if (!deleted) return Response.json({ error: "webhook not found" }, { status: 404 });
+  getWebhookDispatcher().invalidate(workspaceId.trim());
+  return Response.json({ ok: true });
+}
@@ -0,0 +1,19 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+import { getWebhookDispatcher } from "@/runtime/webhooks";
+
+/** Sends a signed `webhook.test` event once and reports how the endpoint answered. */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string; webhookId: string }> }
+) {
+  const { workspaceId, webhookId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  if (!webhookId?.trim()) return Response.json({ error: "Missing webhookId" }, { status: 400 });
+  const webhook = await store.getWebhookSubscription({ id: webhookId.trim(), workspaceId: workspaceId.trim() });
+  if (!webhook) return Response.json({ error: "webhook not found" }, { status: 404 });
+
+  const delivery = await getWebhookDispatcher().testFire(webhook);
+  return Response.json({ ok: delivery.status === "delivered", delivery });
+}
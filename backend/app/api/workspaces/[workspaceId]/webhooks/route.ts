@@ -0,0 +1,59 @@
+export const runtime = "nodejs";
+
+import { store } from "@/lib/storage";
+import {
+  checkWebhookTarget,
+  generateWebhookSecret,
+  getWebhookDispatcher,
+  parseWebhookEventTypes,
+  parseWebhookUrl,
+} from "@/runtime/webhooks";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const webhooks = await store.listWebhookSubscriptions({ workspaceId: workspaceId.trim() });
+  return Response.json({
+    ok: true,
+    webhooks: webhooks.map(({ secret: _secret, ...rest }) => rest),
+  });
+}
+
+/** Creates a subscription; the signing secret is only returned here and on rotation. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const { workspaceId } = await params;
+  const body = (await req.json().catch(() => null)) as
+    | {
+        name?: string;
+        url?: string;
+        eventTypes?: unknown;
+        secret?: string;
+        enabled?: boolean;
+      }
+    | null;
+
+  if (!workspaceId?.trim()) return Response.json({ error: "Missing workspaceId" }, { status: 400 });
+  const url = parseWebhookUrl(body?.url);
+  if (!url) return Response.json({ error: "Invalid url" }, { status: 400 });
+  const targetError = await checkWebhookTarget(url);
+  if (targetError) return Response.json({ error: `Invalid url: ${targetError}` }, { status: 400 });
+  const eventTypes = parseWebhookEventTypes(body?.eventTypes);
+  if (!eventTypes.ok) return Response.json({ error: `Invalid eventTypes: ${eventTypes.error}` }, { status: 400 });
+
+  const webhook = await store.createWebhookSubscription({
+    workspaceId: workspaceId.trim(),
+    name: body?.name?.trim() || new URL(url).host,
+    url,
+    secret: body?.secret?.trim() || generateWebhookSecret(),
+    eventTypes: eventTypes.eventTypes,
+    enabled: body?.enabled ?? true,
+  });
+  getWebhookDispatcher().invalidate(webhook.workspaceId);
+  return Response.json({ ok: true, webhook }, { status: 201 });
+}
@@ -0,0 +1,43 @@
+export const runtime = "nodejs";
+
+import { getRequestUser } from "@/lib/api-auth";
+import { store } from "@/lib/storage";
+import { importWorkspaceArchive, parseWorkspaceArchive } from "@/lib/workspace-archive";
+
+/** Creates a new workspace from an exported archive; the importing user becomes its owner. */
+export async function POST(req: Request) {
+  const body = (await req.json().catch(() => null)) as
+    | {
+        archive?: unknown;
+        name?: string;
+      }
+    | null;
+
+  if (!body?.archive) return Response.json({ error: "Missing archive" }, { status: 400 });
+  const parsed = parseWorkspaceArchive(body.archive);
+  if (!parsed.ok) return Response.json({ error: `Invalid archive: ${parsed.error}` }, { status: 400 });
+
+  let result;
+  try {
+    result = await importWorkspaceArchive({ archive: parsed.archive, name: body.name });
+  } catch (e) {
+    return Response.json(
+      { error: "Failed to import archive", message: e instanceof Error ? e.message : String(e) },
+      { status: 400 }
+    );
+  }
+
+  const defaults = await store.ensureWorkspaceDefaults({ workspaceId: result.workspaceId });
+  await store.ensurePresetModelProfiles({ workspaceId: result.workspaceId });
+  const user = await getRequestUser(req);
+  if (user) {
+    await store.addWorkspaceMember({
+      workspaceId: result.workspaceId,
+      userId: user.id,
+      role: "owner",
+      humanAgentId: defaults.humanAgentId,
+      defaultGroupId: defaults.defaultGroupId,
+    });
+  }
+  return Response.json({ ok: true, ...defaults, counts: result.counts }, { status: 201 });
+}
@@ -1,10 +1,14 @@
 export const runtime = "nodejs";
 
+import { getRequestUser } from "@/lib/api-auth";
 import { store } from "@/lib/storage";
 
-export async function GET() {
+export async function GET(req: Request) {
   try {
-    const workspaces = await store.listWorkspaces();
+    // Signed-in users only see workspaces they belong to; instance admins see all.
+    const user = await getRequestUser(req);
+    const workspaces =
+      user && !user.isAdmin ? await store.listUserWorkspaces({ userId: user.id }) : await store.listWorkspaces();
     return Response.json({ workspaces });
   } catch (e) {
     return Response.json(
@@ -25,6 +29,16 @@ export async function POST(req: Request) {
       name: body?.name ?? "Default Workspace",
     });
     await store.ensurePresetModelProfiles({ workspaceId: result.workspaceId });
+    const user = await getRequestUser(req);
+    if (user) {
+      await store.addWorkspaceMember({
+        workspaceId: result.workspaceId,
+        userId: user.id,
+        role: "owner",
+        humanAgentId: result.humanAgentId,
+        defaultGroupId: result.defaultGroupId,
+      });
+    }
     return Response.json(result, { status: 201 });
   } catch (e) {
     return Response.json(
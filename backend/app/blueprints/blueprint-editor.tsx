@@ -0,0 +1,510 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link2, Plus, Save, Trash2, X } from "lucide-react";
+
+type Locale = "zh" | "en";
+type EdgeType = "command" | "collab" | "review";
+type NodeKind = "human" | "assistant" | "worker";
+
+type RoleDraft = {
+  role: string;
+  nameZh: string;
+  nameEn: string;
+  guidance: string;
+  modelProfileId: string;
+  persona: string;
+};
+
+type EdgeDraft = { from: string; to: string; type: EdgeType };
+
+/** The editable shape of a custom blueprint, as returned by the blueprints API. */
+export type EditableBlueprint = {
+  id?: string;
+  nameZh: string;
+  nameEn: string;
+  descriptionZh: string;
+  descriptionEn: string;
+  topicPromptZh: string;
+  topicPromptEn: string;
+  goalTemplateZh: string;
+  goalTemplateEn: string;
+  workflowId: string | null;
+  roles: Array<{
+    role: string;
+    nameZh: string;
+    nameEn: string;
+    guidance: string;
+    modelProfileId?: string | null;
+    persona?: string | null;
+  }>;
+  previewNodes: Array<{ id: string; x: number; y: number }>;
+  previewEdges: EdgeDraft[];
+};
+
+export const EMPTY_BLUEPRINT: EditableBlueprint = {
+  nameZh: "",
+  nameEn: "",
+  descriptionZh: "",
+  descriptionEn: "",
+  topicPromptZh: "本次任务的主题是什么？",
+  topicPromptEn: "What is the topic for this run?",
+  goalTemplateZh: "围绕主题「{{topic}}」协作完成任务，最后输出“最终总结”。",
+  goalTemplateEn: "Work together on '{{topic}}' and finish with a 'final summary'.",
+  workflowId: null,
+  roles: [{ role: "worker_1", nameZh: "成员 1", nameEn: "Member 1", guidance: "", modelProfileId: null, persona: null }],
+  previewNodes: [],
+  previewEdges: [
+    { from: "human", to: "assistant", type: "command" },
+    { from: "assistant", to: "worker_1", type: "command" },
+  ],
+};
+
+const I18N = {
+  zh: {
+    titleNew: "新建蓝图",
+    titleEdit: "编辑蓝图",
+    name: "名称",
+    description: "描述",
+    topicPrompt: "主题提问",
+    goalTemplate: "目标模板（需包含 {{topic}}）",
+    workflow: "工作流",
+    noWorkflow: "自由任务（无工作流）",
+    roles: "角色",
+    addRole: "添加角色",
+    roleId: "角色 ID",
+    guidance: "角色指引",
+    model: "模型",
+    defaultModel: "默认模型",
+    noPersona: "不使用人设",
+    graph: "协作图",
+    graphHint: "拖动节点调整位置；开启连线后依次点击起点和终点；点击连线可删除。",
+    connect: "连线",
+    save: "保存",
+    cancel: "取消",
+  },
+  en: {
+    titleNew: "New Blueprint",
+    titleEdit: "Edit Blueprint",
+    name: "Name",
+    description: "Description",
+    topicPrompt: "Topic prompt",
+    goalTemplate: "Goal template (must contain {{topic}})",
+    workflow: "Workflow",
+    noWorkflow: "Free-form task (no workflow)",
+    roles: "Roles",
+    addRole: "Add role",
+    roleId: "Role id",
+    guidance: "Guidance",
+    model: "Model",
+    defaultModel: "Default model",
+    noPersona: "No persona",
+    graph: "Graph",
+    graphHint: "Drag nodes to move them; with Connect on, click a source then a target; click an edge to remove it.",
+    connect: "Connect",
+    save: "Save",
+    cancel: "Cancel",
+  },
+} as const;
+
+const EDGE_COLORS: Record<EdgeType, string> = {
+  command: "rgba(56, 189, 248, 0.9)",
+  collab: "rgba(52, 211, 153, 0.85)",
+  review: "rgba(251, 191, 36, 0.85)",
+};
+
+async function api<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(path, {
+    ...init,
+    headers: { ...(init?.headers ?? {}), "Content-Type": "application/json" },
+  });
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText} ${await res.text().catch(() => "")}`);
+  return (await res.json()) as T;
+}
+
+function defaultPosition(nodeId: string, index: number, total: number) {
+  if (nodeId === "human") return { x: 14, y: 52 };
+  if (nodeId === "assistant") return { x: 35, y: 20 };
+  return { x: 64, y: Math.round(((index + 1) * 100) / (total + 1)) };
+}
+
+export default function BlueprintEditor({
+  locale,
+  workspaceId,
+  initial,
+  onSaved,
+  onCancel,
+}: {
+  locale: Locale;
+  workspaceId: string;
+  initial: EditableBlueprint;
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const t = I18N[locale];
+  const [meta, setMeta] = useState(() => ({
+    nameZh: initial.nameZh,
+    nameEn: initial.nameEn,
+    descriptionZh: initial.descriptionZh,
+    descriptionEn: initial.descriptionEn,
+    topicPromptZh: initial.topicPromptZh,
+    topicPromptEn: initial.topicPromptEn,
+    goalTemplateZh: initial.goalTemplateZh,
+    goalTemplateEn: initial.goalTemplateEn,
+    workflowId: initial.workflowId ?? "",
+  }));
+  const [roles, setRoles] = useState<RoleDraft[]>(() =>
+    initial.roles.map((r) => ({ ...r, modelProfileId: r.modelProfileId ?? "", persona: r.persona ?? "" }))
+  );
+  const [positions, setPositions] = useState<Record<string, { x: number; y: number }>>(() =>
+    Object.fromEntries(initial.previewNodes.map((n) => [n.id, { x: n.x, y: n.y }]))
+  );
+  const [edges, setEdges] = useState<EdgeDraft[]>(initial.previewEdges);
+  const [workflows, setWorkflows] = useState<Array<{ id: string; name: string }>>([]);
+  const [profiles, setProfiles] = useState<Array<{ id: string; name: string }>>([]);
+  const [personas, setPersonas] = useState<Array<{ id: string; name: string }>>([]);
+  const [connectMode, setConnectMode] = useState(false);
+  const [edgeType, setEdgeType] = useState<EdgeType>("collab");
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  useEffect(() => {
+    void api<{ workflows: Array<{ id: string; name: string }> }>("/api/tasks/workflows")
+      .then((res) => setWorkflows(res.workflows ?? []))
+      .catch(() => undefined);
+    void api<{ profiles: Array<{ id: string; name: string }> }>(
+      `/api/model-profiles?workspaceId=${encodeURIComponent(workspaceId)}`
+    )
+      .then((res) => setProfiles(res.profiles ?? []))
+      .catch(() => undefined);
+    void api<{ personas: Array<{ id: string; name: string }> }>(
+      `/api/workspaces/${encodeURIComponent(workspaceId)}/personas`
+    )
+      .then((res) => setPersonas(res.personas ?? []))
+      .catch(() => undefined);
+  }, [workspaceId]);
+
+  const nodes = useMemo(() => {
+    const base: Array<{ id: string; label: string; kind: NodeKind }> = [
+      { id: "human", label: locale === "zh" ? "你" : "You", kind: "human" },
+      { id: "assistant", label: locale === "zh" ? "助手" : "Assistant", kind: "assistant" },
+      ...roles.map((r) => ({
+        id: r.role,
+        label: (locale === "zh" ? r.nameZh : r.nameEn) || r.role,
+        kind: "worker" as const,
+      })),
+    ];
+    let workerIndex = 0;
+    return base.map((n) => {
+      const fallback = defaultPosition(n.id, n.kind === "worker" ? workerIndex++ : 0, roles.length);
+      return { ...n, ...(positions[n.id] ?? fallback) };
+    });
+  }, [locale, positions, roles]);
+  const nodeById = useMemo(() => new Map(nodes.map((n) => [n.id, n])), [nodes]);
+
+  const updateRole = (index: number, patch: Partial<RoleDraft>) => {
+    const prevId = roles[index]?.role;
+    setRoles((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+    // Keep the graph attached when a role id is renamed.
+    if (patch.role !== undefined && prevId && patch.role !== prevId) {
+      const nextId = patch.role;
+      setPositions((prev) => {
+        const { [prevId]: pos, ...rest } = prev;
+        return pos ? { ...rest, [nextId]: pos } : rest;
+      });
+      setEdges((prev) =>
+        prev.map((e) => ({ ...e, from: e.from === prevId ? nextId : e.from, to: e.to === prevId ? nextId : e.to }))
+      );
+    }
+  };
+
+  const removeRole = (index: number) => {
+    const id = roles[index]?.role;
+    setRoles((prev) => prev.filter((_, i) => i !== index));
+    if (id) setEdges((prev) => prev.filter((e) => e.from !== id && e.to !== id));
+  };
+
+  const addRole = () => {
+    let n = roles.length + 1;
+    while (roles.some((r) => r.role === `worker_${n}`)) n++;
+    setRoles((prev) => [
+      ...prev,
+      { role: `worker_${n}`, nameZh: `成员 ${n}`, nameEn: `Member ${n}`, guidance: "", modelProfileId: "", persona: "" },
+    ]);
+  };
+
+  const pointToPercent = (clientX: number, clientY: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    const clamp = (v: number) => Math.min(96, Math.max(4, Math.round(v * 10) / 10));
+    return {
+      x: clamp(((clientX - rect.left) / rect.width) * 100),
+      y: clamp(((clientY - rect.top) / rect.height) * 100),
+    };
+  };
+
+  const onNodePointerDown = (nodeId: string, e: React.PointerEvent) => {
+    e.stopPropagation();
+    if (connectMode) {
+      if (!connectFrom) {
+        setConnectFrom(nodeId);
+      } else {
+        if (connectFrom !== nodeId && !edges.some((x) => x.from === connectFrom && x.to === nodeId)) {
+          setEdges((prev) => [...prev, { from: connectFrom, to: nodeId, type: edgeType }]);
+        }
+        setConnectFrom(null);
+      }
+      return;
+    }
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    setDragging(nodeId);
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    const p = pointToPercent(e.clientX, e.clientY);
+    if (p) setPositions((prev) => ({ ...prev, [dragging]: p }));
+  };
+
+  const onSave = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const blueprint = {
+        ...meta,
+        workflowId: meta.workflowId || null,
+        roles: roles.map((r) => ({ ...r, modelProfileId: r.modelProfileId || null, persona: r.persona || null })),
+        previewNodes: nodes.map((n) => ({ id: n.id, x: n.x, y: n.y })),
+        previewEdges: edges,
+      };
+      const base = `/api/workspaces/${encodeURIComponent(workspaceId)}/blueprints`;
+      if (initial.id) {
+        await api(`${base}/${encodeURIComponent(initial.id)}`, { method: "PATCH", body: JSON.stringify({ blueprint }) });
+      } else {
+        await api(base, { method: "POST", body: JSON.stringify({ blueprint }) });
+      }
+      onSaved();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const field = (key: keyof typeof meta, label: string, multiline = false) => (
+    <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+      <span className="muted">{label}</span>
+      {multiline ? (
+        <textarea
+          className="input"
+          rows={2}
+          value={meta[key]}
+          onChange={(e) => setMeta((prev) => ({ ...prev, [key]: e.target.value }))}
+        />
+      ) : (
+        <input
+          className="input"
+          value={meta[key]}
+          onChange={(e) => setMeta((prev) => ({ ...prev, [key]: e.target.value }))}
+        />
+      )}
+    </label>
+  );
+
+  return (
+    <section className="blueprint-card" style={{ gap: 12 }}>
+      <div className="blueprint-card-header" style={{ display: "flex", justifyContent: "space-between" }}>
+        <div className="blueprint-title">{initial.id ? t.titleEdit : t.titleNew}</div>
+        <button className="btn" onClick={onCancel} disabled={busy}>
+          <X size={14} /> {t.cancel}
+        </button>
+      </div>
+
+      <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 8 }}>
+        {field("nameZh", `${t.name} (ZH)`)}
+        {field("nameEn", `${t.name} (EN)`)}
+        {field("descriptionZh", `${t.description} (ZH)`, true)}
+        {field("descriptionEn", `${t.description} (EN)`, true)}
+        {field("topicPromptZh", `${t.topicPrompt} (ZH)`)}
+        {field("topicPromptEn", `${t.topicPrompt} (EN)`)}
+        {field("goalTemplateZh", `${t.goalTemplate} (ZH)`, true)}
+        {field("goalTemplateEn", `${t.goalTemplate} (EN)`, true)}
+        <label style={{ display: "flex", flexDirection: "column", gap: 4, fontSize: 12 }}>
+          <span className="muted">{t.workflow}</span>
+          <select
+            className="input"
+            value={meta.workflowId}
+            onChange={(e) => setMeta((prev) => ({ ...prev, workflowId: e.target.value }))}
+          >
+            <option value="">{t.noWorkflow}</option>
+            {workflows.map((w) => (
+              <option key={w.id} value={w.id}>
+                {w.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div>
+        <div className="blueprint-subtitle" style={{ fontWeight: 700, marginBottom: 6 }}>
+          {t.roles}
+        </div>
+        <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
+          {roles.map((r, i) => (
+            <div key={i} style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr 1fr auto", gap: 6 }}>
+              <input
+                className="input mono"
+                value={r.role}
+                placeholder={t.roleId}
+                onChange={(e) => updateRole(i, { role: e.target.value.trim().toLowerCase() })}
+              />
+              <input className="input" value={r.nameZh} placeholder="中文名" onChange={(e) => updateRole(i, { nameZh: e.target.value })} />
+              <input className="input" value={r.nameEn} placeholder="Name" onChange={(e) => updateRole(i, { nameEn: e.target.value })} />
+              <select
+                className="input"
+                value={r.modelProfileId}
+                onChange={(e) => updateRole(i, { modelProfileId: e.target.value })}
+              >
+                <option value="">{t.defaultModel}</option>
+                {profiles.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+              <select className="input mono" value={r.persona} onChange={(e) => updateRole(i, { persona: e.target.value })}>
+                <option value="">{t.noPersona}</option>
+                {personas.map((p) => (
+                  <option key={p.id} value={p.name}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+              <button className="btn btn-danger" onClick={() => removeRole(i)} disabled={roles.length <= 1}>
+                <Trash2 size={14} />
+              </button>
+              <textarea
+                className="input"
+                rows={2}
+                style={{ gridColumn: "1 / -1" }}
+                value={r.guidance}
+                placeholder={t.guidance}
+                onChange={(e) => updateRole(i, { guidance: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+        <button className="btn" style={{ marginTop: 8 }} onClick={addRole}>
+          <Plus size={14} /> {t.addRole}
+        </button>
+      </div>
+
+      <div>
+        <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 6, flexWrap: "wrap" }}>
+          <span className="blueprint-subtitle" style={{ fontWeight: 700, marginTop: 0 }}>
+            {t.graph}
+          </span>
+          <button
+            className={connectMode ? "btn btn-primary" : "btn"}
+            onClick={() => {
+              setConnectMode((v) => !v);
+              setConnectFrom(null);
+            }}
+          >
+            <Link2 size={14} /> {t.connect}
+          </button>
+          <select className="input" style={{ width: 120 }} value={edgeType} onChange={(e) => setEdgeType(e.target.value as EdgeType)}>
+            <option value="command">command</option>
+            <option value="collab">collab</option>
+            <option value="review">review</option>
+          </select>
+          <span className="muted" style={{ fontSize: 12 }}>
+            {t.graphHint}
+          </span>
+        </div>
+        <div className="blueprint-map" style={{ height: 320 }}>
+          <svg
+            ref={svgRef}
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            onPointerMove={onPointerMove}
+            onPointerUp={() => setDragging(null)}
+            onPointerLeave={() => setDragging(null)}
+            style={{ touchAction: "none" }}
+          >
+            <defs>
+              <marker id="bpEditArrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                <path d="M0,0 L6,3 L0,6 Z" fill="rgba(148,163,184,0.95)" />
+              </marker>
+            </defs>
+            {edges.map((edge, idx) => {
+              const from = nodeById.get(edge.from);
+              const to = nodeById.get(edge.to);
+              if (!from || !to) return null;
+              const cx = (from.x + to.x) / 2 + 4;
+              const cy = (from.y + to.y) / 2 - 5;
+              return (
+                <path
+                  key={`${edge.from}-${edge.to}-${idx}`}
+                  d={`M${from.x},${from.y} Q${cx},${cy} ${to.x},${to.y}`}
+                  fill="none"
+                  stroke={EDGE_COLORS[edge.type]}
+                  strokeWidth="1.6"
+                  markerEnd="url(#bpEditArrow)"
+                  style={{ cursor: "pointer" }}
+                  onClick={() => setEdges((prev) => prev.filter((_, i) => i !== idx))}
+                />
+              );
+            })}
+            {nodes.map((node) => {
+              const w = node.kind === "worker" ? 14 : 16;
+              const h = 9;
+              const border =
+                node.kind === "human" ? "#38bdf8" : node.kind === "assistant" ? "#f59e0b" : "#34d399";
+              const selected = connectFrom === node.id;
+              return (
+                <g
+                  key={node.id}
+                  onPointerDown={(e) => onNodePointerDown(node.id, e)}
+                  style={{ cursor: connectMode ? "crosshair" : "grab" }}
+                >
+                  <rect
+                    x={node.x - w / 2}
+                    y={node.y - h / 2}
+                    rx={2.5}
+                    ry={2.5}
+                    width={w}
+                    height={h}
+                    fill={selected ? "rgba(248,250,252,0.25)" : "rgba(15,23,42,0.8)"}
+                    stroke={border}
+                    strokeWidth={selected ? 1.8 : 1.1}
+                  />
+                  <text
+                    x={node.x}
+                    y={node.y + 1.7}
+                    fill="#e2e8f0"
+                    fontSize="3.8"
+                    textAnchor="middle"
+                    fontWeight="700"
+                    style={{ pointerEvents: "none", userSelect: "none" }}
+                  >
+                    {node.label}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      </div>
+
+      {error ? <div className="toast">{error}</div> : null}
+      <button className="btn btn-primary blueprint-use-btn" onClick={() => void onSave()} disabled={busy}>
+        <Save size={14} /> {t.save}
+      </button>
+    </section>
+  );
+}
@@ -1,11 +1,25 @@
 ﻿"use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useState } from "react";
-import { FlaskConical, Languages, LayoutDashboard, MessageSquareText, PlayCircle } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Download,
+  FlaskConical,
+  Languages,
+  LayoutDashboard,
+  MessageSquareText,
+  Pencil,
+  PlayCircle,
+  Plus,
+  Trash2,
+  Upload,
+} from "lucide-react";
+
+import BlueprintEditor, { EMPTY_BLUEPRINT, type EditableBlueprint } from "./blueprint-editor";
 
 type BlueprintCase = {
-  id: "debate" | "paper" | "code_review" | "product_design";
+  id: string;
+  source: "builtin" | "custom";
   nameZh: string;
   nameEn: string;
   descriptionZh: string;
@@ -22,6 +36,8 @@ type BlueprintCase = {
   previewEdges: Array<{ from: string; to: string; type: "command" | "collab" | "review" }>;
 };
 
+type CustomBlueprint = BlueprintCase & EditableBlueprint & { id: string };
+
 type WorkspaceDefaults = {
   workspaceId: string;
   humanAgentId: string;
@@ -45,6 +61,16 @@ function saveSession(session: WorkspaceDefaults) {
   localStorage.setItem(SESSION_KEY, JSON.stringify(session));
 }
 
+function loadSessionWorkspaceId(): string | null {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<WorkspaceDefaults>) : null;
+    return typeof parsed?.workspaceId === "string" ? parsed.workspaceId : null;
+  } catch {
+    return null;
+  }
+}
+
 const I18N = {
   zh: {
     title: "案例蓝图工坊",
@@ -54,6 +80,16 @@ const I18N = {
     useCase: "使用此案例",
     using: "创建中...",
     newWorkspaceHint: "点击案例后会自动创建全新工作区。",
+    builtin: "预置案例",
+    custom: "我的蓝图",
+    customHint: "自定义蓝图保存在当前工作区，使用时直接在当前工作区中创建协作群。",
+    noCustom: "还没有自定义蓝图。",
+    newBlueprint: "新建蓝图",
+    importBlueprint: "导入 JSON",
+    edit: "编辑",
+    exportBlueprint: "导出",
+    remove: "删除",
+    confirmRemove: "确定删除这个蓝图？",
   },
   en: {
     title: "Case Blueprints",
@@ -63,6 +99,16 @@ const I18N = {
     useCase: "Use This Case",
     using: "Creating...",
     newWorkspaceHint: "A brand-new workspace will be created on each launch.",
+    builtin: "Built-in cases",
+    custom: "My blueprints",
+    customHint: "Custom blueprints live in the current workspace and launch a new group there.",
+    noCustom: "No custom blueprints yet.",
+    newBlueprint: "New Blueprint",
+    importBlueprint: "Import JSON",
+    edit: "Edit",
+    exportBlueprint: "Export",
+    remove: "Delete",
+    confirmRemove: "Delete this blueprint?",
   },
 } as const;
 
@@ -71,6 +117,10 @@ export default function BlueprintsPage() {
   const [cases, setCases] = useState<BlueprintCase[]>([]);
   const [busyCaseId, setBusyCaseId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EditableBlueprint | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const importRef = useRef<HTMLInputElement | null>(null);
 
   useEffect(() => {
     try {
@@ -86,13 +136,61 @@ export default function BlueprintsPage() {
   }, [locale]);
 
   useEffect(() => {
-    void api<{ ok: boolean; cases: BlueprintCase[] }>("/api/blueprints/cases")
+    setWorkspaceId(loadSessionWorkspaceId());
+  }, []);
+
+  useEffect(() => {
+    const query = workspaceId ? `?workspaceId=${encodeURIComponent(workspaceId)}` : "";
+    void api<{ ok: boolean; cases: BlueprintCase[] }>(`/api/blueprints/cases${query}`)
       .then((res) => setCases(res.cases ?? []))
       .catch((e) => setError(e instanceof Error ? e.message : String(e)));
-  }, []);
+  }, [workspaceId, reloadKey]);
 
   const t = I18N[locale];
   const titleLine = useMemo(() => `${t.title} · Swarm Lab`, [t.title]);
+  const builtinCases = cases.filter((c) => c.source !== "custom");
+  const customCases = cases.filter((c): c is CustomBlueprint => c.source === "custom");
+  const blueprintsPath = workspaceId ? `/api/workspaces/${encodeURIComponent(workspaceId)}/blueprints` : null;
+
+  const onUseCustom = async (blueprintId: string) => {
+    if (!workspaceId) return;
+    setBusyCaseId(blueprintId);
+    setError(null);
+    try {
+      const res = await api<{ ok: boolean; workspaceId: string; groupId: string; blueprintId: string }>(
+        "/api/blueprints/instantiate",
+        { method: "POST", body: JSON.stringify({ workspaceId, blueprintId, locale }) }
+      );
+      window.location.href = `/im?workspaceId=${encodeURIComponent(res.workspaceId)}&groupId=${encodeURIComponent(res.groupId)}&blueprintId=${encodeURIComponent(res.blueprintId)}&bpLocale=${locale}`;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusyCaseId(null);
+    }
+  };
+
+  const onDeleteCustom = async (blueprintId: string) => {
+    if (!blueprintsPath || !window.confirm(t.confirmRemove)) return;
+    setError(null);
+    try {
+      await api(`${blueprintsPath}/${encodeURIComponent(blueprintId)}`, { method: "DELETE" });
+      setReloadKey((k) => k + 1);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const onImportFile = async (file: File) => {
+    if (!blueprintsPath) return;
+    setError(null);
+    try {
+      const blueprint = JSON.parse(await file.text()) as unknown;
+      await api(blueprintsPath, { method: "POST", body: JSON.stringify({ blueprint }) });
+      setReloadKey((k) => k + 1);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
 
   const onUseCase = async (blueprintId: string) => {
     setBusyCaseId(blueprintId);
@@ -144,14 +242,90 @@ export default function BlueprintsPage() {
         </div>
       </div>
 
+      {error ? <div className="toast" style={{ margin: "8px 0 0 0" }}>{error}</div> : null}
+
+      {workspaceId ? (
+        <>
+          <div className="blueprints-toolbar">
+            <span className="blueprint-title">{t.custom}</span>
+            <span className="muted">{t.customHint}</span>
+            <button className="btn" onClick={() => setEditing({ ...EMPTY_BLUEPRINT })} disabled={editing !== null}>
+              <Plus size={14} /> {t.newBlueprint}
+            </button>
+            <button className="btn" onClick={() => importRef.current?.click()}>
+              <Upload size={14} /> {t.importBlueprint}
+            </button>
+            <input
+              ref={importRef}
+              type="file"
+              accept="application/json,.json"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void onImportFile(file);
+              }}
+            />
+          </div>
+
+          {editing ? (
+            <BlueprintEditor
+              key={editing.id ?? "new"}
+              locale={locale}
+              workspaceId={workspaceId}
+              initial={editing}
+              onCancel={() => setEditing(null)}
+              onSaved={() => {
+                setEditing(null);
+                setReloadKey((k) => k + 1);
+              }}
+            />
+          ) : null}
+
+          <div className="blueprints-grid">
+            {customCases.length === 0 ? <span className="muted">{t.noCustom}</span> : null}
+            {customCases.map((c) => (
+              <section key={c.id} className="blueprint-card">
+                <div className="blueprint-card-header">
+                  <div className="blueprint-title">{locale === "zh" ? c.nameZh : c.nameEn}</div>
+                  <div className="blueprint-subtitle">{locale === "zh" ? c.descriptionZh : c.descriptionEn}</div>
+                </div>
+
+                <BlueprintMiniMap locale={locale} nodes={c.previewNodes} edges={c.previewEdges} />
+
+                <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                  <button className="btn" onClick={() => setEditing(c)} disabled={editing !== null}>
+                    <Pencil size={14} /> {t.edit}
+                  </button>
+                  <a className="btn" href={`${blueprintsPath}/${encodeURIComponent(c.id)}/export`}>
+                    <Download size={14} /> {t.exportBlueprint}
+                  </a>
+                  <button className="btn btn-danger" onClick={() => void onDeleteCustom(c.id)}>
+                    <Trash2 size={14} /> {t.remove}
+                  </button>
+                </div>
+
+                <button
+                  className="btn btn-primary blueprint-use-btn"
+                  disabled={busyCaseId !== null}
+                  onClick={() => void onUseCustom(c.id)}
+                >
+                  <PlayCircle size={14} />
+                  {busyCaseId === c.id ? t.using : t.useCase}
+                </button>
+              </section>
+            ))}
+          </div>
+        </>
+      ) : null}
+
       <div className="blueprints-toolbar">
+        <span className="blueprint-title">{t.builtin}</span>
         <span className="muted">{t.newWorkspaceHint}</span>
       </div>
 
-      {error ? <div className="toast" style={{ margin: "8px 0 0 0" }}>{error}</div> : null}
-
       <div className="blueprints-grid">
-        {cases.map((c) => (
+        {builtinCases.map((c) => (
           <section key={c.id} className="blueprint-card">
             <div className="blueprint-card-header">
               <div className="blueprint-title">{locale === "zh" ? c.nameZh : c.nameEn}</div>
@@ -14,6 +14,13 @@ type WorkspaceDefaults = {
 
 type GraphNode = { id: UUID; role: string; parentId: UUID | null };
 type GraphEdge = { from: UUID; to: UUID; count: number; lastSendTime: string };
+type GraphLink = { from: UUID; to: UUID; type: "command" | "collab" | "review"; groupId: UUID | null };
+
+const LINK_COLORS: Record<GraphLink["type"], string> = {
+  command: "rgba(56, 189, 248, 0.9)",
+  collab: "rgba(52, 211, 153, 0.85)",
+  review: "rgba(251, 191, 36, 0.85)",
+};
 
 const SESSION_KEY = "agent-wechat.session.v1";
 
@@ -37,6 +44,7 @@ export default function GraphPage() {
   const [session] = useState<WorkspaceDefaults | null>(() => loadSession());
   const [nodes, setNodes] = useState<GraphNode[]>([]);
   const [edges, setEdges] = useState<GraphEdge[]>([]);
+  const [links, setLinks] = useState<GraphLink[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
@@ -44,9 +52,12 @@ export default function GraphPage() {
     void (async () => {
       try {
         const q = new URLSearchParams({ workspaceId: session.workspaceId, limitMessages: "2000" });
-        const res = await api<{ nodes: GraphNode[]; edges: GraphEdge[] }>(`/api/agent-graph?${q.toString()}`);
+        const res = await api<{ nodes: GraphNode[]; edges: GraphEdge[]; links: GraphLink[] }>(
+          `/api/agent-graph?${q.toString()}`
+        );
         setNodes(res.nodes);
         setEdges(res.edges);
+        setLinks(res.links ?? []);
       } catch (e) {
         setError(e instanceof Error ? e.message : String(e));
       }
@@ -93,7 +104,7 @@ export default function GraphPage() {
 
       {error ? <div className="toast">{error}</div> : null}
 
-      <div style={{ display: "grid", gridTemplateColumns: "repeat(2, minmax(0, 320px))", gap: 12, marginTop: 16 }}>
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(3, minmax(0, 320px))", gap: 12, marginTop: 16 }}>
         <div className="card">
           <div className="card-title">Edges</div>
           <div className="card-body" style={{ fontSize: 28, fontWeight: 700 }}>
@@ -106,8 +117,41 @@ export default function GraphPage() {
             {stats.totalMessages}
           </div>
         </div>
+        <div className="card">
+          <div className="card-title">Allowed links</div>
+          <div className="card-body" style={{ fontSize: 28, fontWeight: 700 }}>
+            {links.length}
+          </div>
+        </div>
       </div>
 
+      {links.length > 0 ? (
+        <div className="card" style={{ marginTop: 16, maxWidth: 980 }}>
+          <div className="card-title">Communication Graph</div>
+          <div className="card-body" style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+            <div className="muted" style={{ fontSize: 12 }}>
+              Blueprint agents may only message the peers they are linked to; each link has its own group.
+            </div>
+            {links.map((l) => (
+              <div key={`${l.from}=>${l.to}:${l.type}`} className="row" style={{ cursor: "default" }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 12 }}>
+                  <div style={{ fontWeight: 600, overflow: "hidden", textOverflow: "ellipsis" }}>
+                    {roleById.get(l.from) ?? l.from.slice(0, 8)} → {roleById.get(l.to) ?? l.to.slice(0, 8)}
+                  </div>
+                  <div className="mono" style={{ fontSize: 12, color: LINK_COLORS[l.type] }}>
+                    {l.type}
+                  </div>
+                </div>
+                <div className="muted mono" style={{ fontSize: 12, marginTop: 6 }}>
+                  {l.from.slice(0, 8)} → {l.to.slice(0, 8)}
+                  {l.groupId ? ` • group ${l.groupId.slice(0, 8)}` : ""}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
       <div className="card" style={{ marginTop: 16, maxWidth: 980 }}>
         <div className="card-title">Recent Flows</div>
         <div className="card-body" style={{ display: "flex", flexDirection: "column", gap: 10 }}>
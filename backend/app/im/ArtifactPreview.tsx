@@ -0,0 +1,157 @@
+import { useEffect, useState, type ReactNode } from "react";
+
+export type ArtifactMeta = {
+  id: string;
+  workspaceId: string;
+  name: string;
+  mimeType: string;
+  sizeBytes: number;
+  previewKind: string;
+};
+
+/** Larger files only get a download link; fetching them into every bubble would stall the list. */
+const MAX_PREVIEW_BYTES = 512 * 1024;
+const MAX_CSV_ROWS = 20;
+
+export function artifactContentUrl(artifact: ArtifactMeta, download = false) {
+  return (
+    `/api/workspaces/${encodeURIComponent(artifact.workspaceId)}/artifacts/${encodeURIComponent(artifact.id)}/content` +
+    (download ? "?download=1" : "")
+  );
+}
+
+function fmtSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF. */
+function parseCsv(text: string, maxRows: number) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const ch = text[i]!;
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if ((field || row.length) && rows.length < maxRows) rows.push([...row, field]);
+  return rows;
+}
+
+function codeFence(name: string, text: string) {
+  const ext = name.includes(".") ? name.slice(name.lastIndexOf(".") + 1).toLowerCase() : "";
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${ext}\n${text}\n${fence}`;
+}
+
+export function ArtifactPreview({
+  artifact,
+  renderMarkdown,
+}: {
+  artifact: ArtifactMeta;
+  renderMarkdown: (content: string) => ReactNode;
+}) {
+  const textual = ["markdown", "code", "csv", "text"].includes(artifact.previewKind);
+  const previewable = artifact.sizeBytes <= MAX_PREVIEW_BYTES && (textual || artifact.previewKind === "image");
+  const [text, setText] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    if (!previewable || !textual) return;
+    let cancelled = false;
+    fetch(artifactContentUrl(artifact))
+      .then((res) => (res.ok ? res.text() : Promise.reject(new Error(String(res.status)))))
+      .then((body) => !cancelled && setText(body))
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [artifact, previewable, textual]);
+
+  let body: ReactNode = null;
+  if (previewable && artifact.previewKind === "image") {
+    body = (
+      <img
+        src={artifactContentUrl(artifact)}
+        alt={artifact.name}
+        style={{ maxWidth: "100%", maxHeight: 320, borderRadius: 6, display: "block" }}
+      />
+    );
+  } else if (previewable && failed) {
+    body = <div className="muted">preview unavailable</div>;
+  } else if (previewable && text === null) {
+    body = <div className="muted">loading…</div>;
+  } else if (previewable && text !== null) {
+    if (artifact.previewKind === "markdown") body = renderMarkdown(text);
+    else if (artifact.previewKind === "code") body = renderMarkdown(codeFence(artifact.name, text));
+    else if (artifact.previewKind === "csv") {
+      const [head, ...rows] = parseCsv(text, MAX_CSV_ROWS + 1);
+      body = (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ borderCollapse: "collapse", fontSize: 12 }}>
+            <thead>
+              <tr>
+                {(head ?? []).map((cell, i) => (
+                  <th key={i} style={{ border: "1px solid rgba(148,163,184,0.3)", padding: "2px 6px", textAlign: "left" }}>
+                    {cell}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, r) => (
+                <tr key={r}>
+                  {row.map((cell, i) => (
+                    <td key={i} style={{ border: "1px solid rgba(148,163,184,0.3)", padding: "2px 6px" }}>
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    } else {
+      body = (
+        <pre className="mono" style={{ whiteSpace: "pre-wrap", maxHeight: 240, overflow: "auto", fontSize: 12, margin: 0 }}>
+          {text}
+        </pre>
+      );
+    }
+  }
+
+  return (
+    <div style={{ border: "1px solid rgba(148,163,184,0.3)", borderRadius: 6, padding: 6, marginTop: 6 }}>
+      <div style={{ display: "flex", gap: 6, fontSize: 11, marginBottom: body ? 4 : 0 }}>
+        <span className="mono" style={{ flex: 1, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+          📎 {artifact.name}
+        </span>
+        <span className="muted">{fmtSize(artifact.sizeBytes)}</span>
+        <a href={artifactContentUrl(artifact, true)} download={artifact.name}>
+          download
+        </a>
+      </div>
+      {body}
+    </div>
+  );
+}
@@ -1,13 +1,27 @@
-import type { ReactNode } from "react";
+import { useEffect, useLayoutEffect, useRef, type ReactNode } from "react";
+
+import { ArtifactPreview, type ArtifactMeta } from "./ArtifactPreview";
 
 type Message = {
   id: string;
   senderId: string;
   content: string;
   contentType: string;
+  replyToId?: string | null;
+  mentions?: string[];
+  attachments?: ArtifactMeta[];
+  reactions?: Array<{ reaction: string; agentIds: string[] }>;
   sendTime: string;
+  editedAt?: string | null;
+  deletedAt?: string | null;
+  redactedAt?: string | null;
 };
 
+/** Offered on every bubble; other reactions sent by agents show up next to them. */
+const QUICK_REACTIONS = ["ack", "👍"];
+/** Older pages load once the reader scrolls this close to the top. */
+const LOAD_OLDER_THRESHOLD_PX = 120;
+
 type IMMessageListProps = {
   messages: Message[];
   humanAgentId?: string | null;
@@ -15,6 +29,17 @@ type IMMessageListProps = {
   fmtTime: (iso: string) => string;
   renderContent: (content: string) => ReactNode;
   cx: (...classes: Array<string | false | undefined | null>) => string;
+  onReply?: (message: Message) => void;
+  onReact?: (message: Message, reaction: string) => void;
+  /** Offered on the human's own live messages. */
+  onEdit?: (message: Message) => void;
+  onDelete?: (message: Message) => void;
+  /** Offered on every live message; the server decides whether the caller may redact. */
+  onRedact?: (message: Message) => void;
+  /** More messages exist before the first one shown. */
+  hasOlder?: boolean;
+  loadingOlder?: boolean;
+  onLoadOlder?: () => void;
   ephemeralMessage?: {
     senderId: string;
     content: string;
@@ -30,13 +55,83 @@ export function IMMessageList({
   fmtTime,
   renderContent,
   cx,
+  onReply,
+  onReact,
+  onEdit,
+  onDelete,
+  onRedact,
+  hasOlder,
+  loadingOlder,
+  onLoadOlder,
   ephemeralMessage,
 }: IMMessageListProps) {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const roleOf = (id: string) => agentRoleById.get(id) ?? id.slice(0, 8);
+  const topRef = useRef<HTMLDivElement | null>(null);
+  // Scroll height before an older page was requested, so the viewport can stay on the same message.
+  const anchorRef = useRef<{ firstId: string | undefined; scrollHeight: number } | null>(null);
+  const firstId = messages[0]?.id;
+
+  const requestOlder = () => {
+    const scroller = topRef.current?.parentElement;
+    if (!hasOlder || loadingOlder || !onLoadOlder || !scroller) return;
+    anchorRef.current = { firstId, scrollHeight: scroller.scrollHeight };
+    onLoadOlder();
+  };
+  const requestOlderRef = useRef(requestOlder);
+  requestOlderRef.current = requestOlder;
+
+  // Listens on the scrolling parent (.chat) rather than observing the top row: the list opens at
+  // the top before it scrolls to the newest message, and that must not pull in an extra page.
+  useEffect(() => {
+    const scroller = topRef.current?.parentElement;
+    if (!scroller) return;
+    const onScroll = () => {
+      if (scroller.scrollTop < LOAD_OLDER_THRESHOLD_PX) requestOlderRef.current();
+    };
+    scroller.addEventListener("scroll", onScroll, { passive: true });
+    return () => scroller.removeEventListener("scroll", onScroll);
+  }, []);
+
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    const scroller = topRef.current?.parentElement;
+    if (!anchor || !scroller || anchor.firstId === firstId) return;
+    scroller.scrollTop += scroller.scrollHeight - anchor.scrollHeight;
+    anchorRef.current = null;
+  }, [firstId]);
+
   return (
     <>
+      <div ref={topRef} style={{ textAlign: "center", marginBottom: hasOlder ? 10 : 0 }}>
+        {hasOlder ? (
+          <button type="button" className="bubble-tag" disabled={loadingOlder} onClick={requestOlder}>
+            {loadingOlder ? "loading…" : "load earlier messages"}
+          </button>
+        ) : null}
+      </div>
       {messages.map((m) => {
         const isMe = m.senderId === humanAgentId;
         const senderRole = agentRoleById.get(m.senderId) ?? (isMe ? "human" : m.senderId.slice(0, 8));
+        const replyTarget = m.replyToId ? byId.get(m.replyToId) : undefined;
+        const reactions = m.reactions ?? [];
+        const quick = QUICK_REACTIONS.filter((r) => !reactions.some((x) => x.reaction === r));
+        // Optimistic bubbles have no server row yet, and deleted or redacted ones cannot change again.
+        const mutable = !m.id.startsWith("optimistic-") && !m.deletedAt && !m.redactedAt;
+        if (m.deletedAt) {
+          return (
+            <div key={m.id} style={{ display: "flex", justifyContent: isMe ? "flex-end" : "flex-start", marginBottom: 10 }}>
+              <div className={cx("bubble", isMe ? "me" : "other")} style={{ opacity: 0.6 }}>
+                <div className="bubble-meta">
+                  {fmtTime(m.sendTime)} • {senderRole}
+                </div>
+                <div className="muted" style={{ fontStyle: "italic" }}>
+                  message deleted
+                </div>
+              </div>
+            </div>
+          );
+        }
         return (
           <div
             key={m.id}
@@ -49,8 +144,65 @@ export function IMMessageList({
             <div className={cx("bubble", isMe ? "me" : "other")}>
               <div className="bubble-meta">
                 {fmtTime(m.sendTime)} • {senderRole}
+                {m.mentions?.length ? ` → ${m.mentions.map((id) => `@${roleOf(id)}`).join(" ")}` : ""}
+                {m.redactedAt ? " · (redacted)" : m.editedAt ? " · (edited)" : ""}
               </div>
-              {renderContent(m.content)}
+              {m.replyToId ? (
+                <div
+                  className="muted"
+                  style={{ fontSize: 11, borderLeft: "2px solid rgba(148,163,184,0.5)", paddingLeft: 6, marginBottom: 4 }}
+                >
+                  {replyTarget
+                    ? `${roleOf(replyTarget.senderId)}: ${replyTarget.content.slice(0, 80)}`
+                    : `↩ ${m.replyToId.slice(0, 8)}`}
+                </div>
+              ) : null}
+              {m.content ? renderContent(m.content) : null}
+              {m.attachments?.map((a) => (
+                <ArtifactPreview key={a.id} artifact={a} renderMarkdown={renderContent} />
+              ))}
+              {reactions.length > 0 || onReply || onReact || (mutable && (onEdit || onDelete || onRedact)) ? (
+                <div style={{ display: "flex", gap: 4, flexWrap: "wrap", marginTop: 4, fontSize: 11 }}>
+                  {reactions.map((r) => (
+                    <button
+                      key={r.reaction}
+                      type="button"
+                      className={cx("bubble-tag", humanAgentId && r.agentIds.includes(humanAgentId) && "active")}
+                      title={r.agentIds.map(roleOf).join(", ")}
+                      onClick={() => onReact?.(m, r.reaction)}
+                    >
+                      {r.reaction} {r.agentIds.length}
+                    </button>
+                  ))}
+                  {onReact
+                    ? quick.map((r) => (
+                        <button key={r} type="button" className="bubble-tag" style={{ opacity: 0.5 }} onClick={() => onReact(m, r)}>
+                          {r}
+                        </button>
+                      ))
+                    : null}
+                  {onReply ? (
+                    <button type="button" className="bubble-tag" style={{ opacity: 0.5 }} onClick={() => onReply(m)}>
+                      ↩ reply
+                    </button>
+                  ) : null}
+                  {mutable && isMe && onEdit ? (
+                    <button type="button" className="bubble-tag" style={{ opacity: 0.5 }} onClick={() => onEdit(m)}>
+                      ✎ edit
+                    </button>
+                  ) : null}
+                  {mutable && isMe && onDelete ? (
+                    <button type="button" className="bubble-tag" style={{ opacity: 0.5 }} onClick={() => onDelete(m)}>
+                      delete
+                    </button>
+                  ) : null}
+                  {mutable && onRedact ? (
+                    <button type="button" className="bubble-tag" style={{ opacity: 0.5 }} onClick={() => onRedact(m)}>
+                      redact
+                    </button>
+                  ) : null}
+                </div>
+              ) : null}
             </div>
           </div>
         );
@@ -1,7 +1,7 @@
 ﻿"use client";
 
 import { useSearchParams } from "next/navigation";
-import type { MouseEvent as ReactMouseEvent, PointerEvent as ReactPointerEvent, TouchEvent as ReactTouchEvent } from "react";
+import type { MouseEvent as ReactMouseEvent, PointerEvent as ReactPointerEvent, ReactNode, TouchEvent as ReactTouchEvent } from "react";
 import { Fragment, Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import { Briefcase, ChevronDown, ChevronLeft, ChevronRight, Code2, Network, User } from "lucide-react";
@@ -10,6 +10,7 @@ import { createCodePlugin } from "@streamdown/code";
 import { mermaid } from "@streamdown/mermaid";
 import { IMShell } from "./IMShell";
 import { IMMessageList } from "./IMMessageList";
+import { ArtifactPreview, type ArtifactMeta } from "./ArtifactPreview";
 import { IMHistoryList } from "./IMHistoryList";
 
 // Create code plugin with dark theme
@@ -42,7 +43,7 @@ type ModelProfile = {
   id: UUID;
   workspaceId: UUID;
   name: string;
-  provider: "glm" | "openrouter" | "openai_compatible";
+  provider: "glm" | "openrouter" | "openai_compatible" | "anthropic";
   baseUrl: string | null;
   model: string;
   isDefault: boolean;
@@ -54,6 +55,7 @@ type Group = {
   id: UUID;
   name: string | null;
   kind?: "chat" | "game_undercover" | "game_werewolf";
+  wakeMode?: "all" | "mentions";
   memberIds: UUID[];
   unreadCount: number;
   contextTokens: number;
@@ -72,7 +74,21 @@ type Message = {
   senderId: UUID;
   content: string;
   contentType: string;
+  replyToId?: UUID | null;
+  mentions?: UUID[];
+  attachments?: ArtifactMeta[];
+  reactions?: Array<{ reaction: string; agentIds: UUID[] }>;
   sendTime: string;
+  editedAt?: string | null;
+  deletedAt?: string | null;
+  redactedAt?: string | null;
+};
+
+type MessagePage = {
+  messages: Message[];
+  hasMore: boolean;
+  beforeCursor: string | null;
+  afterCursor: string | null;
 };
 
 type UiStreamEvent = {
@@ -134,26 +150,52 @@ type TaskRuntimeState = {
   rootGroupId: string;
   ownerAgentId: string;
   goal: string;
-  status: "running" | "stopping" | "stopped" | "completed";
+  status: "running" | "paused" | "stopping" | "stopped" | "completed";
   startAt: string;
   deadlineAt: string;
   stopReason?: string | null;
   totalTurns: number;
   totalMessages: number;
   repeatedRatio: number;
+  usageTokens?: number;
+  usageCostUsd?: number;
   remainingMs: number;
+  workflow?: {
+    id: string;
+    name: string;
+    steps: Array<{ id: string; title: string; role: string; status: string; attempts: number }>;
+  } | null;
+};
+
+type ToolApproval = {
+  id: string;
+  agentId: string;
+  groupId: string;
+  toolName: string;
+  argumentsJson: string;
+  createdAt: string;
+};
+
+type HumanQuestion = {
+  id: string;
+  agentId: string;
+  groupId: string;
+  kind: "text" | "choice" | "yes_no";
+  question: string;
+  choices: string[] | null;
+  expiresAt: string;
 };
 
 type TaskTemplate = {
-  id: "debate" | "paper" | "code_review";
+  id: string;
+  slug: string;
+  version: number;
   nameZh: string;
   nameEn: string;
   descriptionZh: string;
   descriptionEn: string;
-  defaultGoal: string;
-  suggestedDurationMin: number;
-  defaultMaxTurns: number;
-  defaultMaxTokenDelta: number;
+  goalTemplate: string;
+  budget: { maxDurationMs: number; maxTurns: number; maxTokenDelta: number };
 };
 
 type TaskReview = {
@@ -162,18 +204,43 @@ type TaskReview = {
   reviewJson: string;
   narrativeText: string;
   createdAt: string;
+  /** Files written by the task run's agents. */
+  artifacts: ArtifactMeta[];
+};
+
+type SearchHit = {
+  kind: "message" | "task_goal" | "task_review" | "game_speech";
+  id: string;
+  groupId: string | null;
+  senderId: string | null;
+  taskId: string | null;
+  gameId: string | null;
+  contentType: string | null;
+  createdAt: string;
+  rank: number;
+  snippet: { text: string; highlights: Array<[number, number]> };
+};
+
+const SEARCH_KIND_LABELS: Record<SearchHit["kind"], string> = {
+  message: "消息",
+  task_goal: "任务目标",
+  task_review: "任务复盘",
+  game_speech: "游戏发言",
 };
 
 type BlueprintCaseLite = {
-  id: "debate" | "paper" | "code_review" | "product_design";
+  /** A built-in case id or a custom blueprint UUID. */
+  id: string;
   goalTemplateZh: string;
   goalTemplateEn: string;
+  workflowId?: string | null;
 };
 
 type PendingBlueprintTopic = {
   blueprintId: BlueprintCaseLite["id"];
   locale: "zh" | "en";
   goalTemplate: string;
+  workflowId?: string | null;
 };
 
 type RightPanelId = "history" | "content" | "reasoning" | "tools";
@@ -221,6 +288,25 @@ type AgentStreamEvent =
       event: "agent.unread";
       data: { agentId: string; batches: Array<{ groupId: string; messageIds: string[] }> };
     }
+  | {
+      id: number;
+      at: number;
+      event: "agent.compaction.start";
+      data: { agentId: string; beforeTokens: number; foldedMessages: number };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "agent.compaction.done";
+      data: {
+        agentId: string;
+        beforeTokens: number;
+        afterTokens: number;
+        foldedMessages: number;
+        summarized: boolean;
+        error?: string | null;
+      };
+    }
   | { id: number; at: number; event: "agent.done"; data: { finishReason?: string | null } }
   | { id: number; at: number; event: "agent.error"; data: { message: string } };
 
@@ -245,6 +331,18 @@ function saveSession(session: WorkspaceDefaults) {
   localStorage.setItem(SESSION_KEY, JSON.stringify(session));
 }
 
+function renderSnippet(snippet: SearchHit["snippet"]) {
+  const parts: ReactNode[] = [];
+  let at = 0;
+  for (const [start, end] of snippet.highlights) {
+    if (start > at) parts.push(snippet.text.slice(at, start));
+    parts.push(<mark key={start}>{snippet.text.slice(start, end)}</mark>);
+    at = end;
+  }
+  parts.push(snippet.text.slice(at));
+  return parts;
+}
+
 async function api<T>(path: string, init?: RequestInit): Promise<T> {
   const res = await fetch(path, {
     ...init,
@@ -253,6 +351,7 @@ async function api<T>(path: string, init?: RequestInit): Promise<T> {
       "Content-Type": "application/json",
     },
   });
+  if (res.status === 401 && typeof window !== "undefined") window.location.href = "/login";
   if (!res.ok) {
     const text = await res.text().catch(() => "");
     throw new Error(`${res.status} ${res.statusText} ${text}`);
@@ -299,20 +398,46 @@ function IMPageInner() {
   const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
   const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<ArtifactMeta[]>([]);
+  /** Cursor for the page before the first loaded message; null once the group's start is reached. */
+  const [olderCursor, setOlderCursor] = useState<string | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  /** Newest loaded message of the active group; background refreshes only fetch what came after it. */
+  const messageCursorRef = useRef<{ groupId: string | null; after: string | null }>({ groupId: null, after: null });
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [status, setStatus] = useState<"boot" | "groups" | "messages" | "send" | "idle">("boot");
   const [error, setError] = useState<string | null>(null);
   const [stoppingAgents, setStoppingAgents] = useState(false);
   const [terminatingAgents, setTerminatingAgents] = useState(false);
   const [deletingAgents, setDeletingAgents] = useState(false);
   const [taskGoal, setTaskGoal] = useState("");
-  const [taskTemplateId, setTaskTemplateId] = useState<"" | TaskTemplate["id"]>("");
+  const [taskTemplateId, setTaskTemplateId] = useState("");
   const [taskTemplateTopic, setTaskTemplateTopic] = useState("");
   const [taskTemplates, setTaskTemplates] = useState<TaskTemplate[]>([]);
   const [taskDurationMin, setTaskDurationMin] = useState(5);
-  const [taskState, setTaskState] = useState<TaskRuntimeState | null>(null);
+  // Every live task of the workspace; the status bar follows the one rooted in the open group.
+  const [taskStates, setTaskStates] = useState<TaskRuntimeState[]>([]);
+  const taskState = useMemo(
+    () => taskStates.find((t) => t.rootGroupId === activeGroupId) ?? taskStates[0] ?? null,
+    [activeGroupId, taskStates]
+  );
+  const upsertTaskState = useCallback((task: TaskRuntimeState | null | undefined) => {
+    if (!task) return;
+    setTaskStates((prev) => [task, ...prev.filter((t) => t.taskId !== task.taskId)]);
+  }, []);
+  const patchTaskState = useCallback((taskId: string, patch: (prev: TaskRuntimeState) => TaskRuntimeState) => {
+    setTaskStates((prev) => prev.map((t) => (t.taskId === taskId ? patch(t) : t)));
+  }, []);
   const [taskReview, setTaskReview] = useState<TaskReview | null>(null);
+  const [toolApprovals, setToolApprovals] = useState<ToolApproval[]>([]);
+  const [humanQuestions, setHumanQuestions] = useState<HumanQuestion[]>([]);
+  const [questionDrafts, setQuestionDrafts] = useState<Record<string, string>>({});
   const [taskBusy, setTaskBusy] = useState(false);
   const [pendingBlueprintTopics, setPendingBlueprintTopics] = useState<Record<string, PendingBlueprintTopic>>({});
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchHits, setSearchHits] = useState<SearchHit[] | null>(null);
 
   const [contentStream, setContentStream] = useState("");
   const [showLiveBubble, setShowLiveBubble] = useState(false);
@@ -741,19 +866,36 @@ function IMPageInner() {
   }, []);
 
   const refreshTaskState = useCallback(async (s: WorkspaceDefaults) => {
-    const res = await api<{ ok: boolean; task: TaskRuntimeState | null }>(
+    const res = await api<{ ok: boolean; task: TaskRuntimeState | null; tasks?: TaskRuntimeState[] }>(
       `/api/tasks/active?workspaceId=${encodeURIComponent(s.workspaceId)}`
     );
-    setTaskState(res.task ?? null);
+    setTaskStates(res.tasks ?? (res.task ? [res.task] : []));
+  }, []);
+
+  const refreshToolApprovals = useCallback(async (s: WorkspaceDefaults) => {
+    const res = await api<{ ok: boolean; approvals: ToolApproval[] }>(
+      `/api/workspaces/${encodeURIComponent(s.workspaceId)}/tool-approvals?status=pending`
+    );
+    setToolApprovals(res.approvals ?? []);
   }, []);
 
-  const refreshTaskTemplates = useCallback(async () => {
-    const res = await api<{ ok: boolean; templates: TaskTemplate[] }>(`/api/tasks/templates`);
+  const refreshHumanQuestions = useCallback(async (s: WorkspaceDefaults) => {
+    const res = await api<{ ok: boolean; questions: HumanQuestion[] }>(
+      `/api/workspaces/${encodeURIComponent(s.workspaceId)}/human-questions?status=pending`
+    );
+    setHumanQuestions(res.questions ?? []);
+  }, []);
+
+  const refreshTaskTemplates = useCallback(async (workspaceId: string) => {
+    const res = await api<{ ok: boolean; templates: TaskTemplate[] }>(
+      `/api/tasks/templates?workspaceId=${encodeURIComponent(workspaceId)}`
+    );
     setTaskTemplates(res.templates ?? []);
   }, []);
 
   const setupPendingBlueprintTopic = useCallback(
     async (
+      workspaceId: string,
       groupId: string,
       blueprintIdRaw: string | null,
       localeRaw: string | null
@@ -761,7 +903,9 @@ function IMPageInner() {
       const blueprintId = (blueprintIdRaw ?? "").trim() as BlueprintCaseLite["id"] | "";
       if (!groupId || !blueprintId) return;
       const locale = localeRaw === "en" ? "en" : "zh";
-      const res = await api<{ ok: boolean; cases: BlueprintCaseLite[] }>(`/api/blueprints/cases`);
+      const res = await api<{ ok: boolean; cases: BlueprintCaseLite[] }>(
+        `/api/blueprints/cases?workspaceId=${encodeURIComponent(workspaceId)}`
+      );
       const found = (res.cases ?? []).find((c) => c.id === blueprintId);
       if (!found) return;
       const goalTemplate = locale === "zh" ? found.goalTemplateZh : found.goalTemplateEn;
@@ -771,6 +915,7 @@ function IMPageInner() {
           blueprintId: found.id,
           locale,
           goalTemplate,
+          workflowId: found.workflowId,
         },
       }));
     },
@@ -782,10 +927,10 @@ function IMPageInner() {
       setTaskReview(null);
       return;
     }
-    const res = await api<{ ok: boolean; review: TaskReview | null }>(
+    const res = await api<{ ok: boolean; review: Omit<TaskReview, "artifacts"> | null; artifacts?: ArtifactMeta[] }>(
       `/api/tasks/review?taskId=${encodeURIComponent(taskId)}`
     );
-    setTaskReview(res.review ?? null);
+    setTaskReview(res.review ? { ...res.review, artifacts: res.artifacts ?? [] } : null);
   }, []);
 
   const refreshPublicTimeline = useCallback(
@@ -966,8 +1111,42 @@ function IMPageInner() {
     api<{ tokenLimit: number }>("/api/config")
       .then((c) => setTokenLimit(c.tokenLimit))
       .catch(() => setTokenLimit(100000));
-    void refreshTaskTemplates();
-  }, [refreshTaskTemplates]);
+  }, []);
+
+  useEffect(() => {
+    if (!session?.workspaceId) return;
+    void refreshTaskTemplates(session.workspaceId).catch(() => undefined);
+  }, [refreshTaskTemplates, session?.workspaceId]);
+
+  useEffect(() => {
+    const workspaceId = session?.workspaceId;
+    const q = searchQuery.trim();
+    if (!workspaceId || !q) {
+      setSearchHits(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      const params = new URLSearchParams({ workspaceId, q, limit: "30" });
+      void api<{ results: SearchHit[] }>(`/api/search?${params.toString()}`)
+        .then((res) => {
+          if (!cancelled) setSearchHits(res.results ?? []);
+        })
+        .catch(() => {
+          if (!cancelled) setSearchHits([]);
+        });
+    }, 300);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [searchQuery, session?.workspaceId]);
+
+  const openSearchHit = useCallback((hit: SearchHit) => {
+    if (!hit.groupId) return;
+    setActiveGroupId(hit.groupId);
+    setChatViewMode("group");
+  }, []);
 
   const refreshGroups = useCallback(async (s: WorkspaceDefaults, opts?: { silent?: boolean }) => {
     if (!opts?.silent) setStatus("groups");
@@ -999,14 +1178,32 @@ function IMPageInner() {
       opts?: { markRead?: boolean; silent?: boolean; skipGroupRefresh?: boolean }
     ) => {
       if (!opts?.silent) setStatus("messages");
-      const q = new URLSearchParams();
-      if (opts?.markRead ?? true) q.set("markRead", "true");
-      q.set("readerId", s.humanAgentId);
-      const suffix = q.size ? `?${q.toString()}` : "";
-      const { messages } = await api<{ messages: Message[] }>(
-        `/api/groups/${groupId}/messages${suffix}`
-      );
-      setMessages(messages);
+      const fetchPage = (after: string | null) => {
+        const q = new URLSearchParams();
+        if (opts?.markRead ?? true) q.set("markRead", "true");
+        q.set("readerId", s.humanAgentId);
+        if (after) q.set("after", after);
+        return api<MessagePage>(`/api/groups/${groupId}/messages?${q.toString()}`);
+      };
+      const known = messageCursorRef.current;
+      let incremental = opts?.silent && known.groupId === groupId ? known.after : null;
+      let page = await fetchPage(incremental);
+      if (incremental && page.hasMore) {
+        // Too much arrived to append; start over from the newest page.
+        incremental = null;
+        page = await fetchPage(null);
+      }
+      if (incremental) {
+        const fresh = page.messages;
+        setMessages((prev) => {
+          const seen = new Set(prev.map((m) => m.id));
+          return [...prev.filter((m) => !m.id.startsWith("optimistic-")), ...fresh.filter((m) => !seen.has(m.id))];
+        });
+      } else {
+        setMessages(page.messages);
+        setOlderCursor(page.hasMore ? page.beforeCursor : null);
+      }
+      messageCursorRef.current = { groupId, after: page.afterCursor ?? known.after };
       if (!opts?.silent) setStatus("idle");
       if (!opts?.skipGroupRefresh) {
         void refreshGroups(s, { silent: opts?.silent });
@@ -1016,6 +1213,27 @@ function IMPageInner() {
     [refreshGroups]
   );
 
+  const loadOlderMessages = useCallback(async () => {
+    const groupId = activeGroupIdRef.current;
+    if (!groupId || !olderCursor || loadingOlder) return;
+    setLoadingOlder(true);
+    try {
+      const page = await api<MessagePage>(
+        `/api/groups/${groupId}/messages?before=${encodeURIComponent(olderCursor)}`
+      );
+      if (activeGroupIdRef.current !== groupId) return;
+      setMessages((prev) => {
+        const seen = new Set(prev.map((m) => m.id));
+        return [...page.messages.filter((m) => !seen.has(m.id)), ...prev];
+      });
+      setOlderCursor(page.hasMore ? page.beforeCursor : null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setLoadingOlder(false);
+    }
+  }, [loadingOlder, olderCursor]);
+
   const pushVizEvent = useCallback(
     (event: UiStreamEvent, label: string, kind: VizEvent["kind"]) => {
       const at = typeof event.at === "number" ? event.at : Date.now();
@@ -1205,6 +1423,12 @@ function IMPageInner() {
             }
             return;
           }
+          if (payload.event === "agent.compaction.done") {
+            if (payload.data.error) setAgentError(`history compaction fallback: ${payload.data.error}`);
+            const agentId = streamAgentIdRef.current;
+            if (agentId) void refreshLlmHistory(agentId);
+            return;
+          }
           if (payload.event === "agent.done") {
             setShowLiveBubble(false);
             toolCallBuffersRef.current = new Map();
@@ -1455,7 +1679,7 @@ function IMPageInner() {
           maxTokenDelta: 20000,
         }),
       });
-      setTaskState(res.task ?? null);
+      upsertTaskState(res.task);
       if (activeGroupId) {
         setPendingBlueprintTopics((prev) => {
           if (!prev[activeGroupId]) return prev;
@@ -1469,7 +1693,7 @@ function IMPageInner() {
     } finally {
       setTaskBusy(false);
     }
-  }, [activeGroupId, session, taskBusy, taskDurationMin, taskGoal]);
+  }, [activeGroupId, session, taskBusy, taskDurationMin, taskGoal, upsertTaskState]);
 
   const onStartTemplateTask = useCallback(async () => {
     if (!session || taskBusy || !taskTemplateId) return;
@@ -1487,21 +1711,30 @@ function IMPageInner() {
           topic: taskTemplateTopic.trim(),
           overrides: {
             maxDurationMs: Math.max(1, taskDurationMin) * 60 * 1000,
-            maxTurns: selected?.defaultMaxTurns ?? 24,
-            maxTokenDelta: selected?.defaultMaxTokenDelta ?? 18000,
+            maxTurns: selected?.budget.maxTurns ?? 24,
+            maxTokenDelta: selected?.budget.maxTokenDelta ?? 18000,
           },
         }),
       });
-      setTaskState(res.task ?? null);
+      upsertTaskState(res.task);
     } catch (e) {
       setError(e instanceof Error ? e.message : String(e));
     } finally {
       setTaskBusy(false);
     }
-  }, [activeGroupId, session, taskBusy, taskDurationMin, taskTemplateId, taskTemplateTopic, taskTemplates]);
+  }, [
+    activeGroupId,
+    session,
+    taskBusy,
+    taskDurationMin,
+    taskTemplateId,
+    taskTemplateTopic,
+    taskTemplates,
+    upsertTaskState,
+  ]);
 
   const onStopTask = useCallback(async () => {
-    if (!session || taskBusy) return;
+    if (!session || !taskState || taskBusy) return;
     setTaskBusy(true);
     setError(null);
     try {
@@ -1509,6 +1742,7 @@ function IMPageInner() {
         method: "POST",
         body: JSON.stringify({
           workspaceId: session.workspaceId,
+          taskId: taskState.taskId,
         }),
       });
       await refreshTaskState(session);
@@ -1520,12 +1754,90 @@ function IMPageInner() {
     } finally {
       setTaskBusy(false);
     }
-  }, [refreshMessages, refreshTaskState, session, taskBusy]);
+  }, [refreshMessages, refreshTaskState, session, taskBusy, taskState]);
+
+  const onTogglePauseTask = useCallback(async () => {
+    if (!session || !taskState || taskBusy) return;
+    setTaskBusy(true);
+    setError(null);
+    try {
+      const action = taskState.status === "paused" ? "resume" : "pause";
+      const res = await api<{ ok: boolean; task: TaskRuntimeState | null }>(`/api/tasks/${action}`, {
+        method: "POST",
+        body: JSON.stringify({ workspaceId: session.workspaceId, taskId: taskState.taskId }),
+      });
+      upsertTaskState(res.task);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setTaskBusy(false);
+    }
+  }, [session, taskBusy, taskState, upsertTaskState]);
+
+  const onForkTask = useCallback(async () => {
+    if (!session || !taskState || taskBusy) return;
+    setTaskBusy(true);
+    setError(null);
+    try {
+      const res = await api<{ ok: boolean; fork: { workspaceId: string; rootGroupId: string } }>(`/api/tasks/fork`, {
+        method: "POST",
+        body: JSON.stringify({ workspaceId: session.workspaceId, taskId: taskState.taskId }),
+      });
+      await bootstrap(res.fork.workspaceId);
+      setActiveGroupId(res.fork.rootGroupId);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setTaskBusy(false);
+    }
+  }, [bootstrap, session, taskBusy, taskState]);
+
+  const onDecideToolApproval = useCallback(
+    async (approvalId: string, decision: "approve" | "deny") => {
+      if (!session) return;
+      setError(null);
+      try {
+        await api<{ ok: boolean }>(
+          `/api/workspaces/${encodeURIComponent(session.workspaceId)}/tool-approvals/${encodeURIComponent(approvalId)}`,
+          {
+            method: "POST",
+            body: JSON.stringify({ decision, decidedBy: session.humanAgentId }),
+          }
+        );
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setToolApprovals((prev) => prev.filter((a) => a.id !== approvalId));
+      }
+    },
+    [session]
+  );
+
+  const onAnswerHumanQuestion = useCallback(
+    async (questionId: string, answer: string) => {
+      if (!session || !answer.trim()) return;
+      setError(null);
+      try {
+        await api<{ ok: boolean }>(
+          `/api/workspaces/${encodeURIComponent(session.workspaceId)}/human-questions/${encodeURIComponent(questionId)}`,
+          {
+            method: "POST",
+            body: JSON.stringify({ answer, answeredBy: session.humanAgentId }),
+          }
+        );
+        setHumanQuestions((prev) => prev.filter((q) => q.id !== questionId));
+        setQuestionDrafts(({ [questionId]: _answered, ...rest }) => rest);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    },
+    [session]
+  );
 
   const onSend = useCallback(async () => {
     if (!session || !activeGroupId) return;
     const text = draft.trim();
-    if (!text) return;
+    if (!text && pendingAttachments.length === 0) return;
 
     if (text.startsWith("/create") || text.startsWith("/hire")) {
       const role = text.replace(/^\/(create|hire)\s*/i, "").trim();
@@ -1563,21 +1875,32 @@ function IMPageInner() {
     setStatus("send");
     setError(null);
 
+    const replyToId = replyTo && !replyTo.id.startsWith("optimistic-") ? replyTo.id : null;
     const optimistic: Message = {
       id: `optimistic-${Date.now()}`,
       senderId: session.humanAgentId,
       content: text,
       contentType: "text",
+      replyToId,
+      attachments: pendingAttachments,
       sendTime: new Date().toISOString(),
     };
     setMessages((m) => [...m, optimistic]);
     setDraft("");
+    setReplyTo(null);
+    setPendingAttachments([]);
     queueMicrotask(() => bottomRef.current?.scrollIntoView({ behavior: "smooth" }));
 
     try {
       await api(`/api/groups/${activeGroupId}/messages`, {
         method: "POST",
-        body: JSON.stringify({ senderId: session.humanAgentId, content: text, contentType: "text" }),
+        body: JSON.stringify({
+          senderId: session.humanAgentId,
+          content: text,
+          contentType: "text",
+          replyToId,
+          attachments: pendingAttachments.map((a) => a.id),
+        }),
       });
 
       const pending = pendingBlueprintTopicsRef.current[activeGroupId];
@@ -1593,9 +1916,11 @@ function IMPageInner() {
             maxDurationMs: 20 * 60 * 1000,
             maxTurns: 120,
             maxTokenDelta: 300000,
+            workflowId: pending.workflowId,
+            topic: text,
           }),
         });
-        setTaskState(started.task ?? null);
+        upsertTaskState(started.task);
         setPendingBlueprintTopics((prev) => {
           const next = { ...prev };
           delete next[activeGroupId];
@@ -1621,13 +1946,134 @@ function IMPageInner() {
     activeGroupId,
     connectAgentStream,
     draft,
+    pendingAttachments,
     refreshAgents,
     refreshGroups,
     refreshMessages,
+    replyTo,
     session,
     taskDurationMin,
+    upsertTaskState,
   ]);
 
+  const uploadAttachments = useCallback(
+    async (files: FileList | null) => {
+      if (!session || !files?.length) return;
+      setUploading(true);
+      setError(null);
+      try {
+        for (const file of Array.from(files)) {
+          const dataUrl = await new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(String(reader.result ?? ""));
+            reader.onerror = () => reject(reader.error ?? new Error("failed to read file"));
+            reader.readAsDataURL(file);
+          });
+          const res = await api<{ artifact: ArtifactMeta }>(
+            `/api/workspaces/${encodeURIComponent(session.workspaceId)}/artifacts`,
+            {
+              method: "POST",
+              body: JSON.stringify({
+                name: file.name,
+                content: dataUrl.slice(dataUrl.indexOf(",") + 1),
+                encoding: "base64",
+                mimeType: file.type || undefined,
+                groupId: activeGroupId ?? undefined,
+              }),
+            }
+          );
+          setPendingAttachments((prev) => [...prev, res.artifact]);
+        }
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      } finally {
+        setUploading(false);
+        if (fileInputRef.current) fileInputRef.current.value = "";
+      }
+    },
+    [activeGroupId, session]
+  );
+
+  const toggleReaction = useCallback(
+    async (message: Message, reaction: string) => {
+      if (!session || !activeGroupId || message.id.startsWith("optimistic-")) return;
+      const mine = message.reactions?.some((r) => r.reaction === reaction && r.agentIds.includes(session.humanAgentId));
+      try {
+        const res = await api<{ reactions: Message["reactions"] }>(
+          `/api/groups/${activeGroupId}/messages/${message.id}/reactions`,
+          {
+            method: "POST",
+            body: JSON.stringify({ agentId: session.humanAgentId, reaction, remove: !!mine }),
+          }
+        );
+        setMessages((prev) => prev.map((m) => (m.id === message.id ? { ...m, reactions: res.reactions ?? [] } : m)));
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    },
+    [activeGroupId, session]
+  );
+
+  const editMessage = useCallback(
+    async (message: Message) => {
+      if (!session || !activeGroupId) return;
+      const content = window.prompt("Edit message", message.content);
+      if (content === null || !content.trim() || content === message.content) return;
+      try {
+        await api(`/api/groups/${activeGroupId}/messages/${message.id}`, {
+          method: "PATCH",
+          body: JSON.stringify({ actorId: session.humanAgentId, content }),
+        });
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    },
+    [activeGroupId, session]
+  );
+
+  const deleteMessage = useCallback(
+    async (message: Message) => {
+      if (!session || !activeGroupId || !window.confirm("删除这条消息？")) return;
+      try {
+        await api(`/api/groups/${activeGroupId}/messages/${message.id}`, {
+          method: "DELETE",
+          body: JSON.stringify({ actorId: session.humanAgentId }),
+        });
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    },
+    [activeGroupId, session]
+  );
+
+  const redactMessage = useCallback(
+    async (message: Message) => {
+      if (!activeGroupId) return;
+      const reason = window.prompt("脱敏原因（内容将被永久替换为 [redacted]，并从 Agent 历史中清除）", "");
+      if (reason === null) return;
+      try {
+        await api(`/api/groups/${activeGroupId}/messages/${message.id}/redact`, {
+          method: "POST",
+          body: JSON.stringify({ reason }),
+        });
+      } catch (e) {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    },
+    [activeGroupId]
+  );
+
+  const toggleWakeMode = useCallback(async () => {
+    if (!activeGroup) return;
+    const wakeMode = activeGroup.wakeMode === "mentions" ? "all" : "mentions";
+    try {
+      await api(`/api/groups/${activeGroup.id}`, { method: "PATCH", body: JSON.stringify({ wakeMode }) });
+      setGroups((prev) => prev.map((g) => (g.id === activeGroup.id ? { ...g, wakeMode } : g)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }, [activeGroup]);
+
   useEffect(() => {
     void bootstrap(workspaceOverrideId).catch((e) =>
       setError(e instanceof Error ? e.message : String(e))
@@ -1636,6 +2082,8 @@ function IMPageInner() {
 
   useEffect(() => {
     activeGroupIdRef.current = activeGroupId;
+    setReplyTo(null);
+    setPendingAttachments([]);
   }, [activeGroupId]);
 
   useEffect(() => {
@@ -1745,18 +2193,20 @@ function IMPageInner() {
     void refreshAgents(session).catch((e) => setError(e instanceof Error ? e.message : String(e)));
     void refreshTaskState(session).catch((e) => setError(e instanceof Error ? e.message : String(e)));
     void refreshPublicTimeline(session).catch((e) => setError(e instanceof Error ? e.message : String(e)));
-  }, [refreshAgents, refreshGroups, refreshPublicTimeline, refreshTaskState, session]);
+    void refreshToolApprovals(session).catch((e) => setError(e instanceof Error ? e.message : String(e)));
+    void refreshHumanQuestions(session).catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [refreshAgents, refreshGroups, refreshHumanQuestions, refreshPublicTimeline, refreshTaskState, refreshToolApprovals, session]);
 
+  const anyTaskRunning = taskStates.some((t) => t.status === "running");
   useEffect(() => {
-    if (!taskState || taskState.status !== "running") return;
+    if (!anyTaskRunning) return;
     const timer = window.setInterval(() => {
-      setTaskState((prev) => {
-        if (!prev || prev.status !== "running") return prev;
-        return { ...prev, remainingMs: Math.max(0, prev.remainingMs - 1000) };
-      });
+      setTaskStates((prev) =>
+        prev.map((t) => (t.status === "running" ? { ...t, remainingMs: Math.max(0, t.remainingMs - 1000) } : t))
+      );
     }, 1000);
     return () => window.clearInterval(timer);
-  }, [taskState?.status]);
+  }, [anyTaskRunning]);
 
   useEffect(() => {
     void refreshTaskReview(taskState?.taskId);
@@ -1878,6 +2328,11 @@ function IMPageInner() {
           const messageId = payload.data?.message?.id as string | undefined;
           const rawContent = String(payload.data?.message?.content ?? "");
           const contentType = String(payload.data?.message?.contentType ?? "text");
+          const replyToId = (payload.data?.message?.replyToId as UUID | null | undefined) ?? null;
+          const mentions = Array.isArray(payload.data?.message?.mentions) ? (payload.data.message.mentions as UUID[]) : [];
+          const attachments = Array.isArray(payload.data?.message?.attachments)
+            ? (payload.data.message.attachments as ArtifactMeta[])
+            : [];
           if (messageId && senderId && groupId) {
             const at = typeof payload.at === "number" ? payload.at : Date.now();
             const sendTime = String(payload.data?.message?.sendTime ?? new Date(at).toISOString());
@@ -1916,6 +2371,9 @@ function IMPageInner() {
                     senderId,
                     content: rawContent,
                     contentType,
+                    replyToId,
+                    mentions,
+                    attachments,
                     sendTime,
                   },
                 ];
@@ -1946,6 +2404,40 @@ function IMPageInner() {
             messages: false,
             llmHistory: false,
           };
+        } else if (payload.event === "ui.message.reactions") {
+          const messageId = payload.data?.messageId as UUID | undefined;
+          const reactions = Array.isArray(payload.data?.reactions) ? (payload.data.reactions as Message["reactions"]) : [];
+          if (messageId && payload.data?.groupId === activeGroupIdRef.current) {
+            setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, reactions } : m)));
+          }
+        } else if (payload.event === "ui.message.updated") {
+          const messageId = payload.data?.messageId as UUID | undefined;
+          if (messageId && payload.data?.groupId === activeGroupIdRef.current) {
+            const content = String(payload.data?.content ?? "");
+            const editedAt = (payload.data?.editedAt as string | null | undefined) ?? null;
+            const redactedAt = (payload.data?.redactedAt as string | null | undefined) ?? null;
+            setMessages((prev) =>
+              prev.map((m) =>
+                m.id === messageId
+                  ? { ...m, content, editedAt: editedAt ?? m.editedAt, redactedAt: redactedAt ?? m.redactedAt }
+                  : m
+              )
+            );
+          }
+          refreshHint = { groups: true, agents: false, messages: false, llmHistory: !!payload.data?.redactedAt };
+        } else if (payload.event === "ui.message.deleted") {
+          const messageId = payload.data?.messageId as UUID | undefined;
+          if (messageId && payload.data?.groupId === activeGroupIdRef.current) {
+            const deletedAt = String(payload.data?.deletedAt ?? new Date().toISOString());
+            setMessages((prev) =>
+              prev.map((m) => (m.id === messageId ? { ...m, content: "", attachments: [], deletedAt } : m))
+            );
+          }
+          refreshHint = { groups: true, agents: false, messages: false, llmHistory: false };
+        } else if (payload.event === "ui.group.wake_mode") {
+          const groupId = payload.data?.groupId as UUID | undefined;
+          const wakeMode = payload.data?.wakeMode === "mentions" ? "mentions" : "all";
+          setGroups((prev) => prev.map((g) => (g.id === groupId ? { ...g, wakeMode } : g)));
         } else if (payload.event === "ui.agent.llm.start" || payload.event === "ui.agent.llm.done") {
           const agentId = payload.data?.agentId as UUID | undefined;
           const role = agentId
@@ -1965,6 +2457,17 @@ function IMPageInner() {
             }));
           }
           refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
+        } else if (payload.event === "ui.agent.llm.failover") {
+          const agentId = payload.data?.agentId as UUID | undefined;
+          const role = agentId
+            ? agentRoleByIdRef.current.get(agentId) ?? agentId.slice(0, 6)
+            : "agent";
+          const label =
+            payload.data?.kind === "retry"
+              ? `LLM 重试: ${role} · ${payload.data?.toModel ?? ""} #${payload.data?.attempt ?? ""}`
+              : `LLM 切换: ${role} · ${payload.data?.fromModel ?? ""} → ${payload.data?.toModel ?? ""}`;
+          pushVizEvent(payload, label, "llm");
+          refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
         } else if (
           payload.event === "ui.agent.tool_call.start" ||
           payload.event === "ui.agent.tool_call.done"
@@ -1986,6 +2489,72 @@ function IMPageInner() {
             }));
           }
           refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
+        } else if (payload.event === "ui.agent.tool_call.approval_requested") {
+          const agentId = payload.data?.agentId as UUID | undefined;
+          const toolName = payload.data?.toolName ?? "tool";
+          const role = agentId
+            ? agentRoleByIdRef.current.get(agentId) ?? agentId.slice(0, 6)
+            : "agent";
+          pushVizEvent(payload, `等待审批: ${role} · ${toolName}`, "tool");
+          const approvalId = payload.data?.approvalId as string | undefined;
+          if (approvalId && agentId) {
+            setToolApprovals((prev) =>
+              prev.some((a) => a.id === approvalId)
+                ? prev
+                : [
+                    {
+                      id: approvalId,
+                      agentId,
+                      groupId: String(payload.data?.groupId ?? ""),
+                      toolName,
+                      argumentsJson: String(payload.data?.arguments ?? ""),
+                      createdAt: new Date().toISOString(),
+                    },
+                    ...prev,
+                  ]
+            );
+          }
+          refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
+        } else if (payload.event === "ui.agent.tool_call.approval_resolved") {
+          const approvalId = payload.data?.approvalId as string | undefined;
+          pushVizEvent(
+            payload,
+            `审批结果: ${payload.data?.toolName ?? "tool"} · ${payload.data?.status ?? ""}`,
+            "tool"
+          );
+          if (approvalId) setToolApprovals((prev) => prev.filter((a) => a.id !== approvalId));
+          refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
+        } else if (payload.event === "ui.agent.question.asked") {
+          const agentId = payload.data?.agentId as UUID | undefined;
+          const role = agentId
+            ? agentRoleByIdRef.current.get(agentId) ?? agentId.slice(0, 6)
+            : "agent";
+          pushVizEvent(payload, `等待回答: ${role} · ${String(payload.data?.question ?? "").slice(0, 40)}`, "tool");
+          const questionId = payload.data?.questionId as string | undefined;
+          if (questionId && agentId) {
+            setHumanQuestions((prev) =>
+              prev.some((q) => q.id === questionId)
+                ? prev
+                : [
+                    {
+                      id: questionId,
+                      agentId,
+                      groupId: String(payload.data?.groupId ?? ""),
+                      kind: payload.data?.kind ?? "text",
+                      question: String(payload.data?.question ?? ""),
+                      choices: Array.isArray(payload.data?.choices) ? (payload.data.choices as string[]) : null,
+                      expiresAt: String(payload.data?.expiresAt ?? ""),
+                    },
+                    ...prev,
+                  ]
+            );
+          }
+          refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
+        } else if (payload.event === "ui.agent.question.resolved") {
+          const questionId = payload.data?.questionId as string | undefined;
+          pushVizEvent(payload, `提问结果: ${payload.data?.status ?? ""}`, "tool");
+          if (questionId) setHumanQuestions((prev) => prev.filter((q) => q.id !== questionId));
+          refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
         } else if (payload.event === "ui.agent.interrupt_all") {
           pushVizEvent(payload, "已停止全部 Agent", "agent");
           const ids = Array.isArray(payload.data?.agentIds)
@@ -2030,7 +2599,7 @@ function IMPageInner() {
           pushVizEvent(payload, `Agent deleted: ${agentId.slice(0, 6)}`, "agent");
           refreshHint = { groups: true, agents: true, messages: false, llmHistory: false };
         } else if (payload.event === "ui.task.started") {
-          setTaskState({
+          upsertTaskState({
             taskId: String(payload.data?.taskId ?? ""),
             workspaceId: String(payload.data?.workspaceId ?? ""),
             rootGroupId: String(payload.data?.rootGroupId ?? ""),
@@ -2051,46 +2620,74 @@ function IMPageInner() {
           pushVizEvent(payload, "Task started", "agent");
           refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
         } else if (payload.event === "ui.task.progress") {
-          setTaskState((prev) =>
-            prev
-              ? {
-                  ...prev,
-                  totalTurns: Number(payload.data?.totalTurns ?? prev.totalTurns),
-                  totalMessages: Number(payload.data?.totalMessages ?? prev.totalMessages),
-                  repeatedRatio: Number(payload.data?.repeatedRatio ?? prev.repeatedRatio),
-                  remainingMs: Number(payload.data?.remainingMs ?? prev.remainingMs),
-                }
-              : prev
-          );
+          patchTaskState(String(payload.data?.taskId ?? ""), (prev) => ({
+            ...prev,
+            totalTurns: Number(payload.data?.totalTurns ?? prev.totalTurns),
+            totalMessages: Number(payload.data?.totalMessages ?? prev.totalMessages),
+            repeatedRatio: Number(payload.data?.repeatedRatio ?? prev.repeatedRatio),
+            usageTokens: Number(payload.data?.usageTokens ?? prev.usageTokens ?? 0),
+            usageCostUsd: Number(payload.data?.usageCostUsd ?? prev.usageCostUsd ?? 0),
+            remainingMs: Number(payload.data?.remainingMs ?? prev.remainingMs),
+          }));
           refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
         } else if (payload.event === "ui.task.stopping") {
-          setTaskState((prev) =>
-            prev
-              ? {
-                  ...prev,
-                  status: "stopping",
-                  stopReason: String(payload.data?.reason ?? prev.stopReason ?? "manual"),
-                }
-              : prev
-          );
+          patchTaskState(String(payload.data?.taskId ?? ""), (prev) => ({
+            ...prev,
+            status: "stopping",
+            stopReason: String(payload.data?.reason ?? prev.stopReason ?? "manual"),
+          }));
           pushVizEvent(payload, `Task stopping: ${String(payload.data?.reason ?? "manual")}`, "agent");
           refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
         } else if (payload.event === "ui.task.stopped") {
-          setTaskState((prev) =>
-            prev
-              ? {
-                  ...prev,
-                  status: "stopped",
-                  stopReason: String(payload.data?.reason ?? "manual"),
-                  remainingMs: 0,
-                }
-              : prev
-          );
+          patchTaskState(String(payload.data?.taskId ?? ""), (prev) => ({
+            ...prev,
+            status: "stopped",
+            stopReason: String(payload.data?.reason ?? "manual"),
+            remainingMs: 0,
+          }));
           pushVizEvent(payload, `Task stopped: ${String(payload.data?.reason ?? "manual")}`, "agent");
           if (session && activeGroupIdRef.current) {
             void refreshMessages(session, activeGroupIdRef.current, { markRead: false });
           }
           refreshHint = { groups: true, agents: true, messages: false, llmHistory: false };
+        } else if (payload.event === "ui.task.paused" || payload.event === "ui.task.resumed") {
+          const paused = payload.event === "ui.task.paused";
+          patchTaskState(String(payload.data?.taskId ?? ""), (prev) => ({
+            ...prev,
+            status: paused ? "paused" : "running",
+          }));
+          pushVizEvent(payload, paused ? "Task paused" : "Task resumed", "agent");
+          refreshHint = { groups: false, agents: true, messages: false, llmHistory: false };
+        } else if (payload.event === "ui.task.forked") {
+          pushVizEvent(payload, `Task forked to ${String(payload.data?.forkWorkspaceId ?? "").slice(0, 8)}`, "agent");
+          refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
+        } else if (payload.event === "ui.task.schedule.fired") {
+          const status = String(payload.data?.status ?? "");
+          const detail = status === "started" ? "" : `: ${String(payload.data?.error ?? "")}`;
+          pushVizEvent(payload, `Scheduled run ${status}${detail}`, "agent");
+          refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
+        } else if (payload.event === "ui.task.step.updated") {
+          const stepId = String(payload.data?.stepId ?? "");
+          const step = {
+            id: stepId,
+            title: String(payload.data?.title ?? stepId),
+            role: String(payload.data?.role ?? ""),
+            status: String(payload.data?.status ?? "pending"),
+            attempts: Number(payload.data?.attempts ?? 0),
+          };
+          patchTaskState(String(payload.data?.taskId ?? ""), (prev) => {
+            const workflow = prev.workflow ?? { id: "", name: "workflow", steps: [] };
+            const exists = workflow.steps.some((s) => s.id === stepId);
+            return {
+              ...prev,
+              workflow: {
+                ...workflow,
+                steps: exists ? workflow.steps.map((s) => (s.id === stepId ? step : s)) : [...workflow.steps, step],
+              },
+            };
+          });
+          pushVizEvent(payload, `Step ${step.title}: ${step.status}`, "agent");
+          refreshHint = { groups: false, agents: false, messages: false, llmHistory: false };
         } else if (payload.event === "ui.task.summary.created") {
           pushVizEvent(payload, "Task summary created", "message");
           if (session) {
@@ -2126,6 +2723,7 @@ function IMPageInner() {
     return () => es.close();
   }, [
     logVizDebug,
+    patchTaskState,
     pushBeam,
     pushVizEvent,
     refreshMessages,
@@ -2134,6 +2732,7 @@ function IMPageInner() {
     scheduleWorkspaceRefresh,
     session,
     toPublicTimelineItem,
+    upsertTaskState,
   ]);
 
   useEffect(() => {
@@ -2154,7 +2753,7 @@ function IMPageInner() {
     const key = `${session.workspaceId}:${groupId}:${blueprintId}:${blueprintLocaleOverride ?? "zh"}`;
     if (blueprintOverrideAppliedRef.current === key) return;
     blueprintOverrideAppliedRef.current = key;
-    void setupPendingBlueprintTopic(groupId, blueprintId, blueprintLocaleOverride).catch(() => {
+    void setupPendingBlueprintTopic(session.workspaceId, groupId, blueprintId, blueprintLocaleOverride).catch(() => {
       // ignore setup failures; user can still start task manually
     });
   }, [
@@ -2717,29 +3316,80 @@ function IMPageInner() {
           </div>
         </div>
 
-        <div className="list">
-          {agentTreeRows.length === 0 && extraGroups.length === 0 ? (
-            <div style={{ padding: 16 }} className="muted">
-              No groups yet.
-            </div>
-          ) : (
-            <>
-              {agentTreeRows.map(({ agent, group, depth, hasChildren, collapsed, guides, isLast }) =>
-                group
-                  ? renderGroupRow(group, {
-                      depth,
-                      hasChildren,
-                      collapsed,
-                      agentId: agent.id,
-                      guides,
-                      isLast,
-                    })
-                  : null
-              )}
-              {extraGroups.map((g) => renderGroupRow(g))}
-            </>
-          )}
+        <div style={{ padding: "8px 12px", borderBottom: "1px solid rgba(30,41,59,0.4)" }}>
+          <input
+            className="input"
+            style={{ width: "100%", fontSize: 12, padding: "4px 8px" }}
+            placeholder="搜索消息、任务、复盘、发言"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setSearchQuery("");
+            }}
+          />
         </div>
+
+        {searchHits ? (
+          <div className="list">
+            {searchHits.length === 0 ? (
+              <div style={{ padding: 16 }} className="muted">
+                No matches.
+              </div>
+            ) : (
+              searchHits.map((hit) => (
+                <div
+                  key={`${hit.kind}:${hit.id}`}
+                  role="button"
+                  tabIndex={0}
+                  style={{
+                    padding: "8px 12px",
+                    borderBottom: "1px solid rgba(30,41,59,0.4)",
+                    cursor: hit.groupId ? "pointer" : "default",
+                  }}
+                  onClick={() => openSearchHit(hit)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" || e.key === " ") {
+                      e.preventDefault();
+                      openSearchHit(hit);
+                    }
+                  }}
+                >
+                  <div className="muted" style={{ fontSize: 11, display: "flex", gap: 6 }}>
+                    <span>{SEARCH_KIND_LABELS[hit.kind]}</span>
+                    {hit.senderId ? <span>{agentRoleById.get(hit.senderId) ?? hit.senderId.slice(0, 8)}</span> : null}
+                    <span style={{ flex: 1 }} />
+                    <span className="mono">{new Date(hit.createdAt).toLocaleString()}</span>
+                  </div>
+                  <div style={{ fontSize: 12, wordBreak: "break-word" }}>{renderSnippet(hit.snippet)}</div>
+                </div>
+              ))
+            )}
+          </div>
+        ) : (
+          <div className="list">
+            {agentTreeRows.length === 0 && extraGroups.length === 0 ? (
+              <div style={{ padding: 16 }} className="muted">
+                No groups yet.
+              </div>
+            ) : (
+              <>
+                {agentTreeRows.map(({ agent, group, depth, hasChildren, collapsed, guides, isLast }) =>
+                  group
+                    ? renderGroupRow(group, {
+                        depth,
+                        hasChildren,
+                        collapsed,
+                        agentId: agent.id,
+                        guides,
+                        isLast,
+                      })
+                    : null
+                )}
+                {extraGroups.map((g) => renderGroupRow(g))}
+              </>
+            )}
+          </div>
+        )}
         </aside>
       }
       mid={
@@ -2769,6 +3419,16 @@ function IMPageInner() {
                 当前群聊
               </button>
             </div>
+            {chatViewMode === "group" && activeGroup && (activeGroup.kind ?? "chat") === "chat" ? (
+              <button
+                type="button"
+                className={cx("im-tab", activeGroup.wakeMode === "mentions" && "active")}
+                onClick={() => void toggleWakeMode()}
+                title="开启后，只有被 @ 提及或被回复的 Agent 会被唤醒"
+              >
+                仅@唤醒
+              </button>
+            ) : null}
             <span className={cx("status-dot", status === "idle" ? "idle" : "busy")} title={status} />
             <div className="muted mono" style={{ fontSize: 11 }}>
               {status !== "idle" ? `${status}...` : ""}
@@ -2783,12 +3443,12 @@ function IMPageInner() {
             style={{ width: 150, fontSize: 12, padding: "4px 8px" }}
             value={taskTemplateId}
             onChange={(e) => {
-              const id = e.target.value as "" | TaskTemplate["id"];
+              const id = e.target.value;
               setTaskTemplateId(id);
               const tpl = taskTemplates.find((t) => t.id === id);
               if (tpl) {
-                setTaskGoal(tpl.defaultGoal);
-                setTaskDurationMin(tpl.suggestedDurationMin);
+                setTaskGoal(tpl.goalTemplate);
+                setTaskDurationMin(Math.max(1, Math.round(tpl.budget.maxDurationMs / 60_000)));
               }
             }}
             title="任务模板"
@@ -2849,6 +3509,24 @@ function IMPageInner() {
           >
             Stop Task
           </button>
+          <button
+            className="btn btn-sm"
+            onClick={() => void onTogglePauseTask()}
+            disabled={
+              !session || !taskState || (taskState.status !== "running" && taskState.status !== "paused") || taskBusy
+            }
+            title="Pause or resume the task; the deadline clock stops while paused"
+          >
+            {taskState?.status === "paused" ? "Resume Task" : "Pause Task"}
+          </button>
+          <button
+            className="btn btn-sm"
+            onClick={() => void onForkTask()}
+            disabled={!session || !taskState || taskBusy}
+            title="Copy the task, its agents and root group into a new paused workspace"
+          >
+            Fork Task
+          </button>
           <button
             className="btn btn-sm"
             onClick={() => setShowCaseGroups((v) => !v)}
@@ -2915,6 +3593,21 @@ function IMPageInner() {
                 <span className="mono">left:{fmtDuration(taskState.remainingMs)}</span>
                 <span className="mono">turns:{taskState.totalTurns}</span>
                 <span className="mono">repeat:{Math.round(taskState.repeatedRatio * 100)}%</span>
+                {taskState.workflow?.steps.length ? (
+                  <span className="mono" title={taskState.workflow.steps.map((s) => `${s.title}: ${s.status}`).join("\n")}>
+                    steps:{taskState.workflow.steps.filter((s) => s.status === "passed").length}/
+                    {taskState.workflow.steps.length}
+                    {(() => {
+                      const active = taskState.workflow.steps.filter((s) => s.status === "running" || s.status === "checking");
+                      return active.length ? ` (${active.map((s) => s.title).join(", ")})` : "";
+                    })()}
+                  </span>
+                ) : null}
+                {taskState.usageTokens ? (
+                  <span className="mono">
+                    spend:{taskState.usageTokens.toLocaleString()}tok ${(taskState.usageCostUsd ?? 0).toFixed(4)}
+                  </span>
+                ) : null}
                 {taskState.stopReason ? <span className="mono">reason:{taskState.stopReason}</span> : null}
               </>
             ) : null}
@@ -2922,14 +3615,110 @@ function IMPageInner() {
               <span className="mono" style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
                 review:{(() => {
                   try {
-                    const parsed = JSON.parse(taskReview.reviewJson) as { score?: { overall?: number }; verdict?: string };
-                    return `${parsed.verdict ?? "borderline"} / ${parsed.score?.overall ?? 0}`;
+                    const parsed = JSON.parse(taskReview.reviewJson) as {
+                      score?: { overall?: number };
+                      verdict?: string;
+                      completion?: { source?: string } | null;
+                      judge?: { complete?: boolean; confidence?: number } | null;
+                    };
+                    return (
+                      `${parsed.verdict ?? "borderline"} / ${parsed.score?.overall ?? 0}` +
+                      (parsed.completion?.source ? ` | done:${parsed.completion.source}` : "") +
+                      (parsed.judge
+                        ? ` | judge:${parsed.judge.complete ? "complete" : "incomplete"} ${Math.round((parsed.judge.confidence ?? 0) * 100)}%`
+                        : "")
+                    );
                   } catch {
                     return "available";
                   }
                 })()} | {taskReview.narrativeText}
               </span>
             ) : null}
+            {taskReview?.artifacts.length ? (
+              <details className="mono">
+                <summary>artifacts:{taskReview.artifacts.length}</summary>
+                {taskReview.artifacts.map((a) => (
+                  <ArtifactPreview key={a.id} artifact={a} renderMarkdown={(content) => <MarkdownContent content={content} />} />
+                ))}
+              </details>
+            ) : null}
+          </div>
+        ) : null}
+
+        {toolApprovals.length > 0 ? (
+          <div className="task-status-bar">
+            {toolApprovals.map((approval) => (
+              <span key={approval.id} className="tool-approval-item">
+                <span className="task-badge pending">approval</span>
+                <span className="mono">
+                  {agents.find((a) => a.id === approval.agentId)?.role ?? approval.agentId.slice(0, 6)} · {approval.toolName}
+                </span>
+                <span
+                  className="mono muted"
+                  title={approval.argumentsJson}
+                  style={{ maxWidth: 240, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}
+                >
+                  {approval.argumentsJson}
+                </span>
+                <button className="btn btn-sm" onClick={() => void onDecideToolApproval(approval.id, "approve")}>
+                  Approve
+                </button>
+                <button className="btn btn-sm btn-danger" onClick={() => void onDecideToolApproval(approval.id, "deny")}>
+                  Deny
+                </button>
+              </span>
+            ))}
+          </div>
+        ) : null}
+
+        {humanQuestions.length > 0 ? (
+          <div className="task-status-bar human-question-inbox">
+            {humanQuestions.map((q) => (
+              <div key={q.id} className="human-question-item">
+                <span className="task-badge pending">question</span>
+                <span className="mono">
+                  {agents.find((a) => a.id === q.agentId)?.role ?? q.agentId.slice(0, 6)}
+                </span>
+                <span title={q.expiresAt ? `expires ${fmtTime(q.expiresAt)}` : undefined}>{q.question}</span>
+                {q.kind === "yes_no" ? (
+                  <>
+                    <button className="btn btn-sm" onClick={() => void onAnswerHumanQuestion(q.id, "yes")}>
+                      Yes
+                    </button>
+                    <button className="btn btn-sm btn-danger" onClick={() => void onAnswerHumanQuestion(q.id, "no")}>
+                      No
+                    </button>
+                  </>
+                ) : q.kind === "choice" ? (
+                  (q.choices ?? []).map((choice) => (
+                    <button key={choice} className="btn btn-sm" onClick={() => void onAnswerHumanQuestion(q.id, choice)}>
+                      {choice}
+                    </button>
+                  ))
+                ) : (
+                  <form
+                    style={{ display: "inline-flex", gap: 6 }}
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      void onAnswerHumanQuestion(q.id, questionDrafts[q.id] ?? "");
+                    }}
+                  >
+                    <input
+                      className="input"
+                      value={questionDrafts[q.id] ?? ""}
+                      placeholder="Answer…"
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        setQuestionDrafts((prev) => ({ ...prev, [q.id]: value }));
+                      }}
+                    />
+                    <button className="btn btn-sm" type="submit" disabled={!(questionDrafts[q.id] ?? "").trim()}>
+                      Answer
+                    </button>
+                  </form>
+                )}
+              </div>
+            ))}
           </div>
         ) : null}
 
@@ -3035,6 +3824,14 @@ function IMPageInner() {
                 fmtTime={fmtTime}
                 renderContent={(content) => <MarkdownContent content={content} />}
                 cx={cx}
+                onReply={(m) => setReplyTo(m)}
+                onReact={(m, reaction) => void toggleReaction(m, reaction)}
+                onEdit={(m) => void editMessage(m)}
+                onDelete={(m) => void deleteMessage(m)}
+                onRedact={(m) => void redactMessage(m)}
+                hasOlder={!!olderCursor}
+                loadingOlder={loadingOlder}
+                onLoadOlder={() => void loadOlderMessages()}
                 ephemeralMessage={
                   showLiveBubble && contentStream.trim() && streamAgentId
                     ? {
@@ -3476,12 +4273,52 @@ function IMPageInner() {
           </div>
         ) : null}
 
+        {replyTo ? (
+          <div className="muted" style={{ margin: "0 12px 4px", fontSize: 12, display: "flex", gap: 6, alignItems: "center" }}>
+            <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap", flex: 1 }}>
+              回复 {agentRoleById.get(replyTo.senderId) ?? replyTo.senderId.slice(0, 8)}：{replyTo.content.slice(0, 80)}
+            </span>
+            <button className="btn btn-sm" onClick={() => setReplyTo(null)}>
+              ×
+            </button>
+          </div>
+        ) : null}
+        {pendingAttachments.length > 0 ? (
+          <div className="muted" style={{ margin: "0 12px 4px", fontSize: 12, display: "flex", gap: 6, flexWrap: "wrap" }}>
+            {pendingAttachments.map((a) => (
+              <span key={a.id} className="bubble-tag">
+                📎 {a.name}{" "}
+                <button
+                  className="btn btn-sm"
+                  onClick={() => setPendingAttachments((prev) => prev.filter((x) => x.id !== a.id))}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        ) : null}
         <div className="composer">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            style={{ display: "none" }}
+            onChange={(e) => void uploadAttachments(e.target.files)}
+          />
+          <button
+            className="btn"
+            title="Attach files"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!session || uploading || pendingAttachments.length >= 8}
+          >
+            {uploading ? "…" : "📎"}
+          </button>
           <textarea
             className="input textarea"
             value={draft}
             onChange={(e) => setDraft(e.target.value)}
-            placeholder="Type a message... (Ctrl/Cmd+Enter to send)"
+            placeholder="Type a message... (@role to mention, Ctrl/Cmd+Enter to send)"
             onKeyDown={(e) => {
               if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
                 e.preventDefault();
@@ -3489,7 +4326,11 @@ function IMPageInner() {
               }
             }}
           />
-          <button className="btn btn-primary" onClick={() => void onSend()} disabled={!draft.trim() || status === "send"}>
+          <button
+            className="btn btn-primary"
+            onClick={() => void onSend()}
+            disabled={(!draft.trim() && pendingAttachments.length === 0) || uploading || status === "send"}
+          >
             Send
           </button>
         </div>
@@ -22,8 +22,10 @@ import {
   Bot,
   BrainCircuit,
   Boxes,
+  Coins,
   FlaskConical,
   Gamepad2,
+  Gauge,
   GitFork,
   Languages,
   LayoutDashboard,
@@ -44,12 +46,15 @@ type Overview = {
     runningTasks: number;
     messages: number;
     tokenDelta: number;
+    usageTokens: number;
+    costUsd: number;
   };
   charts: {
     messageSeries: Array<{ bucket: string; count: number }>;
     taskStopReasons: Array<{ reason: string; count: number }>;
     modelUsage: Array<{ model: string; count: number }>;
     gameMatches: Array<{ game: "undercover" | "werewolf"; count: number }>;
+    usageByModel: Array<{ model: string; calls: number; totalTokens: number; costUsd: number }>;
   };
   topWorkspaces: Array<{ id: string; name: string; lastActiveAt: string }>;
 };
@@ -70,10 +75,13 @@ const I18N = {
     kpiRunningTasks: "运行中任务",
     kpiMessages: "消息吞吐",
     kpiTokenDelta: "Token 载荷",
+    kpiUsageTokens: "实际 Token 消耗",
+    kpiCost: "花费 (USD)",
     secSeries: "消息趋势",
     secStopReasons: "任务终止原因",
     secModelUsage: "模型使用占比",
     secGames: "游戏实验场次",
+    secSpend: "各模型花费",
     secWorkspaces: "近期工作区",
     secValue: "项目价值",
     value1: "组织编排实验：自由创建、终止、重组 Agent 结构。",
@@ -97,10 +105,13 @@ const I18N = {
     kpiRunningTasks: "Running Tasks",
     kpiMessages: "Message Throughput",
     kpiTokenDelta: "Token Footprint",
+    kpiUsageTokens: "Billed Tokens",
+    kpiCost: "Spend (USD)",
     secSeries: "Message Trend",
     secStopReasons: "Task Stop Reasons",
     secModelUsage: "Model Usage",
     secGames: "Game Experiments",
+    secSpend: "Spend by Model",
     secWorkspaces: "Recent Workspaces",
     secValue: "Project Value",
     value1: "Org orchestration experiments: create/terminate/restructure agent trees.",
@@ -145,15 +156,20 @@ export default function LabPage() {
   }, [locale]);
 
   useEffect(() => {
-    const q = new URLSearchParams({ range });
-    if (workspaceId) q.set("workspaceId", workspaceId);
+    if (!workspaceId) {
+      // No saved session: fall back to the first workspace the caller can see.
+      api<{ workspaces: Array<{ id: string }> }>("/api/workspaces")
+        .then((res) => {
+          if (res.workspaces[0]) setWorkspaceId(res.workspaces[0].id);
+        })
+        .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+      return;
+    }
+    const q = new URLSearchParams({ range, workspaceId });
     setLoading(true);
     setError(null);
     api<Overview>(`/api/lab/overview?${q.toString()}`)
-      .then((res) => {
-        setData(res);
-        if (!workspaceId && res.workspaceId) setWorkspaceId(res.workspaceId);
-      })
+      .then((res) => setData(res))
       .catch((e) => setError(e instanceof Error ? e.message : String(e)))
       .finally(() => setLoading(false));
   }, [range, workspaceId]);
@@ -189,6 +205,8 @@ export default function LabPage() {
         <KpiCard icon={<Activity size={18} />} label={t.kpiRunningTasks} value={data?.kpi.runningTasks ?? 0} />
         <KpiCard icon={<Users size={18} />} label={t.kpiMessages} value={data?.kpi.messages ?? 0} />
         <KpiCard icon={<BrainCircuit size={18} />} label={t.kpiTokenDelta} value={data?.kpi.tokenDelta ?? 0} />
+        <KpiCard icon={<Gauge size={18} />} label={t.kpiUsageTokens} value={data?.kpi.usageTokens ?? 0} />
+        <KpiCard icon={<Coins size={18} />} label={t.kpiCost} value={`$${(data?.kpi.costUsd ?? 0).toFixed(4)}`} />
       </div>
 
       {error ? <div className="toast">Lab API error: {error}</div> : null}
@@ -290,6 +308,26 @@ export default function LabPage() {
           )}
         </section>
 
+        <section className="lab-card">
+          <div className="lab-card-title">{t.secSpend}</div>
+          {data?.charts.usageByModel?.length ? (
+            <ResponsiveContainer width="100%" height={240}>
+              <BarChart data={data.charts.usageByModel}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+                <XAxis dataKey="model" tick={{ fill: "#94a3b8", fontSize: 11 }} />
+                <YAxis tick={{ fill: "#94a3b8", fontSize: 11 }} />
+                <Tooltip contentStyle={{ background: "#0f172a", border: "1px solid #1e293b", borderRadius: 8, fontSize: 12 }} />
+                <Bar dataKey="costUsd" fill="#f59e0b" radius={[3, 3, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <div className="lab-empty">
+              <div className="lab-empty-icon"><Coins size={20} /></div>
+              <div className="muted" style={{ fontSize: 13 }}>{t.noData}</div>
+            </div>
+          )}
+        </section>
+
         <section className="lab-card">
           <div className="lab-card-title"><GitFork size={16} /> {t.secValue}</div>
           <ul className="lab-list">
@@ -326,11 +364,11 @@ export default function LabPage() {
   );
 }
 
-function KpiCard({ icon, label, value }: { icon: ReactNode; label: string; value: number }) {
+function KpiCard({ icon, label, value }: { icon: ReactNode; label: string; value: number | string }) {
   return (
     <div className="lab-kpi-card">
       <div className="lab-kpi-label">{icon} {label}</div>
-      <div className="lab-kpi-value">{value.toLocaleString()}</div>
+      <div className="lab-kpi-value">{typeof value === "number" ? value.toLocaleString() : value}</div>
     </div>
   );
 }
@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { LogIn } from "lucide-react";
+
+export default function LoginPage() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [bootstrap, setBootstrap] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    void fetch("/api/auth/me")
+      .then((res) => res.json() as Promise<{ accountsEnabled?: boolean; user?: unknown }>)
+      .then((me) => {
+        if (me.user) window.location.href = "/";
+        else setBootstrap(me.accountsEnabled === false);
+      })
+      .catch(() => undefined);
+  }, []);
+
+  async function onSubmit() {
+    setError(null);
+    setBusy(true);
+    try {
+      const res = await fetch(bootstrap ? "/api/auth/register" : "/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      });
+      const text = await res.text();
+      if (!res.ok) throw new Error(`${res.status} ${res.statusText} ${text}`);
+      window.location.href = "/";
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="home-root">
+      <div className="home-container">
+        <section className="home-section featured">
+          <div className="home-section-title">
+            <LogIn size={16} /> {bootstrap ? "创建首个管理员账号 / Create the first admin" : "登录 / Sign in"}
+          </div>
+          <form
+            style={{ display: "flex", flexDirection: "column", gap: 10, maxWidth: 320 }}
+            onSubmit={(e) => {
+              e.preventDefault();
+              void onSubmit();
+            }}
+          >
+            <input
+              className="input"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Username"
+              autoComplete="username"
+              disabled={busy}
+            />
+            <input
+              className="input"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete={bootstrap ? "new-password" : "current-password"}
+              disabled={busy}
+            />
+            <button className="btn btn-primary" type="submit" disabled={busy || !username || !password}>
+              {bootstrap ? "Create account" : "Sign in"}
+            </button>
+          </form>
+          {bootstrap ? (
+            <p className="home-section-desc">
+              创建后将启用登录，现有工作区归该账号所有。
+            </p>
+          ) : null}
+          {error ? (
+            <div className="muted" style={{ color: "#fecaca", fontSize: 13, marginTop: 10 }}>
+              {error}
+            </div>
+          ) : null}
+        </section>
+      </div>
+    </div>
+  );
+}
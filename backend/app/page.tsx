@@ -1,6 +1,9 @@
+import { headers } from "next/headers";
 import Link from "next/link";
+import { redirect } from "next/navigation";
 import { FlaskConical, MessageSquareText, Network, Gamepad2, Swords, Boxes, Plus, Trash2 } from "lucide-react";
 
+import { accountsEnabled, resolveUserSession } from "@/lib/api-auth";
 import { store } from "@/lib/storage";
 
 import ClearDbButton from "./_components/clear-db";
@@ -14,12 +17,20 @@ export default async function HomePage() {
     | Array<{ id: string; name: string; createdAt: string }>
     | null = null;
   let dbError: string | null = null;
+  let signedOut = false;
 
   try {
-    workspaces = await store.listWorkspaces();
+    if (await accountsEnabled()) {
+      const user = await resolveUserSession(await headers());
+      if (!user) signedOut = true;
+      else workspaces = user.isAdmin ? await store.listWorkspaces() : await store.listUserWorkspaces({ userId: user.id });
+    } else {
+      workspaces = await store.listWorkspaces();
+    }
   } catch (e) {
     dbError = e instanceof Error ? e.message : String(e);
   }
+  if (signedOut) redirect("/login");
 
   return (
     <div className="home-root">
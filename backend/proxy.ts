@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { authorizeApiRequest } from "@/lib/api-auth";
+import { API_KEY_ID_HEADER, API_KEY_WORKSPACE_HEADER } from "@/lib/api-keys";
+import { USER_ID_HEADER } from "@/lib/auth";
+
+/** Verifies API keys and user sessions on every /api route and forwards the caller identity to the handler. */
+export async function proxy(req: NextRequest) {
+  const headers = new Headers(req.headers);
+  headers.delete(API_KEY_ID_HEADER);
+  headers.delete(API_KEY_WORKSPACE_HEADER);
+  headers.delete(USER_ID_HEADER);
+
+  const auth = await authorizeApiRequest(req);
+  if (!auth.ok) return Response.json({ error: auth.error }, { status: auth.status });
+  if (auth.key) {
+    headers.set(API_KEY_ID_HEADER, auth.key.id);
+    headers.set(API_KEY_WORKSPACE_HEADER, auth.key.workspaceId);
+  }
+  if (auth.user) headers.set(USER_ID_HEADER, auth.user.id);
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
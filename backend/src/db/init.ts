@@ -10,6 +10,11 @@ export async function ensureSchema() {
     );
   `;
 
+  await sql/* sql */ `
+    alter table workspaces
+      add column if not exists settings_json text not null default '{}';
+  `;
+
   await sql/* sql */ `
     create table if not exists agents (
       id uuid primary key,
@@ -49,6 +54,13 @@ export async function ensureSchema() {
     );
   `;
 
+  await sql/* sql */ `
+    alter table model_profiles add column if not exists fallback_profile_ids_json text not null default '[]';
+  `;
+  await sql/* sql */ `
+    alter table model_profiles add column if not exists retry_policy_json text not null default '{}';
+  `;
+
   await sql/* sql */ `
     do $$
     begin
@@ -106,6 +118,109 @@ export async function ensureSchema() {
     );
   `;
 
+  await sql/* sql */ `
+    alter table messages add column if not exists reply_to_id uuid null;
+  `;
+
+  await sql/* sql */ `
+    alter table messages add column if not exists mentions_json text not null default '[]';
+  `;
+
+  await sql/* sql */ `
+    alter table groups add column if not exists wake_mode text not null default 'all';
+  `;
+
+  await sql/* sql */ `
+    alter table messages add column if not exists attachments_json text not null default '[]';
+  `;
+
+  // Backs cursor paging over a group's messages (see store.listMessages).
+  await sql/* sql */ `
+    create index if not exists messages_group_time_idx
+      on messages (group_id, send_time, id);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists artifacts (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      name text not null,
+      mime_type text not null,
+      size_bytes integer not null,
+      sha256 text not null,
+      created_by_agent_id uuid null,
+      task_run_id uuid null,
+      group_id uuid null,
+      created_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists artifacts_workspace_idx
+      on artifacts (workspace_id, created_at);
+  `;
+
+  await sql/* sql */ `
+    create index if not exists artifacts_task_run_idx
+      on artifacts (task_run_id);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists message_reactions (
+      message_id uuid not null references messages(id),
+      workspace_id uuid not null references workspaces(id),
+      agent_id uuid not null,
+      reaction text not null,
+      created_at timestamptz not null,
+      primary key (message_id, agent_id, reaction)
+    );
+  `;
+
+  await sql/* sql */ `
+    alter table messages add column if not exists edited_at timestamptz null;
+  `;
+
+  await sql/* sql */ `
+    alter table messages add column if not exists deleted_at timestamptz null;
+  `;
+
+  await sql/* sql */ `
+    alter table messages add column if not exists redacted_at timestamptz null;
+  `;
+
+  await sql/* sql */ `
+    create table if not exists message_revisions (
+      id uuid primary key,
+      message_id uuid not null references messages(id),
+      workspace_id uuid not null references workspaces(id),
+      action text not null,
+      prior_content text not null,
+      actor_kind text not null,
+      actor_id uuid null,
+      reason text null,
+      created_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists message_revisions_message_idx
+      on message_revisions (message_id, created_at);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists redaction_scrubs (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      texts_json text not null,
+      expires_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists redaction_scrubs_workspace_idx
+      on redaction_scrubs (workspace_id, expires_at);
+  `;
+
   await sql/* sql */ `
     create table if not exists task_runs (
       id uuid primary key,
@@ -126,6 +241,39 @@ export async function ensureSchema() {
     );
   `;
 
+  await sql/* sql */ `
+    alter table task_runs add column if not exists workflow_json text not null default '';
+  `;
+
+  await sql/* sql */ `
+    alter table task_runs add column if not exists completion_json text not null default '';
+  `;
+
+  await sql/* sql */ `
+    alter table task_runs add column if not exists template_id uuid null;
+  `;
+
+  await sql/* sql */ `
+    alter table task_runs add column if not exists template_version integer null;
+  `;
+
+  await sql/* sql */ `
+    create table if not exists task_run_steps (
+      task_id uuid not null references task_runs(id),
+      step_id text not null,
+      workspace_id uuid not null references workspaces(id),
+      status text not null,
+      assignee_agent_id uuid null,
+      attempts integer not null default 0,
+      output_text text not null default '',
+      check_note text null,
+      started_at timestamptz null,
+      completed_at timestamptz null,
+      updated_at timestamptz not null,
+      primary key (task_id, step_id)
+    );
+  `;
+
   await sql/* sql */ `
     create table if not exists task_reviews (
       task_id uuid primary key references task_runs(id),
@@ -136,6 +284,357 @@ export async function ensureSchema() {
     );
   `;
 
+  await sql/* sql */ `
+    create table if not exists task_schedules (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      name text not null,
+      trigger_json text not null,
+      task_json text not null,
+      enabled boolean not null default true,
+      anchor_at timestamptz not null,
+      next_run_at timestamptz null,
+      last_run_at timestamptz null,
+      created_at timestamptz not null,
+      updated_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists task_schedules_next_run_idx
+      on task_schedules (next_run_at);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists task_schedule_runs (
+      id uuid primary key,
+      schedule_id uuid not null references task_schedules(id),
+      workspace_id uuid not null references workspaces(id),
+      scheduled_for timestamptz not null,
+      status text not null,
+      task_run_id uuid null,
+      error text null,
+      created_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists task_schedule_runs_schedule_idx
+      on task_schedule_runs (schedule_id, created_at);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists webhook_subscriptions (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      name text not null,
+      url text not null,
+      secret text not null,
+      event_types_json text not null,
+      enabled boolean not null default true,
+      created_at timestamptz not null,
+      updated_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create table if not exists webhook_deliveries (
+      id uuid primary key,
+      subscription_id uuid not null references webhook_subscriptions(id),
+      workspace_id uuid not null references workspaces(id),
+      event_type text not null,
+      payload_json text not null,
+      status text not null,
+      attempts integer not null default 0,
+      next_attempt_at timestamptz null,
+      last_status_code integer null,
+      last_error text null,
+      delivered_at timestamptz null,
+      created_at timestamptz not null,
+      updated_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists webhook_deliveries_subscription_idx
+      on webhook_deliveries (subscription_id, created_at);
+  `;
+
+  await sql/* sql */ `
+    create index if not exists webhook_deliveries_due_idx
+      on webhook_deliveries (status, next_attempt_at);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists api_keys (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      name text not null,
+      prefix text not null,
+      key_hash text not null,
+      scopes_json text not null,
+      last_used_at timestamptz null,
+      revoked_at timestamptz null,
+      created_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create unique index if not exists api_keys_prefix_idx
+      on api_keys (prefix);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists task_templates (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      slug text not null,
+      latest_version integer not null,
+      archived_at timestamptz null,
+      created_at timestamptz not null,
+      updated_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create unique index if not exists task_templates_workspace_slug_idx
+      on task_templates (workspace_id, slug);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists task_template_versions (
+      template_id uuid not null references task_templates(id),
+      version integer not null,
+      workspace_id uuid not null references workspaces(id),
+      definition_json text not null,
+      created_at timestamptz not null,
+      primary key (template_id, version)
+    );
+  `;
+
+  await sql/* sql */ `
+    create table if not exists agent_personas (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      name text not null,
+      definition_json text not null,
+      created_at timestamptz not null,
+      updated_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create unique index if not exists agent_personas_workspace_name_idx
+      on agent_personas (workspace_id, name);
+  `;
+
+  await sql/* sql */ `
+    alter table agents add column if not exists persona_id uuid null;
+  `;
+
+  await sql/* sql */ `
+    create table if not exists blueprints (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      definition_json text not null,
+      created_at timestamptz not null,
+      updated_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists blueprints_workspace_idx
+      on blueprints (workspace_id, created_at);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists agent_links (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      from_agent_id uuid not null references agents(id),
+      to_agent_id uuid not null references agents(id),
+      type text not null,
+      group_id uuid null references groups(id),
+      created_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists agent_links_workspace_idx
+      on agent_links (workspace_id);
+  `;
+
+  await sql/* sql */ `
+    create index if not exists agent_links_from_idx
+      on agent_links (from_agent_id);
+  `;
+
+  await sql/* sql */ `
+    create index if not exists agent_links_to_idx
+      on agent_links (to_agent_id);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists users (
+      id uuid primary key,
+      username text not null,
+      display_name text not null,
+      password_hash text null,
+      is_admin boolean not null default false,
+      disabled_at timestamptz null,
+      created_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create unique index if not exists users_username_idx
+      on users (username);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists user_sessions (
+      id uuid primary key,
+      user_id uuid not null references users(id),
+      kind text not null,
+      name text not null default '',
+      token_hash text not null,
+      expires_at timestamptz null,
+      last_used_at timestamptz null,
+      revoked_at timestamptz null,
+      created_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create unique index if not exists user_sessions_token_hash_idx
+      on user_sessions (token_hash);
+  `;
+
+  await sql/* sql */ `
+    create index if not exists user_sessions_user_idx
+      on user_sessions (user_id, created_at);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists workspace_members (
+      workspace_id uuid not null references workspaces(id),
+      user_id uuid not null references users(id),
+      role text not null,
+      human_agent_id uuid not null references agents(id),
+      default_group_id uuid not null references groups(id),
+      created_at timestamptz not null,
+      updated_at timestamptz not null,
+      primary key (workspace_id, user_id)
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists workspace_members_user_idx
+      on workspace_members (user_id);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists inbound_webhooks (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      name text not null,
+      group_id uuid not null references groups(id),
+      sender_agent_id uuid not null references agents(id),
+      template text not null,
+      enabled boolean not null default true,
+      created_at timestamptz not null,
+      updated_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create table if not exists tool_policies (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      agent_role text not null default '*',
+      tool_name text not null,
+      mode text not null,
+      created_at timestamptz not null,
+      updated_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create unique index if not exists tool_policies_scope_idx
+      on tool_policies (workspace_id, agent_role, tool_name);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists tool_approvals (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      agent_id uuid not null references agents(id),
+      group_id uuid not null,
+      tool_call_id text null,
+      tool_name text not null,
+      arguments_json text not null,
+      status text not null,
+      decided_by uuid null,
+      decision_note text null,
+      created_at timestamptz not null,
+      decided_at timestamptz null
+    );
+  `;
+
+  await sql/* sql */ `
+    create table if not exists human_questions (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      agent_id uuid not null references agents(id),
+      group_id uuid not null,
+      tool_call_id text null,
+      kind text not null,
+      question text not null,
+      choices_json text null,
+      status text not null,
+      answer text null,
+      answered_by uuid null,
+      created_at timestamptz not null,
+      expires_at timestamptz not null,
+      answered_at timestamptz null
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists human_questions_workspace_status_idx
+      on human_questions (workspace_id, status);
+  `;
+
+  await sql/* sql */ `
+    create table if not exists llm_usage (
+      id uuid primary key,
+      workspace_id uuid not null references workspaces(id),
+      agent_id uuid not null,
+      model_profile_id uuid null,
+      task_run_id uuid null,
+      game_id uuid null,
+      game_kind text null,
+      source text not null,
+      provider text not null,
+      model text not null,
+      prompt_tokens integer not null default 0,
+      completion_tokens integer not null default 0,
+      total_tokens integer not null default 0,
+      cost_usd double precision not null default 0,
+      created_at timestamptz not null
+    );
+  `;
+
+  await sql/* sql */ `
+    create index if not exists llm_usage_workspace_created_idx
+      on llm_usage (workspace_id, created_at);
+  `;
+
+  await sql/* sql */ `
+    create index if not exists llm_usage_task_run_idx
+      on llm_usage (task_run_id);
+  `;
+
   await sql/* sql */ `
     create table if not exists undercover_games (
       id uuid primary key,
@@ -286,4 +785,47 @@ export async function ensureSchema() {
       created_at timestamptz not null
     );
   `;
+
+  // Full-text search. The "simple" config has no CJK segmentation, so search_tokens
+  // pads every CJK character with spaces and each one becomes its own lexeme;
+  // queries go through the same function and match CJK terms as phrases.
+  await sql/* sql */ `
+    create or replace function search_tokens(input text) returns text
+    language sql immutable parallel safe
+    as $$
+      select regexp_replace(
+        coalesce(input, ''),
+        '([\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff\\uac00-\\ud7af])',
+        ' \\1 ',
+        'g'
+      )
+    $$;
+  `;
+
+  await sql/* sql */ `
+    create index if not exists messages_content_search_idx
+      on messages using gin (to_tsvector('simple', search_tokens(content)));
+  `;
+
+  await sql/* sql */ `
+    create index if not exists task_runs_goal_search_idx
+      on task_runs using gin (to_tsvector('simple', search_tokens(goal)));
+  `;
+
+  await sql/* sql */ `
+    create index if not exists task_reviews_narrative_search_idx
+      on task_reviews using gin (to_tsvector('simple', search_tokens(narrative_text)));
+  `;
+
+  await sql/* sql */ `
+    create index if not exists undercover_round_events_speech_search_idx
+      on undercover_round_events using gin (to_tsvector('simple', search_tokens(payload_json::jsonb ->> 'text')))
+      where event_type = 'speech';
+  `;
+
+  await sql/* sql */ `
+    create index if not exists werewolf_round_events_speech_search_idx
+      on werewolf_round_events using gin (to_tsvector('simple', search_tokens(payload_json::jsonb ->> 'text')))
+      where event_type = 'speech';
+  `;
 }
@@ -1,8 +1,20 @@
-import { boolean, integer, pgTable, primaryKey, text, timestamp, uuid } from "drizzle-orm/pg-core";
+import {
+  boolean,
+  doublePrecision,
+  index,
+  integer,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from "drizzle-orm/pg-core";
 
 export const workspaces = pgTable("workspaces", {
   id: uuid("id").primaryKey(),
   name: text("name").notNull(),
+  settingsJson: text("settings_json").notNull().default("{}"),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
 });
 
@@ -20,6 +32,8 @@ export const agents = pgTable("agents", {
   lastActiveAt: timestamp("last_active_at", { withTimezone: true }),
   parentId: uuid("parent_id"),
   modelProfileId: uuid("model_profile_id"),
+  /** Persona the agent was built from; its allowed tools and decode parameters are read live. */
+  personaId: uuid("persona_id"),
   llmHistory: text("llm_history").notNull(),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
 });
@@ -35,6 +49,8 @@ export const modelProfiles = pgTable("model_profiles", {
   model: text("model").notNull(),
   apiKey: text("api_key"),
   headersJson: text("headers_json"),
+  fallbackProfileIdsJson: text("fallback_profile_ids_json").notNull().default("[]"),
+  retryPolicyJson: text("retry_policy_json").notNull().default("{}"),
   isDefault: boolean("is_default").notNull().default(false),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
@@ -47,6 +63,8 @@ export const groups = pgTable("groups", {
     .references(() => workspaces.id),
   name: text("name"),
   kind: text("kind").notNull().default("chat"),
+  /** "all" wakes every member on a new message; "mentions" wakes only mentioned members and the reply target. */
+  wakeMode: text("wake_mode").notNull().default("all"),
   deletedAt: timestamp("deleted_at", { withTimezone: true }),
   contextTokens: integer("context_tokens").default(0),
   createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
@@ -67,19 +85,125 @@ export const groupMembers = pgTable(
   })
 );
 
-export const messages = pgTable("messages", {
-  id: uuid("id").primaryKey(),
-  workspaceId: uuid("workspace_id")
-    .notNull()
-    .references(() => workspaces.id),
-  groupId: uuid("group_id")
-    .notNull()
-    .references(() => groups.id),
-  senderId: uuid("sender_id").notNull(),
-  contentType: text("content_type").notNull(),
-  content: text("content").notNull(),
-  sendTime: timestamp("send_time", { withTimezone: true }).notNull(),
-});
+export const messages = pgTable(
+  "messages",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    groupId: uuid("group_id")
+      .notNull()
+      .references(() => groups.id),
+    senderId: uuid("sender_id").notNull(),
+    contentType: text("content_type").notNull(),
+    content: text("content").notNull(),
+    /** Message in the same group this one answers. */
+    replyToId: uuid("reply_to_id"),
+    /** JSON array of mentioned member agent ids. */
+    mentionsJson: text("mentions_json").notNull().default("[]"),
+    /** JSON array of attached artifact ids. */
+    attachmentsJson: text("attachments_json").notNull().default("[]"),
+    sendTime: timestamp("send_time", { withTimezone: true }).notNull(),
+    /** Set by the sender's latest edit; earlier versions are in message_revisions. */
+    editedAt: timestamp("edited_at", { withTimezone: true }),
+    /** Soft delete: the row and its content stay, readers show a tombstone. */
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
+    /** Content was replaced with a placeholder by a workspace admin; not recoverable. */
+    redactedAt: timestamp("redacted_at", { withTimezone: true }),
+  },
+  (t) => ({
+    groupTimeIdx: index("messages_group_time_idx").on(t.groupId, t.sendTime, t.id),
+  })
+);
+
+export const artifacts = pgTable(
+  "artifacts",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    name: text("name").notNull(),
+    mimeType: text("mime_type").notNull(),
+    sizeBytes: integer("size_bytes").notNull(),
+    sha256: text("sha256").notNull(),
+    /** Null for uploads by a person through the API. */
+    createdByAgentId: uuid("created_by_agent_id"),
+    /** The task run that was active in the writer's group, if any. */
+    taskRunId: uuid("task_run_id"),
+    groupId: uuid("group_id"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    workspaceIdx: index("artifacts_workspace_idx").on(t.workspaceId, t.createdAt),
+    taskRunIdx: index("artifacts_task_run_idx").on(t.taskRunId),
+  })
+);
+
+export const messageReactions = pgTable(
+  "message_reactions",
+  {
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    agentId: uuid("agent_id").notNull(),
+    reaction: text("reaction").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.messageId, t.agentId, t.reaction] }),
+  })
+);
+
+/** Audit trail of message edits, deletes and redactions, one row per change. */
+export const messageRevisions = pgTable(
+  "message_revisions",
+  {
+    id: uuid("id").primaryKey(),
+    messageId: uuid("message_id")
+      .notNull()
+      .references(() => messages.id),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    /** "edit" | "delete" | "redact" */
+    action: text("action").notNull(),
+    /** Content before the change; scrubbed to the redaction placeholder once the message is redacted. */
+    priorContent: text("prior_content").notNull(),
+    /** "agent" | "user" | "api_key" | "anonymous" (no accounts configured). */
+    actorKind: text("actor_kind").notNull(),
+    actorId: uuid("actor_id"),
+    reason: text("reason"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    messageIdx: index("message_revisions_message_idx").on(t.messageId, t.createdAt),
+  })
+);
+
+/**
+ * Texts a redaction removed, kept for an hour so agent histories written back after the
+ * redaction are scrubbed too, even across a restart. Expired rows are purged every minute
+ * because they hold the redacted plaintext. Not exported with the workspace.
+ */
+export const redactionScrubs = pgTable(
+  "redaction_scrubs",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    textsJson: text("texts_json").notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    workspaceIdx: index("redaction_scrubs_workspace_idx").on(t.workspaceId, t.expiresAt),
+  })
+);
 
 export const taskRuns = pgTable("task_runs", {
   id: uuid("id").primaryKey(),
@@ -97,6 +221,11 @@ export const taskRuns = pgTable("task_runs", {
   stopReason: text("stop_reason"),
   budgetJson: text("budget_json").notNull(),
   metricsJson: text("metrics_json").notNull(),
+  workflowJson: text("workflow_json").notNull().default(""),
+  completionJson: text("completion_json").notNull().default(""),
+  /** Exact template version the run was started from; null for free-form tasks. */
+  templateId: uuid("template_id"),
+  templateVersion: integer("template_version"),
   summaryMessageId: uuid("summary_message_id"),
   startAt: timestamp("start_at", { withTimezone: true }).notNull(),
   deadlineAt: timestamp("deadline_at", { withTimezone: true }).notNull(),
@@ -105,6 +234,30 @@ export const taskRuns = pgTable("task_runs", {
   updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
 });
 
+export const taskRunSteps = pgTable(
+  "task_run_steps",
+  {
+    taskId: uuid("task_id")
+      .notNull()
+      .references(() => taskRuns.id),
+    stepId: text("step_id").notNull(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    status: text("status").notNull(),
+    assigneeAgentId: uuid("assignee_agent_id"),
+    attempts: integer("attempts").notNull().default(0),
+    outputText: text("output_text").notNull().default(""),
+    checkNote: text("check_note"),
+    startedAt: timestamp("started_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.taskId, t.stepId] }),
+  })
+);
+
 export const taskReviews = pgTable("task_reviews", {
   taskId: uuid("task_id")
     .primaryKey()
@@ -117,6 +270,396 @@ export const taskReviews = pgTable("task_reviews", {
   createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
 });
 
+export const taskSchedules = pgTable(
+  "task_schedules",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    name: text("name").notNull(),
+    triggerJson: text("trigger_json").notNull(),
+    taskJson: text("task_json").notNull(),
+    enabled: boolean("enabled").notNull().default(true),
+    /** Interval triggers stay aligned to this instant. */
+    anchorAt: timestamp("anchor_at", { withTimezone: true }).notNull(),
+    nextRunAt: timestamp("next_run_at", { withTimezone: true }),
+    lastRunAt: timestamp("last_run_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    nextRun: index("task_schedules_next_run_idx").on(t.nextRunAt),
+  })
+);
+
+export const taskScheduleRuns = pgTable(
+  "task_schedule_runs",
+  {
+    id: uuid("id").primaryKey(),
+    scheduleId: uuid("schedule_id")
+      .notNull()
+      .references(() => taskSchedules.id),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    scheduledFor: timestamp("scheduled_for", { withTimezone: true }).notNull(),
+    status: text("status").notNull(),
+    taskRunId: uuid("task_run_id"),
+    error: text("error"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    scheduleCreated: index("task_schedule_runs_schedule_idx").on(t.scheduleId, t.createdAt),
+  })
+);
+
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: uuid("id").primaryKey(),
+  workspaceId: uuid("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(),
+  /** UI event types, exact or prefix wildcards such as "ui.task.*". */
+  eventTypesJson: text("event_types_json").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+});
+
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: uuid("id").primaryKey(),
+    subscriptionId: uuid("subscription_id")
+      .notNull()
+      .references(() => webhookSubscriptions.id),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    eventType: text("event_type").notNull(),
+    payloadJson: text("payload_json").notNull(),
+    /** pending -> delivered, or dead once retries are exhausted. */
+    status: text("status").notNull(),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }),
+    lastStatusCode: integer("last_status_code"),
+    lastError: text("last_error"),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    subscriptionCreated: index("webhook_deliveries_subscription_idx").on(t.subscriptionId, t.createdAt),
+    pendingDue: index("webhook_deliveries_due_idx").on(t.status, t.nextAttemptAt),
+  })
+);
+
+export const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    name: text("name").notNull(),
+    /** Public lookup part of the token; the secret part is only stored hashed. */
+    prefix: text("prefix").notNull(),
+    keyHash: text("key_hash").notNull(),
+    scopesJson: text("scopes_json").notNull(),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    prefix: uniqueIndex("api_keys_prefix_idx").on(t.prefix),
+  })
+);
+
+export const taskTemplates = pgTable(
+  "task_templates",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    slug: text("slug").notNull(),
+    latestVersion: integer("latest_version").notNull(),
+    /** Archived templates cannot start new runs but stay resolvable for history. */
+    archivedAt: timestamp("archived_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    slug: uniqueIndex("task_templates_workspace_slug_idx").on(t.workspaceId, t.slug),
+  })
+);
+
+/** Immutable revisions; editing a template appends a version. */
+export const taskTemplateVersions = pgTable(
+  "task_template_versions",
+  {
+    templateId: uuid("template_id")
+      .notNull()
+      .references(() => taskTemplates.id),
+    version: integer("version").notNull(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    /** Validated TaskTemplateDefinition. */
+    definitionJson: text("definition_json").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.templateId, t.version] }),
+  })
+);
+
+/** Reusable role definitions; agents, blueprints, templates and games reference them by name. */
+export const agentPersonas = pgTable(
+  "agent_personas",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    name: text("name").notNull(),
+    /** Validated PersonaDefinition: prompt, model profile, tools, skills, decode parameters. */
+    definitionJson: text("definition_json").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    name: uniqueIndex("agent_personas_workspace_name_idx").on(t.workspaceId, t.name),
+  })
+);
+
+export const blueprints = pgTable(
+  "blueprints",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    /** Validated BlueprintDefinition: roles, goal templates, preview graph. */
+    definitionJson: text("definition_json").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    workspace: index("blueprints_workspace_idx").on(t.workspaceId, t.createdAt),
+  })
+);
+
+/**
+ * Allowed communication edges between agents created from a blueprint. Agents that appear
+ * here (other than the human and assistant seats) may only message the agents they are linked to.
+ */
+export const agentLinks = pgTable(
+  "agent_links",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    fromAgentId: uuid("from_agent_id")
+      .notNull()
+      .references(() => agents.id),
+    toAgentId: uuid("to_agent_id")
+      .notNull()
+      .references(() => agents.id),
+    /** command | collab | review */
+    type: text("type").notNull(),
+    /** Pre-created group that carries this edge's conversation. */
+    groupId: uuid("group_id").references(() => groups.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    workspace: index("agent_links_workspace_idx").on(t.workspaceId),
+    from: index("agent_links_from_idx").on(t.fromAgentId),
+    to: index("agent_links_to_idx").on(t.toAgentId),
+  })
+);
+
+export const users = pgTable(
+  "users",
+  {
+    id: uuid("id").primaryKey(),
+    username: text("username").notNull(),
+    displayName: text("display_name").notNull(),
+    /** scrypt hash; null for token-only accounts. */
+    passwordHash: text("password_hash"),
+    /** Instance admins may call /api/admin and /api/debug and register other users. */
+    isAdmin: boolean("is_admin").notNull().default(false),
+    disabledAt: timestamp("disabled_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    username: uniqueIndex("users_username_idx").on(t.username),
+  })
+);
+
+export const userSessions = pgTable(
+  "user_sessions",
+  {
+    id: uuid("id").primaryKey(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    /** "session" for password logins, "token" for long-lived personal access tokens. */
+    kind: text("kind").notNull(),
+    name: text("name").notNull().default(""),
+    tokenHash: text("token_hash").notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    tokenHash: uniqueIndex("user_sessions_token_hash_idx").on(t.tokenHash),
+    user: index("user_sessions_user_idx").on(t.userId, t.createdAt),
+  })
+);
+
+export const workspaceMembers = pgTable(
+  "workspace_members",
+  {
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    role: text("role").notNull(),
+    /** The member's own system_human agent in this workspace. */
+    humanAgentId: uuid("human_agent_id")
+      .notNull()
+      .references(() => agents.id),
+    /** The member's 1:1 chat with the workspace assistant. */
+    defaultGroupId: uuid("default_group_id")
+      .notNull()
+      .references(() => groups.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    pk: primaryKey({ columns: [t.workspaceId, t.userId] }),
+    user: index("workspace_members_user_idx").on(t.userId),
+  })
+);
+
+export const inboundWebhooks = pgTable("inbound_webhooks", {
+  id: uuid("id").primaryKey(),
+  workspaceId: uuid("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  name: text("name").notNull(),
+  groupId: uuid("group_id")
+    .notNull()
+    .references(() => groups.id),
+  /** Integration agent that posts the rendered messages. */
+  senderAgentId: uuid("sender_agent_id")
+    .notNull()
+    .references(() => agents.id),
+  template: text("template").notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+});
+
+export const toolPolicies = pgTable(
+  "tool_policies",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    agentRole: text("agent_role").notNull().default("*"),
+    toolName: text("tool_name").notNull(),
+    mode: text("mode").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    scope: uniqueIndex("tool_policies_scope_idx").on(t.workspaceId, t.agentRole, t.toolName),
+  })
+);
+
+export const toolApprovals = pgTable("tool_approvals", {
+  id: uuid("id").primaryKey(),
+  workspaceId: uuid("workspace_id")
+    .notNull()
+    .references(() => workspaces.id),
+  agentId: uuid("agent_id")
+    .notNull()
+    .references(() => agents.id),
+  groupId: uuid("group_id").notNull(),
+  toolCallId: text("tool_call_id"),
+  toolName: text("tool_name").notNull(),
+  argumentsJson: text("arguments_json").notNull(),
+  status: text("status").notNull(),
+  decidedBy: uuid("decided_by"),
+  decisionNote: text("decision_note"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  decidedAt: timestamp("decided_at", { withTimezone: true }),
+});
+
+export const humanQuestions = pgTable(
+  "human_questions",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    agentId: uuid("agent_id")
+      .notNull()
+      .references(() => agents.id),
+    groupId: uuid("group_id").notNull(),
+    toolCallId: text("tool_call_id"),
+    kind: text("kind").notNull(),
+    question: text("question").notNull(),
+    choicesJson: text("choices_json"),
+    status: text("status").notNull(),
+    answer: text("answer"),
+    answeredBy: uuid("answered_by"),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    answeredAt: timestamp("answered_at", { withTimezone: true }),
+  },
+  (t) => ({
+    workspaceStatus: index("human_questions_workspace_status_idx").on(t.workspaceId, t.status),
+  })
+);
+
+export const llmUsage = pgTable(
+  "llm_usage",
+  {
+    id: uuid("id").primaryKey(),
+    workspaceId: uuid("workspace_id")
+      .notNull()
+      .references(() => workspaces.id),
+    agentId: uuid("agent_id").notNull(),
+    modelProfileId: uuid("model_profile_id"),
+    taskRunId: uuid("task_run_id"),
+    gameId: uuid("game_id"),
+    gameKind: text("game_kind"),
+    source: text("source").notNull(),
+    provider: text("provider").notNull(),
+    model: text("model").notNull(),
+    promptTokens: integer("prompt_tokens").notNull().default(0),
+    completionTokens: integer("completion_tokens").notNull().default(0),
+    totalTokens: integer("total_tokens").notNull().default(0),
+    costUsd: doublePrecision("cost_usd").notNull().default(0),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull(),
+  },
+  (t) => ({
+    workspaceCreated: index("llm_usage_workspace_created_idx").on(t.workspaceId, t.createdAt),
+    taskRun: index("llm_usage_task_run_idx").on(t.taskRunId),
+  })
+);
+
 export const undercoverGames = pgTable("undercover_games", {
   id: uuid("id").primaryKey(),
   workspaceId: uuid("workspace_id")
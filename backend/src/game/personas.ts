@@ -0,0 +1,20 @@
+import { store, type AgentPersonaRecord } from "@/lib/storage";
+
+/** Both games seat five AI players. */
+const MAX_AI_SEATS = 5;
+
+/** Maps the per-seat persona names of a create-game request onto persona records. */
+export async function resolveSeatPersonas(
+  workspaceId: string,
+  raw: unknown
+): Promise<{ ok: true; personas: Array<AgentPersonaRecord | null> } | { ok: false; error: string }> {
+  if (raw === undefined || raw === null) return { ok: true, personas: [] };
+  if (!Array.isArray(raw) || raw.some((x) => x !== null && typeof x !== "string")) {
+    return { ok: false, error: "personas must be an array of persona names (or null)" };
+  }
+  if (raw.length > MAX_AI_SEATS) return { ok: false, error: `at most ${MAX_AI_SEATS} personas` };
+  const names = raw.map((x) => (typeof x === "string" ? x.trim().toLowerCase() : ""));
+  const { byName, missing } = await store.findAgentPersonasByName({ workspaceId, names });
+  if (missing.length > 0) return { ok: false, error: `unknown persona: ${missing.join(", ")}` };
+  return { ok: true, personas: names.map((name) => (name ? (byName.get(name) ?? null) : null)) };
+}
@@ -1,8 +1,9 @@
 ﻿import { getSql } from "@/db/client";
 import { WORD_PAIRS, pickWordPair } from "@/game/undercover/wordbank";
 import { chatJsonByAgent } from "@/lib/llm-client";
-import { store } from "@/lib/storage";
+import { store, type AgentPersonaRecord } from "@/lib/storage";
 import { getUpstashRealtime } from "@/runtime/upstash-realtime";
+import { getWorkspaceUIBus } from "@/runtime/ui-bus";
 
 import {
   createInitialMemory,
@@ -93,6 +94,16 @@ function parseDecode(raw: string | null, fallback: DecodeConfig): DecodeConfig {
   }
 }
 
+/** A persona's sampling parameters win over the seat strategy's; its maxTokens is left to each game phase. */
+function personaDecodeConfig(base: DecodeConfig, persona: Partial<DecodeConfig>): DecodeConfig {
+  return {
+    temperature: persona.temperature ?? base.temperature,
+    topP: persona.topP ?? base.topP,
+    presencePenalty: persona.presencePenalty ?? base.presencePenalty,
+    frequencyPenalty: persona.frequencyPenalty ?? base.frequencyPenalty,
+  };
+}
+
 function aliveOrder(players: UndercoverPlayer[]) {
   return players
     .filter((p) => p.alive)
@@ -351,6 +362,25 @@ async function appendRoundEvent(input: {
     payload: input.payload,
     at: Date.now(),
   });
+  if (input.eventType === "game_over") await emitWorkspaceGameOver(input.gameId, input.payload);
+}
+
+/** Mirrors game over onto the workspace UI bus, where webhook subscriptions can see it. */
+async function emitWorkspaceGameOver(gameId: string, payload: Record<string, unknown>) {
+  const sql = getSql();
+  const rows = await sql/* sql */ `select workspace_id, group_id from undercover_games where id = ${gameId} limit 1`;
+  const row = rows[0] as Record<string, unknown> | undefined;
+  if (!row) return;
+  const workspaceId = String(row.workspace_id);
+  getWorkspaceUIBus().emit(workspaceId, {
+    event: "ui.undercover.game_over",
+    data: {
+      workspaceId,
+      gameId,
+      groupId: String(row.group_id),
+      winner: typeof payload.winner === "string" ? payload.winner : null,
+    },
+  });
 }
 
 async function emitGmNotice(input: {
@@ -657,6 +687,7 @@ async function generateSpeechByLLM(input: {
         agentId: input.actor.agentId,
         systemPrompt,
         userPrompt,
+        usage: { gameId: input.game.id, gameKind: "undercover" },
         decode: {
           temperature: decode.temperature,
           topP: decode.topP,
@@ -745,6 +776,7 @@ async function generateVoteByLLM(input: {
         agentId: input.actor.agentId,
         systemPrompt,
         userPrompt,
+        usage: { gameId: input.game.id, gameKind: "undercover" },
         decode: {
           temperature: decode.temperature,
           topP: decode.topP,
@@ -1115,25 +1147,40 @@ async function advanceGameAuto(gameId: string) {
   }
 }
 
-export async function createUndercoverGame(input: { workspaceId: string; humanAgentId?: string | null }) {
+/**
+ * `personas` optionally builds AI seats from the persona library, in seat order; a persona adds its
+ * prompt and model profile and overrides the seat strategy's sampling parameters.
+ */
+export async function createUndercoverGame(input: {
+  workspaceId: string;
+  humanAgentId?: string | null;
+  personas?: Array<AgentPersonaRecord | null>;
+}) {
   const defaults = await store.ensureWorkspaceDefaults({ workspaceId: input.workspaceId });
   const humanAgentId = input.humanAgentId ?? defaults.humanAgentId;
 
-  const aiMembers: Array<{ agentId: string; seatNo: number; strategy: UndercoverStrategyKey }> = [];
+  const aiMembers: Array<{
+    agentId: string;
+    seatNo: number;
+    strategy: UndercoverStrategyKey;
+    decode: Partial<DecodeConfig>;
+  }> = [];
   for (let i = 0; i < AI_COUNT; i++) {
     const strategy = STRATEGY_SLOTS[i]!;
+    const persona = input.personas?.[i] ?? null;
     const created = await store.createSubAgentWithP2P({
       workspaceId: input.workspaceId,
       creatorId: humanAgentId,
-      role: `undercover_ai_${i + 1}_${strategy}`,
+      role: `undercover_ai_${i + 1}_${persona?.name ?? strategy}`,
       kind: "game_ephemeral",
       autoRunEnabled: false,
       originType: "undercover_game",
       guidance:
         `${getStrategyGuidance(strategy)}\n` +
         "You are playing Who-is-Undercover. Output must be Chinese in game rounds.",
+      persona,
     });
-    aiMembers.push({ agentId: created.agentId, seatNo: i + 2, strategy });
+    aiMembers.push({ agentId: created.agentId, seatNo: i + 2, strategy, decode: persona?.decode ?? {} });
   }
 
   const members = [humanAgentId, ...aiMembers.map((x) => x.agentId)];
@@ -1185,7 +1232,7 @@ export async function createUndercoverGame(input: { workspaceId: string; humanAg
     const role: UndercoverRole = agentId === undercoverAgentId ? "undercover" : "civilian";
     const ai = aiMembers.find((x) => x.agentId === agentId);
     const strategy = ai?.strategy ?? null;
-    const decode = strategy ? getDefaultDecodeConfig(strategy) : null;
+    const decode = strategy && ai ? personaDecodeConfig(getDefaultDecodeConfig(strategy), ai.decode) : null;
     const memory = createInitialMemory(members);
     await sql/* sql */ `
       insert into undercover_players (
@@ -1,7 +1,8 @@
 ﻿import { getSql } from "@/db/client";
 import { chatJsonByAgent } from "@/lib/llm-client";
-import { store } from "@/lib/storage";
+import { store, type AgentPersonaRecord } from "@/lib/storage";
 import { getUpstashRealtime } from "@/runtime/upstash-realtime";
+import { getWorkspaceUIBus } from "@/runtime/ui-bus";
 
 import {
   createInitialMemory,
@@ -134,6 +135,16 @@ function parseDecode(raw: string | null, fallback: DecodeConfig): DecodeConfig {
   }
 }
 
+/** A persona's sampling parameters win over the seat strategy's; its maxTokens is left to each game phase. */
+function personaDecodeConfig(base: DecodeConfig, persona: Partial<DecodeConfig>): DecodeConfig {
+  return {
+    temperature: persona.temperature ?? base.temperature,
+    topP: persona.topP ?? base.topP,
+    presencePenalty: persona.presencePenalty ?? base.presencePenalty,
+    frequencyPenalty: persona.frequencyPenalty ?? base.frequencyPenalty,
+  };
+}
+
 function sanitizeText(text: string) {
   return text.replace(/\s+/g, " ").replace(/[“”]/g, "\"").trim();
 }
@@ -293,6 +304,25 @@ async function appendRoundEvent(input: {
     payload: input.payload,
     at: Date.now(),
   });
+  if (input.eventType === "game_over") await emitWorkspaceGameOver(input.gameId, input.payload);
+}
+
+/** Mirrors game over onto the workspace UI bus, where webhook subscriptions can see it. */
+async function emitWorkspaceGameOver(gameId: string, payload: Record<string, unknown>) {
+  const sql = getSql();
+  const rows = await sql/* sql */ `select workspace_id, group_id from werewolf_games where id = ${gameId} limit 1`;
+  const row = rows[0] as Record<string, unknown> | undefined;
+  if (!row) return;
+  const workspaceId = String(row.workspace_id);
+  getWorkspaceUIBus().emit(workspaceId, {
+    event: "ui.werewolf.game_over",
+    data: {
+      workspaceId,
+      gameId,
+      groupId: String(row.group_id),
+      winner: typeof payload.winner === "string" ? payload.winner : null,
+    },
+  });
 }
 
 async function emitGmNotice(input: {
@@ -652,6 +682,7 @@ async function generateSpeechByLLM(input: { game: WerewolfGame; actor: WerewolfP
         agentId: input.actor.agentId,
         systemPrompt,
         userPrompt,
+        usage: { gameId: input.game.id, gameKind: "werewolf" },
         decode: {
           temperature: decode.temperature,
           topP: decode.topP,
@@ -711,6 +742,7 @@ async function generateVoteByLLM(input: { game: WerewolfGame; actor: WerewolfPla
         agentId: input.actor.agentId,
         systemPrompt,
         userPrompt,
+        usage: { gameId: input.game.id, gameKind: "werewolf" },
         decode: {
           temperature: decode.temperature,
           topP: decode.topP,
@@ -770,6 +802,7 @@ async function generateNightActionByLLM(input: {
         agentId: input.actor.agentId,
         systemPrompt,
         userPrompt,
+        usage: { gameId: input.game.id, gameKind: "werewolf" },
         decode: {
           temperature: Math.max(0.65, decode.temperature - 0.08),
           topP: decode.topP,
@@ -1206,22 +1239,32 @@ async function advanceGameAuto(gameId: string) {
   }
 }
 
-export async function createWerewolfGame(input: { workspaceId: string; humanAgentId?: string | null }) {
+/**
+ * `personas` optionally builds AI seats from the persona library, in seat order; a persona adds its
+ * prompt and model profile and overrides the seat strategy's sampling parameters.
+ */
+export async function createWerewolfGame(input: {
+  workspaceId: string;
+  humanAgentId?: string | null;
+  personas?: Array<AgentPersonaRecord | null>;
+}) {
   const defaults = await store.ensureWorkspaceDefaults({ workspaceId: input.workspaceId });
   const humanAgentId = input.humanAgentId ?? defaults.humanAgentId;
-  const aiMembers: Array<{ agentId: string; strategy: WerewolfStrategyKey }> = [];
+  const aiMembers: Array<{ agentId: string; strategy: WerewolfStrategyKey; decode: Partial<DecodeConfig> }> = [];
   for (let i = 0; i < AI_COUNT; i++) {
     const strategy = STRATEGY_SLOTS[i]!;
+    const persona = input.personas?.[i] ?? null;
     const created = await store.createSubAgentWithP2P({
       workspaceId: input.workspaceId,
       creatorId: humanAgentId,
-      role: `werewolf_ai_${i + 1}_${strategy}`,
+      role: `werewolf_ai_${i + 1}_${persona?.name ?? strategy}`,
       kind: "game_ephemeral",
       autoRunEnabled: false,
       originType: "werewolf_game",
       guidance: `${getStrategyGuidance(strategy)}\nYou are playing Werewolf. Output Chinese in game rounds.`,
+      persona,
     });
-    aiMembers.push({ agentId: created.agentId, strategy });
+    aiMembers.push({ agentId: created.agentId, strategy, decode: persona?.decode ?? {} });
   }
   const members = [humanAgentId, ...aiMembers.map((x) => x.agentId)];
   const group = await store.createGroup({
@@ -1270,7 +1313,7 @@ export async function createWerewolfGame(input: { workspaceId: string; humanAgen
     const role = roleMap.get(agentId)!;
     const ai = aiMembers.find((x) => x.agentId === agentId);
     const strategy = ai?.strategy ?? null;
-    const decode = strategy ? getDefaultDecodeConfig(strategy) : null;
+    const decode = strategy && ai ? personaDecodeConfig(getDefaultDecodeConfig(strategy), ai.decode) : null;
     await sql/* sql */ `
       insert into werewolf_players (
         game_id, agent_id, is_human, role, alive, seat_no, strategy_key, decode_json, memory_json, emotion_state
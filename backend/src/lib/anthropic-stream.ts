@@ -0,0 +1,298 @@
+import type { AssembledToolCall, TokenUsage } from "./glm-stream";
+
+type AnthropicContentBlock =
+  | { type: "text"; text?: string }
+  | { type: "thinking"; thinking?: string; signature?: string }
+  | { type: "redacted_thinking"; data?: string }
+  | { type: "tool_use"; id?: string; name?: string; input?: unknown };
+
+type AnthropicEvent = {
+  type?: string;
+  index?: number;
+  message?: {
+    usage?: { input_tokens?: number; output_tokens?: number };
+    stop_reason?: string | null;
+  };
+  content_block?: AnthropicContentBlock;
+  delta?: {
+    type?: string;
+    text?: string;
+    thinking?: string;
+    signature?: string;
+    partial_json?: string;
+    stop_reason?: string | null;
+  };
+  usage?: { input_tokens?: number; output_tokens?: number };
+  error?: { type?: string; message?: string };
+};
+
+/**
+ * A thinking block as the API issued it. Each block carries its own signature (or,
+ * when redacted, opaque data), and must be replayed unchanged and in order.
+ */
+export type AnthropicThinkingBlock =
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string };
+
+export type AnthropicAssembledState = {
+  reasoningContent: string;
+  /** Replayable thinking blocks; unsigned thinking is left out because the API rejects it. */
+  reasoningBlocks?: AnthropicThinkingBlock[];
+  content: string;
+  toolCalls: AssembledToolCall[];
+  finishReason?: string | null;
+  usage?: TokenUsage;
+};
+
+export const ANTHROPIC_DEFAULT_URL = "https://api.anthropic.com/v1/messages";
+export const ANTHROPIC_VERSION = "2023-06-01";
+
+export function normalizeAnthropicUrl(value: string) {
+  if (!value) return ANTHROPIC_DEFAULT_URL;
+  if (value.endsWith("/messages")) return value;
+  if (value.endsWith("/v1")) return `${value}/messages`;
+  return value;
+}
+
+export function buildAnthropicHeaders(apiKey: string, extra?: Record<string, string>) {
+  return {
+    "x-api-key": apiKey,
+    "anthropic-version": ANTHROPIC_VERSION,
+    "Content-Type": "application/json",
+    ...(extra ?? {}),
+  };
+}
+
+// Anthropic reports stop reasons in its own vocabulary; map them to the
+// OpenAI-style values the rest of the runtime already understands.
+function mapStopReason(reason: string | null | undefined) {
+  if (reason === "end_turn" || reason === "stop_sequence") return "stop";
+  if (reason === "tool_use") return "tool_calls";
+  if (reason === "max_tokens") return "length";
+  return reason ?? null;
+}
+
+/**
+ * Assembles Anthropic Messages API stream events. Tool calls are indexed by
+ * their position among tool_use blocks, not by content block index, so they
+ * line up with the OpenAI-style assemblers.
+ */
+export class AnthropicStreamAssembler {
+  private reasoningContent = "";
+  private thinkingBlocks = new Map<number, AnthropicThinkingBlock>();
+  private content = "";
+  private toolCalls = new Map<number, AssembledToolCall>();
+  private toolIndexByBlock = new Map<number, number>();
+  private finishReason: string | null | undefined = undefined;
+  private inputTokens = 0;
+  private outputTokens = 0;
+  private hasUsage = false;
+
+  push(event: AnthropicEvent): AnthropicAssembledState {
+    if (event.type === "error") {
+      throw new Error(`anthropic stream error: ${event.error?.message ?? event.error?.type ?? "unknown"}`);
+    }
+
+    if (event.type === "message_start") {
+      const usage = event.message?.usage;
+      if (usage) {
+        this.hasUsage = true;
+        this.inputTokens = usage.input_tokens ?? 0;
+        this.outputTokens = usage.output_tokens ?? 0;
+      }
+    }
+
+    if (event.type === "content_block_start" && event.content_block) {
+      const blockIndex = event.index ?? 0;
+      const block = event.content_block;
+      if (block.type === "tool_use") {
+        const index = this.toolCalls.size;
+        this.toolIndexByBlock.set(blockIndex, index);
+        const input =
+          block.input && typeof block.input === "object" && Object.keys(block.input).length > 0
+            ? JSON.stringify(block.input)
+            : "";
+        this.toolCalls.set(index, { index, id: block.id, name: block.name, argumentsText: input });
+      } else if (block.type === "text" && block.text) {
+        this.content += block.text;
+      } else if (block.type === "thinking") {
+        this.thinkingBlocks.set(blockIndex, {
+          type: "thinking",
+          thinking: block.thinking ?? "",
+          signature: block.signature ?? "",
+        });
+        if (block.thinking) this.reasoningContent += block.thinking;
+      } else if (block.type === "redacted_thinking") {
+        this.thinkingBlocks.set(blockIndex, { type: "redacted_thinking", data: block.data ?? "" });
+      }
+    }
+
+    if (event.type === "content_block_delta" && event.delta) {
+      const delta = event.delta;
+      if (delta.type === "text_delta" && typeof delta.text === "string") this.content += delta.text;
+      const thinkingBlock = this.thinkingBlocks.get(event.index ?? 0);
+      if (delta.type === "thinking_delta" && typeof delta.thinking === "string") {
+        this.reasoningContent += delta.thinking;
+        if (thinkingBlock?.type === "thinking") thinkingBlock.thinking += delta.thinking;
+      }
+      if (delta.type === "signature_delta" && typeof delta.signature === "string") {
+        if (thinkingBlock?.type === "thinking") thinkingBlock.signature += delta.signature;
+      }
+      if (delta.type === "input_json_delta" && typeof delta.partial_json === "string") {
+        const index = this.toolIndexByBlock.get(event.index ?? 0);
+        const call = index === undefined ? undefined : this.toolCalls.get(index);
+        if (call) call.argumentsText += delta.partial_json;
+      }
+    }
+
+    if (event.type === "message_delta") {
+      if (event.delta && "stop_reason" in event.delta) {
+        this.finishReason = mapStopReason(event.delta.stop_reason);
+      }
+      if (event.usage) {
+        this.hasUsage = true;
+        if (typeof event.usage.input_tokens === "number") this.inputTokens = event.usage.input_tokens;
+        if (typeof event.usage.output_tokens === "number") this.outputTokens = event.usage.output_tokens;
+      }
+    }
+
+    return this.snapshot();
+  }
+
+  /** Maps the block-level delta of one event to the OpenAI-style tool call delta shape. */
+  toolCallDelta(event: AnthropicEvent): { delta: string; tool_call_id?: string; tool_call_name?: string } | null {
+    const index = this.toolIndexByBlock.get(event.index ?? 0);
+    const call = index === undefined ? undefined : this.toolCalls.get(index);
+    if (!call) return null;
+    if (event.type === "content_block_start") {
+      return { delta: call.argumentsText, tool_call_id: call.id, tool_call_name: call.name };
+    }
+    if (event.type === "content_block_delta" && event.delta?.type === "input_json_delta") {
+      return { delta: event.delta.partial_json ?? "", tool_call_id: call.id, tool_call_name: call.name };
+    }
+    return null;
+  }
+
+  snapshot(): AnthropicAssembledState {
+    const reasoningBlocks = [...this.thinkingBlocks.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([, block]) => ({ ...block }))
+      .filter((block) => block.type === "redacted_thinking" || block.signature);
+    return {
+      reasoningContent: this.reasoningContent,
+      reasoningBlocks: reasoningBlocks.length > 0 ? reasoningBlocks : undefined,
+      content: this.content,
+      toolCalls: [...this.toolCalls.values()].sort((a, b) => a.index - b.index),
+      finishReason: this.finishReason,
+      usage: this.hasUsage
+        ? {
+            promptTokens: this.inputTokens,
+            completionTokens: this.outputTokens,
+            totalTokens: this.inputTokens + this.outputTokens,
+          }
+        : undefined,
+    };
+  }
+}
+
+type ChatMessage = {
+  role: string;
+  content: string;
+  tool_calls?: unknown;
+  reasoning_content?: string;
+  reasoning_blocks?: AnthropicThinkingBlock[];
+  /** Histories written before reasoning_blocks kept one signature for all thinking. */
+  reasoning_signature?: string;
+  tool_call_id?: string;
+  name?: string;
+};
+
+type AnthropicMessage = { role: "user" | "assistant"; content: Array<Record<string, unknown>> };
+
+type OpenAiToolCall = { id?: string; function?: { name?: string; arguments?: string } };
+
+/**
+ * Converts OpenAI-style chat history into a Messages API request body fragment.
+ * System messages are hoisted into `system`; tool results become user
+ * tool_result blocks; consecutive same-role turns are merged as the API requires.
+ */
+export function toAnthropicMessages(history: ChatMessage[]) {
+  const systemParts: string[] = [];
+  const messages: AnthropicMessage[] = [];
+
+  const append = (role: AnthropicMessage["role"], blocks: Array<Record<string, unknown>>) => {
+    if (blocks.length === 0) return;
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) last.content.push(...blocks);
+    else messages.push({ role, content: blocks });
+  };
+
+  for (const msg of history) {
+    if (msg.role === "system") {
+      if (msg.content.trim()) systemParts.push(msg.content);
+      continue;
+    }
+
+    if (msg.role === "tool") {
+      append("user", [
+        { type: "tool_result", tool_use_id: msg.tool_call_id ?? "", content: msg.content || "(empty)" },
+      ]);
+      continue;
+    }
+
+    if (msg.role === "assistant") {
+      const blocks: Array<Record<string, unknown>> = [];
+      // Thinking can only be replayed with the signature the API issued for it.
+      if (msg.reasoning_blocks?.length) {
+        blocks.push(...msg.reasoning_blocks.map((block) => ({ ...block })));
+      } else if (msg.reasoning_content && msg.reasoning_signature) {
+        blocks.push({ type: "thinking", thinking: msg.reasoning_content, signature: msg.reasoning_signature });
+      }
+      if (msg.content.trim()) blocks.push({ type: "text", text: msg.content });
+      const calls = Array.isArray(msg.tool_calls) ? (msg.tool_calls as OpenAiToolCall[]) : [];
+      for (const call of calls) {
+        let input: unknown = {};
+        try {
+          input = call.function?.arguments ? JSON.parse(call.function.arguments) : {};
+        } catch {
+          input = {};
+        }
+        blocks.push({ type: "tool_use", id: call.id ?? "", name: call.function?.name ?? "", input });
+      }
+      append("assistant", blocks);
+      continue;
+    }
+
+    if (msg.content.trim()) append("user", [{ type: "text", text: msg.content }]);
+  }
+
+  // The API requires the conversation to open with a user turn.
+  if (messages[0]?.role !== "user") {
+    messages.unshift({ role: "user", content: [{ type: "text", text: "(conversation start)" }] });
+  }
+
+  return { system: systemParts.join("\n\n"), messages };
+}
+
+type OpenAiToolDefinition = {
+  type?: string;
+  function: { name: string; description?: string; parameters?: unknown };
+};
+
+export function toAnthropicTools(tools: OpenAiToolDefinition[]) {
+  return tools.map((tool) => ({
+    name: tool.function.name,
+    description: tool.function.description ?? "",
+    input_schema: tool.function.parameters ?? { type: "object", properties: {} },
+  }));
+}
+
+export function getAnthropicThinkingBudget() {
+  const raw = Number(process.env.ANTHROPIC_THINKING_BUDGET);
+  return raw >= 1024 ? Math.floor(raw) : 0;
+}
+
+export function getAnthropicMaxTokens() {
+  const raw = Number(process.env.ANTHROPIC_MAX_TOKENS);
+  return raw > 0 ? Math.floor(raw) : 4096;
+}
@@ -0,0 +1,211 @@
+import crypto from "node:crypto";
+
+import {
+  extractApiKey,
+  hashApiKeySecret,
+  isInstanceApiRoute,
+  isPublicApiRoute,
+  parseApiKeyToken,
+  requiredScopeFor,
+  scopeAllows,
+} from "./api-keys";
+import { extractUserToken, hashUserToken, requiredRoleFor, roleAllows, USER_ID_HEADER } from "./auth";
+import { store, type ApiKeyRecord, type UserRecord } from "./storage";
+
+type UUID = string;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+/** last_used_at is informational; write it at most this often per key or session. */
+const TOUCH_INTERVAL_MS = 60_000;
+/** How long the "does any user account exist" answer is reused. */
+const ACCOUNTS_CHECK_TTL_MS = 10_000;
+
+/** Routes a signed-out caller may use once accounts exist. */
+const ANONYMOUS_ROUTES = [/^\/api\/health$/, /^\/api\/auth\/(login|register|me)$/];
+/** Shared catalogs that belong to no workspace; every other route must resolve one. */
+const CATALOG_ROUTES = [/^\/api\/config$/, /^\/api\/tasks\/workflows$/, /^\/api\/undercover\/wordbank$/];
+/** Body fields that name the acting human; a member may only act as their own human agent. */
+const ACTOR_FIELDS = ["senderId", "creatorId", "decidedBy", "actorId", "answeredBy"] as const;
+
+export type ApiAuthResult =
+  | { ok: true; key: ApiKeyRecord | null; user: UserRecord | null }
+  | { ok: false; status: 401 | 403; error: string };
+
+let accountsCheck: { at: number; exists: boolean } | null = null;
+
+/**
+ * Login is enforced once the first user account exists; until then the
+ * deployment keeps its original single-user, no-login behaviour.
+ */
+export async function accountsEnabled() {
+  if (accountsCheck?.exists) return true;
+  if (accountsCheck && Date.now() - accountsCheck.at < ACCOUNTS_CHECK_TTL_MS) return false;
+  const exists = (await store.countUsers().catch(() => 0)) > 0;
+  accountsCheck = { at: Date.now(), exists };
+  return exists;
+}
+
+/** Resolves a session cookie or personal token to its user. */
+export async function resolveUserSession(headers: Headers): Promise<UserRecord | null> {
+  const token = extractUserToken(headers);
+  if (!token) return null;
+  const found = await store.findUserSessionByTokenHash({ tokenHash: hashUserToken(token) }).catch(() => null);
+  if (!found) return null;
+  if (!found.session.lastUsedAt || Date.now() - Date.parse(found.session.lastUsedAt) > TOUCH_INTERVAL_MS) {
+    void store.touchUserSession({ id: found.session.id }).catch(() => undefined);
+  }
+  return found.user;
+}
+
+/**
+ * Works out which workspace an /api request targets: from the path for routes
+ * addressed by workspace, group, agent or game id, else the `workspaceId` query
+ * parameter or JSON body field. Null for instance-wide routes.
+ */
+async function resolveRequestWorkspaceId(req: Request, pathname: string): Promise<UUID | null> {
+  const segments = pathname.split("/").filter(Boolean);
+  const [, resource, id] = segments;
+  if (resource === "workspaces" && id) return id;
+  if (resource === "groups" && id && UUID_RE.test(id)) {
+    return await store.getGroupWorkspaceId({ groupId: id }).catch(() => null);
+  }
+  if (resource === "agents" && id && UUID_RE.test(id)) {
+    return (await store.getAgent({ agentId: id }).catch(() => null))?.workspaceId ?? null;
+  }
+  if ((resource === "undercover" || resource === "werewolf") && id === "games" && segments[3]) {
+    return await store.getGameWorkspaceId({ gameId: segments[3] }).catch(() => null);
+  }
+
+  const query = new URL(req.url).searchParams;
+  const fromQuery = query.get("workspaceId")?.trim();
+  if (fromQuery) return fromQuery;
+  const agentId = query.get("agentId")?.trim();
+  if (agentId && UUID_RE.test(agentId)) {
+    return (await store.getAgent({ agentId }).catch(() => null))?.workspaceId ?? null;
+  }
+  const groupId = query.get("groupId")?.trim();
+  if (groupId && UUID_RE.test(groupId)) return await store.getGroupWorkspaceId({ groupId }).catch(() => null);
+  const gameId = query.get("gameId")?.trim();
+  if (gameId && UUID_RE.test(gameId)) return await store.getGameWorkspaceId({ gameId }).catch(() => null);
+  const taskId = query.get("taskId")?.trim();
+  if (taskId && UUID_RE.test(taskId)) {
+    return (await store.getTaskRunById({ taskId }).catch(() => null))?.workspaceId ?? null;
+  }
+  const body = await readJsonBody(req);
+  if (typeof body?.workspaceId === "string" && body.workspaceId.trim()) return body.workspaceId.trim();
+  return null;
+}
+
+async function verifyApiKey(token: string): Promise<ApiKeyRecord | null> {
+  const parsed = parseApiKeyToken(token);
+  if (!parsed) return null;
+  const key = await store.findApiKeyByPrefix({ prefix: parsed.prefix }).catch(() => null);
+  if (!key) return null;
+  const expected = Buffer.from(key.keyHash, "hex");
+  const actual = Buffer.from(hashApiKeySecret(parsed.secret), "hex");
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  const { keyHash: _keyHash, ...record } = key;
+  return record;
+}
+
+async function readJsonBody(req: Request): Promise<Record<string, unknown> | null> {
+  if (!(req.headers.get("content-type") ?? "").includes("application/json")) return null;
+  const body = (await req
+    .clone()
+    .json()
+    .catch(() => null)) as unknown;
+  return body && typeof body === "object" && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+}
+
+/** Rejects requests that name another member's human agent as the actor. */
+async function checkActorFields(req: Request, workspaceId: UUID, humanAgentId: UUID | null) {
+  const body = await readJsonBody(req);
+  if (!body) return null;
+  for (const field of ACTOR_FIELDS) {
+    const value = body[field];
+    if (typeof value !== "string" || value === humanAgentId || !UUID_RE.test(value)) continue;
+    const agent = await store.getAgent({ agentId: value }).catch(() => null);
+    if (agent?.workspaceId === workspaceId && agent.kind === "system_human") {
+      return `${field} must be your own human agent`;
+    }
+  }
+  return null;
+}
+
+async function authorizeUserRequest(req: Request, pathname: string): Promise<ApiAuthResult> {
+  const user = await resolveUserSession(req.headers);
+  if (!user) {
+    if (ANONYMOUS_ROUTES.some((re) => re.test(pathname))) return { ok: true, key: null, user: null };
+    return { ok: false, status: 401, error: "Login required" };
+  }
+  if (/^\/api\/(auth\/|workspaces(\/import)?$)/.test(pathname)) return { ok: true, key: null, user };
+  if (isInstanceApiRoute(pathname)) {
+    return user.isAdmin ? { ok: true, key: null, user } : { ok: false, status: 403, error: "Instance admin required" };
+  }
+
+  const workspaceId = await resolveRequestWorkspaceId(req, pathname);
+  if (!workspaceId) {
+    if ((req.method === "GET" && CATALOG_ROUTES.some((re) => re.test(pathname))) || user.isAdmin) {
+      return { ok: true, key: null, user };
+    }
+    return { ok: false, status: 403, error: "Cannot determine the workspace for this request" };
+  }
+  const member = await store.getWorkspaceMember({ workspaceId, userId: user.id }).catch(() => null);
+  if (!member && !user.isAdmin) return { ok: false, status: 403, error: "Not a member of this workspace" };
+
+  const required = requiredRoleFor(req.method, pathname);
+  if (member && !user.isAdmin && !roleAllows(member.role, required)) {
+    return { ok: false, status: 403, error: `Requires the ${required} role in this workspace` };
+  }
+  if (req.method !== "GET") {
+    const actorError = await checkActorFields(req, workspaceId, member?.humanAgentId ?? null);
+    if (actorError) return { ok: false, status: 403, error: actorError };
+  }
+  return { ok: true, key: null, user };
+}
+
+/**
+ * Authorizes an /api request. An API key, when presented, is checked against
+ * its scopes and workspace. Otherwise, once user accounts exist, the caller
+ * needs a session whose workspace membership allows the route; before that,
+ * requests keep the original open behaviour used by the bundled UI.
+ */
+export async function authorizeApiRequest(req: Request): Promise<ApiAuthResult> {
+  const pathname = new URL(req.url).pathname;
+  if (isPublicApiRoute(pathname)) return { ok: true, key: null, user: null };
+  const token = extractApiKey(req.headers);
+  if (!token || !parseApiKeyToken(token)) {
+    if (await accountsEnabled()) return await authorizeUserRequest(req, pathname);
+    if (!token) return { ok: true, key: null, user: null };
+  }
+
+  const key = await verifyApiKey(token!);
+  if (!key) return { ok: false, status: 401, error: "Invalid API key" };
+  if (isInstanceApiRoute(pathname)) {
+    return { ok: false, status: 403, error: "API keys are scoped to one workspace" };
+  }
+  const required = requiredScopeFor(req.method, pathname);
+  if (!scopeAllows(key.scopes, required)) {
+    return { ok: false, status: 403, error: `API key lacks the "${required}" scope` };
+  }
+
+  const workspaceId = await resolveRequestWorkspaceId(req, pathname);
+  if (workspaceId && workspaceId !== key.workspaceId) {
+    return { ok: false, status: 403, error: "API key belongs to another workspace" };
+  }
+  if (!workspaceId && !(required === "read" && CATALOG_ROUTES.some((re) => re.test(pathname)))) {
+    return { ok: false, status: 403, error: "Cannot determine the workspace for this request" };
+  }
+
+  if (!key.lastUsedAt || Date.now() - Date.parse(key.lastUsedAt) > TOUCH_INTERVAL_MS) {
+    void store.touchApiKey({ id: key.id }).catch(() => undefined);
+  }
+  return { ok: true, key, user: null };
+}
+
+/** The signed-in user the auth proxy attached to this request, if any. */
+export async function getRequestUser(req: Request): Promise<UserRecord | null> {
+  const userId = req.headers.get(USER_ID_HEADER);
+  if (!userId) return null;
+  return await store.getUser({ userId });
+}
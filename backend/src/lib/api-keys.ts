@@ -0,0 +1,97 @@
+import crypto from "node:crypto";
+
+export type ApiKeyScope = "read" | "post" | "start-task" | "admin";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ["read", "post", "start-task", "admin"];
+
+/** Tokens look like `awk_<prefix>_<secret>`; only the prefix is stored in clear. */
+const TOKEN_RE = /^awk_([a-f0-9]{12})_([A-Za-z0-9_-]{32,})$/;
+
+/** Headers the auth proxy sets for route handlers after verifying a key; client values are stripped. */
+export const API_KEY_ID_HEADER = "x-agent-wechat-api-key-id";
+export const API_KEY_WORKSPACE_HEADER = "x-agent-wechat-api-key-workspace";
+
+export function parseApiKeyScopes(raw: unknown): { ok: true; scopes: ApiKeyScope[] } | { ok: false; error: string } {
+  if (!Array.isArray(raw) || raw.length === 0) return { ok: false, error: "scopes must be a non-empty array" };
+  const scopes: ApiKeyScope[] = [];
+  for (const item of raw) {
+    if (!API_KEY_SCOPES.includes(item as ApiKeyScope)) {
+      return { ok: false, error: `unknown scope "${String(item)}"; expected ${API_KEY_SCOPES.join(", ")}` };
+    }
+    if (!scopes.includes(item as ApiKeyScope)) scopes.push(item as ApiKeyScope);
+  }
+  return { ok: true, scopes };
+}
+
+export function hashApiKeySecret(secret: string) {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+export function generateApiKey() {
+  const prefix = crypto.randomBytes(6).toString("hex");
+  const secret = crypto.randomBytes(32).toString("base64url");
+  return { token: `awk_${prefix}_${secret}`, prefix, keyHash: hashApiKeySecret(secret) };
+}
+
+export function parseApiKeyToken(token: string): { prefix: string; secret: string } | null {
+  const m = TOKEN_RE.exec(token.trim());
+  return m ? { prefix: m[1], secret: m[2] } : null;
+}
+
+/** Reads a key from `Authorization: Bearer <key>` or `X-Api-Key`. */
+export function extractApiKey(headers: Headers): string | null {
+  const auth = headers.get("authorization") ?? "";
+  const bearer = /^Bearer\s+(.+)$/i.exec(auth.trim());
+  if (bearer) return bearer[1].trim();
+  return headers.get("x-api-key")?.trim() || null;
+}
+
+/** Every scope implies read; admin implies everything. */
+export function scopeAllows(granted: ApiKeyScope[], required: ApiKeyScope) {
+  if (granted.includes("admin")) return true;
+  if (required === "read") return granted.length > 0;
+  return granted.includes(required);
+}
+
+const START_TASK_ROUTES = [
+  /^\/api\/tasks\/(start|start-from-template|stop|pause|resume|fork)$/,
+  /^\/api\/workspaces\/[^/]+\/schedules\/[^/]+\/runs$/,
+];
+
+const POST_ROUTES = [
+  /^\/api\/groups\/[^/]+\/messages$/,
+  /^\/api\/groups\/[^/]+\/messages\/[^/]+\/reactions$/,
+  /^\/api\/workspaces\/[^/]+\/inbound\/[^/]+$/,
+  /^\/api\/workspaces\/[^/]+\/artifacts$/,
+  /^\/api\/workspaces\/[^/]+\/human-questions\/[^/]+$/,
+  /^\/api\/(undercover|werewolf)\/games\/[^/]+\/human\/[^/]+$/,
+];
+
+/** Routes that expose credentials (including full exports); even reading them needs admin. */
+const CREDENTIAL_ROUTES = [/^\/api\/workspaces\/[^/]+\/(api-keys|webhooks|inbound-webhooks|export)(\/|$)/];
+
+/** Routes that need no key at all. */
+const PUBLIC_ROUTES = [/^\/api\/health$/];
+
+/** Instance-wide routes a workspace-scoped key may never call. */
+const INSTANCE_ROUTES = [/^\/api\/admin\//, /^\/api\/debug\//, /^\/api\/auth\//, /^\/api\/workspaces(\/import)?$/];
+
+export function isPublicApiRoute(pathname: string) {
+  return PUBLIC_ROUTES.some((re) => re.test(pathname));
+}
+
+export function isInstanceApiRoute(pathname: string) {
+  return INSTANCE_ROUTES.some((re) => re.test(pathname));
+}
+
+export function isCredentialApiRoute(pathname: string) {
+  return CREDENTIAL_ROUTES.some((re) => re.test(pathname));
+}
+
+export function requiredScopeFor(method: string, pathname: string): ApiKeyScope {
+  if (isCredentialApiRoute(pathname)) return "admin";
+  if (method === "GET" || method === "HEAD" || method === "OPTIONS") return "read";
+  if (method === "POST" && START_TASK_ROUTES.some((re) => re.test(pathname))) return "start-task";
+  if (method === "POST" && POST_ROUTES.some((re) => re.test(pathname))) return "post";
+  return "admin";
+}
@@ -0,0 +1,76 @@
+import { createHash, randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+import { store, type ArtifactRecord } from "@/lib/storage";
+
+/**
+ * Artifact bytes live on local disk, one file per artifact under
+ * `<AGENT_ARTIFACT_DIR>/<workspaceId>/<artifactId>`; the metadata row is the
+ * only index, so blobs are never listed or looked up by name.
+ */
+function getArtifactBaseDir() {
+  return path.resolve(process.env.AGENT_ARTIFACT_DIR ?? path.join(process.cwd(), ".agent_artifacts"));
+}
+
+function blobPath(workspaceId: string, artifactId: string) {
+  if (!/^[A-Za-z0-9_-]+$/.test(workspaceId) || !/^[A-Za-z0-9_-]+$/.test(artifactId)) {
+    throw new Error("invalid artifact path");
+  }
+  return path.join(getArtifactBaseDir(), workspaceId, artifactId);
+}
+
+export async function saveArtifact(input: {
+  workspaceId: string;
+  name: string;
+  mimeType: string;
+  bytes: Buffer;
+  createdByAgentId?: string | null;
+  taskRunId?: string | null;
+  groupId?: string | null;
+}): Promise<ArtifactRecord> {
+  const id = randomUUID();
+  const file = blobPath(input.workspaceId, id);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, input.bytes);
+  try {
+    return await store.createArtifact({
+      id,
+      workspaceId: input.workspaceId,
+      name: input.name,
+      mimeType: input.mimeType,
+      sizeBytes: input.bytes.length,
+      sha256: createHash("sha256").update(input.bytes).digest("hex"),
+      createdByAgentId: input.createdByAgentId,
+      taskRunId: input.taskRunId,
+      groupId: input.groupId,
+    });
+  } catch (err) {
+    await fs.rm(file, { force: true });
+    throw err;
+  }
+}
+
+/** Returns null when the metadata row exists but its blob is gone (e.g. the directory was wiped). */
+export async function readArtifactBytes(artifact: Pick<ArtifactRecord, "workspaceId" | "id">) {
+  try {
+    return await fs.readFile(blobPath(artifact.workspaceId, artifact.id));
+  } catch (err: any) {
+    if (err?.code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+/** Copies a blob into another workspace under a new id (task forks); a missing source blob is skipped. */
+export async function copyArtifactBlob(
+  from: Pick<ArtifactRecord, "workspaceId" | "id">,
+  to: Pick<ArtifactRecord, "workspaceId" | "id">
+) {
+  const target = blobPath(to.workspaceId, to.id);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  try {
+    await fs.copyFile(blobPath(from.workspaceId, from.id), target);
+  } catch (err: any) {
+    if (err?.code !== "ENOENT") throw err;
+  }
+}
@@ -0,0 +1,94 @@
+/** How the IM page renders an artifact inline. */
+export type ArtifactPreviewKind = "image" | "markdown" | "code" | "csv" | "text" | "binary";
+
+export const MAX_ARTIFACT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 8;
+/** read_artifact returns at most this many characters of a text artifact unless asked for less. */
+export const MAX_ARTIFACT_READ_CHARS = 100_000;
+
+const MAX_NAME_CHARS = 200;
+
+const MIME_BY_EXT: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  csv: "text/csv",
+  txt: "text/plain",
+  log: "text/plain",
+  json: "application/json",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  html: "text/html",
+  pdf: "application/pdf",
+  zip: "application/zip",
+};
+
+const CODE_EXTS = new Set([
+  "ts", "tsx", "js", "jsx", "mjs", "py", "go", "rs", "java", "kt", "c", "h", "cpp", "cs", "rb", "php",
+  "sh", "sql", "css", "html", "json", "yaml", "yml", "toml", "xml",
+]);
+
+function extensionOf(name: string) {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+/** Keeps the last path segment, so a name can never point outside the artifact directory. */
+export function normalizeArtifactName(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const name = raw.trim().split(/[\\/]/).pop()?.trim() ?? "";
+  if (!name || name === "." || name === ".." || name.length > MAX_NAME_CHARS) return null;
+  return /[\u0000-\u001f]/.test(name) ? null : name;
+}
+
+export function guessMimeType(name: string, declared?: unknown): string {
+  if (typeof declared === "string" && /^[\w.+-]+\/[\w.+-]+$/.test(declared.trim())) return declared.trim().toLowerCase();
+  const ext = extensionOf(name);
+  if (MIME_BY_EXT[ext]) return MIME_BY_EXT[ext]!;
+  return CODE_EXTS.has(ext) ? "text/plain" : "application/octet-stream";
+}
+
+export function isTextMimeType(mimeType: string) {
+  return mimeType.startsWith("text/") || ["application/json", "application/yaml", "image/svg+xml"].includes(mimeType);
+}
+
+export function artifactPreviewKind(name: string, mimeType: string): ArtifactPreviewKind {
+  const ext = extensionOf(name);
+  // SVG can carry script, so it is shown as source rather than rendered.
+  if (mimeType.startsWith("image/") && mimeType !== "image/svg+xml") return "image";
+  if (mimeType === "text/markdown") return "markdown";
+  if (mimeType === "text/csv") return "csv";
+  if (CODE_EXTS.has(ext) || ext === "svg") return "code";
+  return isTextMimeType(mimeType) ? "text" : "binary";
+}
+
+/** Tool and API payloads carry content as UTF-8 text or base64. */
+export function decodeArtifactContent(
+  content: unknown,
+  encoding: unknown
+): { ok: true; bytes: Buffer } | { ok: false; error: string } {
+  if (typeof content !== "string") return { ok: false, error: "content must be a string" };
+  if (encoding !== undefined && encoding !== null && encoding !== "utf8" && encoding !== "base64") {
+    return { ok: false, error: 'encoding must be "utf8" or "base64"' };
+  }
+  const bytes = encoding === "base64" ? Buffer.from(content, "base64") : Buffer.from(content, "utf8");
+  if (bytes.length > MAX_ARTIFACT_BYTES) {
+    return { ok: false, error: `artifact exceeds ${MAX_ARTIFACT_BYTES / (1024 * 1024)} MB` };
+  }
+  return { ok: true, bytes };
+}
+
+export function parseAttachmentIds(raw: unknown): { ok: true; ids: string[] } | { ok: false; error: string } {
+  if (raw === undefined || raw === null) return { ok: true, ids: [] };
+  if (!Array.isArray(raw) || raw.some((x) => typeof x !== "string" || !x.trim())) {
+    return { ok: false, error: "attachments must be an array of artifact ids" };
+  }
+  const ids = [...new Set((raw as string[]).map((x) => x.trim()))];
+  if (ids.length > MAX_ATTACHMENTS) return { ok: false, error: `at most ${MAX_ATTACHMENTS} attachments` };
+  return { ok: true, ids };
+}
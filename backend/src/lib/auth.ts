@@ -0,0 +1,98 @@
+import crypto from "node:crypto";
+
+import { isCredentialApiRoute } from "./api-keys";
+
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ["owner", "editor", "viewer"];
+
+export type UserSessionKind = "session" | "token";
+
+/** Set by the auth proxy once a session or personal token is verified; client values are stripped. */
+export const USER_ID_HEADER = "x-agent-wechat-user-id";
+
+export const SESSION_COOKIE = "agent_wechat_session";
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+const USERNAME_RE = /^[a-z0-9][a-z0-9_.-]{1,31}$/;
+const SCRYPT_KEYLEN = 64;
+
+/** Writes only owners may make: workspace configuration and message redaction. Reading stays open to viewers. */
+const OWNER_WRITE_ROUTES = [
+  /^\/api\/workspaces\/[^/]+\/(members|settings|tool-policies)(\/|$)/,
+  /^\/api\/groups\/[^/]+\/messages\/[^/]+\/redact$/,
+];
+
+export function parseWorkspaceRole(raw: unknown): WorkspaceRole | null {
+  return WORKSPACE_ROLES.includes(raw as WorkspaceRole) ? (raw as WorkspaceRole) : null;
+}
+
+export function roleAllows(granted: WorkspaceRole, required: WorkspaceRole) {
+  return ROLE_RANK[granted] >= ROLE_RANK[required];
+}
+
+/** Viewers read, editors drive agents and tasks, owners manage members, credentials and settings. */
+export function requiredRoleFor(method: string, pathname: string): WorkspaceRole {
+  if (isCredentialApiRoute(pathname)) return "owner";
+  if (method === "GET" || method === "HEAD" || method === "OPTIONS") return "viewer";
+  if (OWNER_WRITE_ROUTES.some((re) => re.test(pathname))) return "owner";
+  return "editor";
+}
+
+export function normalizeUsername(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const username = raw.trim().toLowerCase();
+  return USERNAME_RE.test(username) ? username : null;
+}
+
+export function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEYLEN).toString("hex");
+  return `scrypt$${salt}$${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string | null) {
+  const [scheme, salt, hash] = (stored ?? "").split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/** Session tokens start with `aws_`, personal access tokens with `awu_`; both are stored hashed. */
+export function generateUserToken(kind: UserSessionKind) {
+  const token = `${kind === "session" ? "aws" : "awu"}_${crypto.randomBytes(32).toString("base64url")}`;
+  return { token, tokenHash: hashUserToken(token) };
+}
+
+export function hashUserToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function isUserToken(token: string) {
+  return /^aw[su]_[A-Za-z0-9_-]{32,}$/.test(token);
+}
+
+/** Reads a user token from the session cookie or an `Authorization: Bearer` header. */
+export function extractUserToken(headers: Headers): string | null {
+  const bearer = /^Bearer\s+(.+)$/i.exec((headers.get("authorization") ?? "").trim());
+  if (bearer && isUserToken(bearer[1].trim())) return bearer[1].trim();
+  for (const part of (headers.get("cookie") ?? "").split(";")) {
+    const [name, ...rest] = part.trim().split("=");
+    if (name === SESSION_COOKIE) {
+      const value = decodeURIComponent(rest.join("="));
+      return isUserToken(value) ? value : null;
+    }
+  }
+  return null;
+}
+
+export function sessionCookie(token: string, maxAgeMs: number) {
+  return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${Math.floor(maxAgeMs / 1000)}`;
+}
+
+export function clearedSessionCookie() {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+}
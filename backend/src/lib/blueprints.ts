@@ -1,3 +1,6 @@
+import { normalizePersonaName } from "./personas";
+import { getWorkflowPreset } from "./workflows";
+
 export type BlueprintCaseId =
   | "debate"
   | "paper"
@@ -9,6 +12,10 @@ export type BlueprintRoleSpec = {
   guidance: string;
   nameZh: string;
   nameEn: string;
+  /** Model profile the role's agent is pinned to; custom blueprints only, same workspace. */
+  modelProfileId?: string | null;
+  /** Persona the role's agent is built from; the role guidance is layered on top of its prompt. */
+  persona?: string | null;
 };
 
 export type BlueprintPreviewNode = {
@@ -21,6 +28,10 @@ export type BlueprintPreviewNode = {
   kind: "human" | "assistant" | "worker";
 };
 
+export type BlueprintEdgeType = "command" | "collab" | "review";
+
+export type BlueprintPreviewEdge = { from: string; to: string; type: BlueprintEdgeType };
+
 export type BlueprintCase = {
   id: BlueprintCaseId;
   nameZh: string;
@@ -31,11 +42,26 @@ export type BlueprintCase = {
   topicPromptEn: string;
   goalTemplateZh: string;
   goalTemplateEn: string;
+  /** Preset from WORKFLOW_PRESETS that drives the case's task run; null runs a free-form task. */
+  workflowId: string | null;
   roles: BlueprintRoleSpec[];
   previewNodes: BlueprintPreviewNode[];
-  previewEdges: Array<{ from: string; to: string; type: "command" | "collab" | "review" }>;
+  previewEdges: BlueprintPreviewEdge[];
 };
 
+/** Everything a user-defined blueprint stores; the id and workspace come from its row. */
+export type BlueprintDefinition = Omit<BlueprintCase, "id">;
+
+export const BLUEPRINT_EXPORT_FORMAT = "agent-wechat.blueprint";
+export const BLUEPRINT_EXPORT_VERSION = 1;
+
+export const MAX_BLUEPRINT_ROLES = 12;
+const MAX_PREVIEW_EDGES = 64;
+const MAX_TEXT_CHARS = 4_000;
+const ROLE_RE = /^[a-z][a-z0-9_]{0,39}$/;
+const RESERVED_ROLES = new Set(["human", "assistant"]);
+const EDGE_TYPES: BlueprintEdgeType[] = ["command", "collab", "review"];
+
 export const BLUEPRINT_CASES: BlueprintCase[] = [
   {
     id: "debate",
@@ -49,6 +75,7 @@ export const BLUEPRINT_CASES: BlueprintCase[] = [
       "围绕主题「{{topic}}」组织 3 轮辩论：每轮正方先发言、反方回应、主持人总结。第 3 轮后给出胜负与理由，并明确输出“最终总结”四个字作为收尾信号。",
     goalTemplateEn:
       "Run a 3-round debate on '{{topic}}': pro speaks first, con responds, moderator summarizes each round, then give final verdict and include the exact phrase 'final summary' at the end.",
+    workflowId: "debate",
     roles: [
       {
         role: "proponent",
@@ -100,6 +127,7 @@ export const BLUEPRINT_CASES: BlueprintCase[] = [
       "围绕主题「{{topic}}」完成论文草稿：先给大纲，再写正文，最后审稿人给出 5 条可执行修改建议。",
     goalTemplateEn:
       "For topic '{{topic}}', produce outline then draft, then reviewer outputs 5 actionable revisions.",
+    workflowId: "paper",
     roles: [
       {
         role: "researcher",
@@ -159,6 +187,7 @@ export const BLUEPRINT_CASES: BlueprintCase[] = [
       "针对「{{topic}}」执行评审：先列高风险问题，再给修复建议和测试清单，最后输出执行计划。",
     goalTemplateEn:
       "Review '{{topic}}': list high-severity findings, fixes, test checklist, and execution plan.",
+    workflowId: "code_review",
     roles: [
       {
         role: "architect",
@@ -218,6 +247,7 @@ export const BLUEPRINT_CASES: BlueprintCase[] = [
       "围绕「{{topic}}」输出产品方案：问题定义、核心流程、原型建议、上线指标与实验计划。",
     goalTemplateEn:
       "For '{{topic}}', output product plan: problem framing, core flow, prototype notes, metrics, experiments.",
+    workflowId: "product_design",
     roles: [
       {
         role: "product_manager",
@@ -271,3 +301,209 @@ export function getBlueprintCase(id: string | null | undefined): BlueprintCase |
   if (!id) return null;
   return BLUEPRINT_CASES.find((c) => c.id === id) ?? null;
 }
+
+/**
+ * Roles that join a blueprint's case group. Roles reachable from the human or
+ * assistant over command/collab edges join; roles reached only through review
+ * edges stay out, so a reviewer sees just what is handed to it over its edge.
+ * Workflow assignees always join because steps are dispatched in the case
+ * group, and roles without any edge keep the unrestricted behaviour.
+ */
+export function blueprintHubRoles(blueprint: Pick<BlueprintCase, "roles" | "previewEdges" | "workflowId">): string[] {
+  const hub = new Set(["human", "assistant"]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const edge of blueprint.previewEdges) {
+      if (edge.type === "review") continue;
+      for (const [a, b] of [[edge.from, edge.to], [edge.to, edge.from]]) {
+        if (hub.has(a) && !hub.has(b)) {
+          hub.add(b);
+          grew = true;
+        }
+      }
+    }
+  }
+  for (const step of getWorkflowPreset(blueprint.workflowId)?.steps ?? []) hub.add(step.role);
+  const linked = new Set(blueprint.previewEdges.flatMap((e) => [e.from, e.to]));
+  return blueprint.roles.map((r) => r.role).filter((role) => hub.has(role) || !linked.has(role));
+}
+
+function str(raw: unknown) {
+  return typeof raw === "string" ? raw.trim() : "";
+}
+
+/** Reads a zh/en pair; one language is enough and fills the other. */
+function localized(t: Record<string, unknown>, base: string, required: boolean): [string, string] | string {
+  const zh = str(t[`${base}Zh`]);
+  const en = str(t[`${base}En`]);
+  if (required && !zh && !en) return `${base}Zh or ${base}En is required`;
+  if (zh.length > MAX_TEXT_CHARS || en.length > MAX_TEXT_CHARS) return `${base} exceeds ${MAX_TEXT_CHARS} chars`;
+  return [zh || en, en || zh];
+}
+
+function clampPercent(raw: unknown, fallback: number) {
+  const n = Number(raw);
+  return Number.isFinite(n) ? Math.min(100, Math.max(0, Math.round(n * 10) / 10)) : fallback;
+}
+
+/**
+ * Validates a user-defined blueprint. Preview nodes are rebuilt from the roles
+ * (one "human", one "assistant" and one node per role, keyed by role) so the
+ * graph can never drift from what instantiation creates; only positions are
+ * taken from the input. Model profile ids are checked against the workspace by
+ * the caller.
+ */
+export function parseBlueprintDefinition(
+  raw: unknown
+): { ok: true; definition: BlueprintDefinition } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "blueprint must be an object" };
+  const t = raw as Record<string, unknown>;
+
+  const fields: Record<string, [string, string]> = {};
+  for (const [base, required] of [
+    ["name", true],
+    ["description", false],
+    ["topicPrompt", true],
+    ["goalTemplate", true],
+  ] as const) {
+    const parsed = localized(t, base, required);
+    if (typeof parsed === "string") return { ok: false, error: parsed };
+    fields[base] = parsed;
+  }
+  if (fields.goalTemplate.some((template) => !template.includes("{{topic}}"))) {
+    return { ok: false, error: "goalTemplate must contain {{topic}}" };
+  }
+
+  const workflowId = str(t.workflowId) || null;
+  if (workflowId && !getWorkflowPreset(workflowId)) return { ok: false, error: `unknown workflowId "${workflowId}"` };
+
+  if (!Array.isArray(t.roles) || t.roles.length === 0) return { ok: false, error: "roles must be a non-empty array" };
+  if (t.roles.length > MAX_BLUEPRINT_ROLES) return { ok: false, error: `at most ${MAX_BLUEPRINT_ROLES} roles` };
+  const roles: BlueprintRoleSpec[] = [];
+  for (const item of t.roles) {
+    if (!item || typeof item !== "object") return { ok: false, error: "each role must be an object" };
+    const r = item as Record<string, unknown>;
+    const role = str(r.role);
+    if (!ROLE_RE.test(role)) return { ok: false, error: `role "${role}" must be snake_case (a-z, 0-9, _)` };
+    if (RESERVED_ROLES.has(role)) return { ok: false, error: `role "${role}" is reserved` };
+    if (roles.some((x) => x.role === role)) return { ok: false, error: `duplicate role "${role}"` };
+    const rawPersona = str(r.persona);
+    const persona = rawPersona ? normalizePersonaName(rawPersona) : null;
+    if (rawPersona && !persona) return { ok: false, error: `role "${role}" has an invalid persona name` };
+    const guidance = str(r.guidance);
+    if (!guidance && !persona) return { ok: false, error: `role "${role}" needs guidance or a persona` };
+    if (guidance.length > MAX_TEXT_CHARS) return { ok: false, error: `role "${role}" guidance is too long` };
+    const names = localized(r, "name", false);
+    if (typeof names === "string") return { ok: false, error: names };
+    roles.push({
+      role,
+      guidance,
+      nameZh: names[0] || role,
+      nameEn: names[1] || role,
+      modelProfileId: str(r.modelProfileId) || null,
+      persona,
+    });
+  }
+
+  const rawNodes = Array.isArray(t.previewNodes) ? (t.previewNodes as Array<Record<string, unknown>>) : [];
+  const positionOf = (id: string, fallback: { x: number; y: number }) => {
+    const found = rawNodes.find((n) => n && typeof n === "object" && str(n.id) === id);
+    return { x: clampPercent(found?.x, fallback.x), y: clampPercent(found?.y, fallback.y) };
+  };
+  const previewNodes: BlueprintPreviewNode[] = [
+    { id: "human", role: "human", labelZh: "你", labelEn: "You", kind: "human", ...positionOf("human", { x: 14, y: 52 }) },
+    {
+      id: "assistant",
+      role: "assistant",
+      labelZh: "助手",
+      labelEn: "Assistant",
+      kind: "assistant",
+      ...positionOf("assistant", { x: 35, y: 20 }),
+    },
+    ...roles.map((r, i) => {
+      const given = rawNodes.find((n) => n && typeof n === "object" && str(n.id) === r.role);
+      return {
+        id: r.role,
+        role: r.role,
+        labelZh: str(given?.labelZh) || r.nameZh,
+        labelEn: str(given?.labelEn) || r.nameEn,
+        kind: "worker",
+        ...positionOf(r.role, { x: 64, y: Math.round(((i + 1) * 100) / (roles.length + 1)) }),
+      } satisfies BlueprintPreviewNode;
+    }),
+  ];
+
+  const nodeIds = new Set(previewNodes.map((n) => n.id));
+  const rawEdges = t.previewEdges === undefined ? [] : t.previewEdges;
+  if (!Array.isArray(rawEdges)) return { ok: false, error: "previewEdges must be an array" };
+  if (rawEdges.length > MAX_PREVIEW_EDGES) return { ok: false, error: `at most ${MAX_PREVIEW_EDGES} edges` };
+  const previewEdges: BlueprintPreviewEdge[] = [];
+  for (const item of rawEdges) {
+    const e = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+    const from = str(e.from);
+    const to = str(e.to);
+    const type = EDGE_TYPES.includes(e.type as BlueprintEdgeType) ? (e.type as BlueprintEdgeType) : null;
+    if (!nodeIds.has(from) || !nodeIds.has(to)) return { ok: false, error: `edge ${from} -> ${to} references an unknown node` };
+    if (from === to) return { ok: false, error: `edge ${from} -> ${to} is a self-loop` };
+    if (!type) return { ok: false, error: `edge ${from} -> ${to} needs a type (${EDGE_TYPES.join(", ")})` };
+    if (previewEdges.some((x) => x.from === from && x.to === to)) continue;
+    previewEdges.push({ from, to, type });
+  }
+
+  return {
+    ok: true,
+    definition: {
+      nameZh: fields.name[0],
+      nameEn: fields.name[1],
+      descriptionZh: fields.description[0],
+      descriptionEn: fields.description[1],
+      topicPromptZh: fields.topicPrompt[0],
+      topicPromptEn: fields.topicPrompt[1],
+      goalTemplateZh: fields.goalTemplate[0],
+      goalTemplateEn: fields.goalTemplate[1],
+      workflowId,
+      roles,
+      previewNodes,
+      previewEdges,
+    },
+  };
+}
+
+/** Returns an error when a role pins a model profile that is not one of the workspace's. */
+export function checkBlueprintModelProfiles(definition: BlueprintDefinition, workspaceProfileIds: string[]) {
+  const known = new Set(workspaceProfileIds);
+  const missing = definition.roles.find((r) => r.modelProfileId && !known.has(r.modelProfileId));
+  return missing ? `role "${missing.role}" uses an unknown modelProfileId` : null;
+}
+
+/** Returns an error when a role names a persona the workspace does not define. */
+export function checkBlueprintPersonas(definition: BlueprintDefinition, workspacePersonaNames: string[]) {
+  const known = new Set(workspacePersonaNames);
+  const missing = definition.roles.find((r) => r.persona && !known.has(r.persona));
+  return missing ? `role "${missing.role}" uses unknown persona "${missing.persona}"` : null;
+}
+
+/** Wraps a blueprint for download; model profile ids are dropped because they only mean something in one workspace. */
+export function toBlueprintExport(definition: BlueprintDefinition) {
+  return {
+    format: BLUEPRINT_EXPORT_FORMAT,
+    version: BLUEPRINT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    blueprint: {
+      ...definition,
+      roles: definition.roles.map(({ modelProfileId: _modelProfileId, ...role }) => role),
+    },
+  };
+}
+
+/** Accepts either a bare definition or a file produced by toBlueprintExport. */
+export function unwrapBlueprintImport(raw: unknown): { ok: true; definition: unknown } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object" || !("format" in raw)) return { ok: true, definition: raw };
+  const file = raw as Record<string, unknown>;
+  if (file.format !== BLUEPRINT_EXPORT_FORMAT) return { ok: false, error: `format must be "${BLUEPRINT_EXPORT_FORMAT}"` };
+  if (file.version !== BLUEPRINT_EXPORT_VERSION) {
+    return { ok: false, error: `unsupported blueprint version ${String(file.version)}` };
+  }
+  return { ok: true, definition: file.blueprint };
+}
@@ -3,14 +3,37 @@ import { join } from "node:path";
 
 let cachedConfig: AppConfig | null = null;
 
+/** USD per million tokens. */
+export type ModelPrice = {
+  inputPerMTok: number;
+  outputPerMTok: number;
+};
+
 export type AppConfig = {
   tokenLimit: number;
+  /** Keyed by model id; a trailing "*" matches any model with that prefix. */
+  modelPrices: Record<string, ModelPrice>;
 };
 
 const DEFAULT_CONFIG: AppConfig = {
   tokenLimit: 100000,
+  modelPrices: {},
 };
 
+function parseModelPrices(raw: unknown): Record<string, ModelPrice> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const out: Record<string, ModelPrice> = {};
+  for (const [model, value] of Object.entries(raw as Record<string, unknown>)) {
+    if (!value || typeof value !== "object") continue;
+    const price = value as Partial<ModelPrice>;
+    const inputPerMTok = Number(price.inputPerMTok ?? 0);
+    const outputPerMTok = Number(price.outputPerMTok ?? 0);
+    if (!Number.isFinite(inputPerMTok) || !Number.isFinite(outputPerMTok)) continue;
+    out[model.trim()] = { inputPerMTok: Math.max(0, inputPerMTok), outputPerMTok: Math.max(0, outputPerMTok) };
+  }
+  return out;
+}
+
 export function getConfig(): AppConfig {
   if (cachedConfig) return cachedConfig;
 
@@ -21,6 +44,7 @@ export function getConfig(): AppConfig {
 
     cachedConfig = {
       tokenLimit: parsed.tokenLimit ?? DEFAULT_CONFIG.tokenLimit,
+      modelPrices: parseModelPrices(parsed.modelPrices),
     };
     return cachedConfig;
   } catch {
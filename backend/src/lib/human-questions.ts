@@ -0,0 +1,81 @@
+/** How the human is expected to answer an ask_human question. */
+export type HumanQuestionKind = "text" | "choice" | "yes_no";
+
+export const HUMAN_QUESTION_KINDS: HumanQuestionKind[] = ["text", "choice", "yes_no"];
+
+export const DEFAULT_HUMAN_QUESTION_TIMEOUT_SECONDS = 30 * 60;
+export const MAX_HUMAN_QUESTION_TIMEOUT_SECONDS = 24 * 60 * 60;
+
+const MAX_QUESTION_CHARS = 2000;
+const MAX_ANSWER_CHARS = 4000;
+const MAX_CHOICES = 10;
+const MAX_CHOICE_CHARS = 200;
+
+export type HumanQuestionInput = {
+  kind: HumanQuestionKind;
+  question: string;
+  choices: string[] | null;
+  timeoutSeconds: number;
+};
+
+/** Validates ask_human arguments; choices are required for "choice" and ignored otherwise. */
+export function parseHumanQuestion(raw: {
+  question?: unknown;
+  kind?: unknown;
+  choices?: unknown;
+  timeoutSeconds?: unknown;
+}): { ok: true; value: HumanQuestionInput } | { ok: false; error: string } {
+  const question = typeof raw.question === "string" ? raw.question.trim() : "";
+  if (!question) return { ok: false, error: "question is required" };
+  if (question.length > MAX_QUESTION_CHARS) return { ok: false, error: `question exceeds ${MAX_QUESTION_CHARS} characters` };
+
+  const kind = raw.kind === undefined || raw.kind === null ? "text" : raw.kind;
+  if (!HUMAN_QUESTION_KINDS.includes(kind as HumanQuestionKind)) {
+    return { ok: false, error: `kind must be one of ${HUMAN_QUESTION_KINDS.join(", ")}` };
+  }
+
+  let choices: string[] | null = null;
+  if (kind === "choice") {
+    if (!Array.isArray(raw.choices) || raw.choices.some((c) => typeof c !== "string")) {
+      return { ok: false, error: "choices must be an array of strings" };
+    }
+    choices = [...new Set((raw.choices as string[]).map((c) => c.trim()).filter(Boolean))];
+    if (choices.length < 2 || choices.length > MAX_CHOICES) {
+      return { ok: false, error: `choices must list 2 to ${MAX_CHOICES} distinct options` };
+    }
+    if (choices.some((c) => c.length > MAX_CHOICE_CHARS)) {
+      return { ok: false, error: `each choice must be at most ${MAX_CHOICE_CHARS} characters` };
+    }
+  }
+
+  let timeoutSeconds = DEFAULT_HUMAN_QUESTION_TIMEOUT_SECONDS;
+  if (raw.timeoutSeconds !== undefined && raw.timeoutSeconds !== null) {
+    const n = Number(raw.timeoutSeconds);
+    if (!Number.isFinite(n) || n <= 0) return { ok: false, error: "timeoutSeconds must be a positive number" };
+    timeoutSeconds = Math.min(MAX_HUMAN_QUESTION_TIMEOUT_SECONDS, Math.max(10, Math.round(n)));
+  }
+
+  return { ok: true, value: { kind: kind as HumanQuestionKind, question, choices, timeoutSeconds } };
+}
+
+/** Checks an answer against the question; yes/no answers come back as "yes" or "no". */
+export function normalizeHumanAnswer(
+  question: { kind: HumanQuestionKind; choices: string[] | null },
+  raw: unknown
+): { ok: true; answer: string } | { ok: false; error: string } {
+  if (typeof raw === "boolean" && question.kind === "yes_no") return { ok: true, answer: raw ? "yes" : "no" };
+  const answer = typeof raw === "string" ? raw.trim() : "";
+  if (!answer) return { ok: false, error: "answer is required" };
+
+  if (question.kind === "yes_no") {
+    const value = answer.toLowerCase();
+    if (value === "yes" || value === "no") return { ok: true, answer: value };
+    return { ok: false, error: 'answer must be "yes" or "no"' };
+  }
+  if (question.kind === "choice") {
+    const hit = (question.choices ?? []).find((c) => c === answer);
+    return hit ? { ok: true, answer: hit } : { ok: false, error: "answer must be one of the choices" };
+  }
+  if (answer.length > MAX_ANSWER_CHARS) return { ok: false, error: `answer exceeds ${MAX_ANSWER_CHARS} characters` };
+  return { ok: true, answer };
+}
@@ -0,0 +1,40 @@
+/** Posts the raw JSON payload when a hook has no template of its own. */
+export const DEFAULT_INBOUND_TEMPLATE = "{{payload}}";
+
+const MAX_TEMPLATE_CHARS = 4_000;
+const MAX_MESSAGE_CHARS = 20_000;
+const PLACEHOLDER_RE = /\{\{\s*([a-zA-Z_][\w-]*(?:\.[\w-]+)*)\s*\}\}/g;
+
+export function parseInboundTemplate(raw: unknown): { ok: true; template: string } | { ok: false; error: string } {
+  if (raw === undefined || raw === null) return { ok: true, template: DEFAULT_INBOUND_TEMPLATE };
+  if (typeof raw !== "string" || !raw.trim()) return { ok: false, error: "template must be a non-empty string" };
+  if (raw.length > MAX_TEMPLATE_CHARS) return { ok: false, error: `template exceeds ${MAX_TEMPLATE_CHARS} chars` };
+  return { ok: true, template: raw };
+}
+
+function lookupPath(root: Record<string, unknown>, path: string): unknown {
+  let cur: unknown = root;
+  for (const key of path.split(".")) {
+    if (cur === null || typeof cur !== "object") return undefined;
+    cur = (cur as Record<string, unknown>)[key];
+  }
+  return cur;
+}
+
+/**
+ * Fills `{{payload.some.field}}`-style placeholders from the request. Available
+ * roots are `payload` (parsed JSON body, or null), `body` (raw text) and `query`.
+ * Objects render as JSON; missing values render empty.
+ */
+export function renderInboundTemplate(
+  template: string,
+  input: { payload: unknown; body: string; query: Record<string, string> }
+) {
+  const root = { payload: input.payload, body: input.body, query: input.query };
+  const text = template.replace(PLACEHOLDER_RE, (_, path: string) => {
+    const value = lookupPath(root, path);
+    if (value === undefined || value === null) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+  return text.length > MAX_MESSAGE_CHARS ? text.slice(0, MAX_MESSAGE_CHARS) : text;
+}
@@ -1,8 +1,12 @@
 import { store } from "@/lib/storage";
 import { safeJsonParse } from "@/runtime/utils";
+import { buildAnthropicHeaders, normalizeAnthropicUrl, toAnthropicMessages } from "@/lib/anthropic-stream";
+import { fetchWithTimeout, LlmUpstreamError, resolveAgentLlmChain, runWithLlmFailover } from "@/lib/llm-failover";
+import type { TokenUsage } from "@/lib/glm-stream";
+import { parseUsageBlock, recordLlmUsage, type LlmUsageContext } from "@/lib/usage";
 
 type UUID = string;
-type LlmProvider = "glm" | "openrouter" | "openai_compatible";
+type LlmProvider = "glm" | "openrouter" | "openai_compatible" | "anthropic";
 
 type ResolvedLlmConfig = {
   provider: LlmProvider;
@@ -10,6 +14,7 @@ type ResolvedLlmConfig = {
   baseUrl: string;
   apiKey: string;
   headers?: Record<string, string>;
+  timeoutMs?: number;
 };
 
 export type LlmDecodeParams = {
@@ -20,7 +25,7 @@ export type LlmDecodeParams = {
   maxTokens?: number;
 };
 
-function getLlmProvider(): Exclude<LlmProvider, "openai_compatible"> {
+function getLlmProvider(): Exclude<LlmProvider, "openai_compatible" | "anthropic"> {
   const raw = (process.env.LLM_PROVIDER ?? "glm").toLowerCase();
   if (raw === "openrouter" || raw === "open-router" || raw === "or") return "openrouter";
   return "glm";
@@ -63,18 +68,16 @@ function getOpenAiCompatibleConfig() {
   return { apiKey, baseUrl, model, headers };
 }
 
-async function resolveAgentLlmConfig(agentId: UUID): Promise<ResolvedLlmConfig> {
-  const profile = await store.getAgentModelRuntimeConfig({ agentId });
-  if (profile.provider && profile.model && profile.baseUrl && profile.apiKey) {
-    return {
-      provider: profile.provider,
-      model: profile.model,
-      baseUrl: profile.baseUrl,
-      apiKey: profile.apiKey,
-      headers: profile.headers,
-    };
-  }
+function getAnthropicConfig() {
+  const apiKey = process.env.ANTHROPIC_API_KEY ?? "";
+  const baseUrl = normalizeAnthropicUrl(process.env.ANTHROPIC_BASE_URL ?? "");
+  const model = process.env.ANTHROPIC_MODEL ?? "";
+  if (!apiKey) throw new Error("Missing ANTHROPIC_API_KEY");
+  return { apiKey, baseUrl, model };
+}
 
+// Env-based endpoint used when an agent has no complete model profile assigned.
+function resolveDefaultLlmConfig(): ResolvedLlmConfig {
   const provider = getLlmProvider();
   if (provider === "openrouter") {
     const cfg = getOpenRouterConfig();
@@ -101,6 +104,16 @@ async function resolveAgentLlmConfig(agentId: UUID): Promise<ResolvedLlmConfig>
     };
   }
 
+  if ((process.env.LLM_PROVIDER ?? "").toLowerCase() === "anthropic") {
+    const cfg = getAnthropicConfig();
+    return {
+      provider: "anthropic",
+      model: cfg.model,
+      baseUrl: cfg.baseUrl,
+      apiKey: cfg.apiKey,
+    };
+  }
+
   const cfg = getGlmConfig();
   return {
     provider: "glm",
@@ -147,9 +160,37 @@ export async function chatJsonByAgent(input: {
   systemPrompt: string;
   userPrompt: string;
   decode?: LlmDecodeParams;
+  /** Attribution for usage accounting; defaults to the workspace's running task. */
+  usage?: LlmUsageContext;
 }): Promise<string> {
-  const llm = await resolveAgentLlmConfig(input.agentId);
+  const { chain, policy } = await resolveAgentLlmChain(input.agentId, resolveDefaultLlmConfig);
+  return runWithLlmFailover({
+    agentId: input.agentId,
+    chain,
+    policy,
+    call: async (llm, entry) => {
+      const result =
+        llm.provider === "anthropic" ? await chatJsonAnthropic(llm, input) : await chatJsonOpenAi(llm, input);
+      void recordLlmUsage({
+        agentId: input.agentId,
+        profileId: entry.profileId,
+        provider: llm.provider,
+        model: llm.model,
+        usage: result.usage,
+        source: "chat_json",
+        context: input.usage,
+      });
+      return result.content;
+    },
+  });
+}
+
+type ChatJsonResult = { content: string; usage?: TokenUsage };
 
+async function chatJsonOpenAi(
+  llm: ResolvedLlmConfig,
+  input: { systemPrompt: string; userPrompt: string; decode?: LlmDecodeParams }
+): Promise<ChatJsonResult> {
   const payload: Record<string, unknown> = {
     model: llm.model,
     messages: [
@@ -164,22 +205,61 @@ export async function chatJsonByAgent(input: {
     max_tokens: input.decode?.maxTokens ?? 220,
   };
 
-  const res = await fetch(llm.baseUrl, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${llm.apiKey}`,
-      "Content-Type": "application/json",
-      ...(llm.headers ?? {}),
+  const res = await fetchWithTimeout(
+    llm.baseUrl,
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${llm.apiKey}`,
+        "Content-Type": "application/json",
+        ...(llm.headers ?? {}),
+      },
+      body: JSON.stringify(payload),
     },
-    body: JSON.stringify(payload),
-  });
+    llm.timeoutMs
+  );
   if (!res.ok) {
     const body = await res.text().catch(() => "");
-    throw new Error(formatUpstreamError(llm.provider, res.status, body));
+    throw new LlmUpstreamError(formatUpstreamError(llm.provider, res.status, body), res.status);
   }
 
   const data = (await res.json().catch(() => null)) as any;
   const content = parseAssistantContent(data?.choices?.[0]?.message?.content ?? "");
   if (!content.trim()) throw new Error("llm returned empty content");
-  return content;
+  return { content, usage: parseUsageBlock(data?.usage) };
+}
+
+async function chatJsonAnthropic(
+  llm: ResolvedLlmConfig,
+  input: { systemPrompt: string; userPrompt: string; decode?: LlmDecodeParams }
+): Promise<ChatJsonResult> {
+  const { messages } = toAnthropicMessages([{ role: "user", content: input.userPrompt }]);
+  const payload: Record<string, unknown> = {
+    model: llm.model,
+    system: input.systemPrompt,
+    messages,
+    stream: false,
+    temperature: Math.min(1, input.decode?.temperature ?? 0.8),
+    max_tokens: input.decode?.maxTokens ?? 220,
+  };
+
+  const res = await fetchWithTimeout(
+    llm.baseUrl,
+    {
+      method: "POST",
+      headers: buildAnthropicHeaders(llm.apiKey, llm.headers),
+      body: JSON.stringify(payload),
+    },
+    llm.timeoutMs
+  );
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    throw new LlmUpstreamError(formatUpstreamError(llm.provider, res.status, body), res.status);
+  }
+
+  const data = (await res.json().catch(() => null)) as any;
+  const blocks = Array.isArray(data?.content) ? (data.content as Array<{ type?: string; text?: string }>) : [];
+  const content = parseAssistantContent(blocks.filter((b) => b.type === "text"));
+  if (!content.trim()) throw new Error("llm returned empty content");
+  return { content, usage: parseUsageBlock(data?.usage) };
 }
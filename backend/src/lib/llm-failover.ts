@@ -0,0 +1,215 @@
+import { DEFAULT_RETRY_POLICY, store, type ModelProvider, type ModelRetryPolicy } from "@/lib/storage";
+import { normalizeAnthropicUrl } from "@/lib/anthropic-stream";
+import { getWorkspaceUIBus } from "@/runtime/ui-bus";
+
+type UUID = string;
+
+export type LlmEndpoint = {
+  provider: ModelProvider;
+  model: string;
+  baseUrl: string;
+  apiKey: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+};
+
+export type LlmChainEntry<T extends LlmEndpoint> = {
+  profileId: UUID | null;
+  profileName: string | null;
+  config: T;
+};
+
+export class LlmUpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly status: number | null,
+    readonly timedOut = false
+  ) {
+    super(message);
+    this.name = "LlmUpstreamError";
+  }
+}
+
+/**
+ * Like fetch, but fails with a timed-out LlmUpstreamError when no response
+ * headers arrive within `timeoutMs`. The body stream itself is not limited.
+ */
+export async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs?: number) {
+  if (!timeoutMs || timeoutMs <= 0) {
+    try {
+      return await fetch(url, init);
+    } catch (err) {
+      throw new LlmUpstreamError(`upstream request failed: ${String((err as Error)?.message ?? err)}`, null, true);
+    }
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw new LlmUpstreamError(`upstream timed out after ${timeoutMs}ms`, null, true);
+    }
+    throw new LlmUpstreamError(`upstream request failed: ${String((err as Error)?.message ?? err)}`, null, true);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isRetryable(err: unknown, policy: ModelRetryPolicy) {
+  if (!(err instanceof LlmUpstreamError)) return false;
+  if (err.timedOut) return policy.retryOnTimeout;
+  return err.status !== null && policy.retryableStatuses.includes(err.status);
+}
+
+function backoffDelay(policy: ModelRetryPolicy, attempt: number) {
+  const delay = policy.backoffMs * Math.pow(policy.backoffMultiplier, Math.max(0, attempt - 1));
+  return Math.min(policy.maxBackoffMs, delay);
+}
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Builds the ordered chain of endpoints for an agent: its assigned profile (or the
+ * env default when none is complete) followed by the profile's fallbacks.
+ */
+export async function resolveAgentLlmChain<T extends LlmEndpoint>(
+  agentId: UUID,
+  resolveDefault: () => T
+): Promise<{ chain: LlmChainEntry<LlmEndpoint>[]; policy: ModelRetryPolicy }> {
+  const profile = await store.getAgentModelRuntimeConfig({ agentId });
+  const policy = profile.retryPolicy ?? { ...DEFAULT_RETRY_POLICY };
+  const chain: LlmChainEntry<LlmEndpoint>[] = [];
+
+  if (profile.provider && profile.model && profile.baseUrl && profile.apiKey) {
+    chain.push({
+      profileId: profile.profileId,
+      profileName: profile.profileName,
+      config: {
+        provider: profile.provider,
+        model: profile.model,
+        baseUrl: profile.provider === "anthropic" ? normalizeAnthropicUrl(profile.baseUrl) : profile.baseUrl,
+        apiKey: profile.apiKey,
+        headers: profile.headers,
+        timeoutMs: policy.timeoutMs,
+      },
+    });
+  } else {
+    // Env-based defaults may be missing entirely; only fail once no fallback can answer either.
+    try {
+      chain.push({ profileId: null, profileName: null, config: { ...resolveDefault(), timeoutMs: policy.timeoutMs } });
+    } catch (err) {
+      if (profile.fallbackProfileIds.length === 0) throw err;
+    }
+  }
+
+  const fallbacks = await store
+    .getModelProfileRuntimeConfigs({ ids: profile.fallbackProfileIds.filter((id) => id !== profile.profileId) })
+    .catch(() => []);
+  for (const fb of fallbacks) {
+    chain.push({
+      profileId: fb.profileId,
+      profileName: fb.profileName,
+      config: {
+        provider: fb.provider,
+        model: fb.model,
+        baseUrl: fb.provider === "anthropic" ? normalizeAnthropicUrl(fb.baseUrl) : fb.baseUrl,
+        apiKey: fb.apiKey,
+        headers: fb.headers,
+        timeoutMs: policy.timeoutMs,
+      },
+    });
+  }
+
+  return { chain, policy };
+}
+
+async function emitFailover(input: {
+  agentId: UUID;
+  kind: "retry" | "failover";
+  attempt: number;
+  from: LlmChainEntry<LlmEndpoint>;
+  to: LlmChainEntry<LlmEndpoint>;
+  error: string;
+  delayMs: number;
+}) {
+  const agent = await store.getAgent({ agentId: input.agentId }).catch(() => null);
+  if (!agent) return;
+  getWorkspaceUIBus().emit(agent.workspaceId, {
+    event: "ui.agent.llm.failover",
+    data: {
+      workspaceId: agent.workspaceId,
+      agentId: input.agentId,
+      kind: input.kind,
+      attempt: input.attempt,
+      fromProfileId: input.from.profileId,
+      fromProvider: input.from.config.provider,
+      fromModel: input.from.config.model,
+      toProfileId: input.to.profileId,
+      toProvider: input.to.config.provider,
+      toModel: input.to.config.model,
+      error: input.error,
+      delayMs: input.delayMs,
+    },
+  });
+}
+
+/**
+ * Runs `call` against each endpoint of the chain in order, retrying retryable
+ * failures per the policy before moving on to the next profile. Non-retryable
+ * failures skip straight to the next profile. The last error is rethrown once the
+ * chain is exhausted.
+ */
+export async function runWithLlmFailover<T>(input: {
+  agentId: UUID;
+  chain: LlmChainEntry<LlmEndpoint>[];
+  policy: ModelRetryPolicy;
+  call: (config: LlmEndpoint, entry: LlmChainEntry<LlmEndpoint>) => Promise<T>;
+}): Promise<T> {
+  if (input.chain.length === 0) throw new Error("No model profile configured");
+  let lastError: unknown = null;
+
+  for (let i = 0; i < input.chain.length; i++) {
+    const entry = input.chain[i]!;
+    for (let attempt = 1; attempt <= input.policy.maxAttempts; attempt++) {
+      try {
+        return await input.call(entry.config, entry);
+      } catch (err) {
+        lastError = err;
+        const message = err instanceof Error ? err.message : String(err);
+        const retryable = isRetryable(err, input.policy);
+        if (retryable && attempt < input.policy.maxAttempts) {
+          const delayMs = backoffDelay(input.policy, attempt);
+          await emitFailover({
+            agentId: input.agentId,
+            kind: "retry",
+            attempt: attempt + 1,
+            from: entry,
+            to: entry,
+            error: message,
+            delayMs,
+          });
+          await sleep(delayMs);
+          continue;
+        }
+        const next = input.chain[i + 1];
+        if (next) {
+          await emitFailover({
+            agentId: input.agentId,
+            kind: "failover",
+            attempt: 1,
+            from: entry,
+            to: next,
+            error: message,
+            delayMs: 0,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error(String(lastError));
+}
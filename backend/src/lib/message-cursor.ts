@@ -0,0 +1,26 @@
+/** Position of a message in its group's (send_time, id) order. */
+export type MessageCursor = { sendTime: string; id: string };
+
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+export const MAX_MESSAGE_PAGE_SIZE = 200;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Cursors are opaque to clients: base64url of `<ISO send time>|<message id>`. */
+export function encodeMessageCursor(message: MessageCursor) {
+  return Buffer.from(`${message.sendTime}|${message.id}`, "utf8").toString("base64url");
+}
+
+export function decodeMessageCursor(raw: string | null | undefined): MessageCursor | null {
+  if (!raw?.trim()) return null;
+  const [sendTime, id, ...rest] = Buffer.from(raw.trim(), "base64url").toString("utf8").split("|");
+  if (rest.length > 0 || !sendTime || !id || !UUID_RE.test(id)) return null;
+  const at = new Date(sendTime);
+  if (Number.isNaN(at.getTime())) return null;
+  return { sendTime: at.toISOString(), id };
+}
+
+export function clampMessagePageSize(raw: unknown) {
+  const n = Math.floor(Number(raw));
+  return Number.isFinite(n) && n > 0 ? Math.min(MAX_MESSAGE_PAGE_SIZE, n) : DEFAULT_MESSAGE_PAGE_SIZE;
+}
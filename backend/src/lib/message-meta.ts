@@ -0,0 +1,130 @@
+/** How a group wakes its agent members when a message arrives. */
+export type GroupWakeMode = "all" | "mentions";
+
+export const GROUP_WAKE_MODES: GroupWakeMode[] = ["all", "mentions"];
+
+export function parseGroupWakeMode(raw: unknown): GroupWakeMode | null {
+  return GROUP_WAKE_MODES.includes(raw as GroupWakeMode) ? (raw as GroupWakeMode) : null;
+}
+
+const MAX_MENTIONS = 32;
+const MENTION_RE = /@([\p{L}\p{N}_.-]+)/gu;
+/** Short codes ("ack", "+1") or a single emoji sequence. */
+const REACTION_RE = /^(?:[a-z0-9_+-]{1,24}|[\p{Extended_Pictographic}\p{Emoji_Component}\u200d\ufe0f]{1,16})$/u;
+
+/**
+ * Resolves a message's mentions to member agent ids. Explicit `mentions` (ids or
+ * roles) must all name members of the group; `@role` tokens in the text are
+ * picked up when they match a member and ignored otherwise (e-mail addresses,
+ * handles of other systems).
+ */
+export function resolveMentions(input: {
+  mentions: unknown;
+  content: string;
+  members: Array<{ id: string; role: string }>;
+}): { ok: true; ids: string[] } | { ok: false; error: string } {
+  const byKey = new Map<string, string>();
+  for (const m of input.members) {
+    byKey.set(m.id.toLowerCase(), m.id);
+    // Ids win over roles; when two members share a role the first one is mentioned.
+    if (!byKey.has(m.role.toLowerCase())) byKey.set(m.role.toLowerCase(), m.id);
+  }
+
+  const ids: string[] = [];
+  if (input.mentions !== undefined && input.mentions !== null) {
+    if (!Array.isArray(input.mentions) || input.mentions.some((x) => typeof x !== "string")) {
+      return { ok: false, error: "mentions must be an array of agent ids or roles" };
+    }
+    for (const raw of input.mentions as string[]) {
+      const id = byKey.get(raw.trim().replace(/^@/, "").toLowerCase());
+      if (!id) return { ok: false, error: `mention "${raw}" is not a member of the group` };
+      if (!ids.includes(id)) ids.push(id);
+    }
+  }
+  for (const match of input.content.matchAll(MENTION_RE)) {
+    // A sentence may end right after the mention ("thanks @coder.").
+    const id = byKey.get(match[1]!.replace(/\.+$/, "").toLowerCase());
+    if (id && !ids.includes(id)) ids.push(id);
+  }
+  if (ids.length > MAX_MENTIONS) return { ok: false, error: `at most ${MAX_MENTIONS} mentions` };
+  return { ok: true, ids };
+}
+
+export function normalizeReaction(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const reaction = raw.trim();
+  return REACTION_RE.test(reaction) ? reaction : null;
+}
+
+/** In "mentions" mode a member wakes only when mentioned or when the message replies to them. */
+export function shouldWakeMember(input: {
+  wakeMode: GroupWakeMode;
+  memberId: string;
+  mentions?: string[];
+  replyToSenderId?: string | null;
+}) {
+  if (input.wakeMode === "all") return true;
+  return (input.mentions ?? []).includes(input.memberId) || input.replyToSenderId === input.memberId;
+}
+
+/** What a redacted message's content, and every stored prior version of it, becomes. */
+export const REDACTED_CONTENT = "[redacted]";
+
+export type MessageRevisionAction = "edit" | "delete" | "redact";
+
+/** Who changed a message: an agent (edits and deletes), or the user, API key or open-mode caller behind a redaction. */
+export type MessageActorKind = "agent" | "user" | "api_key" | "anonymous";
+
+/** Shorter texts stay in agent histories; scrubbing "ok" or "done" would mangle unrelated turns. */
+const MIN_SCRUB_CHARS = 8;
+
+/**
+ * Replaces verbatim copies of redacted texts in a serialized llmHistory. Message
+ * text sits in the history JSON-escaped once (unread lines) or twice (tool
+ * results that returned messages), so both forms are replaced. Paraphrases and
+ * partial quotes are not found.
+ */
+export function scrubRedactedText(serialized: string, texts: string[]) {
+  let out = serialized;
+  for (const text of texts) {
+    if (text.trim().length < MIN_SCRUB_CHARS) continue;
+    const once = JSON.stringify(text).slice(1, -1);
+    const twice = JSON.stringify(once).slice(1, -1);
+    out = out.split(twice).join(REDACTED_CONTENT).split(once).join(REDACTED_CONTENT);
+  }
+  return out;
+}
+
+/**
+ * Runs scrubRedactedText over each entry of a serialized llmHistory. Anthropic only takes
+ * thinking back with the signature issued for that exact text, so an entry whose thinking
+ * was scrubbed loses its signature and thinking blocks and is replayed without them.
+ */
+export function scrubRedactedHistory(llmHistory: string, texts: string[]) {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(llmHistory);
+  } catch {
+    return scrubRedactedText(llmHistory, texts);
+  }
+  if (!Array.isArray(entries)) return scrubRedactedText(llmHistory, texts);
+
+  let changed = false;
+  const next = entries.map((entry: unknown) => {
+    const before = JSON.stringify(entry);
+    const after = scrubRedactedText(before, texts);
+    if (after === before) return entry;
+    changed = true;
+    const scrubbed = JSON.parse(after) as unknown;
+    if (!entry || typeof entry !== "object" || !scrubbed || typeof scrubbed !== "object") return scrubbed;
+    const reasoning = (e: Record<string, unknown>) =>
+      JSON.stringify([e.reasoning_content, e.reasoning_signature, e.reasoning_blocks]);
+    const out = scrubbed as Record<string, unknown>;
+    if (reasoning(entry as Record<string, unknown>) !== reasoning(out)) {
+      delete out.reasoning_signature;
+      delete out.reasoning_blocks;
+    }
+    return out;
+  });
+  return changed ? JSON.stringify(next) : llmHistory;
+}
@@ -0,0 +1,131 @@
+import type { LlmDecodeParams } from "./llm-client";
+
+/** Everything a persona stores; the id, workspace and name come from its row. */
+export type PersonaDefinition = {
+  description: string;
+  /** Written into the agent's system history when an agent is built from the persona. */
+  systemPrompt: string;
+  /** Model profile new agents are pinned to; null keeps the workspace default. */
+  modelProfileId: string | null;
+  /** Tool names the agent may see and call; null allows every tool workspace policy allows. */
+  allowedTools: string[] | null;
+  /** Skills loaded into the agent's context up front, on top of the auto-load skills. */
+  skills: string[];
+  decode: LlmDecodeParams;
+};
+
+const NAME_RE = /^[a-z][a-z0-9_]{0,39}$/;
+const RESERVED_NAMES = new Set(["human", "assistant"]);
+const MAX_PROMPT_CHARS = 8_000;
+const MAX_DESCRIPTION_CHARS = 1_000;
+const MAX_LIST_ITEMS = 64;
+const TOOL_NAME_RE = /^[A-Za-z0-9_.:-]{1,96}$/;
+
+/** Bounds per decode parameter; values outside them are rejected rather than clamped. */
+const DECODE_RANGES: Record<keyof LlmDecodeParams, [number, number]> = {
+  temperature: [0, 2],
+  topP: [0, 1],
+  presencePenalty: [-2, 2],
+  frequencyPenalty: [-2, 2],
+  maxTokens: [1, 32_000],
+};
+
+/** Persona names double as the role of agents built from them, so they follow the blueprint role format. */
+export function normalizePersonaName(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const name = raw.trim().toLowerCase();
+  return NAME_RE.test(name) && !RESERVED_NAMES.has(name) ? name : null;
+}
+
+function str(raw: unknown) {
+  return typeof raw === "string" ? raw.trim() : "";
+}
+
+function parseNameList(raw: unknown, key: string, pattern?: RegExp): string[] | string {
+  if (!Array.isArray(raw)) return `${key} must be an array of strings`;
+  if (raw.length > MAX_LIST_ITEMS) return `at most ${MAX_LIST_ITEMS} ${key}`;
+  const out: string[] = [];
+  for (const item of raw) {
+    const value = str(item);
+    if (!value) return `${key} must be an array of strings`;
+    if (pattern && !pattern.test(value)) return `${key} entry "${value}" is not a valid name`;
+    if (!out.includes(value)) out.push(value);
+  }
+  return out;
+}
+
+function parseDecode(raw: unknown): LlmDecodeParams | string {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== "object" || Array.isArray(raw)) return "decode must be an object";
+  const d = raw as Record<string, unknown>;
+  const out: LlmDecodeParams = {};
+  for (const [key, [min, max]] of Object.entries(DECODE_RANGES) as Array<[keyof LlmDecodeParams, [number, number]]>) {
+    if (d[key] === undefined || d[key] === null) continue;
+    const n = Number(d[key]);
+    if (!Number.isFinite(n) || n < min || n > max) return `decode.${key} must be between ${min} and ${max}`;
+    out[key] = key === "maxTokens" ? Math.floor(n) : n;
+  }
+  const unknown = Object.keys(d).find((key) => !(key in DECODE_RANGES));
+  if (unknown) return `unknown decode parameter "${unknown}"`;
+  return out;
+}
+
+export function parsePersonaDefinition(
+  raw: unknown
+): { ok: true; definition: PersonaDefinition } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "persona must be an object" };
+  const p = raw as Record<string, unknown>;
+
+  const systemPrompt = str(p.systemPrompt);
+  if (!systemPrompt) return { ok: false, error: "systemPrompt is required" };
+  if (systemPrompt.length > MAX_PROMPT_CHARS) return { ok: false, error: `systemPrompt exceeds ${MAX_PROMPT_CHARS} chars` };
+  const description = str(p.description);
+  if (description.length > MAX_DESCRIPTION_CHARS) {
+    return { ok: false, error: `description exceeds ${MAX_DESCRIPTION_CHARS} chars` };
+  }
+
+  let allowedTools: string[] | null = null;
+  if (p.allowedTools !== undefined && p.allowedTools !== null) {
+    const parsed = parseNameList(p.allowedTools, "allowedTools", TOOL_NAME_RE);
+    if (typeof parsed === "string") return { ok: false, error: parsed };
+    allowedTools = parsed;
+  }
+  const skills = p.skills === undefined || p.skills === null ? [] : parseNameList(p.skills, "skills");
+  if (typeof skills === "string") return { ok: false, error: skills };
+  const decode = parseDecode(p.decode);
+  if (typeof decode === "string") return { ok: false, error: decode };
+
+  return {
+    ok: true,
+    definition: {
+      description,
+      systemPrompt,
+      modelProfileId: str(p.modelProfileId) || null,
+      allowedTools,
+      skills,
+      decode,
+    },
+  };
+}
+
+/** Returns an error when a persona names a model profile or skill this workspace cannot resolve. */
+export function checkPersonaReferences(
+  definition: PersonaDefinition,
+  known: { modelProfileIds: string[]; skills: string[] }
+) {
+  if (definition.modelProfileId && !known.modelProfileIds.includes(definition.modelProfileId)) {
+    return "modelProfileId is not a model profile of this workspace";
+  }
+  const missingSkill = definition.skills.find((name) => !known.skills.includes(name));
+  return missingSkill ? `unknown skill "${missingSkill}"` : null;
+}
+
+/** A persona without an allow-list leaves tool access to workspace policy alone. */
+export function personaAllowsTool(persona: Pick<PersonaDefinition, "allowedTools"> | null, toolName: string) {
+  return !persona?.allowedTools || persona.allowedTools.includes(toolName);
+}
+
+/** Guidance layered on top of the persona prompt, e.g. a blueprint role's own instructions. */
+export function composePersonaGuidance(persona: Pick<PersonaDefinition, "systemPrompt">, guidance?: string | null) {
+  return [persona.systemPrompt, (guidance ?? "").trim()].filter(Boolean).join("\n\n");
+}
@@ -0,0 +1,275 @@
+import { parseCompletionConfig } from "@/runtime/completion-detector";
+
+import { getWorkflowPreset } from "./workflows";
+
+export type ScheduleTrigger =
+  | {
+      kind: "cron";
+      /** Five fields (minute hour day-of-month month day-of-week) or an @daily-style alias. */
+      expr: string;
+      /** IANA zone the expression is evaluated in. */
+      timezone: string;
+    }
+  | {
+      kind: "interval";
+      everyMs: number;
+    };
+
+export type ScheduledTaskBudget = {
+  maxDurationMs?: number;
+  maxTurns?: number;
+  maxTokenDelta?: number;
+  maxCostUsd?: number;
+  maxUsageTokens?: number;
+};
+
+/** What a schedule starts each time it fires: a free-form goal or a task template. */
+export type ScheduledTaskSpec = {
+  ownerAgentId: string;
+  /** Root group of the run; the workspace default group when null. */
+  groupId: string | null;
+  goal: string;
+  /** Template id or slug; its existence and variables are checked against the workspace by the caller. */
+  templateId: string | null;
+  /** Pins a template version; null follows the latest one. */
+  templateVersion?: number | null;
+  /** Values for the template's variables, re-validated when the run starts. */
+  variables?: Record<string, unknown> | null;
+  topic: string;
+  workflowId: string | null;
+  budget: ScheduledTaskBudget;
+  /** Raw completion config, re-validated with parseCompletionConfig when the run starts. */
+  completion: unknown;
+};
+
+export type ScheduleRunStatus = "started" | "skipped" | "failed";
+
+export const MIN_SCHEDULE_INTERVAL_MS = 60_000;
+
+const CRON_ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+};
+
+const CRON_FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day-of-week", min: 0, max: 7 },
+] as const;
+
+/** Upper bound on search steps; covers a leap-day expression several years out. */
+const MAX_CRON_SEARCH_STEPS = 60_000;
+
+type CronMatcher = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Standard cron: when both day fields are restricted, either one matching is enough. */
+  dayOr: boolean;
+};
+
+function parseCronField(raw: string, field: (typeof CRON_FIELDS)[number]): Set<number> | string {
+  const values = new Set<number>();
+  for (const part of raw.split(",")) {
+    const m = /^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/.exec(part);
+    if (!m) return `invalid ${field.name} field "${raw}"`;
+    let lo: number = field.min;
+    let hi: number = field.max;
+    if (m[1] !== "*") {
+      const [a, b] = m[1].split("-").map(Number);
+      lo = a;
+      hi = b ?? (m[2] ? field.max : a);
+    }
+    const step = m[2] ? Number(m[2]) : 1;
+    if (lo < field.min || hi > field.max || lo > hi || step < 1) {
+      return `${field.name} out of range in "${raw}"`;
+    }
+    for (let v = lo; v <= hi; v += step) values.add(field.name === "day-of-week" && v === 7 ? 0 : v);
+  }
+  return values;
+}
+
+function compileCron(expr: string): CronMatcher | string {
+  const normalized = CRON_ALIASES[expr.trim().toLowerCase()] ?? expr.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) return "cron expression must have 5 fields";
+  const sets: Set<number>[] = [];
+  for (let i = 0; i < 5; i++) {
+    const parsed = parseCronField(parts[i], CRON_FIELDS[i]);
+    if (typeof parsed === "string") return parsed;
+    sets.push(parsed);
+  }
+  return {
+    minutes: sets[0],
+    hours: sets[1],
+    days: sets[2],
+    months: sets[3],
+    weekdays: sets[4],
+    dayOr: parts[2] !== "*" && parts[4] !== "*",
+  };
+}
+
+function isValidTimezone(timezone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(ms: number, timezone: string) {
+  let fmt = zonedFormatters.get(timezone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      month: "numeric",
+      day: "numeric",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+    });
+    zonedFormatters.set(timezone, fmt);
+  }
+  const out = { month: 0, day: 0, weekday: 0, hour: 0, minute: 0 };
+  for (const p of fmt.formatToParts(new Date(ms))) {
+    if (p.type === "month") out.month = Number(p.value);
+    else if (p.type === "day") out.day = Number(p.value);
+    else if (p.type === "hour") out.hour = Number(p.value);
+    else if (p.type === "minute") out.minute = Number(p.value);
+    else if (p.type === "weekday") out.weekday = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(p.value);
+  }
+  return out;
+}
+
+/**
+ * First minute strictly after `afterMs` that matches the cron expression in its
+ * timezone. Mismatched days and hours advance to the next hour boundary rather
+ * than the next local midnight, so DST shifts can never skip a matching minute.
+ */
+function nextCronRun(trigger: Extract<ScheduleTrigger, { kind: "cron" }>, afterMs: number): number | null {
+  const cron = compileCron(trigger.expr);
+  if (typeof cron === "string") return null;
+  let t = Math.floor(afterMs / 60_000) * 60_000 + 60_000;
+  for (let i = 0; i < MAX_CRON_SEARCH_STEPS; i++) {
+    const p = zonedParts(t, trigger.timezone);
+    const dayMatch = cron.dayOr
+      ? cron.days.has(p.day) || cron.weekdays.has(p.weekday)
+      : cron.days.has(p.day) && cron.weekdays.has(p.weekday);
+    if (!cron.months.has(p.month) || !dayMatch || !cron.hours.has(p.hour)) {
+      t += (60 - p.minute) * 60_000;
+      continue;
+    }
+    if (!cron.minutes.has(p.minute)) {
+      t += 60_000;
+      continue;
+    }
+    return t;
+  }
+  return null;
+}
+
+/** Next fire time strictly after `afterMs`; interval triggers stay aligned to `anchorMs`. */
+export function computeNextRunAt(trigger: ScheduleTrigger, afterMs: number, anchorMs: number): number | null {
+  if (trigger.kind === "cron") return nextCronRun(trigger, afterMs);
+  if (afterMs < anchorMs) return anchorMs + trigger.everyMs;
+  const elapsed = Math.floor((afterMs - anchorMs) / trigger.everyMs) + 1;
+  return anchorMs + elapsed * trigger.everyMs;
+}
+
+export function parseScheduleTrigger(
+  raw: unknown
+): { ok: true; trigger: ScheduleTrigger } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "trigger must be an object" };
+  const t = raw as Record<string, unknown>;
+  if (t.kind === "cron") {
+    const expr = typeof t.expr === "string" ? t.expr.trim() : "";
+    if (!expr) return { ok: false, error: "cron.expr is required" };
+    const compiled = compileCron(expr);
+    if (typeof compiled === "string") return { ok: false, error: compiled };
+    const timezone = typeof t.timezone === "string" && t.timezone.trim() ? t.timezone.trim() : "UTC";
+    if (!isValidTimezone(timezone)) return { ok: false, error: `unknown timezone "${timezone}"` };
+    const trigger: ScheduleTrigger = { kind: "cron", expr, timezone };
+    if (nextCronRun(trigger, Date.now()) === null) return { ok: false, error: "cron expression never fires" };
+    return { ok: true, trigger };
+  }
+  if (t.kind === "interval") {
+    const everyMs = Number(t.everyMs);
+    if (!Number.isFinite(everyMs) || everyMs < MIN_SCHEDULE_INTERVAL_MS) {
+      return { ok: false, error: `interval.everyMs must be at least ${MIN_SCHEDULE_INTERVAL_MS}` };
+    }
+    return { ok: true, trigger: { kind: "interval", everyMs: Math.floor(everyMs) } };
+  }
+  return { ok: false, error: 'trigger.kind must be "cron" or "interval"' };
+}
+
+function optionalPositive(raw: unknown, name: string): number | undefined | string {
+  if (raw === undefined || raw === null) return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n <= 0) return `${name} must be a positive number`;
+  return n;
+}
+
+export function parseScheduledTaskSpec(
+  raw: unknown
+): { ok: true; spec: ScheduledTaskSpec } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "task must be an object" };
+  const t = raw as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+
+  const ownerAgentId = str(t.ownerAgentId);
+  if (!ownerAgentId) return { ok: false, error: "task.ownerAgentId is required" };
+  const templateId = str(t.templateId) || null;
+  const templateVersion = t.templateVersion === undefined || t.templateVersion === null ? null : Number(t.templateVersion);
+  if (templateVersion !== null && (!Number.isInteger(templateVersion) || templateVersion < 1)) {
+    return { ok: false, error: "templateVersion must be a positive integer" };
+  }
+  const variables = t.variables ?? null;
+  if (variables !== null && (typeof variables !== "object" || Array.isArray(variables))) {
+    return { ok: false, error: "variables must be an object" };
+  }
+  const workflowId = str(t.workflowId) || null;
+  if (workflowId && !getWorkflowPreset(workflowId)) return { ok: false, error: `unknown workflowId "${workflowId}"` };
+  const goal = str(t.goal);
+  if (!goal && !templateId) return { ok: false, error: "task needs a goal or a templateId" };
+
+  const budget: ScheduledTaskBudget = {};
+  const rawBudget = t.budget && typeof t.budget === "object" ? (t.budget as Record<string, unknown>) : {};
+  for (const key of ["maxDurationMs", "maxTurns", "maxTokenDelta", "maxCostUsd", "maxUsageTokens"] as const) {
+    const parsed = optionalPositive(rawBudget[key], `budget.${key}`);
+    if (typeof parsed === "string") return { ok: false, error: parsed };
+    if (parsed !== undefined) budget[key] = parsed;
+  }
+
+  const completion = t.completion ?? null;
+  const checked = parseCompletionConfig(completion);
+  if (!checked.ok) return { ok: false, error: `completion: ${checked.error}` };
+
+  return {
+    ok: true,
+    spec: {
+      ownerAgentId,
+      groupId: str(t.groupId) || null,
+      goal,
+      templateId,
+      templateVersion,
+      variables: variables as Record<string, unknown> | null,
+      topic: str(t.topic),
+      workflowId,
+      budget,
+      completion,
+    },
+  };
+}
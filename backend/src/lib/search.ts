@@ -0,0 +1,96 @@
+/** Where a hit came from; each kind is backed by its own full-text index (see search_tokens in db/init). */
+export type SearchKind = "message" | "task_goal" | "task_review" | "game_speech";
+
+export const SEARCH_KINDS: SearchKind[] = ["message", "task_goal", "task_review", "game_speech"];
+
+export type SearchSnippet = {
+  text: string;
+  /** [start, end) offsets into `text` for each matched term. */
+  highlights: Array<[number, number]>;
+};
+
+export type SearchHit = {
+  kind: SearchKind;
+  /** Message or round-event id; the task id for task goals and reviews. */
+  id: string;
+  groupId: string | null;
+  senderId: string | null;
+  taskId: string | null;
+  gameId: string | null;
+  contentType: string | null;
+  createdAt: string;
+  rank: number;
+  snippet: SearchSnippet;
+};
+
+const MAX_TERMS = 8;
+const MAX_TERM_CHARS = 64;
+const SNIPPET_RADIUS = 60;
+
+/**
+ * Whitespace-separated terms that must all match. A CJK term is matched as a
+ * phrase, so "发布计划" finds those four characters in order rather than anywhere.
+ */
+export function parseSearchTerms(q: string): string[] {
+  const terms: string[] = [];
+  for (const raw of q.trim().split(/\s+/)) {
+    const term = raw.slice(0, MAX_TERM_CHARS);
+    // Terms without letters or digits tokenize to nothing and would only trigger tsquery notices.
+    if (!/[\p{L}\p{N}]/u.test(term) || terms.includes(term)) continue;
+    terms.push(term);
+    if (terms.length >= MAX_TERMS) break;
+  }
+  return terms;
+}
+
+export function parseSearchKinds(raw: string | null): SearchKind[] | string {
+  if (!raw?.trim()) return SEARCH_KINDS;
+  const kinds: SearchKind[] = [];
+  for (const part of raw.split(",")) {
+    const kind = part.trim() as SearchKind;
+    if (!SEARCH_KINDS.includes(kind)) return `unknown kind "${kind}"`;
+    if (!kinds.includes(kind)) kinds.push(kind);
+  }
+  return kinds;
+}
+
+/**
+ * Cuts a window around the first literal occurrence of any term and marks every
+ * occurrence inside it. Postgres also matches across punctuation ("foo-bar" for
+ * "foo bar"); such hits fall back to the start of the text without highlights.
+ */
+export function buildSearchSnippet(text: string, terms: string[]): SearchSnippet {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const lower = flat.toLowerCase();
+  const needles = terms.map((t) => t.toLowerCase());
+
+  let first = -1;
+  for (const needle of needles) {
+    const at = lower.indexOf(needle);
+    if (at >= 0 && (first < 0 || at < first)) first = at;
+  }
+
+  const start = first < 0 ? 0 : Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, (first < 0 ? 0 : first) + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < flat.length ? "…" : "";
+  const window = flat.slice(start, end);
+  const windowLower = window.toLowerCase();
+
+  const highlights: Array<[number, number]> = [];
+  for (const needle of needles) {
+    for (let at = windowLower.indexOf(needle); at >= 0; at = windowLower.indexOf(needle, at + needle.length)) {
+      highlights.push([prefix.length + at, prefix.length + at + needle.length]);
+    }
+  }
+  highlights.sort((a, b) => a[0] - b[0]);
+  // Overlapping terms ("ab", "bc") collapse into one range.
+  const merged: Array<[number, number]> = [];
+  for (const range of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+  }
+
+  return { text: `${prefix}${window}${suffix}`, highlights: merged };
+}
@@ -1,22 +1,67 @@
-import { and, desc, eq, gt, inArray, isNull, ne, or, sql as dsql } from "drizzle-orm";
+import { and, asc, desc, eq, gt, gte, inArray, isNull, lte, ne, or, sql as dsql, type AnyColumn } from "drizzle-orm";
 import fs from "node:fs/promises";
 import path from "node:path";
 
 import { getDb } from "@/db";
+import type { ApiKeyScope } from "@/lib/api-keys";
+import { artifactPreviewKind, type ArtifactPreviewKind } from "@/lib/artifacts";
+import type { UserSessionKind, WorkspaceRole } from "@/lib/auth";
+import type { BlueprintDefinition, BlueprintEdgeType } from "@/lib/blueprints";
+import type { HumanQuestionKind } from "@/lib/human-questions";
+import { clampMessagePageSize, type MessageCursor } from "@/lib/message-cursor";
 import {
+  REDACTED_CONTENT,
+  scrubRedactedHistory,
+  type GroupWakeMode,
+  type MessageActorKind,
+  type MessageRevisionAction,
+} from "@/lib/message-meta";
+import { composePersonaGuidance, type PersonaDefinition } from "@/lib/personas";
+import { buildSearchSnippet, type SearchHit, type SearchKind } from "@/lib/search";
+import type { ScheduledTaskSpec, ScheduleRunStatus, ScheduleTrigger } from "@/lib/schedules";
+import { BUILTIN_TASK_TEMPLATES, type TaskTemplateDefinition } from "@/lib/task-templates";
+import {
+  agentLinks,
+  agentPersonas,
   agents,
+  apiKeys,
+  artifacts,
+  blueprints,
   groupMembers,
   groups,
+  humanQuestions,
+  inboundWebhooks,
+  llmUsage,
+  messageReactions,
+  messageRevisions,
   messages,
   modelProfiles,
+  redactionScrubs,
   taskReviews,
+  taskRunSteps,
   taskRuns,
+  taskScheduleRuns,
+  taskSchedules,
+  taskTemplates,
+  taskTemplateVersions,
+  toolApprovals,
+  toolPolicies,
+  undercoverGames,
+  undercoverRoundEvents,
+  userSessions,
+  users,
+  webhookDeliveries,
+  webhookSubscriptions,
+  werewolfGames,
+  werewolfRoundEvents,
+  workspaceMembers,
   workspaces,
 } from "@/db/schema";
 
 type UUID = string;
-export type ModelProvider = "glm" | "openrouter" | "openai_compatible";
-export type AgentKind = "system_human" | "system_assistant" | "worker" | "game_ephemeral";
+export type ModelProvider = "glm" | "openrouter" | "openai_compatible" | "anthropic";
+/** "integration" agents only relay external posts (inbound webhooks) and never run an LLM loop. */
+export type AgentKind = "system_human" | "system_assistant" | "worker" | "game_ephemeral" | "integration";
 export type GroupKind = "chat" | "game_undercover" | "game_werewolf";
 export type TaskStopReason =
   | "manual"
@@ -26,7 +71,9 @@ export type TaskStopReason =
   | "goal_reached"
   | "max_turns"
   | "manual_replaced"
-  | "token_delta_exceeded";
+  | "token_delta_exceeded"
+  | "budget_exceeded"
+  | "workflow_failed";
 
 export type TaskRunRecord = {
   id: UUID;
@@ -34,10 +81,16 @@ export type TaskRunRecord = {
   rootGroupId: UUID;
   ownerAgentId: UUID;
   goal: string;
-  status: "running" | "stopping" | "stopped" | "completed";
+  status: "running" | "paused" | "stopping" | "stopped" | "completed";
   stopReason: TaskStopReason | null;
   budgetJson: string;
   metricsJson: string;
+  /** Serialized WorkflowDefinition plus topic; empty for free-form tasks. */
+  workflowJson: string;
+  /** Serialized TaskCompletionConfig; empty means the default detector. */
+  completionJson: string;
+  templateId: UUID | null;
+  templateVersion: number | null;
   summaryMessageId: UUID | null;
   startAt: string;
   deadlineAt: string;
@@ -46,6 +99,20 @@ export type TaskRunRecord = {
   updatedAt: string;
 };
 
+export type TaskRunStepRecord = {
+  taskId: UUID;
+  stepId: string;
+  workspaceId: UUID;
+  status: "pending" | "running" | "checking" | "passed" | "failed";
+  assigneeAgentId: UUID | null;
+  attempts: number;
+  outputText: string;
+  checkNote: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  updatedAt: string;
+};
+
 export type TaskReviewRecord = {
   taskId: UUID;
   workspaceId: UUID;
@@ -54,6 +121,193 @@ export type TaskReviewRecord = {
   createdAt: string;
 };
 
+export type TaskScheduleRecord = {
+  id: UUID;
+  workspaceId: UUID;
+  name: string;
+  trigger: ScheduleTrigger;
+  task: ScheduledTaskSpec;
+  enabled: boolean;
+  anchorAt: string;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TaskScheduleRunRecord = {
+  id: UUID;
+  scheduleId: UUID;
+  workspaceId: UUID;
+  scheduledFor: string;
+  status: ScheduleRunStatus;
+  taskRunId: UUID | null;
+  error: string | null;
+  createdAt: string;
+};
+
+export type ApiKeyRecord = {
+  id: UUID;
+  workspaceId: UUID;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+export type TaskTemplateRecord = TaskTemplateDefinition & {
+  id: UUID;
+  workspaceId: UUID;
+  slug: string;
+  /** The version these fields come from; `latestVersion` is what new runs use by default. */
+  version: number;
+  latestVersion: number;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type TaskTemplateVersionRecord = {
+  templateId: UUID;
+  version: number;
+  definition: TaskTemplateDefinition;
+  createdAt: string;
+};
+
+export type AgentLinkRecord = {
+  id: UUID;
+  workspaceId: UUID;
+  fromAgentId: UUID;
+  toAgentId: UUID;
+  type: BlueprintEdgeType;
+  groupId: UUID | null;
+  createdAt: string;
+};
+
+/** Metadata of a stored file; the bytes live in the artifact directory (see lib/artifact-blobs). */
+export type ArtifactRecord = {
+  id: UUID;
+  workspaceId: UUID;
+  name: string;
+  mimeType: string;
+  sizeBytes: number;
+  sha256: string;
+  previewKind: ArtifactPreviewKind;
+  createdByAgentId: UUID | null;
+  taskRunId: UUID | null;
+  groupId: UUID | null;
+  createdAt: string;
+};
+
+/** Everyone who left the same reaction on a message. */
+export type MessageReactionSummary = {
+  reaction: string;
+  agentIds: UUID[];
+};
+
+export type MessageRevisionRecord = {
+  id: UUID;
+  messageId: UUID;
+  action: MessageRevisionAction;
+  priorContent: string;
+  actorKind: MessageActorKind;
+  actorId: UUID | null;
+  reason: string | null;
+  createdAt: string;
+};
+
+export type AgentPersonaRecord = PersonaDefinition & {
+  id: UUID;
+  workspaceId: UUID;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BlueprintRecord = BlueprintDefinition & {
+  id: UUID;
+  workspaceId: UUID;
+  source: "custom";
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type UserRecord = {
+  id: UUID;
+  username: string;
+  displayName: string;
+  isAdmin: boolean;
+  disabledAt: string | null;
+  createdAt: string;
+};
+
+export type UserSessionRecord = {
+  id: UUID;
+  userId: UUID;
+  kind: UserSessionKind;
+  name: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+export type WorkspaceMemberRecord = {
+  workspaceId: UUID;
+  userId: UUID;
+  username: string;
+  displayName: string;
+  role: WorkspaceRole;
+  humanAgentId: UUID;
+  defaultGroupId: UUID;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type InboundWebhookRecord = {
+  id: UUID;
+  workspaceId: UUID;
+  name: string;
+  groupId: UUID;
+  senderAgentId: UUID;
+  template: string;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookSubscriptionRecord = {
+  id: UUID;
+  workspaceId: UUID;
+  name: string;
+  url: string;
+  secret: string;
+  eventTypes: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "dead";
+
+export type WebhookDeliveryRecord = {
+  id: UUID;
+  subscriptionId: UUID;
+  workspaceId: UUID;
+  eventType: string;
+  payloadJson: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
 export type ModelProfile = {
   id: UUID;
   workspaceId: UUID;
@@ -63,11 +317,129 @@ export type ModelProfile = {
   model: string;
   apiKey: string | null;
   headers: Record<string, string>;
+  fallbackProfileIds: UUID[];
+  retryPolicy: ModelRetryPolicy;
   isDefault: boolean;
   createdAt: string;
   updatedAt: string;
 };
 
+/**
+ * Retry policy applied to every profile in a fallback chain. Timeouts cover both
+ * slow upstream responses and connection failures.
+ */
+export type ModelRetryPolicy = {
+  maxAttempts: number;
+  backoffMs: number;
+  backoffMultiplier: number;
+  maxBackoffMs: number;
+  retryableStatuses: number[];
+  retryOnTimeout: boolean;
+  timeoutMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: ModelRetryPolicy = {
+  maxAttempts: 1,
+  backoffMs: 1000,
+  backoffMultiplier: 2,
+  maxBackoffMs: 30_000,
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  retryOnTimeout: true,
+  timeoutMs: 120_000,
+};
+
+export type ShellBackend = "host" | "bwrap";
+
+export type WorkspaceShellSettings = {
+  backend: ShellBackend;
+  networkEnabled: boolean;
+  cpuSeconds: number;
+  memoryMb: number;
+  maxProcesses: number;
+};
+
+export type WorkspaceSettings = {
+  shell: WorkspaceShellSettings;
+};
+
+export type ToolPolicyMode = "allow" | "deny" | "require_approval";
+
+export type ToolPolicyRecord = {
+  id: UUID;
+  workspaceId: UUID;
+  agentRole: string;
+  toolName: string;
+  mode: ToolPolicyMode;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type LlmUsageSource = "agent" | "chat_json";
+
+export type LlmUsageRecord = {
+  id: UUID;
+  workspaceId: UUID;
+  agentId: UUID;
+  modelProfileId: UUID | null;
+  taskRunId: UUID | null;
+  gameId: UUID | null;
+  gameKind: string | null;
+  source: LlmUsageSource;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  createdAt: string;
+};
+
+export type LlmUsageGroupBy = "agent" | "model" | "profile" | "task" | "game";
+
+export type LlmUsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+};
+
+export type ToolApprovalStatus = "pending" | "approved" | "denied" | "expired" | "cancelled";
+
+export type ToolApprovalRecord = {
+  id: UUID;
+  workspaceId: UUID;
+  agentId: UUID;
+  groupId: UUID;
+  toolCallId: string | null;
+  toolName: string;
+  argumentsJson: string;
+  status: ToolApprovalStatus;
+  decidedBy: UUID | null;
+  decisionNote: string | null;
+  createdAt: string;
+  decidedAt: string | null;
+};
+
+export type HumanQuestionStatus = "pending" | "answered" | "expired" | "cancelled";
+
+export type HumanQuestionRecord = {
+  id: UUID;
+  workspaceId: UUID;
+  agentId: UUID;
+  groupId: UUID;
+  toolCallId: string | null;
+  kind: HumanQuestionKind;
+  question: string;
+  choices: string[] | null;
+  status: HumanQuestionStatus;
+  answer: string | null;
+  answeredBy: UUID | null;
+  createdAt: string;
+  expiresAt: string;
+  answeredAt: string | null;
+};
+
 function now() {
   return new Date();
 }
@@ -76,6 +448,210 @@ function uuid(): UUID {
   return crypto.randomUUID();
 }
 
+function toApiKeyRecord(row: typeof apiKeys.$inferSelect): ApiKeyRecord {
+  return {
+    id: row.id,
+    workspaceId: row.workspaceId,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: parseStringList(row.scopesJson) as ApiKeyScope[],
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toTaskTemplateRecord(
+  template: typeof taskTemplates.$inferSelect,
+  version: typeof taskTemplateVersions.$inferSelect
+): TaskTemplateRecord {
+  const definition = JSON.parse(version.definitionJson) as TaskTemplateDefinition;
+  return {
+    ...definition,
+    // Versions saved before templates could name personas.
+    personas: definition.personas ?? [],
+    id: template.id,
+    workspaceId: template.workspaceId,
+    slug: template.slug,
+    version: version.version,
+    latestVersion: template.latestVersion,
+    archivedAt: template.archivedAt?.toISOString() ?? null,
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString(),
+  };
+}
+
+function toAgentLinkRecord(row: typeof agentLinks.$inferSelect): AgentLinkRecord {
+  return {
+    id: row.id,
+    workspaceId: row.workspaceId,
+    fromAgentId: row.fromAgentId,
+    toAgentId: row.toAgentId,
+    type: row.type as BlueprintEdgeType,
+    groupId: row.groupId ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toArtifactRecord(row: typeof artifacts.$inferSelect): ArtifactRecord {
+  return {
+    id: row.id,
+    workspaceId: row.workspaceId,
+    name: row.name,
+    mimeType: row.mimeType,
+    sizeBytes: row.sizeBytes,
+    sha256: row.sha256,
+    previewKind: artifactPreviewKind(row.name, row.mimeType),
+    createdByAgentId: row.createdByAgentId,
+    taskRunId: row.taskRunId,
+    groupId: row.groupId,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toHumanQuestionRecord(row: typeof humanQuestions.$inferSelect): HumanQuestionRecord {
+  return {
+    id: row.id,
+    workspaceId: row.workspaceId,
+    agentId: row.agentId,
+    groupId: row.groupId,
+    toolCallId: row.toolCallId,
+    kind: row.kind as HumanQuestionKind,
+    question: row.question,
+    choices: row.choicesJson ? (JSON.parse(row.choicesJson) as string[]) : null,
+    status: row.status as HumanQuestionStatus,
+    answer: row.answer,
+    answeredBy: row.answeredBy,
+    createdAt: row.createdAt.toISOString(),
+    expiresAt: row.expiresAt.toISOString(),
+    answeredAt: row.answeredAt ? row.answeredAt.toISOString() : null,
+  };
+}
+
+function toAgentPersonaRecord(row: typeof agentPersonas.$inferSelect): AgentPersonaRecord {
+  return {
+    ...(JSON.parse(row.definitionJson) as PersonaDefinition),
+    id: row.id,
+    workspaceId: row.workspaceId,
+    name: row.name,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toBlueprintRecord(row: typeof blueprints.$inferSelect): BlueprintRecord {
+  return {
+    ...(JSON.parse(row.definitionJson) as BlueprintDefinition),
+    id: row.id,
+    workspaceId: row.workspaceId,
+    source: "custom",
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toUserRecord(row: typeof users.$inferSelect): UserRecord {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.displayName,
+    isAdmin: row.isAdmin,
+    disabledAt: row.disabledAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toUserSessionRecord(row: typeof userSessions.$inferSelect): UserSessionRecord {
+  return {
+    id: row.id,
+    userId: row.userId,
+    kind: row.kind as UserSessionKind,
+    name: row.name,
+    expiresAt: row.expiresAt?.toISOString() ?? null,
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toWorkspaceMemberRecord(
+  row: typeof workspaceMembers.$inferSelect & { username: string; displayName: string }
+): WorkspaceMemberRecord {
+  return {
+    workspaceId: row.workspaceId,
+    userId: row.userId,
+    username: row.username,
+    displayName: row.displayName,
+    role: row.role as WorkspaceRole,
+    humanAgentId: row.humanAgentId,
+    defaultGroupId: row.defaultGroupId,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toInboundWebhookRecord(row: typeof inboundWebhooks.$inferSelect): InboundWebhookRecord {
+  return {
+    id: row.id,
+    workspaceId: row.workspaceId,
+    name: row.name,
+    groupId: row.groupId,
+    senderAgentId: row.senderAgentId,
+    template: row.template,
+    enabled: row.enabled,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toWebhookSubscriptionRecord(row: typeof webhookSubscriptions.$inferSelect): WebhookSubscriptionRecord {
+  return {
+    id: row.id,
+    workspaceId: row.workspaceId,
+    name: row.name,
+    url: row.url,
+    secret: row.secret,
+    eventTypes: parseStringList(row.eventTypesJson),
+    enabled: row.enabled,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toWebhookDeliveryRecord(row: typeof webhookDeliveries.$inferSelect): WebhookDeliveryRecord {
+  return {
+    id: row.id,
+    subscriptionId: row.subscriptionId,
+    workspaceId: row.workspaceId,
+    eventType: row.eventType,
+    payloadJson: row.payloadJson,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.nextAttemptAt?.toISOString() ?? null,
+    lastStatusCode: row.lastStatusCode,
+    lastError: row.lastError,
+    deliveredAt: row.deliveredAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+function toTaskScheduleRecord(row: typeof taskSchedules.$inferSelect): TaskScheduleRecord {
+  return {
+    id: row.id,
+    workspaceId: row.workspaceId,
+    name: row.name,
+    trigger: JSON.parse(row.triggerJson) as ScheduleTrigger,
+    task: JSON.parse(row.taskJson) as ScheduledTaskSpec,
+    enabled: row.enabled,
+    anchorAt: row.anchorAt.toISOString(),
+    nextRunAt: row.nextRunAt?.toISOString() ?? null,
+    lastRunAt: row.lastRunAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
 function isUuid(value: string | null | undefined): value is UUID {
   if (!value) return false;
   return /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(
@@ -83,6 +659,96 @@ function isUuid(value: string | null | undefined): value is UUID {
   );
 }
 
+/**
+ * Texts redacted in the last hour, per workspace, from redaction_scrubs. A runner turn
+ * holds its history in memory and writes it back when it ends, possibly after a redaction
+ * scrubbed the stored copy; setAgentHistory scrubs these again so such a write cannot
+ * restore them. The rows hold the redacted plaintext, so purgeExpiredRedactionScrubs
+ * deletes them once they expire. redactionScrubsUntil mirrors the latest expiry per
+ * workspace, letting history writes skip the table when nothing was redacted recently.
+ */
+const RECENT_REDACTION_TTL_MS = 60 * 60 * 1000;
+const redactionScrubsUntil = new Map<UUID, number>();
+
+function noteRedactionScrubs(workspaceId: UUID, expiresAt: number) {
+  redactionScrubsUntil.set(workspaceId, Math.max(redactionScrubsUntil.get(workspaceId) ?? 0, expiresAt));
+}
+
+async function recentRedactionTexts(workspaceId: UUID) {
+  const until = redactionScrubsUntil.get(workspaceId);
+  if (until === undefined) return [];
+  if (until <= Date.now()) {
+    redactionScrubsUntil.delete(workspaceId);
+    return [];
+  }
+  const rows = await getDb()
+    .select({ textsJson: redactionScrubs.textsJson })
+    .from(redactionScrubs)
+    .where(and(eq(redactionScrubs.workspaceId, workspaceId), gt(redactionScrubs.expiresAt, now())));
+  return [...new Set(rows.flatMap((r) => parseStringList(r.textsJson)))];
+}
+
+/** Parses the id arrays stored in messages.mentions_json and messages.attachments_json. */
+function parseIdList(json: string): UUID[] {
+  try {
+    const parsed = JSON.parse(json) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((x): x is UUID => typeof x === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function parseRetryPolicy(raw: string | null | undefined): ModelRetryPolicy {
+  const parsed = safeParseObject(raw);
+  const num = (value: unknown, fallback: number, min: number) =>
+    typeof value === "number" && Number.isFinite(value) && value >= min ? value : fallback;
+  const statuses = Array.isArray(parsed.retryableStatuses)
+    ? parsed.retryableStatuses.filter((s): s is number => Number.isInteger(s) && s >= 100 && s <= 599)
+    : DEFAULT_RETRY_POLICY.retryableStatuses;
+  return {
+    maxAttempts: Math.floor(num(parsed.maxAttempts, DEFAULT_RETRY_POLICY.maxAttempts, 1)),
+    backoffMs: num(parsed.backoffMs, DEFAULT_RETRY_POLICY.backoffMs, 0),
+    backoffMultiplier: num(parsed.backoffMultiplier, DEFAULT_RETRY_POLICY.backoffMultiplier, 1),
+    maxBackoffMs: num(parsed.maxBackoffMs, DEFAULT_RETRY_POLICY.maxBackoffMs, 0),
+    retryableStatuses: statuses,
+    retryOnTimeout:
+      typeof parsed.retryOnTimeout === "boolean" ? parsed.retryOnTimeout : DEFAULT_RETRY_POLICY.retryOnTimeout,
+    timeoutMs: num(parsed.timeoutMs, DEFAULT_RETRY_POLICY.timeoutMs, 1000),
+  };
+}
+
+function safeParseObject(raw: string | null | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function parseStringList(raw: string | null | undefined): string[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string" && !!id) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function filterWorkspaceProfileIds(workspaceId: UUID, ids: UUID[], selfId?: UUID) {
+  const unique = [...new Set(ids)].filter((id) => id !== selfId);
+  if (unique.length === 0) return [];
+  const db = getDb();
+  const rows = await db
+    .select({ id: modelProfiles.id })
+    .from(modelProfiles)
+    .where(and(eq(modelProfiles.workspaceId, workspaceId), inArray(modelProfiles.id, unique)));
+  const known = new Set(rows.map((row) => row.id));
+  return unique.filter((id) => known.has(id));
+}
+
 function parseHeadersJson(raw: string | null | undefined): Record<string, string> {
   if (!raw) return {};
   try {
@@ -97,6 +763,35 @@ function parseHeadersJson(raw: string | null | undefined): Record<string, string
   }
 }
 
+function positiveInt(value: unknown, fallback: number) {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
+}
+
+function defaultShellBackend(): ShellBackend {
+  return (process.env.AGENT_SHELL_BACKEND ?? "").toLowerCase() === "bwrap" ? "bwrap" : "host";
+}
+
+function parseWorkspaceSettings(raw: string | null | undefined): WorkspaceSettings {
+  let parsed: Record<string, any> = {};
+  try {
+    const value = JSON.parse(raw || "{}");
+    if (value && typeof value === "object") parsed = value;
+  } catch {
+    // fall back to defaults
+  }
+  const shell = parsed.shell && typeof parsed.shell === "object" ? parsed.shell : {};
+  return {
+    shell: {
+      backend: shell.backend === "bwrap" || shell.backend === "host" ? shell.backend : defaultShellBackend(),
+      networkEnabled: shell.networkEnabled === true,
+      cpuSeconds: positiveInt(shell.cpuSeconds, 60),
+      memoryMb: positiveInt(shell.memoryMb, 1024),
+      maxProcesses: positiveInt(shell.maxProcesses, 64),
+    },
+  };
+}
+
 async function readApiKeyFile(filename: string): Promise<string | null> {
   const candidates = [
     path.resolve(process.cwd(), "API-KEY", filename),
@@ -127,7 +822,11 @@ function initialAgentHistory(input: {
     `Act strictly as this role when replying. Be concise and helpful.\n` +
     `Your replies are NOT automatically delivered to humans.\n` +
     `To send messages, you MUST call tools like send_group_message or send_direct_message.\n` +
-    `If you need to coordinate with other agents, you may use tools like self, list_agents, create, send, list_groups, list_group_members, create_group, send_group_message, send_direct_message, and get_group_messages.`;
+    `If you need to coordinate with other agents, you may use tools like self, list_agents, create, send, list_groups, list_group_members, create_group, send_group_message, send_direct_message, and get_group_messages.\n` +
+    `Incoming messages carry [msg:<id>]; answer one with replyToId, address members with mentions (or @role), or acknowledge with react_to_message.\n` +
+    `Files are shared as artifacts: store one with write_artifact, attach it via attachments, open [artifact:<id>] with read_artifact.\n` +
+    `When you need a decision or information only the human has, call ask_human and wait for the answer.\n` +
+    `When a running task's goal is fully achieved, call task_complete with the final result.`;
 
   const history: Array<{ role: "system"; content: string }> = [{ role: "system", content }];
   const guidance = (input.guidance ?? "").trim();
@@ -295,6 +994,7 @@ export const store = {
           .set({ groupId: keepId })
           .where(and(eq(messages.workspaceId, input.workspaceId), eq(messages.groupId, otherId)));
 
+        await tx.update(agentLinks).set({ groupId: keepId }).where(eq(agentLinks.groupId, otherId));
         await tx.delete(groupMembers).where(eq(groupMembers.groupId, otherId));
         await tx.delete(groups).where(eq(groups.id, otherId));
       }
@@ -319,6 +1019,8 @@ export const store = {
         model: modelProfiles.model,
         apiKey: modelProfiles.apiKey,
         headersJson: modelProfiles.headersJson,
+        fallbackProfileIdsJson: modelProfiles.fallbackProfileIdsJson,
+        retryPolicyJson: modelProfiles.retryPolicyJson,
         isDefault: modelProfiles.isDefault,
         createdAt: modelProfiles.createdAt,
         updatedAt: modelProfiles.updatedAt,
@@ -336,6 +1038,8 @@ export const store = {
       model: row.model,
       apiKey: row.apiKey,
       headers: parseHeadersJson(row.headersJson),
+      fallbackProfileIds: parseStringList(row.fallbackProfileIdsJson),
+      retryPolicy: parseRetryPolicy(row.retryPolicyJson),
       isDefault: row.isDefault,
       createdAt: row.createdAt.toISOString(),
       updatedAt: row.updatedAt.toISOString(),
@@ -354,6 +1058,8 @@ export const store = {
         model: modelProfiles.model,
         apiKey: modelProfiles.apiKey,
         headersJson: modelProfiles.headersJson,
+        fallbackProfileIdsJson: modelProfiles.fallbackProfileIdsJson,
+        retryPolicyJson: modelProfiles.retryPolicyJson,
         isDefault: modelProfiles.isDefault,
         createdAt: modelProfiles.createdAt,
         updatedAt: modelProfiles.updatedAt,
@@ -373,6 +1079,8 @@ export const store = {
       model: row.model,
       apiKey: row.apiKey,
       headers: parseHeadersJson(row.headersJson),
+      fallbackProfileIds: parseStringList(row.fallbackProfileIdsJson),
+      retryPolicy: parseRetryPolicy(row.retryPolicyJson),
       isDefault: row.isDefault,
       createdAt: row.createdAt.toISOString(),
       updatedAt: row.updatedAt.toISOString(),
@@ -387,6 +1095,8 @@ export const store = {
     model: string;
     apiKey?: string | null;
     headers?: Record<string, string>;
+    fallbackProfileIds?: UUID[];
+    retryPolicy?: Partial<ModelRetryPolicy>;
     isDefault?: boolean;
   }): Promise<ModelProfile> {
     const db = getDb();
@@ -395,6 +1105,7 @@ export const store = {
     const updatedAt = createdAt;
     const headersJson = JSON.stringify(input.headers ?? {});
     const isDefault = !!input.isDefault;
+    const fallbackProfileIds = await filterWorkspaceProfileIds(input.workspaceId, input.fallbackProfileIds ?? []);
 
     await db.transaction(async (tx) => {
       if (isDefault) {
@@ -413,6 +1124,8 @@ export const store = {
         model: input.model,
         apiKey: input.apiKey ?? null,
         headersJson,
+        fallbackProfileIdsJson: JSON.stringify(fallbackProfileIds),
+        retryPolicyJson: JSON.stringify(parseRetryPolicy(JSON.stringify(input.retryPolicy ?? {}))),
         isDefault,
         createdAt,
         updatedAt,
@@ -441,6 +1154,8 @@ export const store = {
       model?: string;
       apiKey?: string | null;
       headers?: Record<string, string>;
+      fallbackProfileIds?: UUID[];
+      retryPolicy?: Partial<ModelRetryPolicy>;
       isDefault?: boolean;
     }
   ): Promise<ModelProfile | null> {
@@ -453,6 +1168,17 @@ export const store = {
     if (typeof input.model === "string") payload.model = input.model;
     if (typeof input.apiKey !== "undefined") payload.apiKey = input.apiKey;
     if (typeof input.headers !== "undefined") payload.headersJson = JSON.stringify(input.headers);
+    if (typeof input.fallbackProfileIds !== "undefined") {
+      payload.fallbackProfileIdsJson = JSON.stringify(
+        await filterWorkspaceProfileIds(input.workspaceId, input.fallbackProfileIds, input.id)
+      );
+    }
+    if (typeof input.retryPolicy !== "undefined") {
+      const existing = await this.getModelProfile({ id: input.id });
+      payload.retryPolicyJson = JSON.stringify(
+        parseRetryPolicy(JSON.stringify({ ...(existing?.retryPolicy ?? {}), ...input.retryPolicy }))
+      );
+    }
     if (typeof input.isDefault === "boolean") payload.isDefault = input.isDefault;
 
     await db.transaction(async (tx) => {
@@ -631,6 +1357,50 @@ export const store = {
     return rows.map((r) => ({ ...r, createdAt: r.createdAt.toISOString() }));
   },
 
+  async getWorkspaceSettings(input: { workspaceId: UUID }): Promise<WorkspaceSettings | null> {
+    if (!isUuid(input.workspaceId)) return null;
+    const db = getDb();
+    const rows = await db
+      .select({ settingsJson: workspaces.settingsJson })
+      .from(workspaces)
+      .where(eq(workspaces.id, input.workspaceId))
+      .limit(1);
+    if (rows.length === 0) return null;
+    return parseWorkspaceSettings(rows[0]!.settingsJson);
+  },
+
+  async updateWorkspaceSettings(input: {
+    workspaceId: UUID;
+    shell?: Partial<WorkspaceShellSettings>;
+  }): Promise<WorkspaceSettings | null> {
+    const db = getDb();
+    const current = await this.getWorkspaceSettings({ workspaceId: input.workspaceId });
+    if (!current) return null;
+    const shellPatch = Object.fromEntries(
+      Object.entries(input.shell ?? {}).filter(([, value]) => typeof value !== "undefined")
+    );
+    const next = parseWorkspaceSettings(
+      JSON.stringify({
+        ...current,
+        shell: { ...current.shell, ...shellPatch },
+      })
+    );
+
+    await db
+      .update(workspaces)
+      .set({ settingsJson: JSON.stringify(next) })
+      .where(eq(workspaces.id, input.workspaceId));
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "workspaces",
+      action: "update",
+      recordId: input.workspaceId,
+    });
+
+    return next;
+  },
+
   async createAgent(input: {
     workspaceId: UUID;
     role: string;
@@ -990,11 +1760,14 @@ export const store = {
     originType?: string | null;
     originId?: UUID | null;
     groupKind?: GroupKind;
+    /** Supplies the system prompt and model profile; `guidance` is layered on top of its prompt. */
+    persona?: AgentPersonaRecord | null;
   }) {
     const db = getDb();
     const createdAt = now();
     const agentId = uuid();
     const groupId = uuid();
+    const persona = input.persona ?? null;
 
     const defaults = await store.ensureWorkspaceDefaults({ workspaceId: input.workspaceId });
     const humanAgentId = defaults.humanAgentId;
@@ -1005,6 +1778,11 @@ export const store = {
       .where(eq(workspaces.id, input.workspaceId))
       .limit(1);
     if (workspace.length === 0) throw new Error("workspace not found");
+    // A persona may outlive the profile it names; fall back to the workspace default then.
+    const modelProfileId =
+      persona?.modelProfileId && isUuid(persona.modelProfileId)
+        ? ((await filterWorkspaceProfileIds(input.workspaceId, [persona.modelProfileId]))[0] ?? null)
+        : null;
 
     await db.transaction(async (tx) => {
       await tx.insert(agents).values({
@@ -1018,11 +1796,13 @@ export const store = {
         deletedAt: null,
         lastActiveAt: createdAt,
         parentId: input.creatorId,
+        modelProfileId,
+        personaId: persona?.id ?? null,
         llmHistory: initialAgentHistory({
           agentId,
           workspaceId: input.workspaceId,
           role: input.role,
-          guidance: input.guidance,
+          guidance: persona ? composePersonaGuidance(persona, input.guidance) : input.guidance,
         }),
         createdAt,
       });
@@ -1179,14 +1959,30 @@ export const store = {
     return rows[0]?.id ?? null;
   },
 
-  async listMessages(input: { groupId: UUID }) {
+  /**
+   * One window of a group's messages in (send_time, id) order, oldest first. Without a
+   * cursor it holds the newest `limit` messages; `before` pages back from a cursor while
+   * `after` and `since` page forward. `hasMore` tells whether the window was cut short
+   * in the direction it was read.
+   */
+  async listMessages(input: {
+    groupId: UUID;
+    before?: MessageCursor | null;
+    after?: MessageCursor | null;
+    since?: Date | null;
+    limit?: number;
+  }) {
     const db = getDb();
     const group = await db
       .select({ id: groups.id })
       .from(groups)
       .where(and(eq(groups.id, input.groupId), isNull(groups.deletedAt)))
       .limit(1);
-    if (group.length === 0) return [];
+    if (group.length === 0) return { messages: [], hasMore: false };
+
+    const limit = clampMessagePageSize(input.limit);
+    const forward = !!(input.after || input.since);
+    const position = dsql`(${messages.sendTime}, ${messages.id})`;
 
     const rows = await db
       .select({
@@ -1194,18 +1990,352 @@ export const store = {
         senderId: messages.senderId,
         content: messages.content,
         contentType: messages.contentType,
+        replyToId: messages.replyToId,
+        mentionsJson: messages.mentionsJson,
+        attachmentsJson: messages.attachmentsJson,
         sendTime: messages.sendTime,
+        editedAt: messages.editedAt,
+        deletedAt: messages.deletedAt,
+        redactedAt: messages.redactedAt,
       })
       .from(messages)
-      .where(eq(messages.groupId, input.groupId))
-      .orderBy(messages.sendTime);
+      .where(
+        and(
+          eq(messages.groupId, input.groupId),
+          input.before
+            ? dsql`${position} < (${input.before.sendTime}::timestamptz, ${input.before.id}::uuid)`
+            : undefined,
+          input.after
+            ? dsql`${position} > (${input.after.sendTime}::timestamptz, ${input.after.id}::uuid)`
+            : undefined,
+          input.since ? gt(messages.sendTime, input.since) : undefined
+        )
+      )
+      .orderBy(
+        ...(forward ? [asc(messages.sendTime), asc(messages.id)] : [desc(messages.sendTime), desc(messages.id)])
+      )
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (!forward) page.reverse();
 
-    return rows.map((m) => ({ ...m, sendTime: m.sendTime.toISOString() }));
+    const reactions = await this.listMessageReactions({ messageIds: page.map((m) => m.id) });
+    const attachments = await this.resolveMessageAttachments(page);
+    // Deleted messages stay in the list as tombstones so replies and paging keep their anchors.
+    return {
+      messages: page.map(({ mentionsJson, attachmentsJson, editedAt, deletedAt, redactedAt, ...m }) => ({
+        ...m,
+        content: deletedAt ? "" : m.content,
+        mentions: deletedAt ? [] : parseIdList(mentionsJson),
+        attachments: deletedAt ? [] : attachments(attachmentsJson),
+        reactions: reactions.get(m.id) ?? [],
+        sendTime: m.sendTime.toISOString(),
+        editedAt: editedAt?.toISOString() ?? null,
+        deletedAt: deletedAt?.toISOString() ?? null,
+        redactedAt: redactedAt?.toISOString() ?? null,
+      })),
+      hasMore,
+    };
   },
 
-  async listWorkspacePublicFeed(input: { workspaceId: UUID; limit?: number }) {
+  /** Loads every artifact the given rows attach in one query; the result maps a row's attachments_json to records. */
+  async resolveMessageAttachments(rows: Array<{ attachmentsJson: string }>) {
+    const ids = [...new Set(rows.flatMap((r) => parseIdList(r.attachmentsJson)))];
+    const byId = new Map<UUID, ArtifactRecord>();
+    if (ids.length > 0) {
+      const db = getDb();
+      const found = await db.select().from(artifacts).where(inArray(artifacts.id, ids));
+      for (const row of found) byId.set(row.id, toArtifactRecord(row));
+    }
+    return (json: string) => parseIdList(json).flatMap((id) => byId.get(id) ?? []);
+  },
+
+  /** A message of the given group, e.g. to validate a reply target. */
+  async getGroupMessage(input: {
+    groupId: UUID;
+    messageId: UUID;
+  }): Promise<{
+    id: UUID;
+    workspaceId: UUID;
+    senderId: UUID;
+    content: string;
+    deletedAt: string | null;
+    redactedAt: string | null;
+  } | null> {
+    if (!isUuid(input.messageId)) return null;
     const db = getDb();
-    const limit = Math.max(1, Math.min(input.limit ?? 300, 1000));
+    const rows = await db
+      .select({
+        id: messages.id,
+        workspaceId: messages.workspaceId,
+        senderId: messages.senderId,
+        content: messages.content,
+        deletedAt: messages.deletedAt,
+        redactedAt: messages.redactedAt,
+      })
+      .from(messages)
+      .where(and(eq(messages.id, input.messageId), eq(messages.groupId, input.groupId)))
+      .limit(1);
+    const row = rows[0];
+    if (!row) return null;
+    return {
+      ...row,
+      deletedAt: row.deletedAt?.toISOString() ?? null,
+      redactedAt: row.redactedAt?.toISOString() ?? null,
+    };
+  },
+
+  /** Replaces the content of a live message, keeping the previous version as an "edit" revision. */
+  async editMessage(input: {
+    messageId: UUID;
+    content: string;
+    actorId: UUID;
+  }): Promise<{ id: UUID; content: string; editedAt: string } | null> {
+    const db = getDb();
+    const editedAt = now();
+    const workspaceId = await db.transaction(async (tx) => {
+      const rows = await tx
+        .select({ workspaceId: messages.workspaceId, content: messages.content })
+        .from(messages)
+        .where(and(eq(messages.id, input.messageId), isNull(messages.deletedAt), isNull(messages.redactedAt)))
+        .limit(1);
+      const current = rows[0];
+      if (!current) return null;
+      await tx.insert(messageRevisions).values({
+        id: uuid(),
+        messageId: input.messageId,
+        workspaceId: current.workspaceId,
+        action: "edit",
+        priorContent: current.content,
+        actorKind: "agent",
+        actorId: input.actorId,
+        reason: null,
+        createdAt: editedAt,
+      });
+      await tx.update(messages).set({ content: input.content, editedAt }).where(eq(messages.id, input.messageId));
+      return current.workspaceId;
+    });
+    if (!workspaceId) return null;
+    await emitDbWrite({ workspaceId, table: "messages", action: "update", recordId: input.messageId });
+    return { id: input.messageId, content: input.content, editedAt: editedAt.toISOString() };
+  },
+
+  /** Soft-deletes a message; its last content is kept as a "delete" revision. */
+  async deleteMessage(input: { messageId: UUID; actorId: UUID }): Promise<{ id: UUID; deletedAt: string } | null> {
+    const db = getDb();
+    const deletedAt = now();
+    const workspaceId = await db.transaction(async (tx) => {
+      const rows = await tx
+        .select({ workspaceId: messages.workspaceId, content: messages.content })
+        .from(messages)
+        .where(and(eq(messages.id, input.messageId), isNull(messages.deletedAt)))
+        .limit(1);
+      const current = rows[0];
+      if (!current) return null;
+      await tx.insert(messageRevisions).values({
+        id: uuid(),
+        messageId: input.messageId,
+        workspaceId: current.workspaceId,
+        action: "delete",
+        priorContent: current.content,
+        actorKind: "agent",
+        actorId: input.actorId,
+        reason: null,
+        createdAt: deletedAt,
+      });
+      await tx.update(messages).set({ deletedAt }).where(eq(messages.id, input.messageId));
+      return current.workspaceId;
+    });
+    if (!workspaceId) return null;
+    await emitDbWrite({ workspaceId, table: "messages", action: "update", recordId: input.messageId });
+    return { id: input.messageId, deletedAt: deletedAt.toISOString() };
+  },
+
+  /**
+   * Replaces a message's content, and every prior version in message_revisions, with
+   * REDACTED_CONTENT, then scrubs verbatim copies from the llmHistory of every agent in
+   * the workspace (see scrubRedactedHistory). Runtime log files under .agent_* are not rewritten,
+   * and neither are forks taken before the redaction: forkTaskRun copies messages and their
+   * revisions into an independent workspace, so the fork's copy has to be redacted on its own.
+   */
+  async redactMessage(input: {
+    messageId: UUID;
+    actorKind: MessageActorKind;
+    actorId: UUID | null;
+    reason: string | null;
+  }): Promise<{ id: UUID; redactedAt: string; scrubbedAgentIds: UUID[] } | null> {
+    const db = getDb();
+    const redactedAt = now();
+    const scrubbed = await db.transaction(async (tx) => {
+      const rows = await tx
+        .select({ workspaceId: messages.workspaceId, content: messages.content })
+        .from(messages)
+        .where(eq(messages.id, input.messageId))
+        .limit(1);
+      const current = rows[0];
+      if (!current) return null;
+      const prior = await tx
+        .select({ priorContent: messageRevisions.priorContent })
+        .from(messageRevisions)
+        .where(eq(messageRevisions.messageId, input.messageId));
+      await tx
+        .update(messageRevisions)
+        .set({ priorContent: REDACTED_CONTENT })
+        .where(eq(messageRevisions.messageId, input.messageId));
+      await tx.insert(messageRevisions).values({
+        id: uuid(),
+        messageId: input.messageId,
+        workspaceId: current.workspaceId,
+        action: "redact",
+        priorContent: REDACTED_CONTENT,
+        actorKind: input.actorKind,
+        actorId: input.actorId,
+        reason: input.reason,
+        createdAt: redactedAt,
+      });
+      await tx
+        .update(messages)
+        .set({ content: REDACTED_CONTENT, redactedAt })
+        .where(eq(messages.id, input.messageId));
+      const texts = [
+        ...new Set([current.content, ...prior.map((p) => p.priorContent)].filter((t) => t !== REDACTED_CONTENT)),
+      ];
+      await tx.insert(redactionScrubs).values({
+        id: uuid(),
+        workspaceId: current.workspaceId,
+        textsJson: JSON.stringify(texts),
+        expiresAt: new Date(redactedAt.getTime() + RECENT_REDACTION_TTL_MS),
+      });
+      return { workspaceId: current.workspaceId, texts };
+    });
+    if (!scrubbed) return null;
+
+    const { workspaceId, texts } = scrubbed;
+    noteRedactionScrubs(workspaceId, redactedAt.getTime() + RECENT_REDACTION_TTL_MS);
+
+    const agentRows = await db
+      .select({ id: agents.id, llmHistory: agents.llmHistory })
+      .from(agents)
+      .where(eq(agents.workspaceId, workspaceId));
+    const scrubbedAgentIds: UUID[] = [];
+    for (const agent of agentRows) {
+      const next = scrubRedactedHistory(agent.llmHistory, texts);
+      if (next === agent.llmHistory) continue;
+      await db.update(agents).set({ llmHistory: next }).where(eq(agents.id, agent.id));
+      scrubbedAgentIds.push(agent.id);
+    }
+
+    await emitDbWrite({ workspaceId, table: "messages", action: "update", recordId: input.messageId });
+    return { id: input.messageId, redactedAt: redactedAt.toISOString(), scrubbedAgentIds };
+  },
+
+  /**
+   * Deletes expired redaction_scrubs rows in every workspace and reloads which workspaces
+   * still have live ones, so redactions made by another process are picked up too.
+   */
+  async purgeExpiredRedactionScrubs(): Promise<number> {
+    const db = getDb();
+    const cutoff = now();
+    const deleted = await db
+      .delete(redactionScrubs)
+      .where(lte(redactionScrubs.expiresAt, cutoff))
+      .returning({ id: redactionScrubs.id });
+    const live = await db
+      .select({ workspaceId: redactionScrubs.workspaceId, expiresAt: redactionScrubs.expiresAt })
+      .from(redactionScrubs)
+      .where(gt(redactionScrubs.expiresAt, cutoff));
+    redactionScrubsUntil.clear();
+    for (const row of live) noteRedactionScrubs(row.workspaceId, row.expiresAt.getTime());
+    return deleted.length;
+  },
+
+  async listMessageRevisions(input: { messageId: UUID }): Promise<MessageRevisionRecord[]> {
+    if (!isUuid(input.messageId)) return [];
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(messageRevisions)
+      .where(eq(messageRevisions.messageId, input.messageId))
+      .orderBy(asc(messageRevisions.createdAt));
+    return rows.map((r) => ({
+      id: r.id,
+      messageId: r.messageId,
+      action: r.action as MessageRevisionAction,
+      priorContent: r.priorContent,
+      actorKind: r.actorKind as MessageActorKind,
+      actorId: r.actorId,
+      reason: r.reason,
+      createdAt: r.createdAt.toISOString(),
+    }));
+  },
+
+  async listMessageReactions(input: { messageIds: UUID[] }): Promise<Map<UUID, MessageReactionSummary[]>> {
+    const out = new Map<UUID, MessageReactionSummary[]>();
+    if (input.messageIds.length === 0) return out;
+    const db = getDb();
+    const rows = await db
+      .select({
+        messageId: messageReactions.messageId,
+        agentId: messageReactions.agentId,
+        reaction: messageReactions.reaction,
+      })
+      .from(messageReactions)
+      .where(inArray(messageReactions.messageId, input.messageIds))
+      .orderBy(asc(messageReactions.createdAt));
+    for (const row of rows) {
+      const list = out.get(row.messageId) ?? [];
+      const entry = list.find((r) => r.reaction === row.reaction);
+      if (entry) entry.agentIds.push(row.agentId);
+      else list.push({ reaction: row.reaction, agentIds: [row.agentId] });
+      out.set(row.messageId, list);
+    }
+    return out;
+  },
+
+  /** Adds or removes one agent's reaction and returns the message's reactions afterwards. */
+  async setMessageReaction(input: {
+    workspaceId: UUID;
+    messageId: UUID;
+    agentId: UUID;
+    reaction: string;
+    active: boolean;
+  }): Promise<MessageReactionSummary[]> {
+    const db = getDb();
+    if (input.active) {
+      await db
+        .insert(messageReactions)
+        .values({
+          messageId: input.messageId,
+          workspaceId: input.workspaceId,
+          agentId: input.agentId,
+          reaction: input.reaction,
+          createdAt: now(),
+        })
+        .onConflictDoNothing();
+    } else {
+      await db
+        .delete(messageReactions)
+        .where(
+          and(
+            eq(messageReactions.messageId, input.messageId),
+            eq(messageReactions.agentId, input.agentId),
+            eq(messageReactions.reaction, input.reaction)
+          )
+        );
+    }
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "message_reactions",
+      action: input.active ? "insert" : "delete",
+      recordId: input.messageId,
+    });
+    return (await this.listMessageReactions({ messageIds: [input.messageId] })).get(input.messageId) ?? [];
+  },
+
+  async listWorkspacePublicFeed(input: { workspaceId: UUID; limit?: number }) {
+    const db = getDb();
+    const limit = Math.max(1, Math.min(input.limit ?? 300, 1000));
     const rows = await db
       .select({
         id: messages.id,
@@ -1218,7 +2348,7 @@ export const store = {
       })
       .from(messages)
       .innerJoin(groups, eq(groups.id, messages.groupId))
-      .where(and(eq(messages.workspaceId, input.workspaceId), isNull(groups.deletedAt)))
+      .where(and(eq(messages.workspaceId, input.workspaceId), isNull(groups.deletedAt), isNull(messages.deletedAt)))
       .orderBy(desc(messages.sendTime))
       .limit(limit);
 
@@ -1240,6 +2370,11 @@ export const store = {
     senderId: UUID;
     content: string;
     contentType: string;
+    /** Callers check the target with getGroupMessage first. */
+    replyToId?: UUID | null;
+    mentions?: UUID[];
+    /** Artifact ids, already checked against the workspace (see listArtifactsByIds). */
+    attachments?: UUID[];
   }) {
     const db = getDb();
     const group = await db
@@ -1260,6 +2395,9 @@ export const store = {
       senderId: input.senderId,
       contentType: input.contentType,
       content: input.content,
+      replyToId: input.replyToId ?? null,
+      mentionsJson: JSON.stringify(input.mentions ?? []),
+      attachmentsJson: JSON.stringify(input.attachments ?? []),
       sendTime,
     });
 
@@ -1280,6 +2418,7 @@ export const store = {
     observerHumanId?: UUID | null;
     content: string;
     contentType?: string;
+    attachments?: UUID[];
     groupName?: string | null;
     newThread?: boolean;
   }) {
@@ -1346,6 +2485,7 @@ export const store = {
       senderId: input.fromId,
       content: input.content,
       contentType: input.contentType ?? "text",
+      attachments: input.attachments,
     });
 
     return { groupId, messageId: message.id, sendTime: message.sendTime, channel };
@@ -1497,6 +2637,7 @@ export const store = {
     llmHistory: string;
     workspaceId: UUID;
     modelProfileId: UUID | null;
+    personaId: UUID | null;
   }> {
     const db = getDb();
     const rows = await db
@@ -1509,6 +2650,7 @@ export const store = {
         llmHistory: agents.llmHistory,
         workspaceId: agents.workspaceId,
         modelProfileId: agents.modelProfileId,
+        personaId: agents.personaId,
       })
       .from(agents)
       .where(and(eq(agents.id, input.agentId), isNull(agents.deletedAt)))
@@ -1577,6 +2719,8 @@ export const store = {
     headers: Record<string, string>;
     profileId: UUID | null;
     profileName: string | null;
+    fallbackProfileIds: UUID[];
+    retryPolicy: ModelRetryPolicy;
   }> {
     const db = getDb();
     const rows = await db
@@ -1588,6 +2732,8 @@ export const store = {
         baseUrl: modelProfiles.baseUrl,
         apiKey: modelProfiles.apiKey,
         headersJson: modelProfiles.headersJson,
+        fallbackProfileIdsJson: modelProfiles.fallbackProfileIdsJson,
+        retryPolicyJson: modelProfiles.retryPolicyJson,
       })
       .from(agents)
       .leftJoin(modelProfiles, eq(modelProfiles.id, agents.modelProfileId))
@@ -1603,6 +2749,8 @@ export const store = {
         headers: {},
         profileId: null,
         profileName: null,
+        fallbackProfileIds: [],
+        retryPolicy: { ...DEFAULT_RETRY_POLICY },
       };
     }
     return {
@@ -1613,13 +2761,57 @@ export const store = {
       headers: parseHeadersJson(row.headersJson),
       profileId: row.profileId,
       profileName: row.profileName,
+      fallbackProfileIds: parseStringList(row.fallbackProfileIdsJson),
+      retryPolicy: parseRetryPolicy(row.retryPolicyJson),
     };
   },
 
-  async setAgentHistory(input: { agentId: UUID; llmHistory: string; workspaceId?: UUID }) {
+  /** Returns complete profiles in the order of `ids`; unknown or incomplete profiles are skipped. */
+  async getModelProfileRuntimeConfigs(input: { ids: UUID[] }): Promise<
+    Array<{
+      profileId: UUID;
+      profileName: string;
+      provider: ModelProvider;
+      model: string;
+      baseUrl: string;
+      apiKey: string;
+      headers: Record<string, string>;
+    }>
+  > {
+    if (input.ids.length === 0) return [];
     const db = getDb();
-    await db.update(agents).set({ llmHistory: input.llmHistory }).where(eq(agents.id, input.agentId));
+    const rows = await db
+      .select({
+        id: modelProfiles.id,
+        name: modelProfiles.name,
+        provider: modelProfiles.provider,
+        model: modelProfiles.model,
+        baseUrl: modelProfiles.baseUrl,
+        apiKey: modelProfiles.apiKey,
+        headersJson: modelProfiles.headersJson,
+      })
+      .from(modelProfiles)
+      .where(inArray(modelProfiles.id, input.ids));
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    return input.ids.flatMap((id) => {
+      const row = byId.get(id);
+      if (!row || !row.model || !row.baseUrl || !row.apiKey) return [];
+      return [
+        {
+          profileId: row.id,
+          profileName: row.name,
+          provider: row.provider as ModelProvider,
+          model: row.model,
+          baseUrl: row.baseUrl,
+          apiKey: row.apiKey,
+          headers: parseHeadersJson(row.headersJson),
+        },
+      ];
+    });
+  },
 
+  async setAgentHistory(input: { agentId: UUID; llmHistory: string; workspaceId?: UUID }) {
+    const db = getDb();
     const workspaceId =
       input.workspaceId ??
       (
@@ -1629,6 +2821,10 @@ export const store = {
           .where(eq(agents.id, input.agentId))
           .limit(1)
       )[0]?.workspaceId;
+    const redacted = workspaceId ? await recentRedactionTexts(workspaceId) : [];
+    const llmHistory = redacted.length > 0 ? scrubRedactedHistory(input.llmHistory, redacted) : input.llmHistory;
+    await db.update(agents).set({ llmHistory }).where(eq(agents.id, input.agentId));
+
     if (workspaceId) {
       await emitDbWrite({
         workspaceId,
@@ -1663,6 +2859,7 @@ export const store = {
     workspaceId: UUID;
     includeKinds?: AgentKind[];
     excludeKinds?: AgentKind[];
+    excludeAgentIds?: UUID[];
   }) {
     const db = getDb();
     const rows = await db
@@ -1671,9 +2868,11 @@ export const store = {
       .where(and(eq(agents.workspaceId, input.workspaceId), isNull(agents.deletedAt)));
     const include = new Set(input.includeKinds ?? []);
     const exclude = new Set(input.excludeKinds ?? []);
+    const excludeIds = new Set(input.excludeAgentIds ?? []);
     const ids = rows
       .filter((r) => (include.size === 0 ? true : include.has(r.kind as AgentKind)))
       .filter((r) => !exclude.has(r.kind as AgentKind))
+      .filter((r) => !excludeIds.has(r.id))
       .map((r) => r.id);
     if (ids.length > 0) {
       await db
@@ -1840,6 +3039,9 @@ export const store = {
         senderId: UUID;
         contentType: string;
         content: string;
+        replyToId: UUID | null;
+        mentions: UUID[];
+        attachments: ArtifactRecord[];
         sendTime: string;
       }>;
     }>
@@ -1884,19 +3086,33 @@ export const store = {
           senderId: messages.senderId,
           content: messages.content,
           contentType: messages.contentType,
+          replyToId: messages.replyToId,
+          mentionsJson: messages.mentionsJson,
+          attachmentsJson: messages.attachmentsJson,
           sendTime: messages.sendTime,
         })
         .from(messages)
         .where(
-          and(eq(messages.groupId, m.groupId), gt(messages.sendTime, cutoff), ne(messages.senderId, input.agentId))
+          and(
+            eq(messages.groupId, m.groupId),
+            gt(messages.sendTime, cutoff),
+            ne(messages.senderId, input.agentId),
+            isNull(messages.deletedAt)
+          )
         )
         .orderBy(messages.sendTime);
 
       if (rows.length === 0) continue;
 
+      const attachments = await this.resolveMessageAttachments(rows);
       result.push({
         groupId: m.groupId,
-        messages: rows.map((row) => ({ ...row, sendTime: row.sendTime.toISOString() })),
+        messages: rows.map(({ mentionsJson, attachmentsJson, ...row }) => ({
+          ...row,
+          mentions: parseIdList(mentionsJson),
+          attachments: attachments(attachmentsJson),
+          sendTime: row.sendTime.toISOString(),
+        })),
       });
     }
 
@@ -1924,6 +3140,7 @@ export const store = {
             kind: groups.kind,
             workspaceId: groups.workspaceId,
             contextTokens: groups.contextTokens,
+            wakeMode: groups.wakeMode,
             createdAt: groups.createdAt,
           })
           .from(groups)
@@ -1941,6 +3158,7 @@ export const store = {
             kind: groups.kind,
             workspaceId: groups.workspaceId,
             contextTokens: groups.contextTokens,
+            wakeMode: groups.wakeMode,
             createdAt: groups.createdAt,
           })
           .from(groups)
@@ -1968,7 +3186,7 @@ export const store = {
           sendTime: messages.sendTime,
         })
         .from(messages)
-        .where(eq(messages.groupId, g.id))
+        .where(and(eq(messages.groupId, g.id), isNull(messages.deletedAt)))
         .orderBy(desc(messages.sendTime))
         .limit(1);
 
@@ -2014,6 +3232,7 @@ export const store = {
         memberIds: members.map((m) => m.userId),
         unreadCount,
         contextTokens: g.contextTokens ?? 0,
+        wakeMode: g.wakeMode as GroupWakeMode,
         lastMessage: lastMessage[0]
           ? {
               content: lastMessage[0].content,
@@ -2030,6 +3249,39 @@ export const store = {
     return result.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
   },
 
+  async getGroupWakeMode(input: { groupId: UUID }): Promise<GroupWakeMode> {
+    const db = getDb();
+    const rows = await db.select({ wakeMode: groups.wakeMode }).from(groups).where(eq(groups.id, input.groupId)).limit(1);
+    return rows[0]?.wakeMode === "mentions" ? "mentions" : "all";
+  },
+
+  async setGroupWakeMode(input: { groupId: UUID; wakeMode: GroupWakeMode }): Promise<boolean> {
+    const db = getDb();
+    const updated = await db
+      .update(groups)
+      .set({ wakeMode: input.wakeMode })
+      .where(and(eq(groups.id, input.groupId), isNull(groups.deletedAt)))
+      .returning({ workspaceId: groups.workspaceId });
+    if (!updated[0]) return false;
+    await emitDbWrite({
+      workspaceId: updated[0].workspaceId,
+      table: "groups",
+      action: "update",
+      recordId: input.groupId,
+    });
+    return true;
+  },
+
+  /** Members with their roles, for resolving `@role` mentions. */
+  async listGroupMemberRoles(input: { groupId: UUID }): Promise<Array<{ id: UUID; role: string }>> {
+    const db = getDb();
+    return db
+      .select({ id: agents.id, role: agents.role })
+      .from(groupMembers)
+      .innerJoin(agents, eq(agents.id, groupMembers.userId))
+      .where(and(eq(groupMembers.groupId, input.groupId), isNull(agents.deletedAt)));
+  },
+
   async setGroupContextTokens(input: { groupId: UUID; tokens: number }) {
     const db = getDb();
     const group = await db
@@ -2056,9 +3308,13 @@ export const store = {
     rootGroupId: UUID;
     ownerAgentId: UUID;
     goal: string;
-    status: "running" | "stopping" | "stopped" | "completed";
+    status: "running" | "paused" | "stopping" | "stopped" | "completed";
     budgetJson: string;
     metricsJson: string;
+    workflowJson?: string;
+    completionJson?: string;
+    templateId?: UUID | null;
+    templateVersion?: number | null;
     startAt: Date;
     deadlineAt: Date;
   }): Promise<TaskRunRecord> {
@@ -2075,6 +3331,10 @@ export const store = {
       stopReason: null,
       budgetJson: input.budgetJson,
       metricsJson: input.metricsJson,
+      workflowJson: input.workflowJson ?? "",
+      completionJson: input.completionJson ?? "",
+      templateId: input.templateId ?? null,
+      templateVersion: input.templateVersion ?? null,
       summaryMessageId: null,
       startAt: input.startAt,
       deadlineAt: input.deadlineAt,
@@ -2097,11 +3357,12 @@ export const store = {
   async updateTaskRun(input: {
     taskId: UUID;
     workspaceId: UUID;
-    status?: "running" | "stopping" | "stopped" | "completed";
+    status?: "running" | "paused" | "stopping" | "stopped" | "completed";
     stopReason?: TaskStopReason | null;
     budgetJson?: string;
     metricsJson?: string;
     summaryMessageId?: UUID | null;
+    deadlineAt?: Date;
     stoppedAt?: Date | null;
   }): Promise<TaskRunRecord | null> {
     const db = getDb();
@@ -2111,6 +3372,7 @@ export const store = {
     if (typeof input.budgetJson === "string") patch.budgetJson = input.budgetJson;
     if (typeof input.metricsJson === "string") patch.metricsJson = input.metricsJson;
     if (typeof input.summaryMessageId !== "undefined") patch.summaryMessageId = input.summaryMessageId;
+    if (input.deadlineAt instanceof Date) patch.deadlineAt = input.deadlineAt;
     if (typeof input.stoppedAt !== "undefined") patch.stoppedAt = input.stoppedAt;
 
     await db
@@ -2140,6 +3402,10 @@ export const store = {
         stopReason: taskRuns.stopReason,
         budgetJson: taskRuns.budgetJson,
         metricsJson: taskRuns.metricsJson,
+        workflowJson: taskRuns.workflowJson,
+        completionJson: taskRuns.completionJson,
+        templateId: taskRuns.templateId,
+        templateVersion: taskRuns.templateVersion,
         summaryMessageId: taskRuns.summaryMessageId,
         startAt: taskRuns.startAt,
         deadlineAt: taskRuns.deadlineAt,
@@ -2162,6 +3428,10 @@ export const store = {
       stopReason: (row.stopReason as TaskStopReason | null) ?? null,
       budgetJson: row.budgetJson,
       metricsJson: row.metricsJson,
+      workflowJson: row.workflowJson,
+      completionJson: row.completionJson,
+      templateId: row.templateId ?? null,
+      templateVersion: row.templateVersion ?? null,
       summaryMessageId: row.summaryMessageId,
       startAt: row.startAt.toISOString(),
       deadlineAt: row.deadlineAt.toISOString(),
@@ -2184,6 +3454,10 @@ export const store = {
         stopReason: taskRuns.stopReason,
         budgetJson: taskRuns.budgetJson,
         metricsJson: taskRuns.metricsJson,
+        workflowJson: taskRuns.workflowJson,
+        completionJson: taskRuns.completionJson,
+        templateId: taskRuns.templateId,
+        templateVersion: taskRuns.templateVersion,
         summaryMessageId: taskRuns.summaryMessageId,
         startAt: taskRuns.startAt,
         deadlineAt: taskRuns.deadlineAt,
@@ -2207,6 +3481,10 @@ export const store = {
       stopReason: (row.stopReason as TaskStopReason | null) ?? null,
       budgetJson: row.budgetJson,
       metricsJson: row.metricsJson,
+      workflowJson: row.workflowJson,
+      completionJson: row.completionJson,
+      templateId: row.templateId ?? null,
+      templateVersion: row.templateVersion ?? null,
       summaryMessageId: row.summaryMessageId,
       startAt: row.startAt.toISOString(),
       deadlineAt: row.deadlineAt.toISOString(),
@@ -2229,6 +3507,10 @@ export const store = {
         stopReason: taskRuns.stopReason,
         budgetJson: taskRuns.budgetJson,
         metricsJson: taskRuns.metricsJson,
+        workflowJson: taskRuns.workflowJson,
+        completionJson: taskRuns.completionJson,
+        templateId: taskRuns.templateId,
+        templateVersion: taskRuns.templateVersion,
         summaryMessageId: taskRuns.summaryMessageId,
         startAt: taskRuns.startAt,
         deadlineAt: taskRuns.deadlineAt,
@@ -2237,7 +3519,7 @@ export const store = {
         updatedAt: taskRuns.updatedAt,
       })
       .from(taskRuns)
-      .where(or(eq(taskRuns.status, "running"), eq(taskRuns.status, "stopping")))
+      .where(or(eq(taskRuns.status, "running"), eq(taskRuns.status, "paused"), eq(taskRuns.status, "stopping")))
       .orderBy(desc(taskRuns.updatedAt));
 
     return rows.map((row) => ({
@@ -2250,6 +3532,10 @@ export const store = {
       stopReason: (row.stopReason as TaskStopReason | null) ?? null,
       budgetJson: row.budgetJson,
       metricsJson: row.metricsJson,
+      workflowJson: row.workflowJson,
+      completionJson: row.completionJson,
+      templateId: row.templateId ?? null,
+      templateVersion: row.templateVersion ?? null,
       summaryMessageId: row.summaryMessageId,
       startAt: row.startAt.toISOString(),
       deadlineAt: row.deadlineAt.toISOString(),
@@ -2259,6 +3545,314 @@ export const store = {
     }));
   },
 
+  async upsertTaskRunStep(input: {
+    taskId: UUID;
+    stepId: string;
+    workspaceId: UUID;
+    status: TaskRunStepRecord["status"];
+    assigneeAgentId?: UUID | null;
+    attempts?: number;
+    outputText?: string;
+    checkNote?: string | null;
+    startedAt?: Date | null;
+    completedAt?: Date | null;
+  }) {
+    const db = getDb();
+    const updatedAt = now();
+    const patch: Record<string, unknown> = { status: input.status, updatedAt };
+    if (typeof input.assigneeAgentId !== "undefined") patch.assigneeAgentId = input.assigneeAgentId;
+    if (typeof input.attempts === "number") patch.attempts = input.attempts;
+    if (typeof input.outputText === "string") patch.outputText = input.outputText;
+    if (typeof input.checkNote !== "undefined") patch.checkNote = input.checkNote;
+    if (typeof input.startedAt !== "undefined") patch.startedAt = input.startedAt;
+    if (typeof input.completedAt !== "undefined") patch.completedAt = input.completedAt;
+
+    await db
+      .insert(taskRunSteps)
+      .values({
+        taskId: input.taskId,
+        stepId: input.stepId,
+        workspaceId: input.workspaceId,
+        status: input.status,
+        assigneeAgentId: input.assigneeAgentId ?? null,
+        attempts: input.attempts ?? 0,
+        outputText: input.outputText ?? "",
+        checkNote: input.checkNote ?? null,
+        startedAt: input.startedAt ?? null,
+        completedAt: input.completedAt ?? null,
+        updatedAt,
+      })
+      .onConflictDoUpdate({ target: [taskRunSteps.taskId, taskRunSteps.stepId], set: patch });
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "task_run_steps",
+      action: "update",
+      recordId: input.taskId,
+    });
+  },
+
+  async listTaskRunSteps(input: { taskId: UUID }): Promise<TaskRunStepRecord[]> {
+    const db = getDb();
+    const rows = await db.select().from(taskRunSteps).where(eq(taskRunSteps.taskId, input.taskId));
+    return rows.map((row) => ({
+      taskId: row.taskId,
+      stepId: row.stepId,
+      workspaceId: row.workspaceId,
+      status: row.status as TaskRunStepRecord["status"],
+      assigneeAgentId: row.assigneeAgentId,
+      attempts: row.attempts,
+      outputText: row.outputText,
+      checkNote: row.checkNote,
+      startedAt: row.startedAt ? row.startedAt.toISOString() : null,
+      completedAt: row.completedAt ? row.completedAt.toISOString() : null,
+      updatedAt: row.updatedAt.toISOString(),
+    }));
+  },
+
+  /**
+   * Copies a task into a fresh workspace: the given agents (with their llm
+   * histories and model profiles), the root group with its messages and the
+   * artifacts they attach, the workflow steps and a paused task run. Every copied id
+   * is remapped, including ids quoted inside histories and message text, so the fork
+   * can diverge independently. Only artifact rows are written here; the caller
+   * copies their blobs using the returned `artifactIdMap`.
+   */
+  async forkTaskRun(input: {
+    taskId: UUID;
+    name: string;
+    agentIds: UUID[];
+    metricsJson: string;
+    deadlineAt: Date;
+  }): Promise<{
+    workspaceId: UUID;
+    taskId: UUID;
+    rootGroupId: UUID;
+    agentIdMap: Record<UUID, UUID>;
+    artifactIdMap: Record<UUID, UUID>;
+  }> {
+    const db = getDb();
+    const source = await this.getTaskRunById({ taskId: input.taskId });
+    if (!source) throw new Error("task not found");
+    const createdAt = now();
+    const idMap = new Map<string, UUID>();
+    const mapId = (id: string) => {
+      const key = id.toLowerCase();
+      let next = idMap.get(key);
+      if (!next) {
+        next = uuid();
+        idMap.set(key, next);
+      }
+      return next;
+    };
+    const remap = (text: string) =>
+      text.replace(
+        /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi,
+        (m) => idMap.get(m.toLowerCase()) ?? m
+      );
+
+    const workspaceId = mapId(source.workspaceId);
+    const taskId = mapId(source.id);
+    const rootGroupId = mapId(source.rootGroupId);
+
+    const [workspaceRows, agentRows, memberRows, messageRows, stepRows, revisionRows] = await Promise.all([
+      db.select().from(workspaces).where(eq(workspaces.id, source.workspaceId)).limit(1),
+      input.agentIds.length > 0
+        ? db
+            .select()
+            .from(agents)
+            .where(and(eq(agents.workspaceId, source.workspaceId), inArray(agents.id, input.agentIds)))
+        : Promise.resolve([]),
+      db.select().from(groupMembers).where(eq(groupMembers.groupId, source.rootGroupId)),
+      db.select().from(messages).where(eq(messages.groupId, source.rootGroupId)).orderBy(messages.sendTime),
+      db.select().from(taskRunSteps).where(eq(taskRunSteps.taskId, source.id)),
+      db
+        .select()
+        .from(messageRevisions)
+        .innerJoin(messages, eq(messages.id, messageRevisions.messageId))
+        .where(eq(messages.groupId, source.rootGroupId))
+        .orderBy(asc(messageRevisions.createdAt)),
+    ]);
+    const sourceWorkspace = workspaceRows[0];
+    if (!sourceWorkspace) throw new Error("workspace not found");
+    for (const agent of agentRows) mapId(agent.id);
+
+    const profileIds = [...new Set(agentRows.map((a) => a.modelProfileId).filter((id): id is UUID => !!id))];
+    const profileRows = profileIds.length
+      ? await db.select().from(modelProfiles).where(inArray(modelProfiles.id, profileIds))
+      : [];
+    const fallbackIds = profileRows
+      .flatMap((p) => parseStringList(p.fallbackProfileIdsJson))
+      .filter((id) => !profileIds.includes(id));
+    const fallbackRows = fallbackIds.length
+      ? await db.select().from(modelProfiles).where(inArray(modelProfiles.id, [...new Set(fallbackIds)]))
+      : [];
+    const allProfiles = [...profileRows, ...fallbackRows].filter((p) => p.workspaceId === source.workspaceId);
+    for (const profile of allProfiles) mapId(profile.id);
+
+    const copiedAgentIds = new Set(agentRows.map((a) => a.id));
+    const copiedMessageIds = new Set(messageRows.map((m) => m.id));
+    for (const m of messageRows) mapId(m.id);
+    const attachmentIds = [...new Set(messageRows.flatMap((m) => parseIdList(m.attachmentsJson)))];
+    const artifactRows = attachmentIds.length
+      ? await db
+          .select()
+          .from(artifacts)
+          .where(and(eq(artifacts.workspaceId, source.workspaceId), inArray(artifacts.id, attachmentIds)))
+      : [];
+    const copiedArtifactIds = new Set(artifactRows.map((a) => a.id));
+    for (const a of artifactRows) mapId(a.id);
+    const sourceGroup = (await this.listGroups({ workspaceId: source.workspaceId })).find(
+      (g) => g.id === source.rootGroupId
+    );
+
+    await db.transaction(async (tx) => {
+      await tx.insert(workspaces).values({ ...sourceWorkspace, id: workspaceId, name: input.name, createdAt });
+      if (allProfiles.length > 0) {
+        await tx.insert(modelProfiles).values(
+          allProfiles.map((p) => ({
+            ...p,
+            id: idMap.get(p.id)!,
+            workspaceId,
+            fallbackProfileIdsJson: remap(p.fallbackProfileIdsJson),
+            createdAt,
+            updatedAt: createdAt,
+          }))
+        );
+      }
+      if (agentRows.length > 0) {
+        await tx.insert(agents).values(
+          agentRows.map((a) => ({
+            ...a,
+            id: idMap.get(a.id)!,
+            workspaceId,
+            parentId: a.parentId && copiedAgentIds.has(a.parentId) ? idMap.get(a.parentId)! : null,
+            modelProfileId: a.modelProfileId ? (idMap.get(a.modelProfileId) ?? null) : null,
+            // The forked task starts paused; resuming re-enables its agents.
+            autoRunEnabled: false,
+            llmHistory: remap(a.llmHistory),
+            createdAt,
+          }))
+        );
+      }
+      await tx.insert(groups).values({
+        id: rootGroupId,
+        workspaceId,
+        name: sourceGroup?.name ?? null,
+        kind: "chat",
+        deletedAt: null,
+        contextTokens: sourceGroup?.contextTokens ?? 0,
+        createdAt,
+      });
+      const members = memberRows.filter((m) => copiedAgentIds.has(m.userId));
+      if (members.length > 0) {
+        await tx.insert(groupMembers).values(
+          members.map((m) => ({
+            groupId: rootGroupId,
+            userId: idMap.get(m.userId)!,
+            lastReadMessageId: null,
+            joinedAt: createdAt,
+          }))
+        );
+      }
+      if (messageRows.length > 0) {
+        await tx.insert(messages).values(
+          messageRows.map((m) => ({
+            ...m,
+            id: idMap.get(m.id)!,
+            workspaceId,
+            groupId: rootGroupId,
+            senderId: idMap.get(m.senderId) ?? m.senderId,
+            content: remap(m.content),
+            // Threads and mentions only survive when their target came along into the fork.
+            replyToId: m.replyToId && copiedMessageIds.has(m.replyToId) ? idMap.get(m.replyToId)! : null,
+            mentionsJson: JSON.stringify(
+              parseIdList(m.mentionsJson)
+                .filter((id) => copiedAgentIds.has(id))
+                .map((id) => idMap.get(id)!)
+            ),
+            attachmentsJson: JSON.stringify(
+              parseIdList(m.attachmentsJson)
+                .filter((id) => copiedArtifactIds.has(id))
+                .map((id) => idMap.get(id)!)
+            ),
+          }))
+        );
+      }
+      if (revisionRows.length > 0) {
+        // The audit trail travels with its messages; actors that were not copied keep their original id.
+        await tx.insert(messageRevisions).values(
+          revisionRows.map(({ message_revisions: r }) => ({
+            ...r,
+            id: uuid(),
+            messageId: idMap.get(r.messageId)!,
+            workspaceId,
+            priorContent: remap(r.priorContent),
+            actorId: r.actorId ? (idMap.get(r.actorId) ?? r.actorId) : null,
+          }))
+        );
+      }
+      if (artifactRows.length > 0) {
+        await tx.insert(artifacts).values(
+          artifactRows.map((a) => ({
+            ...a,
+            id: idMap.get(a.id)!,
+            workspaceId,
+            createdByAgentId:
+              a.createdByAgentId && copiedAgentIds.has(a.createdByAgentId) ? idMap.get(a.createdByAgentId)! : null,
+            taskRunId: a.taskRunId === source.id ? taskId : null,
+            groupId: a.groupId === source.rootGroupId ? rootGroupId : null,
+          }))
+        );
+      }
+      await tx.insert(taskRuns).values({
+        id: taskId,
+        workspaceId,
+        rootGroupId,
+        ownerAgentId: idMap.get(source.ownerAgentId) ?? source.ownerAgentId,
+        goal: source.goal,
+        status: "paused",
+        stopReason: null,
+        budgetJson: source.budgetJson,
+        metricsJson: remap(input.metricsJson),
+        workflowJson: source.workflowJson,
+        completionJson: source.completionJson,
+        templateId: source.templateId,
+        templateVersion: source.templateVersion,
+        summaryMessageId: null,
+        startAt: new Date(source.startAt),
+        deadlineAt: input.deadlineAt,
+        stoppedAt: null,
+        createdAt,
+        updatedAt: createdAt,
+      });
+      if (stepRows.length > 0) {
+        await tx.insert(taskRunSteps).values(
+          stepRows.map((st) => ({
+            ...st,
+            taskId,
+            workspaceId,
+            assigneeAgentId: st.assigneeAgentId ? (idMap.get(st.assigneeAgentId) ?? null) : null,
+            outputText: remap(st.outputText),
+            updatedAt: createdAt,
+          }))
+        );
+      }
+    });
+
+    for (const table of ["workspaces", "agents", "groups", "messages", "message_revisions", "artifacts", "task_runs"]) {
+      await emitDbWrite({ workspaceId, table, action: "insert", recordId: table === "task_runs" ? taskId : null });
+    }
+
+    return {
+      workspaceId,
+      taskId,
+      rootGroupId,
+      agentIdMap: Object.fromEntries(agentRows.map((a) => [a.id, idMap.get(a.id)!])),
+      artifactIdMap: Object.fromEntries(artifactRows.map((a) => [a.id, idMap.get(a.id)!])),
+    };
+  },
+
   async listRecentWorkspaceMessages(input: { workspaceId: UUID; limit?: number }) {
     const db = getDb();
     const limit = Math.max(1, Math.min(5000, input.limit ?? 2000));
@@ -2282,46 +3876,266 @@ export const store = {
     }));
   },
 
-  async createTaskReview(input: {
-    taskId: UUID;
+  /**
+   * Full-text search across message bodies, task goals, task reviews and game
+   * speeches. Every source is queried through its own expression index and the
+   * hits are merged by rank. Reviews have no sender and are skipped when
+   * senderId is set; a contentType filter only applies to (and keeps only) messages.
+   */
+  async searchContent(input: {
     workspaceId: UUID;
-    reviewJson: string;
-    narrativeText: string;
-  }): Promise<TaskReviewRecord> {
+    terms: string[];
+    kinds: SearchKind[];
+    groupId?: UUID;
+    senderId?: UUID;
+    contentType?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  }): Promise<SearchHit[]> {
     const db = getDb();
-    const createdAt = now();
-    await db.delete(taskReviews).where(eq(taskReviews.taskId, input.taskId));
-    await db.insert(taskReviews).values({
-      taskId: input.taskId,
-      workspaceId: input.workspaceId,
-      reviewJson: input.reviewJson,
-      narrativeText: input.narrativeText,
-      createdAt,
-    });
-    await emitDbWrite({
-      workspaceId: input.workspaceId,
-      table: "task_reviews",
-      action: "insert",
-      recordId: input.taskId,
-    });
-    return {
-      taskId: input.taskId,
-      workspaceId: input.workspaceId,
-      reviewJson: input.reviewJson,
-      narrativeText: input.narrativeText,
-      createdAt: createdAt.toISOString(),
+    const limit = Math.max(1, Math.min(100, input.limit ?? 20));
+    if (input.terms.length === 0) return [];
+    const kinds = new Set(input.contentType ? input.kinds.filter((k) => k === "message") : input.kinds);
+    if (input.senderId) kinds.delete("task_review");
+
+    const query = dsql.join(
+      input.terms.map((term) => dsql`phraseto_tsquery('simple', search_tokens(${term}))`),
+      dsql` && `
+    );
+    const document = (column: unknown) => dsql`to_tsvector('simple', search_tokens(${column}))`;
+    const matches = (column: unknown) => dsql`${document(column)} @@ (${query})`;
+    const rank = (column: unknown) => dsql<number>`ts_rank_cd(${document(column)}, ${query})`.mapWith(Number);
+    const timeRange = (column: AnyColumn) => [
+      input.from ? gte(column, input.from) : undefined,
+      input.to ? lte(column, input.to) : undefined,
+    ];
+    const hit = (
+      row: Omit<SearchHit, "snippet" | "createdAt"> & { text: string | null; createdAt: Date }
+    ): SearchHit => {
+      const { text, createdAt, ...rest } = row;
+      return { ...rest, createdAt: createdAt.toISOString(), snippet: buildSearchSnippet(text ?? "", input.terms) };
     };
-  },
+    const hits: SearchHit[] = [];
 
-  async getTaskReview(input: { taskId: UUID }): Promise<TaskReviewRecord | null> {
-    const db = getDb();
-    const rows = await db
-      .select({
-        taskId: taskReviews.taskId,
-        workspaceId: taskReviews.workspaceId,
-        reviewJson: taskReviews.reviewJson,
-        narrativeText: taskReviews.narrativeText,
-        createdAt: taskReviews.createdAt,
+    if (kinds.has("message")) {
+      const rows = await db
+        .select({
+          id: messages.id,
+          groupId: messages.groupId,
+          senderId: messages.senderId,
+          contentType: messages.contentType,
+          content: messages.content,
+          sendTime: messages.sendTime,
+          rank: rank(messages.content),
+        })
+        .from(messages)
+        .innerJoin(groups, eq(groups.id, messages.groupId))
+        .where(
+          and(
+            eq(messages.workspaceId, input.workspaceId),
+            isNull(groups.deletedAt),
+            isNull(messages.deletedAt),
+            matches(messages.content),
+            input.groupId ? eq(messages.groupId, input.groupId) : undefined,
+            input.senderId ? eq(messages.senderId, input.senderId) : undefined,
+            input.contentType ? eq(messages.contentType, input.contentType) : undefined,
+            ...timeRange(messages.sendTime)
+          )
+        )
+        .orderBy(desc(rank(messages.content)), desc(messages.sendTime))
+        .limit(limit);
+      for (const r of rows) {
+        hits.push(
+          hit({
+            kind: "message",
+            id: r.id,
+            groupId: r.groupId,
+            senderId: r.senderId,
+            taskId: null,
+            gameId: null,
+            contentType: r.contentType,
+            createdAt: r.sendTime,
+            rank: r.rank,
+            text: r.content,
+          })
+        );
+      }
+    }
+
+    if (kinds.has("task_goal")) {
+      const rows = await db
+        .select({
+          id: taskRuns.id,
+          groupId: taskRuns.rootGroupId,
+          ownerAgentId: taskRuns.ownerAgentId,
+          goal: taskRuns.goal,
+          createdAt: taskRuns.createdAt,
+          rank: rank(taskRuns.goal),
+        })
+        .from(taskRuns)
+        .where(
+          and(
+            eq(taskRuns.workspaceId, input.workspaceId),
+            matches(taskRuns.goal),
+            input.groupId ? eq(taskRuns.rootGroupId, input.groupId) : undefined,
+            input.senderId ? eq(taskRuns.ownerAgentId, input.senderId) : undefined,
+            ...timeRange(taskRuns.createdAt)
+          )
+        )
+        .orderBy(desc(rank(taskRuns.goal)), desc(taskRuns.createdAt))
+        .limit(limit);
+      for (const r of rows) {
+        hits.push(
+          hit({
+            kind: "task_goal",
+            id: r.id,
+            groupId: r.groupId,
+            senderId: r.ownerAgentId,
+            taskId: r.id,
+            gameId: null,
+            contentType: null,
+            createdAt: r.createdAt,
+            rank: r.rank,
+            text: r.goal,
+          })
+        );
+      }
+    }
+
+    if (kinds.has("task_review")) {
+      const rows = await db
+        .select({
+          taskId: taskReviews.taskId,
+          groupId: taskRuns.rootGroupId,
+          narrativeText: taskReviews.narrativeText,
+          createdAt: taskReviews.createdAt,
+          rank: rank(taskReviews.narrativeText),
+        })
+        .from(taskReviews)
+        .innerJoin(taskRuns, eq(taskRuns.id, taskReviews.taskId))
+        .where(
+          and(
+            eq(taskReviews.workspaceId, input.workspaceId),
+            matches(taskReviews.narrativeText),
+            input.groupId ? eq(taskRuns.rootGroupId, input.groupId) : undefined,
+            ...timeRange(taskReviews.createdAt)
+          )
+        )
+        .orderBy(desc(rank(taskReviews.narrativeText)), desc(taskReviews.createdAt))
+        .limit(limit);
+      for (const r of rows) {
+        hits.push(
+          hit({
+            kind: "task_review",
+            id: r.taskId,
+            groupId: r.groupId,
+            senderId: null,
+            taskId: r.taskId,
+            gameId: null,
+            contentType: null,
+            createdAt: r.createdAt,
+            rank: r.rank,
+            text: r.narrativeText,
+          })
+        );
+      }
+    }
+
+    if (kinds.has("game_speech")) {
+      // Both games log speeches as round events with the spoken text under payload.text.
+      for (const [events, games] of [
+        [undercoverRoundEvents, undercoverGames],
+        [werewolfRoundEvents, werewolfGames],
+      ] as const) {
+        // Spelled exactly like the partial index expression so the planner can use it.
+        const speech = dsql`(${events.payloadJson}::jsonb ->> 'text')`;
+        const rows = await db
+          .select({
+            id: events.id,
+            gameId: events.gameId,
+            groupId: games.groupId,
+            actorAgentId: events.actorAgentId,
+            text: dsql<string | null>`${speech}`,
+            createdAt: events.createdAt,
+            rank: rank(speech),
+          })
+          .from(events)
+          .innerJoin(games, eq(games.id, events.gameId))
+          .where(
+            and(
+              eq(games.workspaceId, input.workspaceId),
+              dsql`${events.eventType} = 'speech'`,
+              matches(speech),
+              input.groupId ? eq(games.groupId, input.groupId) : undefined,
+              input.senderId ? eq(events.actorAgentId, input.senderId) : undefined,
+              ...timeRange(events.createdAt)
+            )
+          )
+          .orderBy(desc(rank(speech)), desc(events.createdAt))
+          .limit(limit);
+        for (const r of rows) {
+          hits.push(
+            hit({
+              kind: "game_speech",
+              id: r.id,
+              groupId: r.groupId,
+              senderId: r.actorAgentId,
+              taskId: null,
+              gameId: r.gameId,
+              contentType: null,
+              createdAt: r.createdAt,
+              rank: r.rank,
+              text: r.text,
+            })
+          );
+        }
+      }
+    }
+
+    return hits.sort((a, b) => b.rank - a.rank || b.createdAt.localeCompare(a.createdAt)).slice(0, limit);
+  },
+
+  async createTaskReview(input: {
+    taskId: UUID;
+    workspaceId: UUID;
+    reviewJson: string;
+    narrativeText: string;
+  }): Promise<TaskReviewRecord> {
+    const db = getDb();
+    const createdAt = now();
+    await db.delete(taskReviews).where(eq(taskReviews.taskId, input.taskId));
+    await db.insert(taskReviews).values({
+      taskId: input.taskId,
+      workspaceId: input.workspaceId,
+      reviewJson: input.reviewJson,
+      narrativeText: input.narrativeText,
+      createdAt,
+    });
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "task_reviews",
+      action: "insert",
+      recordId: input.taskId,
+    });
+    return {
+      taskId: input.taskId,
+      workspaceId: input.workspaceId,
+      reviewJson: input.reviewJson,
+      narrativeText: input.narrativeText,
+      createdAt: createdAt.toISOString(),
+    };
+  },
+
+  async getTaskReview(input: { taskId: UUID }): Promise<TaskReviewRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .select({
+        taskId: taskReviews.taskId,
+        workspaceId: taskReviews.workspaceId,
+        reviewJson: taskReviews.reviewJson,
+        narrativeText: taskReviews.narrativeText,
+        createdAt: taskReviews.createdAt,
       })
       .from(taskReviews)
       .where(eq(taskReviews.taskId, input.taskId))
@@ -2336,4 +4150,2049 @@ export const store = {
       createdAt: row.createdAt.toISOString(),
     };
   },
+
+  async listTaskSchedules(input: { workspaceId: UUID }): Promise<TaskScheduleRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(taskSchedules)
+      .where(eq(taskSchedules.workspaceId, input.workspaceId))
+      .orderBy(desc(taskSchedules.createdAt));
+    return rows.map(toTaskScheduleRecord);
+  },
+
+  async getTaskSchedule(input: { id: UUID; workspaceId?: UUID }): Promise<TaskScheduleRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(taskSchedules)
+      .where(
+        and(
+          eq(taskSchedules.id, input.id),
+          input.workspaceId ? eq(taskSchedules.workspaceId, input.workspaceId) : undefined
+        )
+      )
+      .limit(1);
+    return rows[0] ? toTaskScheduleRecord(rows[0]) : null;
+  },
+
+  async createTaskSchedule(input: {
+    workspaceId: UUID;
+    name: string;
+    trigger: ScheduleTrigger;
+    task: ScheduledTaskSpec;
+    enabled: boolean;
+    anchorAt: Date;
+    nextRunAt: Date | null;
+  }): Promise<TaskScheduleRecord> {
+    const db = getDb();
+    const createdAt = now();
+    const rows = await db
+      .insert(taskSchedules)
+      .values({
+        id: uuid(),
+        workspaceId: input.workspaceId,
+        name: input.name,
+        triggerJson: JSON.stringify(input.trigger),
+        taskJson: JSON.stringify(input.task),
+        enabled: input.enabled,
+        anchorAt: input.anchorAt,
+        nextRunAt: input.nextRunAt,
+        lastRunAt: null,
+        createdAt,
+        updatedAt: createdAt,
+      })
+      .returning();
+    const row = rows[0]!;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "task_schedules",
+      action: "insert",
+      recordId: row.id,
+    });
+    return toTaskScheduleRecord(row);
+  },
+
+  async updateTaskSchedule(input: {
+    id: UUID;
+    workspaceId: UUID;
+    name?: string;
+    trigger?: ScheduleTrigger;
+    task?: ScheduledTaskSpec;
+    enabled?: boolean;
+    anchorAt?: Date;
+    nextRunAt?: Date | null;
+    lastRunAt?: Date;
+  }): Promise<TaskScheduleRecord | null> {
+    const db = getDb();
+    const patch: Record<string, unknown> = { updatedAt: now() };
+    if (typeof input.name === "string") patch.name = input.name;
+    if (input.trigger) patch.triggerJson = JSON.stringify(input.trigger);
+    if (input.task) patch.taskJson = JSON.stringify(input.task);
+    if (typeof input.enabled === "boolean") patch.enabled = input.enabled;
+    if (input.anchorAt) patch.anchorAt = input.anchorAt;
+    if (input.nextRunAt !== undefined) patch.nextRunAt = input.nextRunAt;
+    if (input.lastRunAt) patch.lastRunAt = input.lastRunAt;
+
+    const rows = await db
+      .update(taskSchedules)
+      .set(patch)
+      .where(and(eq(taskSchedules.id, input.id), eq(taskSchedules.workspaceId, input.workspaceId)))
+      .returning();
+    if (!rows[0]) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "task_schedules",
+      action: "update",
+      recordId: input.id,
+    });
+    return toTaskScheduleRecord(rows[0]);
+  },
+
+  async deleteTaskSchedule(input: { id: UUID; workspaceId: UUID }) {
+    const db = getDb();
+    const deleted = await db.transaction(async (tx) => {
+      const owned = await tx
+        .select({ id: taskSchedules.id })
+        .from(taskSchedules)
+        .where(and(eq(taskSchedules.id, input.id), eq(taskSchedules.workspaceId, input.workspaceId)))
+        .limit(1);
+      if (!owned[0]) return false;
+      await tx.delete(taskScheduleRuns).where(eq(taskScheduleRuns.scheduleId, input.id));
+      await tx.delete(taskSchedules).where(eq(taskSchedules.id, input.id));
+      return true;
+    });
+    if (!deleted) return false;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "task_schedules",
+      action: "delete",
+      recordId: input.id,
+    });
+    return true;
+  },
+
+  /** Enabled schedules whose next run is due, oldest first, across all workspaces. */
+  async listDueTaskSchedules(input: { dueBy: Date; limit?: number }): Promise<TaskScheduleRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(taskSchedules)
+      .where(and(eq(taskSchedules.enabled, true), lte(taskSchedules.nextRunAt, input.dueBy)))
+      .orderBy(asc(taskSchedules.nextRunAt))
+      .limit(Math.max(1, Math.min(100, input.limit ?? 20)));
+    return rows.map(toTaskScheduleRecord);
+  },
+
+  /**
+   * Advances a due schedule to its next run. The update only applies while
+   * next_run_at still holds the value the caller saw, so when several server
+   * processes race for the same occurrence exactly one of them fires it.
+   */
+  async claimTaskScheduleRun(input: {
+    id: UUID;
+    expectedNextRunAt: Date;
+    nextRunAt: Date | null;
+  }): Promise<boolean> {
+    const db = getDb();
+    const at = now();
+    const rows = await db
+      .update(taskSchedules)
+      .set({ nextRunAt: input.nextRunAt, lastRunAt: at, updatedAt: at })
+      .where(and(eq(taskSchedules.id, input.id), eq(taskSchedules.nextRunAt, input.expectedNextRunAt)))
+      .returning({ workspaceId: taskSchedules.workspaceId });
+    if (!rows[0]) return false;
+
+    await emitDbWrite({
+      workspaceId: rows[0].workspaceId,
+      table: "task_schedules",
+      action: "update",
+      recordId: input.id,
+    });
+    return true;
+  },
+
+  async insertTaskScheduleRun(input: {
+    scheduleId: UUID;
+    workspaceId: UUID;
+    scheduledFor: Date;
+    status: ScheduleRunStatus;
+    taskRunId?: UUID | null;
+    error?: string | null;
+  }): Promise<TaskScheduleRunRecord> {
+    const db = getDb();
+    const createdAt = now();
+    const id = uuid();
+    await db.insert(taskScheduleRuns).values({
+      id,
+      scheduleId: input.scheduleId,
+      workspaceId: input.workspaceId,
+      scheduledFor: input.scheduledFor,
+      status: input.status,
+      taskRunId: input.taskRunId ?? null,
+      error: input.error ?? null,
+      createdAt,
+    });
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "task_schedule_runs",
+      action: "insert",
+      recordId: id,
+    });
+    return {
+      id,
+      scheduleId: input.scheduleId,
+      workspaceId: input.workspaceId,
+      scheduledFor: input.scheduledFor.toISOString(),
+      status: input.status,
+      taskRunId: input.taskRunId ?? null,
+      error: input.error ?? null,
+      createdAt: createdAt.toISOString(),
+    };
+  },
+
+  async listTaskScheduleRuns(input: {
+    scheduleId: UUID;
+    workspaceId: UUID;
+    limit?: number;
+  }): Promise<TaskScheduleRunRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(taskScheduleRuns)
+      .where(
+        and(eq(taskScheduleRuns.scheduleId, input.scheduleId), eq(taskScheduleRuns.workspaceId, input.workspaceId))
+      )
+      .orderBy(desc(taskScheduleRuns.createdAt))
+      .limit(Math.max(1, Math.min(200, input.limit ?? 50)));
+    return rows.map((row) => ({
+      id: row.id,
+      scheduleId: row.scheduleId,
+      workspaceId: row.workspaceId,
+      scheduledFor: row.scheduledFor.toISOString(),
+      status: row.status as ScheduleRunStatus,
+      taskRunId: row.taskRunId,
+      error: row.error,
+      createdAt: row.createdAt.toISOString(),
+    }));
+  },
+
+  async listApiKeys(input: { workspaceId: UUID }): Promise<ApiKeyRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(apiKeys)
+      .where(eq(apiKeys.workspaceId, input.workspaceId))
+      .orderBy(desc(apiKeys.createdAt));
+    return rows.map(toApiKeyRecord);
+  },
+
+  async createApiKey(input: {
+    workspaceId: UUID;
+    name: string;
+    prefix: string;
+    keyHash: string;
+    scopes: ApiKeyScope[];
+  }): Promise<ApiKeyRecord> {
+    const db = getDb();
+    const rows = await db
+      .insert(apiKeys)
+      .values({
+        id: uuid(),
+        workspaceId: input.workspaceId,
+        name: input.name,
+        prefix: input.prefix,
+        keyHash: input.keyHash,
+        scopesJson: JSON.stringify(input.scopes),
+        lastUsedAt: null,
+        revokedAt: null,
+        createdAt: now(),
+      })
+      .returning();
+    const row = rows[0]!;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "api_keys",
+      action: "insert",
+      recordId: row.id,
+    });
+    return toApiKeyRecord(row);
+  },
+
+  async revokeApiKey(input: { id: UUID; workspaceId: UUID }): Promise<ApiKeyRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .update(apiKeys)
+      .set({ revokedAt: now() })
+      .where(and(eq(apiKeys.id, input.id), eq(apiKeys.workspaceId, input.workspaceId), isNull(apiKeys.revokedAt)))
+      .returning();
+    if (!rows[0]) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "api_keys",
+      action: "update",
+      recordId: input.id,
+    });
+    return toApiKeyRecord(rows[0]);
+  },
+
+  /** Looks up an unrevoked key by its public prefix, including the stored hash for verification. */
+  async findApiKeyByPrefix(input: { prefix: string }): Promise<(ApiKeyRecord & { keyHash: string }) | null> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.prefix, input.prefix), isNull(apiKeys.revokedAt)))
+      .limit(1);
+    return rows[0] ? { ...toApiKeyRecord(rows[0]), keyHash: rows[0].keyHash } : null;
+  },
+
+  async touchApiKey(input: { id: UUID }) {
+    const db = getDb();
+    await db.update(apiKeys).set({ lastUsedAt: now() }).where(eq(apiKeys.id, input.id));
+  },
+
+  async createArtifact(input: {
+    id: UUID;
+    workspaceId: UUID;
+    name: string;
+    mimeType: string;
+    sizeBytes: number;
+    sha256: string;
+    createdByAgentId?: UUID | null;
+    taskRunId?: UUID | null;
+    groupId?: UUID | null;
+  }): Promise<ArtifactRecord> {
+    const db = getDb();
+    const rows = await db
+      .insert(artifacts)
+      .values({
+        id: input.id,
+        workspaceId: input.workspaceId,
+        name: input.name,
+        mimeType: input.mimeType,
+        sizeBytes: input.sizeBytes,
+        sha256: input.sha256,
+        createdByAgentId: input.createdByAgentId ?? null,
+        taskRunId: input.taskRunId ?? null,
+        groupId: input.groupId ?? null,
+        createdAt: now(),
+      })
+      .returning();
+    await emitDbWrite({ workspaceId: input.workspaceId, table: "artifacts", action: "insert", recordId: input.id });
+    return toArtifactRecord(rows[0]!);
+  },
+
+  async getArtifact(input: { workspaceId: UUID; id: UUID }): Promise<ArtifactRecord | null> {
+    if (!isUuid(input.id)) return null;
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(artifacts)
+      .where(and(eq(artifacts.id, input.id), eq(artifacts.workspaceId, input.workspaceId)))
+      .limit(1);
+    return rows[0] ? toArtifactRecord(rows[0]) : null;
+  },
+
+  async listArtifacts(input: {
+    workspaceId: UUID;
+    taskRunId?: UUID;
+    groupId?: UUID;
+    limit?: number;
+  }): Promise<ArtifactRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(artifacts)
+      .where(
+        and(
+          eq(artifacts.workspaceId, input.workspaceId),
+          input.taskRunId ? eq(artifacts.taskRunId, input.taskRunId) : undefined,
+          input.groupId ? eq(artifacts.groupId, input.groupId) : undefined
+        )
+      )
+      .orderBy(desc(artifacts.createdAt))
+      .limit(Math.max(1, Math.min(500, input.limit ?? 100)));
+    return rows.map(toArtifactRecord);
+  },
+
+  /** The artifacts among `ids` that belong to the workspace, in the order given; used to check attachments. */
+  async listArtifactsByIds(input: { workspaceId: UUID; ids: UUID[] }): Promise<ArtifactRecord[]> {
+    const ids = input.ids.filter((id) => isUuid(id));
+    if (ids.length === 0) return [];
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(artifacts)
+      .where(and(eq(artifacts.workspaceId, input.workspaceId), inArray(artifacts.id, ids)));
+    const byId = new Map(rows.map((r) => [r.id, toArtifactRecord(r)]));
+    return ids.flatMap((id) => byId.get(id) ?? []);
+  },
+
+  async listAgentPersonas(input: { workspaceId: UUID }): Promise<AgentPersonaRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(agentPersonas)
+      .where(eq(agentPersonas.workspaceId, input.workspaceId))
+      .orderBy(asc(agentPersonas.name));
+    return rows.map(toAgentPersonaRecord);
+  },
+
+  /** Resolves a persona by id or by name. */
+  async getAgentPersona(input: { workspaceId: UUID; ref: string }): Promise<AgentPersonaRecord | null> {
+    const db = getDb();
+    const name = input.ref.trim().toLowerCase();
+    const rows = await db
+      .select()
+      .from(agentPersonas)
+      .where(
+        and(
+          eq(agentPersonas.workspaceId, input.workspaceId),
+          isUuid(input.ref) ? eq(agentPersonas.id, input.ref) : eq(agentPersonas.name, name)
+        )
+      )
+      .limit(1);
+    return rows[0] ? toAgentPersonaRecord(rows[0]) : null;
+  },
+
+  /** Looks personas up by name; `missing` lists the names the workspace does not define. */
+  async findAgentPersonasByName(input: {
+    workspaceId: UUID;
+    names: string[];
+  }): Promise<{ byName: Map<string, AgentPersonaRecord>; missing: string[] }> {
+    const wanted = [...new Set(input.names.map((n) => n.trim().toLowerCase()).filter(Boolean))];
+    if (wanted.length === 0) return { byName: new Map(), missing: [] };
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(agentPersonas)
+      .where(and(eq(agentPersonas.workspaceId, input.workspaceId), inArray(agentPersonas.name, wanted)));
+    const byName = new Map(rows.map((row) => [row.name, toAgentPersonaRecord(row)]));
+    return { byName, missing: wanted.filter((name) => !byName.has(name)) };
+  },
+
+  /** The persona an agent was built from, as currently defined; null for agents without one. */
+  async getAgentPersonaForAgent(input: { agentId: UUID }): Promise<AgentPersonaRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .select({ persona: agentPersonas })
+      .from(agents)
+      .innerJoin(agentPersonas, eq(agentPersonas.id, agents.personaId))
+      .where(eq(agents.id, input.agentId))
+      .limit(1);
+    return rows[0] ? toAgentPersonaRecord(rows[0].persona) : null;
+  },
+
+  /** Returns null when the workspace already has a persona with this name. */
+  async createAgentPersona(input: {
+    workspaceId: UUID;
+    name: string;
+    definition: PersonaDefinition;
+  }): Promise<AgentPersonaRecord | null> {
+    const db = getDb();
+    const createdAt = now();
+    const rows = await db
+      .insert(agentPersonas)
+      .values({
+        id: uuid(),
+        workspaceId: input.workspaceId,
+        name: input.name,
+        definitionJson: JSON.stringify(input.definition),
+        createdAt,
+        updatedAt: createdAt,
+      })
+      .onConflictDoNothing()
+      .returning();
+    if (!rows[0]) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "agent_personas",
+      action: "insert",
+      recordId: rows[0].id,
+    });
+    return toAgentPersonaRecord(rows[0]);
+  },
+
+  /** Names are fixed once created because blueprints, templates and games refer to them. */
+  async updateAgentPersona(input: {
+    id: UUID;
+    workspaceId: UUID;
+    definition: PersonaDefinition;
+  }): Promise<AgentPersonaRecord | null> {
+    if (!isUuid(input.id)) return null;
+    const db = getDb();
+    const rows = await db
+      .update(agentPersonas)
+      .set({ definitionJson: JSON.stringify(input.definition), updatedAt: now() })
+      .where(and(eq(agentPersonas.id, input.id), eq(agentPersonas.workspaceId, input.workspaceId)))
+      .returning();
+    if (!rows[0]) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "agent_personas",
+      action: "update",
+      recordId: input.id,
+    });
+    return toAgentPersonaRecord(rows[0]);
+  },
+
+  /** Agents built from the persona keep their prompt but lose its tool and decode settings. */
+  async deleteAgentPersona(input: { id: UUID; workspaceId: UUID }): Promise<boolean> {
+    if (!isUuid(input.id)) return false;
+    const db = getDb();
+    const deleted = await db.transaction(async (tx) => {
+      await tx
+        .update(agents)
+        .set({ personaId: null })
+        .where(and(eq(agents.workspaceId, input.workspaceId), eq(agents.personaId, input.id)));
+      const rows = await tx
+        .delete(agentPersonas)
+        .where(and(eq(agentPersonas.id, input.id), eq(agentPersonas.workspaceId, input.workspaceId)))
+        .returning({ id: agentPersonas.id });
+      return rows.length > 0;
+    });
+    if (!deleted) return false;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "agent_personas",
+      action: "delete",
+      recordId: input.id,
+    });
+    return true;
+  },
+
+  async listBlueprints(input: { workspaceId: UUID }): Promise<BlueprintRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(blueprints)
+      .where(eq(blueprints.workspaceId, input.workspaceId))
+      .orderBy(desc(blueprints.createdAt));
+    return rows.map(toBlueprintRecord);
+  },
+
+  async getBlueprint(input: { id: UUID; workspaceId: UUID }): Promise<BlueprintRecord | null> {
+    if (!isUuid(input.id)) return null;
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(blueprints)
+      .where(and(eq(blueprints.id, input.id), eq(blueprints.workspaceId, input.workspaceId)))
+      .limit(1);
+    return rows[0] ? toBlueprintRecord(rows[0]) : null;
+  },
+
+  async createBlueprint(input: { workspaceId: UUID; definition: BlueprintDefinition }): Promise<BlueprintRecord> {
+    const db = getDb();
+    const createdAt = now();
+    const rows = await db
+      .insert(blueprints)
+      .values({
+        id: uuid(),
+        workspaceId: input.workspaceId,
+        definitionJson: JSON.stringify(input.definition),
+        createdAt,
+        updatedAt: createdAt,
+      })
+      .returning();
+    const row = rows[0]!;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "blueprints",
+      action: "insert",
+      recordId: row.id,
+    });
+    return toBlueprintRecord(row);
+  },
+
+  async updateBlueprint(input: {
+    id: UUID;
+    workspaceId: UUID;
+    definition: BlueprintDefinition;
+  }): Promise<BlueprintRecord | null> {
+    if (!isUuid(input.id)) return null;
+    const db = getDb();
+    const rows = await db
+      .update(blueprints)
+      .set({ definitionJson: JSON.stringify(input.definition), updatedAt: now() })
+      .where(and(eq(blueprints.id, input.id), eq(blueprints.workspaceId, input.workspaceId)))
+      .returning();
+    if (!rows[0]) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "blueprints",
+      action: "update",
+      recordId: input.id,
+    });
+    return toBlueprintRecord(rows[0]);
+  },
+
+  async deleteBlueprint(input: { id: UUID; workspaceId: UUID }): Promise<boolean> {
+    if (!isUuid(input.id)) return false;
+    const db = getDb();
+    const rows = await db
+      .delete(blueprints)
+      .where(and(eq(blueprints.id, input.id), eq(blueprints.workspaceId, input.workspaceId)))
+      .returning({ id: blueprints.id });
+    if (!rows[0]) return false;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "blueprints",
+      action: "delete",
+      recordId: input.id,
+    });
+    return true;
+  },
+
+  /** Seeds the built-in templates as version 1 of workspace templates; existing slugs are left alone. */
+  async ensurePresetTaskTemplates(input: { workspaceId: UUID }) {
+    const db = getDb();
+    const rows = await db
+      .select({ slug: taskTemplates.slug })
+      .from(taskTemplates)
+      .where(eq(taskTemplates.workspaceId, input.workspaceId));
+    const existing = new Set(rows.map((r) => r.slug));
+    for (const preset of BUILTIN_TASK_TEMPLATES) {
+      if (existing.has(preset.slug)) continue;
+      await this.createTaskTemplate({ workspaceId: input.workspaceId, slug: preset.slug, definition: preset.definition });
+    }
+  },
+
+  async listTaskTemplates(input: { workspaceId: UUID; includeArchived?: boolean }): Promise<TaskTemplateRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select({ template: taskTemplates, version: taskTemplateVersions })
+      .from(taskTemplates)
+      .innerJoin(
+        taskTemplateVersions,
+        and(
+          eq(taskTemplateVersions.templateId, taskTemplates.id),
+          eq(taskTemplateVersions.version, taskTemplates.latestVersion)
+        )
+      )
+      .where(
+        and(
+          eq(taskTemplates.workspaceId, input.workspaceId),
+          input.includeArchived ? undefined : isNull(taskTemplates.archivedAt)
+        )
+      )
+      .orderBy(asc(taskTemplates.createdAt));
+    return rows.map((r) => toTaskTemplateRecord(r.template, r.version));
+  },
+
+  /** Resolves a template by id or slug, at `version` or its latest version. */
+  async getTaskTemplate(input: { workspaceId: UUID; ref: string; version?: number }): Promise<TaskTemplateRecord | null> {
+    const ref = input.ref.trim();
+    const slug = ref.toLowerCase();
+    if (!ref) return null;
+    const db = getDb();
+    const templates = await db
+      .select()
+      .from(taskTemplates)
+      .where(
+        and(
+          eq(taskTemplates.workspaceId, input.workspaceId),
+          isUuid(ref) ? eq(taskTemplates.id, ref) : eq(taskTemplates.slug, slug)
+        )
+      )
+      .limit(1);
+    const template = templates[0];
+    if (!template) {
+      // Built-in slugs resolve even before a workspace has listed its templates.
+      if (!BUILTIN_TASK_TEMPLATES.some((t) => t.slug === slug)) return null;
+      await this.ensurePresetTaskTemplates({ workspaceId: input.workspaceId });
+      const seeded = await db
+        .select({ id: taskTemplates.id })
+        .from(taskTemplates)
+        .where(and(eq(taskTemplates.workspaceId, input.workspaceId), eq(taskTemplates.slug, slug)))
+        .limit(1);
+      return seeded[0] ? await this.getTaskTemplate({ ...input, ref: seeded[0].id }) : null;
+    }
+    const versions = await db
+      .select()
+      .from(taskTemplateVersions)
+      .where(
+        and(
+          eq(taskTemplateVersions.templateId, template.id),
+          eq(taskTemplateVersions.version, input.version ?? template.latestVersion)
+        )
+      )
+      .limit(1);
+    return versions[0] ? toTaskTemplateRecord(template, versions[0]) : null;
+  },
+
+  /** Returns null when the slug is already taken in the workspace. */
+  async createTaskTemplate(input: {
+    workspaceId: UUID;
+    slug: string;
+    definition: TaskTemplateDefinition;
+  }): Promise<TaskTemplateRecord | null> {
+    const db = getDb();
+    const createdAt = now();
+    const id = uuid();
+    const created = await db.transaction(async (tx) => {
+      const rows = await tx
+        .insert(taskTemplates)
+        .values({ id, workspaceId: input.workspaceId, slug: input.slug, latestVersion: 1, createdAt, updatedAt: createdAt })
+        .onConflictDoNothing()
+        .returning({ id: taskTemplates.id });
+      if (!rows[0]) return false;
+      await tx.insert(taskTemplateVersions).values({
+        templateId: id,
+        version: 1,
+        workspaceId: input.workspaceId,
+        definitionJson: JSON.stringify(input.definition),
+        createdAt,
+      });
+      return true;
+    });
+    if (!created) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "task_templates",
+      action: "insert",
+      recordId: id,
+    });
+    return await this.getTaskTemplate({ workspaceId: input.workspaceId, ref: id });
+  },
+
+  /** Appends a new immutable version and makes it the latest. */
+  async updateTaskTemplate(input: {
+    workspaceId: UUID;
+    id: UUID;
+    definition: TaskTemplateDefinition;
+  }): Promise<TaskTemplateRecord | null> {
+    if (!isUuid(input.id)) return null;
+    const db = getDb();
+    const updatedAt = now();
+    const version = await db.transaction(async (tx) => {
+      const rows = await tx
+        .update(taskTemplates)
+        .set({ latestVersion: dsql`${taskTemplates.latestVersion} + 1`, updatedAt })
+        .where(
+          and(
+            eq(taskTemplates.id, input.id),
+            eq(taskTemplates.workspaceId, input.workspaceId),
+            isNull(taskTemplates.archivedAt)
+          )
+        )
+        .returning({ latestVersion: taskTemplates.latestVersion });
+      const next = rows[0]?.latestVersion;
+      if (!next) return null;
+      await tx.insert(taskTemplateVersions).values({
+        templateId: input.id,
+        version: next,
+        workspaceId: input.workspaceId,
+        definitionJson: JSON.stringify(input.definition),
+        createdAt: updatedAt,
+      });
+      return next;
+    });
+    if (!version) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "task_templates",
+      action: "update",
+      recordId: input.id,
+    });
+    return await this.getTaskTemplate({ workspaceId: input.workspaceId, ref: input.id, version });
+  },
+
+  async archiveTaskTemplate(input: { workspaceId: UUID; id: UUID }): Promise<boolean> {
+    if (!isUuid(input.id)) return false;
+    const db = getDb();
+    const rows = await db
+      .update(taskTemplates)
+      .set({ archivedAt: now(), updatedAt: now() })
+      .where(
+        and(
+          eq(taskTemplates.id, input.id),
+          eq(taskTemplates.workspaceId, input.workspaceId),
+          isNull(taskTemplates.archivedAt)
+        )
+      )
+      .returning({ id: taskTemplates.id });
+    if (!rows[0]) return false;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "task_templates",
+      action: "update",
+      recordId: input.id,
+    });
+    return true;
+  },
+
+  async listTaskTemplateVersions(input: { workspaceId: UUID; templateId: UUID }): Promise<TaskTemplateVersionRecord[]> {
+    if (!isUuid(input.templateId)) return [];
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(taskTemplateVersions)
+      .where(
+        and(
+          eq(taskTemplateVersions.templateId, input.templateId),
+          eq(taskTemplateVersions.workspaceId, input.workspaceId)
+        )
+      )
+      .orderBy(desc(taskTemplateVersions.version));
+    return rows.map((r) => ({
+      templateId: r.templateId,
+      version: r.version,
+      definition: JSON.parse(r.definitionJson) as TaskTemplateDefinition,
+      createdAt: r.createdAt.toISOString(),
+    }));
+  },
+
+  /** Runs started from a template, with their review when one exists. */
+  async listTemplateTaskRuns(input: { workspaceId: UUID; templateId: UUID }) {
+    if (!isUuid(input.templateId)) return [];
+    const db = getDb();
+    const rows = await db
+      .select({
+        taskId: taskRuns.id,
+        templateVersion: taskRuns.templateVersion,
+        status: taskRuns.status,
+        stopReason: taskRuns.stopReason,
+        startAt: taskRuns.startAt,
+        reviewJson: taskReviews.reviewJson,
+      })
+      .from(taskRuns)
+      .leftJoin(taskReviews, eq(taskReviews.taskId, taskRuns.id))
+      .where(and(eq(taskRuns.workspaceId, input.workspaceId), eq(taskRuns.templateId, input.templateId)))
+      .orderBy(desc(taskRuns.startAt));
+    return rows.map((r) => ({
+      taskId: r.taskId,
+      templateVersion: r.templateVersion ?? 0,
+      status: r.status,
+      stopReason: r.stopReason,
+      startAt: r.startAt.toISOString(),
+      reviewJson: r.reviewJson ?? null,
+    }));
+  },
+
+  async createAgentLink(input: {
+    workspaceId: UUID;
+    fromAgentId: UUID;
+    toAgentId: UUID;
+    type: BlueprintEdgeType;
+    groupId: UUID | null;
+  }): Promise<AgentLinkRecord> {
+    const db = getDb();
+    const rows = await db
+      .insert(agentLinks)
+      .values({
+        id: uuid(),
+        workspaceId: input.workspaceId,
+        fromAgentId: input.fromAgentId,
+        toAgentId: input.toAgentId,
+        type: input.type,
+        groupId: input.groupId,
+        createdAt: now(),
+      })
+      .returning();
+    const row = rows[0]!;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "agent_links",
+      action: "insert",
+      recordId: row.id,
+    });
+    return toAgentLinkRecord(row);
+  },
+
+  async listAgentLinks(input: { workspaceId: UUID }): Promise<AgentLinkRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(agentLinks)
+      .where(eq(agentLinks.workspaceId, input.workspaceId))
+      .orderBy(asc(agentLinks.createdAt));
+    return rows.map(toAgentLinkRecord);
+  },
+
+  /** Links with either endpoint among `agentIds`. */
+  async listAgentLinksTouching(input: { agentIds: UUID[] }): Promise<AgentLinkRecord[]> {
+    const ids = input.agentIds.filter((id) => isUuid(id));
+    if (ids.length === 0) return [];
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(agentLinks)
+      .where(or(inArray(agentLinks.fromAgentId, ids), inArray(agentLinks.toAgentId, ids)));
+    return rows.map(toAgentLinkRecord);
+  },
+
+  async countUsers(): Promise<number> {
+    const db = getDb();
+    const rows = await db.select({ count: dsql<number>`count(*)::int` }).from(users);
+    return Number(rows[0]?.count ?? 0);
+  },
+
+  async createUser(input: {
+    username: string;
+    displayName: string;
+    passwordHash: string | null;
+    isAdmin: boolean;
+  }): Promise<UserRecord> {
+    const db = getDb();
+    const rows = await db
+      .insert(users)
+      .values({
+        id: uuid(),
+        username: input.username,
+        displayName: input.displayName,
+        passwordHash: input.passwordHash,
+        isAdmin: input.isAdmin,
+        disabledAt: null,
+        createdAt: now(),
+      })
+      .returning();
+    return toUserRecord(rows[0]!);
+  },
+
+  async getUser(input: { userId: UUID }): Promise<UserRecord | null> {
+    const db = getDb();
+    const rows = await db.select().from(users).where(eq(users.id, input.userId)).limit(1);
+    return rows[0] ? toUserRecord(rows[0]) : null;
+  },
+
+  /** Includes the stored password hash for login checks. */
+  async findUserByUsername(input: { username: string }): Promise<(UserRecord & { passwordHash: string | null }) | null> {
+    const db = getDb();
+    const rows = await db.select().from(users).where(eq(users.username, input.username)).limit(1);
+    return rows[0] ? { ...toUserRecord(rows[0]), passwordHash: rows[0].passwordHash } : null;
+  },
+
+  async createUserSession(input: {
+    userId: UUID;
+    kind: UserSessionKind;
+    name: string;
+    tokenHash: string;
+    expiresAt: Date | null;
+  }): Promise<UserSessionRecord> {
+    const db = getDb();
+    const rows = await db
+      .insert(userSessions)
+      .values({
+        id: uuid(),
+        userId: input.userId,
+        kind: input.kind,
+        name: input.name,
+        tokenHash: input.tokenHash,
+        expiresAt: input.expiresAt,
+        lastUsedAt: null,
+        revokedAt: null,
+        createdAt: now(),
+      })
+      .returning();
+    return toUserSessionRecord(rows[0]!);
+  },
+
+  /** Resolves a live session or token: not revoked, not expired, and owned by an enabled user. */
+  async findUserSessionByTokenHash(input: {
+    tokenHash: string;
+  }): Promise<{ session: UserSessionRecord; user: UserRecord } | null> {
+    const db = getDb();
+    const rows = await db
+      .select({ session: userSessions, user: users })
+      .from(userSessions)
+      .innerJoin(users, eq(users.id, userSessions.userId))
+      .where(
+        and(
+          eq(userSessions.tokenHash, input.tokenHash),
+          isNull(userSessions.revokedAt),
+          or(isNull(userSessions.expiresAt), gt(userSessions.expiresAt, now())),
+          isNull(users.disabledAt)
+        )
+      )
+      .limit(1);
+    const row = rows[0];
+    return row ? { session: toUserSessionRecord(row.session), user: toUserRecord(row.user) } : null;
+  },
+
+  async touchUserSession(input: { id: UUID }) {
+    const db = getDb();
+    await db.update(userSessions).set({ lastUsedAt: now() }).where(eq(userSessions.id, input.id));
+  },
+
+  async listUserSessions(input: { userId: UUID; kind?: UserSessionKind }): Promise<UserSessionRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(userSessions)
+      .where(
+        and(
+          eq(userSessions.userId, input.userId),
+          input.kind ? eq(userSessions.kind, input.kind) : undefined,
+          isNull(userSessions.revokedAt)
+        )
+      )
+      .orderBy(desc(userSessions.createdAt));
+    return rows.map(toUserSessionRecord);
+  },
+
+  async revokeUserSession(input: { id: UUID; userId: UUID }): Promise<boolean> {
+    const db = getDb();
+    const rows = await db
+      .update(userSessions)
+      .set({ revokedAt: now() })
+      .where(
+        and(eq(userSessions.id, input.id), eq(userSessions.userId, input.userId), isNull(userSessions.revokedAt))
+      )
+      .returning({ id: userSessions.id });
+    return rows.length > 0;
+  },
+
+  async listWorkspaceMembers(input: { workspaceId: UUID }): Promise<WorkspaceMemberRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select({ member: workspaceMembers, username: users.username, displayName: users.displayName })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(users.id, workspaceMembers.userId))
+      .where(eq(workspaceMembers.workspaceId, input.workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+    return rows.map((r) => toWorkspaceMemberRecord({ ...r.member, username: r.username, displayName: r.displayName }));
+  },
+
+  async getWorkspaceMember(input: { workspaceId: UUID; userId: UUID }): Promise<WorkspaceMemberRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .select({ member: workspaceMembers, username: users.username, displayName: users.displayName })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(users.id, workspaceMembers.userId))
+      .where(and(eq(workspaceMembers.workspaceId, input.workspaceId), eq(workspaceMembers.userId, input.userId)))
+      .limit(1);
+    const row = rows[0];
+    return row ? toWorkspaceMemberRecord({ ...row.member, username: row.username, displayName: row.displayName }) : null;
+  },
+
+  async listUserWorkspaces(input: {
+    userId: UUID;
+  }): Promise<Array<{ id: UUID; name: string; createdAt: string; role: WorkspaceRole }>> {
+    const db = getDb();
+    const rows = await db
+      .select({
+        id: workspaces.id,
+        name: workspaces.name,
+        createdAt: workspaces.createdAt,
+        role: workspaceMembers.role,
+      })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+      .where(eq(workspaceMembers.userId, input.userId))
+      .orderBy(desc(workspaces.createdAt));
+    return rows.map((r) => ({ ...r, createdAt: r.createdAt.toISOString(), role: r.role as WorkspaceRole }));
+  },
+
+  /**
+   * Adds a user to a workspace. Without an explicit mapping the user gets their
+   * own system_human agent (named after them) and a 1:1 chat with the assistant.
+   */
+  async addWorkspaceMember(input: {
+    workspaceId: UUID;
+    userId: UUID;
+    role: WorkspaceRole;
+    humanAgentId?: UUID;
+    defaultGroupId?: UUID;
+  }): Promise<WorkspaceMemberRecord> {
+    const user = await store.getUser({ userId: input.userId });
+    if (!user) throw new Error("user not found");
+
+    let humanAgentId = input.humanAgentId ?? null;
+    let defaultGroupId = input.defaultGroupId ?? null;
+    if (!humanAgentId || !defaultGroupId) {
+      const defaults = await store.ensureWorkspaceDefaults({ workspaceId: input.workspaceId });
+      const human = await store.createAgent({
+        workspaceId: input.workspaceId,
+        role: user.displayName,
+        kind: "system_human",
+        autoRunEnabled: false,
+        originType: "workspace_member",
+        originId: user.id,
+      });
+      humanAgentId = human.id;
+      defaultGroupId = (
+        await store.createGroup({
+          workspaceId: input.workspaceId,
+          memberIds: [human.id, defaults.assistantAgentId],
+        })
+      ).id;
+    }
+
+    const db = getDb();
+    const createdAt = now();
+    await db.insert(workspaceMembers).values({
+      workspaceId: input.workspaceId,
+      userId: input.userId,
+      role: input.role,
+      humanAgentId,
+      defaultGroupId,
+      createdAt,
+      updatedAt: createdAt,
+    });
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "workspace_members",
+      action: "insert",
+      recordId: input.userId,
+    });
+    return (await store.getWorkspaceMember({ workspaceId: input.workspaceId, userId: input.userId }))!;
+  },
+
+  async updateWorkspaceMemberRole(input: {
+    workspaceId: UUID;
+    userId: UUID;
+    role: WorkspaceRole;
+  }): Promise<WorkspaceMemberRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .update(workspaceMembers)
+      .set({ role: input.role, updatedAt: now() })
+      .where(and(eq(workspaceMembers.workspaceId, input.workspaceId), eq(workspaceMembers.userId, input.userId)))
+      .returning({ userId: workspaceMembers.userId });
+    if (!rows[0]) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "workspace_members",
+      action: "update",
+      recordId: input.userId,
+    });
+    return await store.getWorkspaceMember(input);
+  },
+
+  /** Removes the membership; the member's human agent stays so past messages keep their author. */
+  async removeWorkspaceMember(input: { workspaceId: UUID; userId: UUID }): Promise<boolean> {
+    const db = getDb();
+    const rows = await db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, input.workspaceId), eq(workspaceMembers.userId, input.userId)))
+      .returning({ userId: workspaceMembers.userId });
+    if (!rows[0]) return false;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "workspace_members",
+      action: "delete",
+      recordId: input.userId,
+    });
+    return true;
+  },
+
+  async getGameWorkspaceId(input: { gameId: UUID }): Promise<UUID | null> {
+    const db = getDb();
+    const werewolf = await db
+      .select({ workspaceId: werewolfGames.workspaceId })
+      .from(werewolfGames)
+      .where(eq(werewolfGames.id, input.gameId))
+      .limit(1);
+    if (werewolf[0]) return werewolf[0].workspaceId;
+    const undercover = await db
+      .select({ workspaceId: undercoverGames.workspaceId })
+      .from(undercoverGames)
+      .where(eq(undercoverGames.id, input.gameId))
+      .limit(1);
+    return undercover[0]?.workspaceId ?? null;
+  },
+
+  async listInboundWebhooks(input: { workspaceId: UUID }): Promise<InboundWebhookRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(inboundWebhooks)
+      .where(eq(inboundWebhooks.workspaceId, input.workspaceId))
+      .orderBy(desc(inboundWebhooks.createdAt));
+    return rows.map(toInboundWebhookRecord);
+  },
+
+  async getInboundWebhook(input: { id: UUID; workspaceId: UUID }): Promise<InboundWebhookRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(inboundWebhooks)
+      .where(and(eq(inboundWebhooks.id, input.id), eq(inboundWebhooks.workspaceId, input.workspaceId)))
+      .limit(1);
+    return rows[0] ? toInboundWebhookRecord(rows[0]) : null;
+  },
+
+  /** Creates the hook together with its integration sender agent, joined to the target group. */
+  async createInboundWebhook(input: {
+    workspaceId: UUID;
+    name: string;
+    groupId: UUID;
+    template: string;
+    enabled: boolean;
+  }): Promise<InboundWebhookRecord> {
+    const sender = await store.createAgent({
+      workspaceId: input.workspaceId,
+      role: input.name,
+      kind: "integration",
+      autoRunEnabled: false,
+      llmHistory: "[]",
+      originType: "inbound_webhook",
+    });
+    await store.addGroupMembers({ groupId: input.groupId, userIds: [sender.id] });
+
+    const db = getDb();
+    const createdAt = now();
+    const rows = await db
+      .insert(inboundWebhooks)
+      .values({
+        id: uuid(),
+        workspaceId: input.workspaceId,
+        name: input.name,
+        groupId: input.groupId,
+        senderAgentId: sender.id,
+        template: input.template,
+        enabled: input.enabled,
+        createdAt,
+        updatedAt: createdAt,
+      })
+      .returning();
+    const row = rows[0]!;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "inbound_webhooks",
+      action: "insert",
+      recordId: row.id,
+    });
+    return toInboundWebhookRecord(row);
+  },
+
+  async updateInboundWebhook(input: {
+    id: UUID;
+    workspaceId: UUID;
+    name?: string;
+    template?: string;
+    enabled?: boolean;
+  }): Promise<InboundWebhookRecord | null> {
+    const db = getDb();
+    const patch: Record<string, unknown> = { updatedAt: now() };
+    if (typeof input.name === "string") patch.name = input.name;
+    if (typeof input.template === "string") patch.template = input.template;
+    if (typeof input.enabled === "boolean") patch.enabled = input.enabled;
+
+    const rows = await db
+      .update(inboundWebhooks)
+      .set(patch)
+      .where(and(eq(inboundWebhooks.id, input.id), eq(inboundWebhooks.workspaceId, input.workspaceId)))
+      .returning();
+    if (!rows[0]) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "inbound_webhooks",
+      action: "update",
+      recordId: input.id,
+    });
+    return toInboundWebhookRecord(rows[0]);
+  },
+
+  /** Removes the hook; its sender agent stays so past messages keep their author. */
+  async deleteInboundWebhook(input: { id: UUID; workspaceId: UUID }) {
+    const db = getDb();
+    const rows = await db
+      .delete(inboundWebhooks)
+      .where(and(eq(inboundWebhooks.id, input.id), eq(inboundWebhooks.workspaceId, input.workspaceId)))
+      .returning({ id: inboundWebhooks.id });
+    if (!rows[0]) return false;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "inbound_webhooks",
+      action: "delete",
+      recordId: input.id,
+    });
+    return true;
+  },
+
+  async listWebhookSubscriptions(input: {
+    workspaceId: UUID;
+    enabledOnly?: boolean;
+  }): Promise<WebhookSubscriptionRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(
+        and(
+          eq(webhookSubscriptions.workspaceId, input.workspaceId),
+          input.enabledOnly ? eq(webhookSubscriptions.enabled, true) : undefined
+        )
+      )
+      .orderBy(desc(webhookSubscriptions.createdAt));
+    return rows.map(toWebhookSubscriptionRecord);
+  },
+
+  async getWebhookSubscription(input: { id: UUID; workspaceId?: UUID }): Promise<WebhookSubscriptionRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(webhookSubscriptions)
+      .where(
+        and(
+          eq(webhookSubscriptions.id, input.id),
+          input.workspaceId ? eq(webhookSubscriptions.workspaceId, input.workspaceId) : undefined
+        )
+      )
+      .limit(1);
+    return rows[0] ? toWebhookSubscriptionRecord(rows[0]) : null;
+  },
+
+  async createWebhookSubscription(input: {
+    workspaceId: UUID;
+    name: string;
+    url: string;
+    secret: string;
+    eventTypes: string[];
+    enabled: boolean;
+  }): Promise<WebhookSubscriptionRecord> {
+    const db = getDb();
+    const createdAt = now();
+    const rows = await db
+      .insert(webhookSubscriptions)
+      .values({
+        id: uuid(),
+        workspaceId: input.workspaceId,
+        name: input.name,
+        url: input.url,
+        secret: input.secret,
+        eventTypesJson: JSON.stringify(input.eventTypes),
+        enabled: input.enabled,
+        createdAt,
+        updatedAt: createdAt,
+      })
+      .returning();
+    const row = rows[0]!;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "webhook_subscriptions",
+      action: "insert",
+      recordId: row.id,
+    });
+    return toWebhookSubscriptionRecord(row);
+  },
+
+  async updateWebhookSubscription(input: {
+    id: UUID;
+    workspaceId: UUID;
+    name?: string;
+    url?: string;
+    secret?: string;
+    eventTypes?: string[];
+    enabled?: boolean;
+  }): Promise<WebhookSubscriptionRecord | null> {
+    const db = getDb();
+    const patch: Record<string, unknown> = { updatedAt: now() };
+    if (typeof input.name === "string") patch.name = input.name;
+    if (typeof input.url === "string") patch.url = input.url;
+    if (typeof input.secret === "string") patch.secret = input.secret;
+    if (input.eventTypes) patch.eventTypesJson = JSON.stringify(input.eventTypes);
+    if (typeof input.enabled === "boolean") patch.enabled = input.enabled;
+
+    const rows = await db
+      .update(webhookSubscriptions)
+      .set(patch)
+      .where(and(eq(webhookSubscriptions.id, input.id), eq(webhookSubscriptions.workspaceId, input.workspaceId)))
+      .returning();
+    if (!rows[0]) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "webhook_subscriptions",
+      action: "update",
+      recordId: input.id,
+    });
+    return toWebhookSubscriptionRecord(rows[0]);
+  },
+
+  async deleteWebhookSubscription(input: { id: UUID; workspaceId: UUID }) {
+    const db = getDb();
+    const deleted = await db.transaction(async (tx) => {
+      const owned = await tx
+        .select({ id: webhookSubscriptions.id })
+        .from(webhookSubscriptions)
+        .where(and(eq(webhookSubscriptions.id, input.id), eq(webhookSubscriptions.workspaceId, input.workspaceId)))
+        .limit(1);
+      if (!owned[0]) return false;
+      await tx.delete(webhookDeliveries).where(eq(webhookDeliveries.subscriptionId, input.id));
+      await tx.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, input.id));
+      return true;
+    });
+    if (!deleted) return false;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "webhook_subscriptions",
+      action: "delete",
+      recordId: input.id,
+    });
+    return true;
+  },
+
+  // Delivery rows are bookkeeping for outbound traffic; they skip emitDbWrite so
+  // every webhook attempt does not echo back into the workspace UI stream.
+
+  async createWebhookDelivery(input: {
+    subscriptionId: UUID;
+    workspaceId: UUID;
+    eventType: string;
+    payloadJson: string;
+    /** The creator attempts the delivery inline; until then the sweep must not pick it up. */
+    leaseUntil: Date;
+  }): Promise<WebhookDeliveryRecord> {
+    const db = getDb();
+    const createdAt = now();
+    const rows = await db
+      .insert(webhookDeliveries)
+      .values({
+        id: uuid(),
+        subscriptionId: input.subscriptionId,
+        workspaceId: input.workspaceId,
+        eventType: input.eventType,
+        payloadJson: input.payloadJson,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: input.leaseUntil,
+        lastStatusCode: null,
+        lastError: null,
+        deliveredAt: null,
+        createdAt,
+        updatedAt: createdAt,
+      })
+      .returning();
+    return toWebhookDeliveryRecord(rows[0]!);
+  },
+
+  async getWebhookDelivery(input: { id: UUID; workspaceId?: UUID }): Promise<WebhookDeliveryRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.id, input.id),
+          input.workspaceId ? eq(webhookDeliveries.workspaceId, input.workspaceId) : undefined
+        )
+      )
+      .limit(1);
+    return rows[0] ? toWebhookDeliveryRecord(rows[0]) : null;
+  },
+
+  async listWebhookDeliveries(input: {
+    subscriptionId: UUID;
+    workspaceId: UUID;
+    status?: WebhookDeliveryStatus;
+    limit?: number;
+  }): Promise<WebhookDeliveryRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(
+        and(
+          eq(webhookDeliveries.subscriptionId, input.subscriptionId),
+          eq(webhookDeliveries.workspaceId, input.workspaceId),
+          input.status ? eq(webhookDeliveries.status, input.status) : undefined
+        )
+      )
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(Math.max(1, Math.min(200, input.limit ?? 50)));
+    return rows.map(toWebhookDeliveryRecord);
+  },
+
+  /** Pending deliveries whose next attempt is due, across all workspaces. */
+  async listDueWebhookDeliveries(input: { dueBy: Date; limit?: number }): Promise<WebhookDeliveryRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, input.dueBy)))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(Math.max(1, Math.min(100, input.limit ?? 20)));
+    return rows.map(toWebhookDeliveryRecord);
+  },
+
+  /**
+   * Pushes a due delivery's next attempt out to `leaseUntil` so that concurrent
+   * retry sweeps skip it; succeeds only for the caller that saw the old value.
+   */
+  async leaseWebhookDelivery(input: { id: UUID; expectedNextAttemptAt: Date; leaseUntil: Date }) {
+    const db = getDb();
+    const rows = await db
+      .update(webhookDeliveries)
+      .set({ nextAttemptAt: input.leaseUntil, updatedAt: now() })
+      .where(
+        and(
+          eq(webhookDeliveries.id, input.id),
+          eq(webhookDeliveries.status, "pending"),
+          eq(webhookDeliveries.nextAttemptAt, input.expectedNextAttemptAt)
+        )
+      )
+      .returning({ id: webhookDeliveries.id });
+    return rows.length > 0;
+  },
+
+  async recordWebhookAttempt(input: {
+    id: UUID;
+    status: WebhookDeliveryStatus;
+    attempts: number;
+    nextAttemptAt: Date | null;
+    lastStatusCode: number | null;
+    lastError: string | null;
+  }): Promise<WebhookDeliveryRecord | null> {
+    const db = getDb();
+    const at = now();
+    const rows = await db
+      .update(webhookDeliveries)
+      .set({
+        status: input.status,
+        attempts: input.attempts,
+        nextAttemptAt: input.nextAttemptAt,
+        lastStatusCode: input.lastStatusCode,
+        lastError: input.lastError,
+        deliveredAt: input.status === "delivered" ? at : null,
+        updatedAt: at,
+      })
+      .where(eq(webhookDeliveries.id, input.id))
+      .returning();
+    return rows[0] ? toWebhookDeliveryRecord(rows[0]) : null;
+  },
+
+  /** Moves a dead-lettered delivery back to pending with a fresh retry budget. */
+  async requeueWebhookDelivery(input: {
+    id: UUID;
+    workspaceId: UUID;
+    nextAttemptAt: Date;
+  }): Promise<WebhookDeliveryRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .update(webhookDeliveries)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: input.nextAttemptAt, updatedAt: now() })
+      .where(
+        and(
+          eq(webhookDeliveries.id, input.id),
+          eq(webhookDeliveries.workspaceId, input.workspaceId),
+          eq(webhookDeliveries.status, "dead")
+        )
+      )
+      .returning();
+    return rows[0] ? toWebhookDeliveryRecord(rows[0]) : null;
+  },
+
+  async listToolPolicies(input: { workspaceId: UUID }): Promise<ToolPolicyRecord[]> {
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(toolPolicies)
+      .where(eq(toolPolicies.workspaceId, input.workspaceId))
+      .orderBy(toolPolicies.agentRole, toolPolicies.toolName);
+
+    return rows.map((row) => ({
+      id: row.id,
+      workspaceId: row.workspaceId,
+      agentRole: row.agentRole,
+      toolName: row.toolName,
+      mode: row.mode as ToolPolicyMode,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    }));
+  },
+
+  async upsertToolPolicy(input: {
+    workspaceId: UUID;
+    agentRole?: string | null;
+    toolName: string;
+    mode: ToolPolicyMode;
+  }): Promise<ToolPolicyRecord> {
+    const db = getDb();
+    const updatedAt = now();
+    const agentRole = (input.agentRole ?? "").trim() || "*";
+    const toolName = input.toolName.trim() || "*";
+
+    const rows = await db
+      .insert(toolPolicies)
+      .values({
+        id: uuid(),
+        workspaceId: input.workspaceId,
+        agentRole,
+        toolName,
+        mode: input.mode,
+        createdAt: updatedAt,
+        updatedAt,
+      })
+      .onConflictDoUpdate({
+        target: [toolPolicies.workspaceId, toolPolicies.agentRole, toolPolicies.toolName],
+        set: { mode: input.mode, updatedAt },
+      })
+      .returning();
+    const row = rows[0]!;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "tool_policies",
+      action: "update",
+      recordId: row.id,
+    });
+
+    return {
+      id: row.id,
+      workspaceId: row.workspaceId,
+      agentRole: row.agentRole,
+      toolName: row.toolName,
+      mode: row.mode as ToolPolicyMode,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  },
+
+  async deleteToolPolicy(input: { id: UUID; workspaceId: UUID }) {
+    const db = getDb();
+    await db
+      .delete(toolPolicies)
+      .where(and(eq(toolPolicies.id, input.id), eq(toolPolicies.workspaceId, input.workspaceId)));
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "tool_policies",
+      action: "delete",
+      recordId: input.id,
+    });
+  },
+
+  async createToolApproval(input: {
+    workspaceId: UUID;
+    agentId: UUID;
+    groupId: UUID;
+    toolCallId?: string | null;
+    toolName: string;
+    argumentsJson: string;
+  }): Promise<ToolApprovalRecord> {
+    const db = getDb();
+    const id = uuid();
+    const createdAt = now();
+    await db.insert(toolApprovals).values({
+      id,
+      workspaceId: input.workspaceId,
+      agentId: input.agentId,
+      groupId: input.groupId,
+      toolCallId: input.toolCallId ?? null,
+      toolName: input.toolName,
+      argumentsJson: input.argumentsJson,
+      status: "pending",
+      decidedBy: null,
+      decisionNote: null,
+      createdAt,
+      decidedAt: null,
+    });
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "tool_approvals",
+      action: "insert",
+      recordId: id,
+    });
+
+    return {
+      id,
+      workspaceId: input.workspaceId,
+      agentId: input.agentId,
+      groupId: input.groupId,
+      toolCallId: input.toolCallId ?? null,
+      toolName: input.toolName,
+      argumentsJson: input.argumentsJson,
+      status: "pending",
+      decidedBy: null,
+      decisionNote: null,
+      createdAt: createdAt.toISOString(),
+      decidedAt: null,
+    };
+  },
+
+  async decideToolApproval(input: {
+    id: UUID;
+    workspaceId: UUID;
+    status: Exclude<ToolApprovalStatus, "pending">;
+    decidedBy?: UUID | null;
+    decisionNote?: string | null;
+  }): Promise<ToolApprovalRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .update(toolApprovals)
+      .set({
+        status: input.status,
+        decidedBy: input.decidedBy ?? null,
+        decisionNote: input.decisionNote ?? null,
+        decidedAt: now(),
+      })
+      .where(
+        and(
+          eq(toolApprovals.id, input.id),
+          eq(toolApprovals.workspaceId, input.workspaceId),
+          eq(toolApprovals.status, "pending")
+        )
+      )
+      .returning();
+    const row = rows[0];
+    if (!row) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "tool_approvals",
+      action: "update",
+      recordId: input.id,
+    });
+
+    return {
+      id: row.id,
+      workspaceId: row.workspaceId,
+      agentId: row.agentId,
+      groupId: row.groupId,
+      toolCallId: row.toolCallId,
+      toolName: row.toolName,
+      argumentsJson: row.argumentsJson,
+      status: row.status as ToolApprovalStatus,
+      decidedBy: row.decidedBy,
+      decisionNote: row.decisionNote,
+      createdAt: row.createdAt.toISOString(),
+      decidedAt: row.decidedAt ? row.decidedAt.toISOString() : null,
+    };
+  },
+
+  async listToolApprovals(input: {
+    workspaceId: UUID;
+    status?: ToolApprovalStatus;
+    limit?: number;
+  }): Promise<ToolApprovalRecord[]> {
+    const db = getDb();
+    const limit = Math.max(1, Math.min(500, input.limit ?? 100));
+    const rows = await db
+      .select()
+      .from(toolApprovals)
+      .where(
+        and(
+          eq(toolApprovals.workspaceId, input.workspaceId),
+          input.status ? eq(toolApprovals.status, input.status) : undefined
+        )
+      )
+      .orderBy(desc(toolApprovals.createdAt))
+      .limit(limit);
+
+    return rows.map((row) => ({
+      id: row.id,
+      workspaceId: row.workspaceId,
+      agentId: row.agentId,
+      groupId: row.groupId,
+      toolCallId: row.toolCallId,
+      toolName: row.toolName,
+      argumentsJson: row.argumentsJson,
+      status: row.status as ToolApprovalStatus,
+      decidedBy: row.decidedBy,
+      decisionNote: row.decisionNote,
+      createdAt: row.createdAt.toISOString(),
+      decidedAt: row.decidedAt ? row.decidedAt.toISOString() : null,
+    }));
+  },
+
+  async expirePendingToolApprovals(): Promise<number> {
+    const db = getDb();
+    // Waiters live in process memory, so approvals left pending by a previous process can never resume.
+    const rows = await db
+      .update(toolApprovals)
+      .set({ status: "expired", decisionNote: "server restarted", decidedAt: now() })
+      .where(eq(toolApprovals.status, "pending"))
+      .returning({ id: toolApprovals.id });
+    return rows.length;
+  },
+
+  async createHumanQuestion(input: {
+    workspaceId: UUID;
+    agentId: UUID;
+    groupId: UUID;
+    toolCallId?: string | null;
+    kind: HumanQuestionKind;
+    question: string;
+    choices: string[] | null;
+    expiresAt: Date;
+  }): Promise<HumanQuestionRecord> {
+    const db = getDb();
+    const rows = await db
+      .insert(humanQuestions)
+      .values({
+        id: uuid(),
+        workspaceId: input.workspaceId,
+        agentId: input.agentId,
+        groupId: input.groupId,
+        toolCallId: input.toolCallId ?? null,
+        kind: input.kind,
+        question: input.question,
+        choicesJson: input.choices ? JSON.stringify(input.choices) : null,
+        status: "pending",
+        answer: null,
+        answeredBy: null,
+        createdAt: now(),
+        expiresAt: input.expiresAt,
+        answeredAt: null,
+      })
+      .returning();
+    const row = rows[0]!;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "human_questions",
+      action: "insert",
+      recordId: row.id,
+    });
+
+    return toHumanQuestionRecord(row);
+  },
+
+  async getHumanQuestion(input: { workspaceId: UUID; id: UUID }): Promise<HumanQuestionRecord | null> {
+    if (!isUuid(input.id)) return null;
+    const db = getDb();
+    const rows = await db
+      .select()
+      .from(humanQuestions)
+      .where(and(eq(humanQuestions.id, input.id), eq(humanQuestions.workspaceId, input.workspaceId)))
+      .limit(1);
+    return rows[0] ? toHumanQuestionRecord(rows[0]) : null;
+  },
+
+  /** Only a pending question settles; returns null when it was already answered, expired or cancelled. */
+  async settleHumanQuestion(input: {
+    id: UUID;
+    workspaceId: UUID;
+    status: Exclude<HumanQuestionStatus, "pending">;
+    answer?: string | null;
+    answeredBy?: UUID | null;
+  }): Promise<HumanQuestionRecord | null> {
+    const db = getDb();
+    const rows = await db
+      .update(humanQuestions)
+      .set({
+        status: input.status,
+        answer: input.answer ?? null,
+        answeredBy: input.answeredBy ?? null,
+        answeredAt: now(),
+      })
+      .where(
+        and(
+          eq(humanQuestions.id, input.id),
+          eq(humanQuestions.workspaceId, input.workspaceId),
+          eq(humanQuestions.status, "pending")
+        )
+      )
+      .returning();
+    const row = rows[0];
+    if (!row) return null;
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "human_questions",
+      action: "update",
+      recordId: input.id,
+    });
+
+    return toHumanQuestionRecord(row);
+  },
+
+  async listHumanQuestions(input: {
+    workspaceId: UUID;
+    status?: HumanQuestionStatus;
+    limit?: number;
+  }): Promise<HumanQuestionRecord[]> {
+    const db = getDb();
+    const limit = Math.max(1, Math.min(500, input.limit ?? 100));
+    const rows = await db
+      .select()
+      .from(humanQuestions)
+      .where(
+        and(
+          eq(humanQuestions.workspaceId, input.workspaceId),
+          input.status ? eq(humanQuestions.status, input.status) : undefined
+        )
+      )
+      .orderBy(desc(humanQuestions.createdAt))
+      .limit(limit);
+    return rows.map(toHumanQuestionRecord);
+  },
+
+  async expirePendingHumanQuestions(): Promise<number> {
+    const db = getDb();
+    // Like tool approvals, the waiting agent turn died with the previous process.
+    const rows = await db
+      .update(humanQuestions)
+      .set({ status: "expired", answeredAt: now() })
+      .where(eq(humanQuestions.status, "pending"))
+      .returning({ id: humanQuestions.id });
+    return rows.length;
+  },
+
+  async insertLlmUsage(input: {
+    workspaceId: UUID;
+    agentId: UUID;
+    modelProfileId?: UUID | null;
+    taskRunId?: UUID | null;
+    gameId?: UUID | null;
+    gameKind?: string | null;
+    source: LlmUsageSource;
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number;
+  }) {
+    const db = getDb();
+    const id = uuid();
+    await db.insert(llmUsage).values({
+      id,
+      workspaceId: input.workspaceId,
+      agentId: input.agentId,
+      modelProfileId: input.modelProfileId ?? null,
+      taskRunId: input.taskRunId ?? null,
+      gameId: input.gameId ?? null,
+      gameKind: input.gameKind ?? null,
+      source: input.source,
+      provider: input.provider,
+      model: input.model,
+      promptTokens: input.promptTokens,
+      completionTokens: input.completionTokens,
+      totalTokens: input.totalTokens,
+      costUsd: input.costUsd,
+      createdAt: now(),
+    });
+
+    await emitDbWrite({
+      workspaceId: input.workspaceId,
+      table: "llm_usage",
+      action: "insert",
+      recordId: id,
+    });
+
+    return { id };
+  },
+
+  /** The workspace's running task run, or null when none or several are running. */
+  async getRunningTaskRunId(input: { workspaceId: UUID }): Promise<UUID | null> {
+    const db = getDb();
+    const rows = await db
+      .select({ id: taskRuns.id })
+      .from(taskRuns)
+      .where(and(eq(taskRuns.workspaceId, input.workspaceId), eq(taskRuns.status, "running")))
+      .orderBy(desc(taskRuns.updatedAt))
+      .limit(2);
+    return rows.length === 1 ? rows[0]!.id : null;
+  },
+
+  async sumLlmUsage(input: {
+    workspaceId?: UUID;
+    taskRunId?: UUID;
+    agentId?: UUID;
+    gameId?: UUID;
+    since?: Date;
+  }): Promise<LlmUsageTotals> {
+    const db = getDb();
+    const rows = await db
+      .select({
+        calls: dsql<number>`count(*)::int`,
+        promptTokens: dsql<number>`coalesce(sum(${llmUsage.promptTokens}), 0)::int`,
+        completionTokens: dsql<number>`coalesce(sum(${llmUsage.completionTokens}), 0)::int`,
+        totalTokens: dsql<number>`coalesce(sum(${llmUsage.totalTokens}), 0)::int`,
+        costUsd: dsql<number>`coalesce(sum(${llmUsage.costUsd}), 0)::float8`,
+      })
+      .from(llmUsage)
+      .where(
+        and(
+          input.workspaceId ? eq(llmUsage.workspaceId, input.workspaceId) : undefined,
+          input.taskRunId ? eq(llmUsage.taskRunId, input.taskRunId) : undefined,
+          input.agentId ? eq(llmUsage.agentId, input.agentId) : undefined,
+          input.gameId ? eq(llmUsage.gameId, input.gameId) : undefined,
+          input.since ? gte(llmUsage.createdAt, input.since) : undefined
+        )
+      );
+    const row = rows[0];
+    return {
+      calls: Number(row?.calls ?? 0),
+      promptTokens: Number(row?.promptTokens ?? 0),
+      completionTokens: Number(row?.completionTokens ?? 0),
+      totalTokens: Number(row?.totalTokens ?? 0),
+      costUsd: Number(row?.costUsd ?? 0),
+    };
+  },
+
+  async summarizeLlmUsage(input: {
+    workspaceId: UUID;
+    groupBy: LlmUsageGroupBy;
+    since?: Date;
+    taskRunId?: UUID;
+    agentId?: UUID;
+    gameId?: UUID;
+    limit?: number;
+  }): Promise<Array<LlmUsageTotals & { key: string | null }>> {
+    const db = getDb();
+    const limit = Math.max(1, Math.min(500, input.limit ?? 100));
+    const keyColumn =
+      input.groupBy === "agent"
+        ? dsql<string | null>`${llmUsage.agentId}::text`
+        : input.groupBy === "profile"
+          ? dsql<string | null>`${llmUsage.modelProfileId}::text`
+          : input.groupBy === "task"
+            ? dsql<string | null>`${llmUsage.taskRunId}::text`
+            : input.groupBy === "game"
+              ? dsql<string | null>`${llmUsage.gameId}::text`
+              : dsql<string | null>`${llmUsage.provider} || ':' || ${llmUsage.model}`;
+
+    const rows = await db
+      .select({
+        key: keyColumn,
+        calls: dsql<number>`count(*)::int`,
+        promptTokens: dsql<number>`coalesce(sum(${llmUsage.promptTokens}), 0)::int`,
+        completionTokens: dsql<number>`coalesce(sum(${llmUsage.completionTokens}), 0)::int`,
+        totalTokens: dsql<number>`coalesce(sum(${llmUsage.totalTokens}), 0)::int`,
+        costUsd: dsql<number>`coalesce(sum(${llmUsage.costUsd}), 0)::float8`,
+      })
+      .from(llmUsage)
+      .where(
+        and(
+          eq(llmUsage.workspaceId, input.workspaceId),
+          input.taskRunId ? eq(llmUsage.taskRunId, input.taskRunId) : undefined,
+          input.agentId ? eq(llmUsage.agentId, input.agentId) : undefined,
+          input.gameId ? eq(llmUsage.gameId, input.gameId) : undefined,
+          input.since ? gte(llmUsage.createdAt, input.since) : undefined
+        )
+      )
+      .groupBy(keyColumn)
+      .orderBy(dsql`sum(${llmUsage.totalTokens}) desc`)
+      .limit(limit);
+
+    return rows.map((row) => ({
+      key: row.key ?? null,
+      calls: Number(row.calls),
+      promptTokens: Number(row.promptTokens),
+      completionTokens: Number(row.completionTokens),
+      totalTokens: Number(row.totalTokens),
+      costUsd: Number(row.costUsd),
+    }));
+  },
 };
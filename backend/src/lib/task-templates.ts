@@ -1,78 +1,344 @@
-export type TaskTemplateId = "debate" | "paper" | "code_review";
+import { normalizePersonaName } from "./personas";
+import { getWorkflowPreset } from "./workflows";
 
-export type TaskTemplate = {
-  id: TaskTemplateId;
+export type TemplateVariableType = "string" | "text" | "number" | "boolean" | "enum";
+
+export type TemplateVariableValue = string | number | boolean;
+
+/** A typed `{{name}}` placeholder that callers fill when starting a task. */
+export type TemplateVariable = {
+  name: string;
+  type: TemplateVariableType;
+  label: string;
+  description: string;
+  required: boolean;
+  /** Used when the caller omits the variable; null means "leave empty". */
+  default: TemplateVariableValue | null;
+  /** Allowed values for `enum`. */
+  options?: string[];
+  /** Character cap for string/text values. */
+  maxLength?: number;
+};
+
+export type TaskTemplateBudget = {
+  maxDurationMs: number;
+  maxTurns: number;
+  maxTokenDelta: number;
+  maxCostUsd: number | null;
+  maxUsageTokens: number | null;
+};
+
+export type TaskTemplateDefinition = {
   nameZh: string;
   nameEn: string;
   descriptionZh: string;
   descriptionEn: string;
-  defaultGoal: string;
-  suggestedDurationMin: number;
-  defaultMaxTurns: number;
-  defaultMaxTokenDelta: number;
-  promptScaffold: {
-    outputFormat: string;
-    guardrails: string[];
-  };
+  /** Goal text with `{{variable}}` placeholders. */
+  goalTemplate: string;
+  variables: TemplateVariable[];
+  budget: TaskTemplateBudget;
+  outputFormat: string;
+  guardrails: string[];
+  /** Preset from WORKFLOW_PRESETS run as the task's step pipeline. */
+  workflowId: string | null;
+  /** Persona names staffed into the task group when a run starts, one fresh agent each. */
+  personas: string[];
+};
+
+export const MAX_TEMPLATE_VARIABLES = 16;
+const MAX_GUARDRAILS = 16;
+const MAX_TEMPLATE_PERSONAS = 8;
+const MAX_TEXT_CHARS = 4000;
+const DEFAULT_VARIABLE_MAX_LENGTH = 2000;
+const VARIABLE_NAME_RE = /^[a-z][a-z0-9_]{0,31}$/;
+const SLUG_RE = /^[a-z0-9][a-z0-9_-]{1,47}$/;
+const PLACEHOLDER_RE = /\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/g;
+const VARIABLE_TYPES: TemplateVariableType[] = ["string", "text", "number", "boolean", "enum"];
+
+const TOPIC_VARIABLE: TemplateVariable = {
+  name: "topic",
+  type: "text",
+  label: "主题",
+  description: "What the task is about.",
+  required: false,
+  default: "由用户输入为准",
+  maxLength: DEFAULT_VARIABLE_MAX_LENGTH,
 };
 
-export const TASK_TEMPLATES: TaskTemplate[] = [
+/** Seeded into every workspace as version 1; editing them creates new versions like any other template. */
+export const BUILTIN_TASK_TEMPLATES: Array<{ slug: string; definition: TaskTemplateDefinition }> = [
   {
-    id: "debate",
-    nameZh: "辩论模式",
-    nameEn: "Debate Mode",
-    descriptionZh: "让多智能体围绕一个议题进行正反辩论并给出裁决。",
-    descriptionEn: "Run multi-agent pro/con debate and provide a final verdict.",
-    defaultGoal: "组织正反双方围绕议题进行多轮辩论，最终给出胜负与理由。",
-    suggestedDurationMin: 5,
-    defaultMaxTurns: 24,
-    defaultMaxTokenDelta: 18000,
-    promptScaffold: {
+    slug: "debate",
+    definition: {
+      nameZh: "辩论模式",
+      nameEn: "Debate Mode",
+      descriptionZh: "让多智能体围绕一个议题进行正反辩论并给出裁决。",
+      descriptionEn: "Run multi-agent pro/con debate and provide a final verdict.",
+      goalTemplate: "组织正反双方围绕议题进行多轮辩论，最终给出胜负与理由。\n主题：{{topic}}",
+      variables: [TOPIC_VARIABLE],
+      budget: { maxDurationMs: 5 * 60_000, maxTurns: 24, maxTokenDelta: 18000, maxCostUsd: null, maxUsageTokens: null },
       outputFormat: "观点 -> 证据 -> 反驳 -> 结论 -> 胜负判断",
       guardrails: ["避免空话", "必须引用对方观点回应", "最终输出明确胜负"],
+      workflowId: "debate",
+      personas: [],
     },
   },
   {
-    id: "paper",
-    nameZh: "论文模式",
-    nameEn: "Paper Mode",
-    descriptionZh: "从题目澄清到大纲与正文草稿，输出结构化学术文本。",
-    descriptionEn: "From topic clarification to outline and draft in academic structure.",
-    defaultGoal: "围绕主题完成论文草稿，包括摘要、引言、方法、结果、结论。",
-    suggestedDurationMin: 8,
-    defaultMaxTurns: 32,
-    defaultMaxTokenDelta: 22000,
-    promptScaffold: {
+    slug: "paper",
+    definition: {
+      nameZh: "论文模式",
+      nameEn: "Paper Mode",
+      descriptionZh: "从题目澄清到大纲与正文草稿，输出结构化学术文本。",
+      descriptionEn: "From topic clarification to outline and draft in academic structure.",
+      goalTemplate: "围绕主题完成论文草稿，包括摘要、引言、方法、结果、结论。\n主题：{{topic}}",
+      variables: [TOPIC_VARIABLE],
+      budget: { maxDurationMs: 8 * 60_000, maxTurns: 32, maxTokenDelta: 22000, maxCostUsd: null, maxUsageTokens: null },
       outputFormat: "摘要/引言/方法/结果/讨论/结论/参考建议",
       guardrails: ["结构完整", "论证连贯", "避免虚构参考文献编号"],
+      workflowId: "paper",
+      personas: [],
     },
   },
   {
-    id: "code_review",
-    nameZh: "代码评审模式",
-    nameEn: "Code Review Mode",
-    descriptionZh: "按严重级别输出问题清单，并附带修复建议与测试建议。",
-    descriptionEn: "Produce severity-ranked findings with fixes and test suggestions.",
-    defaultGoal: "对当前代码改动进行严格评审，输出高/中/低风险问题与修复建议。",
-    suggestedDurationMin: 6,
-    defaultMaxTurns: 20,
-    defaultMaxTokenDelta: 16000,
-    promptScaffold: {
+    slug: "code_review",
+    definition: {
+      nameZh: "代码评审模式",
+      nameEn: "Code Review Mode",
+      descriptionZh: "按严重级别输出问题清单，并附带修复建议与测试建议。",
+      descriptionEn: "Produce severity-ranked findings with fixes and test suggestions.",
+      goalTemplate: "对当前代码改动进行严格评审，输出高/中/低风险问题与修复建议。\n主题：{{topic}}",
+      variables: [TOPIC_VARIABLE],
+      budget: { maxDurationMs: 6 * 60_000, maxTurns: 20, maxTokenDelta: 16000, maxCostUsd: null, maxUsageTokens: null },
       outputFormat: "Findings(High->Low) -> Open Questions -> Suggested Tests",
       guardrails: ["必须给出文件定位", "优先行为回归风险", "避免泛泛建议"],
+      workflowId: "code_review",
+      personas: [],
     },
   },
 ];
 
-export function getTaskTemplate(templateId: string | null | undefined): TaskTemplate | null {
-  if (!templateId) return null;
-  return TASK_TEMPLATES.find((t) => t.id === templateId) ?? null;
+export function normalizeTemplateSlug(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const slug = raw.trim().toLowerCase();
+  return SLUG_RE.test(slug) ? slug : null;
 }
 
-export function buildTemplateGoal(template: TaskTemplate, topic: string) {
-  const cleanTopic = topic.trim();
-  const title = cleanTopic ? `主题：${cleanTopic}` : "主题：由用户输入为准";
-  const guardrails = template.promptScaffold.guardrails.map((x) => `- ${x}`).join("\n");
-  return `${template.defaultGoal}\n${title}\n输出格式：${template.promptScaffold.outputFormat}\n约束：\n${guardrails}`;
+function str(raw: unknown) {
+  return typeof raw === "string" ? raw.trim() : "";
 }
 
+function placeholdersOf(text: string) {
+  return [...text.matchAll(PLACEHOLDER_RE)].map((m) => m[1]!);
+}
+
+function parseVariable(raw: unknown, index: number): TemplateVariable | string {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return `variables[${index}] must be an object`;
+  const v = raw as Record<string, unknown>;
+  const name = str(v.name);
+  if (!VARIABLE_NAME_RE.test(name)) return `variables[${index}].name must be snake_case`;
+  const type = (str(v.type) || "string") as TemplateVariableType;
+  if (!VARIABLE_TYPES.includes(type)) return `variable ${name}: type must be one of ${VARIABLE_TYPES.join(", ")}`;
+  const variable: TemplateVariable = {
+    name,
+    type,
+    label: str(v.label) || name,
+    description: str(v.description),
+    required: v.required === true,
+    default: null,
+  };
+  if (type === "enum") {
+    const options = Array.isArray(v.options) ? [...new Set(v.options.map(str).filter(Boolean))] : [];
+    if (options.length === 0) return `variable ${name}: enum needs options`;
+    variable.options = options;
+  }
+  if (type === "string" || type === "text") {
+    const maxLength = v.maxLength === undefined ? DEFAULT_VARIABLE_MAX_LENGTH : Number(v.maxLength);
+    if (!Number.isInteger(maxLength) || maxLength <= 0 || maxLength > MAX_TEXT_CHARS) {
+      return `variable ${name}: maxLength must be an integer in 1..${MAX_TEXT_CHARS}`;
+    }
+    variable.maxLength = maxLength;
+  }
+  if (v.default !== undefined && v.default !== null) {
+    const coerced = coerceVariable(variable, v.default);
+    if (typeof coerced === "object") return `variable ${name}: default ${coerced.error}`;
+    variable.default = coerced;
+  }
+  return variable;
+}
+
+function coerceVariable(variable: TemplateVariable, raw: unknown): TemplateVariableValue | { error: string } {
+  switch (variable.type) {
+    case "number": {
+      const n = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() ? Number(raw) : NaN;
+      return Number.isFinite(n) ? n : { error: "must be a number" };
+    }
+    case "boolean":
+      if (typeof raw === "boolean") return raw;
+      if (raw === "true" || raw === "false") return raw === "true";
+      return { error: "must be a boolean" };
+    case "enum":
+      return typeof raw === "string" && variable.options?.includes(raw.trim())
+        ? raw.trim()
+        : { error: `must be one of ${variable.options?.join(", ")}` };
+    default: {
+      if (typeof raw !== "string" && typeof raw !== "number") return { error: "must be a string" };
+      const text = String(raw).trim();
+      if (variable.type === "string" && text.includes("\n")) return { error: "must be a single line" };
+      if (variable.maxLength && text.length > variable.maxLength) {
+        return { error: `exceeds ${variable.maxLength} chars` };
+      }
+      return text;
+    }
+  }
+}
+
+function parseBudget(raw: unknown): TaskTemplateBudget | string {
+  const b = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const positive = (key: string, fallback: number | null) => {
+    if (b[key] === undefined || b[key] === null) return fallback;
+    const n = Number(b[key]);
+    return Number.isFinite(n) && n > 0 ? n : `budget.${key} must be a positive number`;
+  };
+  const maxDurationMs = positive("maxDurationMs", 5 * 60_000);
+  const maxTurns = positive("maxTurns", 24);
+  const maxTokenDelta = positive("maxTokenDelta", 18000);
+  const maxCostUsd = positive("maxCostUsd", null);
+  const maxUsageTokens = positive("maxUsageTokens", null);
+  for (const value of [maxDurationMs, maxTurns, maxTokenDelta, maxCostUsd, maxUsageTokens]) {
+    if (typeof value === "string") return value;
+  }
+  return {
+    maxDurationMs: Math.max(15_000, Math.floor(maxDurationMs as number)),
+    maxTurns: Math.floor(maxTurns as number),
+    maxTokenDelta: Math.max(1000, Math.floor(maxTokenDelta as number)),
+    maxCostUsd: maxCostUsd as number | null,
+    maxUsageTokens: maxUsageTokens === null ? null : Math.floor(maxUsageTokens as number),
+  };
+}
+
+/**
+ * Validates a user-edited template. Every placeholder in the goal template and
+ * output format must name a declared variable, so a start request can be
+ * checked completely before the task runs.
+ */
+export function parseTaskTemplateDefinition(
+  raw: unknown
+): { ok: true; definition: TaskTemplateDefinition } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "template must be an object" };
+  const t = raw as Record<string, unknown>;
+
+  const nameZh = str(t.nameZh);
+  const nameEn = str(t.nameEn);
+  if (!nameZh && !nameEn) return { ok: false, error: "nameZh or nameEn is required" };
+  const goalTemplate = str(t.goalTemplate);
+  if (!goalTemplate) return { ok: false, error: "goalTemplate is required" };
+  const outputFormat = str(t.outputFormat);
+  for (const [key, value] of [
+    ["goalTemplate", goalTemplate],
+    ["outputFormat", outputFormat],
+    ["descriptionZh", str(t.descriptionZh)],
+    ["descriptionEn", str(t.descriptionEn)],
+  ] as const) {
+    if (value.length > MAX_TEXT_CHARS) return { ok: false, error: `${key} exceeds ${MAX_TEXT_CHARS} chars` };
+  }
+
+  const rawVariables = Array.isArray(t.variables) ? t.variables : [];
+  if (rawVariables.length > MAX_TEMPLATE_VARIABLES) {
+    return { ok: false, error: `at most ${MAX_TEMPLATE_VARIABLES} variables` };
+  }
+  const variables: TemplateVariable[] = [];
+  for (const [index, item] of rawVariables.entries()) {
+    const parsed = parseVariable(item, index);
+    if (typeof parsed === "string") return { ok: false, error: parsed };
+    if (variables.some((v) => v.name === parsed.name)) return { ok: false, error: `duplicate variable ${parsed.name}` };
+    variables.push(parsed);
+  }
+  const declared = new Set(variables.map((v) => v.name));
+  const unknown = [...placeholdersOf(goalTemplate), ...placeholdersOf(outputFormat)].find((name) => !declared.has(name));
+  if (unknown) return { ok: false, error: `placeholder {{${unknown}}} has no matching variable` };
+
+  const guardrails = Array.isArray(t.guardrails) ? t.guardrails.map(str).filter(Boolean) : [];
+  if (guardrails.length > MAX_GUARDRAILS) return { ok: false, error: `at most ${MAX_GUARDRAILS} guardrails` };
+
+  const budget = parseBudget(t.budget);
+  if (typeof budget === "string") return { ok: false, error: budget };
+
+  const workflowId = str(t.workflowId) || null;
+  if (workflowId && !getWorkflowPreset(workflowId)) return { ok: false, error: `unknown workflowId "${workflowId}"` };
+
+  const rawPersonas = t.personas === undefined || t.personas === null ? [] : t.personas;
+  if (!Array.isArray(rawPersonas)) return { ok: false, error: "personas must be an array of persona names" };
+  if (rawPersonas.length > MAX_TEMPLATE_PERSONAS) return { ok: false, error: `at most ${MAX_TEMPLATE_PERSONAS} personas` };
+  const personas: string[] = [];
+  for (const item of rawPersonas) {
+    const name = normalizePersonaName(item);
+    if (!name) return { ok: false, error: `invalid persona name "${String(item)}"` };
+    personas.push(name);
+  }
+
+  return {
+    ok: true,
+    definition: {
+      nameZh: nameZh || nameEn,
+      nameEn: nameEn || nameZh,
+      descriptionZh: str(t.descriptionZh),
+      descriptionEn: str(t.descriptionEn),
+      goalTemplate,
+      variables,
+      budget,
+      outputFormat,
+      guardrails,
+      workflowId,
+      personas,
+    },
+  };
+}
+
+/**
+ * Checks caller-supplied values against the template's variables: unknown names
+ * are rejected, types are coerced, defaults fill gaps and missing required
+ * variables fail. A bare `topic` string fills the `topic` variable when the template declares one.
+ */
+export function resolveTemplateVariables(
+  definition: TaskTemplateDefinition,
+  raw: unknown,
+  topic?: string
+): { ok: true; values: Record<string, TemplateVariableValue> } | { ok: false; error: string } {
+  if (raw !== undefined && raw !== null && (typeof raw !== "object" || Array.isArray(raw))) {
+    return { ok: false, error: "variables must be an object" };
+  }
+  const input = { ...((raw as Record<string, unknown> | null) ?? {}) };
+  const known = new Set(definition.variables.map((v) => v.name));
+  if (topic?.trim() && input.topic === undefined && known.has("topic")) input.topic = topic;
+
+  const extra = Object.keys(input).find((name) => !known.has(name));
+  if (extra) return { ok: false, error: `unknown variable "${extra}"` };
+
+  const values: Record<string, TemplateVariableValue> = {};
+  for (const variable of definition.variables) {
+    const given = input[variable.name];
+    const empty = given === undefined || given === null || (typeof given === "string" && !given.trim());
+    if (empty) {
+      if (variable.default !== null) values[variable.name] = variable.default;
+      else if (variable.required) return { ok: false, error: `variable "${variable.name}" is required` };
+      continue;
+    }
+    const coerced = coerceVariable(variable, given);
+    if (typeof coerced === "object") return { ok: false, error: `variable "${variable.name}" ${coerced.error}` };
+    values[variable.name] = coerced;
+  }
+  return { ok: true, values };
+}
+
+function renderPlaceholders(text: string, values: Record<string, TemplateVariableValue>) {
+  return text.replace(PLACEHOLDER_RE, (_, name: string) => (values[name] === undefined ? "" : String(values[name])));
+}
+
+export function renderTemplateGoal(definition: TaskTemplateDefinition, values: Record<string, TemplateVariableValue>) {
+  const parts = [renderPlaceholders(definition.goalTemplate, values)];
+  if (definition.outputFormat) parts.push(`输出格式：${renderPlaceholders(definition.outputFormat, values)}`);
+  if (definition.guardrails.length > 0) {
+    parts.push(`约束：\n${definition.guardrails.map((x) => `- ${x}`).join("\n")}`);
+  }
+  return parts.join("\n");
+}
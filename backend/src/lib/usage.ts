@@ -0,0 +1,93 @@
+import { getConfig, type ModelPrice } from "@/lib/config";
+import type { TokenUsage } from "@/lib/glm-stream";
+import { store, type LlmUsageSource } from "@/lib/storage";
+
+type UUID = string;
+
+export type LlmUsageContext = {
+  taskRunId?: UUID | null;
+  gameId?: UUID | null;
+  gameKind?: string | null;
+};
+
+/**
+ * Looks up the configured price for a model: an exact key wins, otherwise the
+ * longest matching "prefix*" key. OpenRouter-style "vendor/model" ids are also
+ * tried without the vendor prefix.
+ */
+export function resolveModelPrice(model: string): ModelPrice | null {
+  const prices = getConfig().modelPrices;
+  const candidates = [model, model.includes("/") ? model.slice(model.indexOf("/") + 1) : ""].filter(Boolean);
+  for (const candidate of candidates) {
+    const exact = prices[candidate];
+    if (exact) return exact;
+  }
+
+  let best: { prefix: string; price: ModelPrice } | null = null;
+  for (const [key, price] of Object.entries(prices)) {
+    if (!key.endsWith("*")) continue;
+    const prefix = key.slice(0, -1);
+    if (!candidates.some((c) => c.startsWith(prefix))) continue;
+    if (!best || prefix.length > best.prefix.length) best = { prefix, price };
+  }
+  return best?.price ?? null;
+}
+
+export function estimateCostUsd(model: string, usage: TokenUsage) {
+  const price = resolveModelPrice(model);
+  if (!price) return 0;
+  return (usage.promptTokens * price.inputPerMTok + usage.completionTokens * price.outputPerMTok) / 1_000_000;
+}
+
+/** Normalizes a non-streaming `usage` block from OpenAI-compatible or Anthropic responses. */
+export function parseUsageBlock(raw: unknown): TokenUsage | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const u = raw as Record<string, unknown>;
+  const promptTokens = Number(u.prompt_tokens ?? u.input_tokens ?? 0) || 0;
+  const completionTokens = Number(u.completion_tokens ?? u.output_tokens ?? 0) || 0;
+  const totalTokens = Number(u.total_tokens ?? 0) || promptTokens + completionTokens;
+  if (totalTokens <= 0) return undefined;
+  return { promptTokens, completionTokens, totalTokens };
+}
+
+/**
+ * Persists one LLM call's token usage and cost. Calls made without any usage
+ * context are attributed to the workspace's running task run when exactly one is
+ * running. Best effort: accounting failures never fail the call itself.
+ */
+export async function recordLlmUsage(input: {
+  agentId: UUID;
+  workspaceId?: UUID;
+  profileId: UUID | null;
+  provider: string;
+  model: string;
+  usage: TokenUsage | undefined;
+  source: LlmUsageSource;
+  context?: LlmUsageContext;
+}) {
+  if (!input.usage || input.usage.totalTokens <= 0) return;
+  try {
+    const workspaceId = input.workspaceId ?? (await store.getAgent({ agentId: input.agentId })).workspaceId;
+    const context = input.context ?? {};
+    const taskRunId = input.context
+      ? (context.taskRunId ?? null)
+      : await store.getRunningTaskRunId({ workspaceId });
+    await store.insertLlmUsage({
+      workspaceId,
+      agentId: input.agentId,
+      modelProfileId: input.profileId,
+      taskRunId,
+      gameId: context.gameId ?? null,
+      gameKind: context.gameKind ?? null,
+      source: input.source,
+      provider: input.provider,
+      model: input.model || "unknown",
+      promptTokens: input.usage.promptTokens,
+      completionTokens: input.usage.completionTokens,
+      totalTokens: input.usage.totalTokens,
+      costUsd: estimateCostUsd(input.model, input.usage),
+    });
+  } catch {
+    // ignore
+  }
+}
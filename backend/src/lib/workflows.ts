@@ -0,0 +1,361 @@
+export type WorkflowCheck =
+  | { kind: "min_length"; chars: number }
+  | { kind: "contains"; phrases: string[]; mode?: "any" | "all" }
+  | { kind: "regex"; pattern: string; flags?: string }
+  | { kind: "llm_judge"; criteria: string };
+
+export type WorkflowStep = {
+  id: string;
+  title: string;
+  /** Agent role that should produce this step; falls back to the task owner when absent from the group. */
+  role: string;
+  instruction: string;
+  /** Steps sharing a dependency run in parallel (fan-out); several dependencies join them (fan-in). */
+  dependsOn?: string[];
+  acceptance?: WorkflowCheck[];
+  maxAttempts?: number;
+};
+
+export type WorkflowDefinition = {
+  id: string;
+  name: string;
+  steps: WorkflowStep[];
+};
+
+export type WorkflowStepStatus = "pending" | "running" | "checking" | "passed" | "failed";
+
+export const DEFAULT_STEP_MAX_ATTEMPTS = 2;
+export const MAX_WORKFLOW_STEPS = 32;
+
+const STEP_ID_RE = /^[a-z0-9_-]{1,48}$/i;
+
+function parseCheck(raw: unknown): WorkflowCheck | string {
+  if (!raw || typeof raw !== "object") return "check must be an object";
+  const c = raw as Record<string, unknown>;
+  if (c.kind === "min_length") {
+    const chars = Number(c.chars);
+    if (!Number.isFinite(chars) || chars <= 0) return "min_length.chars must be positive";
+    return { kind: "min_length", chars: Math.floor(chars) };
+  }
+  if (c.kind === "contains") {
+    const phrases = Array.isArray(c.phrases)
+      ? c.phrases.filter((p): p is string => typeof p === "string" && p.trim().length > 0)
+      : [];
+    if (phrases.length === 0) return "contains.phrases must be a non-empty string array";
+    return { kind: "contains", phrases, mode: c.mode === "all" ? "all" : "any" };
+  }
+  if (c.kind === "regex") {
+    const pattern = typeof c.pattern === "string" ? c.pattern : "";
+    const flags = typeof c.flags === "string" ? c.flags : undefined;
+    try {
+      new RegExp(pattern, flags);
+    } catch {
+      return `invalid regex: ${pattern}`;
+    }
+    return { kind: "regex", pattern, ...(flags ? { flags } : {}) };
+  }
+  if (c.kind === "llm_judge") {
+    const criteria = typeof c.criteria === "string" ? c.criteria.trim() : "";
+    if (!criteria) return "llm_judge.criteria is required";
+    return { kind: "llm_judge", criteria };
+  }
+  return `unknown check kind: ${String(c.kind)}`;
+}
+
+/**
+ * Validates an untrusted workflow definition: unique step ids, known
+ * dependencies and no cycles. Returns the normalized definition or an error.
+ */
+export function parseWorkflowDefinition(
+  raw: unknown
+): { ok: true; workflow: WorkflowDefinition } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "workflow must be an object" };
+  const w = raw as Record<string, unknown>;
+  const rawSteps = Array.isArray(w.steps) ? w.steps : [];
+  if (rawSteps.length === 0) return { ok: false, error: "workflow.steps must be a non-empty array" };
+  if (rawSteps.length > MAX_WORKFLOW_STEPS) {
+    return { ok: false, error: `workflow may have at most ${MAX_WORKFLOW_STEPS} steps` };
+  }
+
+  const steps: WorkflowStep[] = [];
+  const ids = new Set<string>();
+  for (const item of rawSteps) {
+    const s = (item ?? {}) as Record<string, unknown>;
+    const id = typeof s.id === "string" ? s.id.trim() : "";
+    if (!STEP_ID_RE.test(id)) return { ok: false, error: `invalid step id: ${String(s.id)}` };
+    if (ids.has(id)) return { ok: false, error: `duplicate step id: ${id}` };
+    ids.add(id);
+    const role = typeof s.role === "string" ? s.role.trim() : "";
+    const instruction = typeof s.instruction === "string" ? s.instruction.trim() : "";
+    if (!role || !instruction) return { ok: false, error: `step ${id} needs role and instruction` };
+
+    const acceptance: WorkflowCheck[] = [];
+    for (const check of Array.isArray(s.acceptance) ? s.acceptance : []) {
+      const parsed = parseCheck(check);
+      if (typeof parsed === "string") return { ok: false, error: `step ${id}: ${parsed}` };
+      acceptance.push(parsed);
+    }
+    const maxAttempts = Number(s.maxAttempts);
+    steps.push({
+      id,
+      title: typeof s.title === "string" && s.title.trim() ? s.title.trim() : id,
+      role,
+      instruction,
+      dependsOn: Array.isArray(s.dependsOn)
+        ? [...new Set(s.dependsOn.filter((d): d is string => typeof d === "string").map((d) => d.trim()))]
+        : [],
+      acceptance,
+      maxAttempts:
+        Number.isFinite(maxAttempts) && maxAttempts > 0 ? Math.min(5, Math.floor(maxAttempts)) : undefined,
+    });
+  }
+
+  for (const step of steps) {
+    for (const dep of step.dependsOn ?? []) {
+      if (!ids.has(dep)) return { ok: false, error: `step ${step.id} depends on unknown step ${dep}` };
+      if (dep === step.id) return { ok: false, error: `step ${step.id} depends on itself` };
+    }
+  }
+  const cycle = findCycle(steps);
+  if (cycle) return { ok: false, error: `dependency cycle: ${cycle.join(" -> ")}` };
+
+  return {
+    ok: true,
+    workflow: {
+      id: typeof w.id === "string" && w.id.trim() ? w.id.trim() : "custom",
+      name: typeof w.name === "string" && w.name.trim() ? w.name.trim() : "Custom workflow",
+      steps,
+    },
+  };
+}
+
+function findCycle(steps: WorkflowStep[]): string[] | null {
+  const byId = new Map(steps.map((s) => [s.id, s]));
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === "done") return null;
+    if (state.get(id) === "visiting") return [...path.slice(path.indexOf(id)), id];
+    state.set(id, "visiting");
+    path.push(id);
+    for (const dep of byId.get(id)?.dependsOn ?? []) {
+      const found = visit(dep);
+      if (found) return found;
+    }
+    path.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const step of steps) {
+    const found = visit(step.id);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Pending steps whose dependencies have all passed. */
+export function listReadySteps(
+  workflow: WorkflowDefinition,
+  statusOf: (stepId: string) => WorkflowStepStatus
+): WorkflowStep[] {
+  return workflow.steps.filter(
+    (step) => statusOf(step.id) === "pending" && (step.dependsOn ?? []).every((dep) => statusOf(dep) === "passed")
+  );
+}
+
+export function describeCheck(check: WorkflowCheck) {
+  if (check.kind === "min_length") return `at least ${check.chars} characters`;
+  if (check.kind === "contains") {
+    const list = check.phrases.map((p) => `"${p}"`).join(", ");
+    return check.mode === "all" ? `mentions all of ${list}` : `mentions one of ${list}`;
+  }
+  if (check.kind === "regex") return `matches /${check.pattern}/${check.flags ?? ""}`;
+  return check.criteria;
+}
+
+export const WORKFLOW_PRESETS: WorkflowDefinition[] = [
+  {
+    id: "debate",
+    name: "Debate",
+    steps: [
+      {
+        id: "pro_opening",
+        title: "Pro opening",
+        role: "proponent",
+        instruction:
+          "Give the pro-side opening statement on {{topic}}: one thesis sentence and three arguments, each with evidence.",
+        acceptance: [{ kind: "min_length", chars: 200 }],
+      },
+      {
+        id: "con_opening",
+        title: "Con opening",
+        role: "opponent",
+        instruction:
+          "Give the con-side opening statement on {{topic}}: one thesis sentence and three arguments, each with evidence.",
+        acceptance: [{ kind: "min_length", chars: 200 }],
+      },
+      {
+        id: "pro_rebuttal",
+        title: "Pro rebuttal",
+        role: "proponent",
+        instruction: "Rebut the con opening point by point. Quote each claim you answer.",
+        dependsOn: ["pro_opening", "con_opening"],
+        acceptance: [{ kind: "min_length", chars: 200 }],
+      },
+      {
+        id: "con_rebuttal",
+        title: "Con rebuttal",
+        role: "opponent",
+        instruction: "Rebut the pro opening point by point. Quote each claim you answer.",
+        dependsOn: ["pro_opening", "con_opening"],
+        acceptance: [{ kind: "min_length", chars: 200 }],
+      },
+      {
+        id: "verdict",
+        title: "Verdict",
+        role: "moderator",
+        instruction:
+          "Summarize both sides, then declare the winner of the debate on {{topic}} and justify the decision.",
+        dependsOn: ["pro_rebuttal", "con_rebuttal"],
+        acceptance: [
+          { kind: "contains", phrases: ["winner", "wins", "胜"] },
+          { kind: "llm_judge", criteria: "Names exactly one winning side and gives reasons grounded in the debate." },
+        ],
+      },
+    ],
+  },
+  {
+    id: "paper",
+    name: "Paper",
+    steps: [
+      {
+        id: "scope",
+        title: "Scope",
+        role: "researcher",
+        instruction:
+          "Define the research question for {{topic}}, its scope, key assumptions and the evidence needed.",
+        acceptance: [{ kind: "min_length", chars: 200 }],
+      },
+      {
+        id: "method",
+        title: "Method",
+        role: "methodologist",
+        instruction: "Design the method and evaluation plan that answers the research question.",
+        dependsOn: ["scope"],
+        acceptance: [{ kind: "min_length", chars: 200 }],
+      },
+      {
+        id: "outline",
+        title: "Outline",
+        role: "writer",
+        instruction: "Write a section-by-section outline of the paper based on the scope and method.",
+        dependsOn: ["scope", "method"],
+        acceptance: [{ kind: "contains", phrases: ["abstract", "摘要"] }],
+      },
+      {
+        id: "draft",
+        title: "Draft",
+        role: "writer",
+        instruction:
+          "Write the full draft following the outline: abstract, introduction, method, results, discussion, conclusion.",
+        dependsOn: ["outline"],
+        acceptance: [
+          { kind: "min_length", chars: 1200 },
+          { kind: "contains", phrases: ["conclusion", "结论"] },
+        ],
+        maxAttempts: 3,
+      },
+      {
+        id: "review",
+        title: "Review",
+        role: "reviewer",
+        instruction: "Review the draft and give exactly five numbered, actionable revisions.",
+        dependsOn: ["draft"],
+        acceptance: [{ kind: "regex", pattern: "(^|\\n)\\s*5[.)、]", flags: "" }],
+      },
+    ],
+  },
+  {
+    id: "code_review",
+    name: "Code review",
+    steps: [
+      {
+        id: "architecture",
+        title: "Architecture findings",
+        role: "architect",
+        instruction:
+          "Review {{topic}} for design flaws and maintainability risks. Rank findings High/Medium/Low with file locations.",
+        acceptance: [{ kind: "contains", phrases: ["high", "高"] }],
+      },
+      {
+        id: "security",
+        title: "Security findings",
+        role: "security_reviewer",
+        instruction:
+          "Review {{topic}} for exploitable issues and abuse scenarios. Rank findings High/Medium/Low with file locations.",
+        acceptance: [{ kind: "contains", phrases: ["high", "高"] }],
+      },
+      {
+        id: "tests",
+        title: "Test plan",
+        role: "qa_engineer",
+        instruction: "Turn the architecture and security findings into a checklist of reproducible tests and edge cases.",
+        dependsOn: ["architecture", "security"],
+        acceptance: [{ kind: "min_length", chars: 200 }],
+      },
+      {
+        id: "plan",
+        title: "Fix plan",
+        role: "implementer",
+        instruction: "Produce an ordered patch plan that addresses every High finding and references the tests.",
+        dependsOn: ["architecture", "security", "tests"],
+        acceptance: [
+          { kind: "llm_judge", criteria: "Every High severity finding from the inputs has a concrete fix in the plan." },
+        ],
+      },
+    ],
+  },
+  {
+    id: "product_design",
+    name: "Product design",
+    steps: [
+      {
+        id: "problem",
+        title: "Problem framing",
+        role: "product_manager",
+        instruction: "Frame the user problem behind {{topic}} and define success metrics.",
+        acceptance: [{ kind: "min_length", chars: 200 }],
+      },
+      {
+        id: "research",
+        title: "User research",
+        role: "user_researcher",
+        instruction: "Describe personas, jobs-to-be-done and constraints for {{topic}}.",
+        acceptance: [{ kind: "min_length", chars: 200 }],
+      },
+      {
+        id: "flow",
+        title: "Core flow",
+        role: "ux_designer",
+        instruction: "Design the core flow and information architecture that solves the framed problem for these users.",
+        dependsOn: ["problem", "research"],
+        acceptance: [{ kind: "min_length", chars: 300 }],
+      },
+      {
+        id: "experiments",
+        title: "Launch metrics",
+        role: "growth_strategist",
+        instruction: "Propose launch metrics and at least three measurable experiments for the designed flow.",
+        dependsOn: ["flow"],
+        acceptance: [{ kind: "min_length", chars: 200 }],
+      },
+    ],
+  },
+];
+
+export function getWorkflowPreset(id: string | null | undefined): WorkflowDefinition | null {
+  if (!id) return null;
+  return WORKFLOW_PRESETS.find((w) => w.id === id) ?? null;
+}
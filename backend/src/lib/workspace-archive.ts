@@ -0,0 +1,327 @@
+import { asc, eq, getTableColumns, inArray } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+
+import { getDb } from "@/db";
+import {
+  agentLinks,
+  agentPersonas,
+  agents,
+  blueprints,
+  groupMembers,
+  groups,
+  messageReactions,
+  messageRevisions,
+  messages,
+  modelProfiles,
+  taskReviews,
+  taskRunSteps,
+  taskRuns,
+  taskTemplateVersions,
+  taskTemplates,
+  toolPolicies,
+  undercoverGames,
+  undercoverPlayers,
+  undercoverReviews,
+  undercoverRoundEvents,
+  undercoverVotes,
+  werewolfGames,
+  werewolfPlayers,
+  werewolfReviews,
+  werewolfRoundEvents,
+  werewolfVotes,
+  workspaces,
+} from "@/db/schema";
+
+type UUID = string;
+type ArchiveRow = Record<string, unknown>;
+
+export const WORKSPACE_ARCHIVE_FORMAT = "agent-wechat.workspace";
+/** Bump when a section or column changes shape; import accepts every version listed in SUPPORTED_VERSIONS. */
+export const WORKSPACE_ARCHIVE_VERSION = 1;
+const SUPPORTED_VERSIONS = [1];
+
+const INSERT_CHUNK = 500;
+const UUID_RE = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi;
+
+/**
+ * Archive sections in insert order (parents before children). `idKey` names the
+ * row's own id, which import replaces with a fresh one; composite-key tables have
+ * none and are remapped through their parents.
+ */
+const SECTIONS = [
+  { key: "modelProfiles", table: modelProfiles, idKey: "id" },
+  { key: "blueprints", table: blueprints, idKey: "id" },
+  { key: "agentPersonas", table: agentPersonas, idKey: "id" },
+  { key: "agents", table: agents, idKey: "id" },
+  { key: "groups", table: groups, idKey: "id" },
+  { key: "groupMembers", table: groupMembers, idKey: null },
+  { key: "agentLinks", table: agentLinks, idKey: "id" },
+  { key: "messages", table: messages, idKey: "id" },
+  { key: "messageReactions", table: messageReactions, idKey: null },
+  { key: "messageRevisions", table: messageRevisions, idKey: "id" },
+  { key: "taskTemplates", table: taskTemplates, idKey: "id" },
+  { key: "taskTemplateVersions", table: taskTemplateVersions, idKey: null },
+  { key: "taskRuns", table: taskRuns, idKey: "id" },
+  { key: "taskRunSteps", table: taskRunSteps, idKey: null },
+  { key: "taskReviews", table: taskReviews, idKey: null },
+  { key: "toolPolicies", table: toolPolicies, idKey: "id" },
+  { key: "undercoverGames", table: undercoverGames, idKey: "id" },
+  { key: "undercoverPlayers", table: undercoverPlayers, idKey: null },
+  { key: "undercoverRoundEvents", table: undercoverRoundEvents, idKey: "id" },
+  { key: "undercoverVotes", table: undercoverVotes, idKey: "id" },
+  { key: "undercoverReviews", table: undercoverReviews, idKey: null },
+  { key: "werewolfGames", table: werewolfGames, idKey: "id" },
+  { key: "werewolfPlayers", table: werewolfPlayers, idKey: null },
+  { key: "werewolfRoundEvents", table: werewolfRoundEvents, idKey: "id" },
+  { key: "werewolfVotes", table: werewolfVotes, idKey: "id" },
+  { key: "werewolfReviews", table: werewolfReviews, idKey: null },
+] as const;
+
+type SectionKey = (typeof SECTIONS)[number]["key"];
+
+export type WorkspaceArchive = {
+  format: typeof WORKSPACE_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Model profile API keys and headers were dropped at export time. */
+  secretsRedacted: boolean;
+  workspace: { id: UUID; name: string; settingsJson: string; createdAt: string };
+} & Record<SectionKey, ArchiveRow[]>;
+
+export type WorkspaceImportResult = {
+  workspaceId: UUID;
+  counts: Record<SectionKey, number>;
+};
+
+function serializeRow(row: Record<string, unknown>): ArchiveRow {
+  const out: ArchiveRow = {};
+  for (const [k, v] of Object.entries(row)) out[k] = v instanceof Date ? v.toISOString() : v;
+  return out;
+}
+
+/**
+ * Reads everything needed to rebuild a workspace elsewhere: agents with their
+ * llmHistory, personas, model profiles, groups and members, messages with their
+ * reactions and revisions, task templates with every version, task runs with steps and
+ * reviews, tool policies, and both game types. Things tied to this deployment
+ * (API keys, webhooks, memberships, usage, artifact files) are left out.
+ */
+export async function exportWorkspaceArchive(input: {
+  workspaceId: UUID;
+  redactSecrets: boolean;
+}): Promise<WorkspaceArchive | null> {
+  const db = getDb();
+  const ws = await db.select().from(workspaces).where(eq(workspaces.id, input.workspaceId)).limit(1);
+  if (!ws[0]) return null;
+
+  const groupRows = await db
+    .select()
+    .from(groups)
+    .where(eq(groups.workspaceId, input.workspaceId))
+    .orderBy(asc(groups.createdAt));
+  const groupIds = groupRows.map((g) => g.id);
+  const undercover = await db.select().from(undercoverGames).where(eq(undercoverGames.workspaceId, input.workspaceId));
+  const werewolf = await db.select().from(werewolfGames).where(eq(werewolfGames.workspaceId, input.workspaceId));
+  const undercoverIds = undercover.map((g) => g.id);
+  const werewolfIds = werewolf.map((g) => g.id);
+
+  const profiles = (await db.select().from(modelProfiles).where(eq(modelProfiles.workspaceId, input.workspaceId))).map(
+    (p) => (input.redactSecrets ? { ...p, apiKey: null, headersJson: null } : p)
+  );
+
+  const sections: Record<SectionKey, Record<string, unknown>[]> = {
+    modelProfiles: profiles,
+    blueprints: await db.select().from(blueprints).where(eq(blueprints.workspaceId, input.workspaceId)),
+    agentPersonas: await db.select().from(agentPersonas).where(eq(agentPersonas.workspaceId, input.workspaceId)),
+    agents: await db
+      .select()
+      .from(agents)
+      .where(eq(agents.workspaceId, input.workspaceId))
+      .orderBy(asc(agents.createdAt)),
+    groups: groupRows,
+    groupMembers: groupIds.length ? await db.select().from(groupMembers).where(inArray(groupMembers.groupId, groupIds)) : [],
+    agentLinks: await db.select().from(agentLinks).where(eq(agentLinks.workspaceId, input.workspaceId)),
+    // Artifact files stay on this server's disk, so attachments are not carried over.
+    messages: (
+      await db
+        .select()
+        .from(messages)
+        .where(eq(messages.workspaceId, input.workspaceId))
+        .orderBy(asc(messages.sendTime))
+    ).map((m) => ({ ...m, attachmentsJson: "[]" })),
+    messageReactions: await db
+      .select()
+      .from(messageReactions)
+      .where(eq(messageReactions.workspaceId, input.workspaceId)),
+    messageRevisions: await db
+      .select()
+      .from(messageRevisions)
+      .where(eq(messageRevisions.workspaceId, input.workspaceId)),
+    taskTemplates: await db.select().from(taskTemplates).where(eq(taskTemplates.workspaceId, input.workspaceId)),
+    taskTemplateVersions: await db
+      .select()
+      .from(taskTemplateVersions)
+      .where(eq(taskTemplateVersions.workspaceId, input.workspaceId)),
+    taskRuns: await db.select().from(taskRuns).where(eq(taskRuns.workspaceId, input.workspaceId)),
+    taskRunSteps: await db.select().from(taskRunSteps).where(eq(taskRunSteps.workspaceId, input.workspaceId)),
+    taskReviews: await db.select().from(taskReviews).where(eq(taskReviews.workspaceId, input.workspaceId)),
+    toolPolicies: await db.select().from(toolPolicies).where(eq(toolPolicies.workspaceId, input.workspaceId)),
+    undercoverGames: undercover,
+    undercoverPlayers: undercoverIds.length
+      ? await db.select().from(undercoverPlayers).where(inArray(undercoverPlayers.gameId, undercoverIds))
+      : [],
+    undercoverRoundEvents: undercoverIds.length
+      ? await db.select().from(undercoverRoundEvents).where(inArray(undercoverRoundEvents.gameId, undercoverIds))
+      : [],
+    undercoverVotes: undercoverIds.length
+      ? await db.select().from(undercoverVotes).where(inArray(undercoverVotes.gameId, undercoverIds))
+      : [],
+    undercoverReviews: undercoverIds.length
+      ? await db.select().from(undercoverReviews).where(inArray(undercoverReviews.gameId, undercoverIds))
+      : [],
+    werewolfGames: werewolf,
+    werewolfPlayers: werewolfIds.length
+      ? await db.select().from(werewolfPlayers).where(inArray(werewolfPlayers.gameId, werewolfIds))
+      : [],
+    werewolfRoundEvents: werewolfIds.length
+      ? await db.select().from(werewolfRoundEvents).where(inArray(werewolfRoundEvents.gameId, werewolfIds))
+      : [],
+    werewolfVotes: werewolfIds.length
+      ? await db.select().from(werewolfVotes).where(inArray(werewolfVotes.gameId, werewolfIds))
+      : [],
+    werewolfReviews: werewolfIds.length
+      ? await db.select().from(werewolfReviews).where(inArray(werewolfReviews.gameId, werewolfIds))
+      : [],
+  };
+
+  const archive = {
+    format: WORKSPACE_ARCHIVE_FORMAT,
+    version: WORKSPACE_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    secretsRedacted: input.redactSecrets,
+    workspace: {
+      id: ws[0].id,
+      name: ws[0].name,
+      settingsJson: ws[0].settingsJson,
+      createdAt: ws[0].createdAt.toISOString(),
+    },
+  } as WorkspaceArchive;
+  for (const { key } of SECTIONS) archive[key] = sections[key].map(serializeRow);
+  return archive;
+}
+
+export function parseWorkspaceArchive(raw: unknown): { ok: true; archive: WorkspaceArchive } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "archive must be an object" };
+  const a = raw as Record<string, unknown>;
+  if (a.format !== WORKSPACE_ARCHIVE_FORMAT) return { ok: false, error: `format must be "${WORKSPACE_ARCHIVE_FORMAT}"` };
+  if (typeof a.version !== "number" || !SUPPORTED_VERSIONS.includes(a.version)) {
+    return {
+      ok: false,
+      error: `unsupported archive version ${String(a.version)}; this server reads ${SUPPORTED_VERSIONS.join(", ")}`,
+    };
+  }
+  const ws = a.workspace as Record<string, unknown> | undefined;
+  if (!ws || typeof ws.id !== "string" || typeof ws.name !== "string") {
+    return { ok: false, error: "workspace.id and workspace.name are required" };
+  }
+  for (const { key, idKey } of SECTIONS) {
+    const rows = a[key];
+    if (rows === undefined) {
+      a[key] = [];
+      continue;
+    }
+    if (!Array.isArray(rows) || rows.some((r) => !r || typeof r !== "object" || Array.isArray(r))) {
+      return { ok: false, error: `${key} must be an array of objects` };
+    }
+    if (idKey && rows.some((r) => typeof (r as ArchiveRow)[idKey] !== "string")) {
+      return { ok: false, error: `every ${key} row needs a string ${idKey}` };
+    }
+  }
+  return { ok: true, archive: a as WorkspaceArchive };
+}
+
+/**
+ * Rebuilds an archive as a new workspace. Every row id gets a fresh UUID, and
+ * references are rewritten both in uuid columns and inside text/JSON columns
+ * (llmHistory, game state, review payloads), so the same archive can be
+ * imported any number of times into one database. Every row lands in the new
+ * workspace, and a uuid the archive does not define is rejected (required
+ * columns) or cleared (optional ones). Unfinished task runs come back stopped
+ * so the runtime does not resume them.
+ */
+export async function importWorkspaceArchive(input: {
+  archive: WorkspaceArchive;
+  name?: string;
+}): Promise<WorkspaceImportResult> {
+  const { archive } = input;
+  const idMap = new Map<string, string>();
+  const remapId = (id: string) => {
+    const key = id.toLowerCase();
+    let next = idMap.get(key);
+    if (!next) {
+      next = crypto.randomUUID();
+      idMap.set(key, next);
+    }
+    return next;
+  };
+  const workspaceId = remapId(archive.workspace.id);
+  for (const { key, idKey } of SECTIONS) {
+    if (!idKey) continue;
+    for (const row of archive[key]) remapId(String(row[idKey]));
+  }
+  const rewriteText = (text: string) => text.replace(UUID_RE, (m) => idMap.get(m.toLowerCase()) ?? m);
+
+  // A uuid column may only point at rows the archive itself defines; anything else could reach into
+  // another workspace. Optional references to outside ids (e.g. the user behind a redaction) are dropped.
+  const prepare = (key: SectionKey, table: PgTable, row: ArchiveRow) => {
+    const out: Record<string, unknown> = {};
+    for (const [prop, col] of Object.entries(getTableColumns(table))) {
+      if (prop === "workspaceId") {
+        out[prop] = workspaceId;
+        continue;
+      }
+      const value = row[prop];
+      if (value === undefined || value === null) {
+        if (value === null) out[prop] = null;
+        continue;
+      }
+      if (col.dataType === "date") out[prop] = new Date(String(value));
+      else if (col.columnType === "PgUUID") {
+        const mapped = idMap.get(String(value).toLowerCase());
+        if (!mapped && col.notNull) {
+          throw new Error(`${key}.${prop} references ${String(value)}, which the archive does not define`);
+        }
+        out[prop] = mapped ?? null;
+      } else if (typeof value === "string") out[prop] = rewriteText(value);
+      else out[prop] = value;
+    }
+    return out;
+  };
+
+  const counts = {} as Record<SectionKey, number>;
+  const stoppedAt = new Date();
+  await getDb().transaction(async (tx) => {
+    await tx.insert(workspaces).values({
+      id: workspaceId,
+      name: input.name?.trim() || archive.workspace.name,
+      settingsJson: rewriteText(String(archive.workspace.settingsJson ?? "{}")),
+      createdAt: new Date(),
+    });
+    for (const { key, table } of SECTIONS) {
+      let rows = archive[key].map((row) => prepare(key, table, row));
+      if (key === "taskRuns") {
+        rows = rows.map((r) =>
+          r.status === "running" || r.status === "paused" || r.status === "stopping"
+            ? { ...r, status: "stopped", stopReason: r.stopReason ?? "manual", stoppedAt: r.stoppedAt ?? stoppedAt }
+            : r
+        );
+      }
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK) {
+        await tx.insert(table).values(rows.slice(i, i + INSERT_CHUNK) as never);
+      }
+      counts[key] = rows.length;
+    }
+  });
+
+  return { workspaceId, counts };
+}
@@ -1,27 +1,88 @@
-﻿import { store } from "@/lib/storage";
-import { chatJsonByAgent } from "@/lib/llm-client";
+﻿import { store, type AgentPersonaRecord, type ArtifactRecord, type TaskRunRecord, type TaskScheduleRecord, type TaskScheduleRunRecord } from "@/lib/storage";
+import { getConfig } from "@/lib/config";
+import { fetchWithTimeout, LlmUpstreamError, resolveAgentLlmChain, runWithLlmFailover } from "@/lib/llm-failover";
+import { chatJsonByAgent, type LlmDecodeParams } from "@/lib/llm-client";
+import {
+  decodeMessageCursor,
+  DEFAULT_MESSAGE_PAGE_SIZE,
+  encodeMessageCursor,
+  MAX_MESSAGE_PAGE_SIZE,
+} from "@/lib/message-cursor";
+import { normalizeReaction, resolveMentions, shouldWakeMember } from "@/lib/message-meta";
+import {
+  DEFAULT_HUMAN_QUESTION_TIMEOUT_SECONDS,
+  MAX_HUMAN_QUESTION_TIMEOUT_SECONDS,
+  normalizeHumanAnswer,
+  parseHumanQuestion,
+  type HumanQuestionInput,
+  type HumanQuestionKind,
+} from "@/lib/human-questions";
+import {
+  decodeArtifactContent,
+  guessMimeType,
+  isTextMimeType,
+  MAX_ARTIFACT_READ_CHARS,
+  MAX_ATTACHMENTS,
+  normalizeArtifactName,
+  parseAttachmentIds,
+} from "@/lib/artifacts";
+import { copyArtifactBlob, readArtifactBytes, saveArtifact } from "@/lib/artifact-blobs";
+import { personaAllowsTool } from "@/lib/personas";
+import { recordLlmUsage } from "@/lib/usage";
+import { getWorkflowPreset, listReadySteps, type WorkflowDefinition } from "@/lib/workflows";
+import { computeNextRunAt } from "@/lib/schedules";
+import { renderTemplateGoal, resolveTemplateVariables } from "@/lib/task-templates";
 import { GLMStreamAssembler, parseSSEJsonLines } from "@/lib/glm-stream";
 import { OpenAIStreamAssembler } from "@/lib/openai-stream";
-
+import {
+  AnthropicStreamAssembler,
+  buildAnthropicHeaders,
+  getAnthropicMaxTokens,
+  getAnthropicThinkingBudget,
+  normalizeAnthropicUrl,
+  toAnthropicMessages,
+  toAnthropicTools,
+  type AnthropicThinkingBlock,
+} from "@/lib/anthropic-stream";
+
+import { checkCanCreateAgents, checkCommunication } from "./comm-graph";
 import { AgentEventBus } from "./event-bus";
-import { createDeferred, safeJsonParse } from "./utils";
+import { createDeferred, safeJsonParse, type Deferred } from "./utils";
 import { getWorkspaceUIBus } from "./ui-bus";
+import { getWebhookDispatcher } from "./webhooks";
 import { getMcpRegistry } from "./mcp";
 import { appendAgentHistorySnapshot, appendAgentLlmRequestRaw, appendAgentStreamEvent } from "./agent-logger";
 import { formatSkillPrompt, getSkillLoader } from "./skill-loader";
 import { executeShellCommand } from "./shell-executor";
+import { resolveToolPolicyMode } from "./tool-policy";
+import { compactHistory, SKILLS_MARKER, type HistoryMessage } from "./history-compactor";
+import {
+  defaultCompletionConfig,
+  judgeGoalCompletion,
+  matchSentinel,
+  normalizeCompletionResult,
+  parseCompletionConfig,
+  restoreCompletionConfig,
+  type GoalJudgeVerdict,
+  type TaskCompletion,
+  type TaskCompletionConfig,
+} from "./completion-detector";
+import {
+  checkStepOutput,
+  clipStepOutput,
+  createTaskWorkflow,
+  getStepMaxAttempts,
+  renderStepDispatch,
+  renderStepRetry,
+  restoreTaskWorkflow,
+  serializeTaskWorkflow,
+  stepStatusOf,
+  WORKFLOW_MARKER,
+  type TaskWorkflow,
+} from "./workflow-engine";
 
 type UUID = string;
 
-type HistoryMessage =
-  | {
-      role: "system" | "user" | "assistant";
-      content: string;
-      tool_calls?: unknown;
-      reasoning_content?: string;
-    }
-  | { role: "tool"; content: string; tool_call_id?: string; name?: string };
-
 type ToolCall = {
   index: number;
   id?: string;
@@ -29,8 +90,7 @@ type ToolCall = {
   argumentsText: string;
 };
 
-const SKILLS_MARKER = "[skills:loaded]";
-const SEND_TOOL_NAMES = new Set(["send", "send_group_message", "send_direct_message"]);
+const SEND_TOOL_NAMES = new Set(["send", "send_group_message", "send_direct_message", "react_to_message"]);
 type TaskStopReason =
   | "manual"
   | "timeout"
@@ -39,30 +99,68 @@ type TaskStopReason =
   | "goal_reached"
   | "max_turns"
   | "manual_replaced"
-  | "token_delta_exceeded";
+  | "token_delta_exceeded"
+  | "budget_exceeded"
+  | "workflow_failed";
 type TaskRun = {
   id: UUID;
   workspaceId: UUID;
   rootGroupId: UUID;
   ownerAgentId: UUID;
   goal: string;
-  status: "running" | "stopping" | "stopped";
+  status: "running" | "paused" | "stopping" | "stopped";
   startAt: number;
   deadlineAt: number;
   maxDurationMs: number;
   maxTurns: number;
   maxTokenDelta: number;
+  /** Caps on real spend recorded in llm_usage; null means uncapped. */
+  maxCostUsd: number | null;
+  maxUsageTokens: number | null;
+  usageTokens: number;
+  usageCostUsd: number;
   totalTurns: number;
   totalMessages: number;
   startGroupTokens: number;
   lastMessageAt: number;
   repeatedRatio: number;
   participants: Set<UUID>;
+  /** Set while paused; the deadline and idle clocks are shifted by the paused span on resume. */
+  pausedAt: number | null;
+  /** Agents that had auto-run enabled when the task was paused; resume re-enables exactly these. */
+  pausedAgentIds: UUID[];
+  /** Step pipeline driving the task; null for free-form goal tasks. */
+  workflow: TaskWorkflow | null;
+  /** How goal_reached is detected for free-form tasks. */
+  completionConfig: TaskCompletionConfig;
+  completion: TaskCompletion | null;
+  judgeVerdict: GoalJudgeVerdict | null;
+  lastJudgeAt: number;
+  judging: boolean;
   timer: NodeJS.Timeout | null;
   stopReason?: TaskStopReason;
   stoppedAt?: number;
 };
 
+type PendingToolApproval = {
+  id: UUID;
+  workspaceId: UUID;
+  agentId: UUID;
+  toolName: string;
+  deferred: Deferred<ToolApprovalOutcome>;
+  timer: NodeJS.Timeout;
+};
+
+type PendingHumanQuestion = {
+  id: UUID;
+  workspaceId: UUID;
+  agentId: UUID;
+  kind: HumanQuestionKind;
+  choices: string[] | null;
+  deferred: Deferred<HumanQuestionOutcome>;
+  timer: NodeJS.Timeout;
+};
+
 type TaskQualityReview = {
   score: {
     completion: number;
@@ -78,11 +176,17 @@ type TaskQualityReview = {
   nextActions: string[];
 };
 
-async function buildSkillsBlock(): Promise<string> {
+/** `extraSkills` are loaded in full alongside the auto-load skills (a persona's skills); unknown names are skipped. */
+async function buildSkillsBlock(extraSkills: string[] = []): Promise<string> {
   try {
     const loader = await getSkillLoader();
     const skillsMetadata = await loader.getSkillsMetadataPrompt();
     const autoSkills = await loader.listAutoLoadSkills();
+    for (const name of extraSkills) {
+      if (autoSkills.some((skill) => skill.name === name)) continue;
+      const skill = await loader.getSkill(name);
+      if (skill) autoSkills.push(skill);
+    }
     const autoBlocks = autoSkills.map((skill) => formatSkillPrompt(skill)).join("\n\n");
     const skillsParts = [skillsMetadata, autoBlocks].filter((part) => part && part.trim());
     if (skillsParts.length === 0) return "";
@@ -92,6 +196,17 @@ async function buildSkillsBlock(): Promise<string> {
   }
 }
 
+/** Persona decode parameters in OpenAI-compatible field names, which GLM accepts as well. */
+function openAiDecodeFields(decode: LlmDecodeParams | undefined): Record<string, number> {
+  const out: Record<string, number> = {};
+  if (decode?.temperature !== undefined) out.temperature = decode.temperature;
+  if (decode?.topP !== undefined) out.top_p = decode.topP;
+  if (decode?.presencePenalty !== undefined) out.presence_penalty = decode.presencePenalty;
+  if (decode?.frequencyPenalty !== undefined) out.frequency_penalty = decode.frequencyPenalty;
+  if (decode?.maxTokens !== undefined) out.max_tokens = decode.maxTokens;
+  return out;
+}
+
 function historyHasSkills(history: HistoryMessage[]) {
   return history.some(
     (msg) =>
@@ -103,7 +218,10 @@ function mapOpenRouterMessages(history: HistoryMessage[]): Array<Record<string,
   return history.map((msg) => {
     if (msg.role === "tool") return msg;
 
-    const { reasoning_content, ...rest } = msg as Exclude<HistoryMessage, { role: "tool" }>;
+    const { reasoning_content, reasoning_signature: _signature, reasoning_blocks: _blocks, ...rest } = msg as Exclude<
+      HistoryMessage,
+      { role: "tool" }
+    >;
     const mapped: Record<string, unknown> = { ...rest };
 
     if (msg.role === "assistant" && reasoning_content) {
@@ -114,27 +232,38 @@ function mapOpenRouterMessages(history: HistoryMessage[]): Array<Record<string,
   });
 }
 
+function stripReasoningSignatures(history: HistoryMessage[]): HistoryMessage[] {
+  return history.map((msg) => {
+    if (msg.role === "tool" || (!msg.reasoning_signature && !msg.reasoning_blocks)) return msg;
+    const { reasoning_signature: _signature, reasoning_blocks: _blocks, ...rest } = msg;
+    return rest;
+  });
+}
+
 const AGENT_TOOLS = [
   {
     type: "function",
     function: {
       name: "create",
       description:
-        "Create a sub-agent with the given role for delegation. Returns {agentId}.",
+        "Create a sub-agent with the given role for delegation. Pass a persona (see list_personas) to build it from a reusable role definition. Returns {agentId}.",
       parameters: {
         type: "object",
         additionalProperties: false,
         properties: {
           role: {
             type: "string",
-            description: "Role name for the new agent, e.g. coder/researcher/reviewer",
+            description: "Role name for the new agent, e.g. coder/researcher/reviewer. Defaults to the persona name.",
+          },
+          persona: {
+            type: "string",
+            description: "Persona name from the workspace persona library.",
           },
           guidance: {
             type: "string",
             description: "Extra system guidance to seed the new agent.",
           },
         },
-        required: ["role"],
       },
     },
   },
@@ -170,6 +299,14 @@ const AGENT_TOOLS = [
       parameters: { type: "object", additionalProperties: false, properties: {} },
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "list_personas",
+      description: "List the workspace persona library (names + descriptions) usable with create.",
+      parameters: { type: "object", additionalProperties: false, properties: {} },
+    },
+  },
   {
     type: "function",
     function: {
@@ -230,7 +367,8 @@ const AGENT_TOOLS = [
     type: "function",
     function: {
       name: "send_group_message",
-      description: "Send a message to a group.",
+      description:
+        "Send a message to a group. Mention members to address them; in groups that only wake mentioned agents, unmentioned members will not respond.",
       parameters: {
         type: "object",
         additionalProperties: false,
@@ -238,11 +376,41 @@ const AGENT_TOOLS = [
           groupId: { type: "string" },
           content: { type: "string" },
           contentType: { type: "string" },
+          replyToId: { type: "string", description: "Id of the group message this one answers (shown as msg:<id>)" },
+          mentions: {
+            type: "array",
+            items: { type: "string" },
+            description: "Agent ids or roles of group members to address; @role in content also counts",
+          },
+          attachments: {
+            type: "array",
+            items: { type: "string" },
+            description: "Artifact ids (from write_artifact) to attach",
+          },
         },
         required: ["groupId", "content"],
       },
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "react_to_message",
+      description:
+        "React to a group message, e.g. with \"ack\" or an emoji, instead of sending a full reply. Reactions do not wake anyone.",
+      parameters: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          groupId: { type: "string" },
+          messageId: { type: "string" },
+          reaction: { type: "string", description: "\"ack\", \"+1\" or a single emoji" },
+          remove: { type: "boolean", description: "Withdraw the reaction instead of adding it" },
+        },
+        required: ["groupId", "messageId", "reaction"],
+      },
+    },
+  },
   {
     type: "function",
     function: {
@@ -256,32 +424,121 @@ const AGENT_TOOLS = [
           toAgentId: { type: "string" },
           content: { type: "string" },
           contentType: { type: "string" },
+          attachments: {
+            type: "array",
+            items: { type: "string" },
+            description: "Artifact ids (from write_artifact) to attach",
+          },
         },
         required: ["toAgentId", "content"],
       },
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "write_artifact",
+      description:
+        "Store a file (report, code, CSV, image...) as a workspace artifact. Returns its id; attach it to messages with the attachments argument of send_* tools.",
+      parameters: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          name: { type: "string", description: "File name including extension, e.g. report.md" },
+          content: { type: "string" },
+          encoding: { type: "string", enum: ["utf8", "base64"], description: "Defaults to utf8" },
+          mimeType: { type: "string", description: "Guessed from the file name when omitted" },
+        },
+        required: ["name", "content"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "read_artifact",
+      description: "Read a workspace artifact by id. Text files return their content; other files return base64.",
+      parameters: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          artifactId: { type: "string" },
+          maxChars: { type: "number", description: `Truncate the returned content (default ${MAX_ARTIFACT_READ_CHARS})` },
+        },
+        required: ["artifactId"],
+      },
+    },
+  },
   {
     type: "function",
     function: {
       name: "get_group_messages",
-      description: "Fetch full message history for a group.",
+      description:
+        "Fetch a group's messages, newest page first. Pass the returned beforeCursor as before to read further back.",
       parameters: {
         type: "object",
         additionalProperties: false,
         properties: {
           groupId: { type: "string" },
+          before: { type: "string", description: "beforeCursor from a previous call" },
+          limit: { type: "number", description: `Messages per page (default ${DEFAULT_MESSAGE_PAGE_SIZE}, max ${MAX_MESSAGE_PAGE_SIZE})` },
         },
         required: ["groupId"],
       },
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "ask_human",
+      description:
+        "Ask the human a question and wait for the answer, which is returned as this tool's result. Your turn is suspended until the human answers or the timeout passes, so ask only when you cannot proceed without them.",
+      parameters: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          question: { type: "string" },
+          kind: {
+            type: "string",
+            enum: ["text", "choice", "yes_no"],
+            description: "text (default) for a free-form answer, choice to pick one of choices, yes_no for a yes/no answer",
+          },
+          choices: { type: "array", items: { type: "string" }, description: "Options for kind=choice (2-10)" },
+          timeoutSeconds: {
+            type: "number",
+            description: `How long to wait (default ${DEFAULT_HUMAN_QUESTION_TIMEOUT_SECONDS}, max ${MAX_HUMAN_QUESTION_TIMEOUT_SECONDS})`,
+          },
+        },
+        required: ["question"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "task_complete",
+      description:
+        "Declare the running task's goal achieved and hand over the final result. Ends the task for every agent; call it only once the deliverable is complete.",
+      parameters: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          result: {
+            type: "string",
+            description: "The final deliverable. Structured results may be passed as a JSON string.",
+          },
+          summary: { type: "string", description: "One or two sentences on how the goal was met." },
+        },
+        required: ["result"],
+      },
+    },
+  },
   {
     type: "function",
     function: {
       name: "bash",
       description:
-        "Run a shell command on the server. Returns stdout/stderr/exitCode. Use for debugging or file operations.",
+        "Run a shell command on the server (or in the workspace sandbox when enabled). Returns stdout/stderr/exitCode. Use for debugging or file operations.",
       parameters: {
         type: "object",
         additionalProperties: false,
@@ -327,14 +584,27 @@ function formatUpstreamError(provider: string, status: number, text: string) {
   return `${provider} upstream error: ${status} ${clipped}`;
 }
 
-async function getAgentTools() {
+async function getAgentTools(isAllowed?: (toolName: string) => boolean) {
   const loadTimeoutMs =
     Number(process.env.MCP_LOAD_TIMEOUT_MS) > 0 ? Number(process.env.MCP_LOAD_TIMEOUT_MS) : 2000;
   const mcp = await getMcpRegistry(BUILTIN_TOOL_NAMES, { loadTimeoutMs });
   const mcpTools = mcp.getToolDefinitions();
-  return [...AGENT_TOOLS, ...mcpTools];
+  const tools = [...AGENT_TOOLS, ...mcpTools];
+  if (!isAllowed) return tools;
+  return tools.filter((tool) => isAllowed(tool.function.name));
 }
 
+type ToolApprovalOutcome = {
+  status: "approved" | "denied" | "expired" | "cancelled";
+  note?: string | null;
+};
+
+type HumanQuestionOutcome = {
+  status: "answered" | "expired" | "cancelled";
+  answer: string | null;
+  answeredBy?: UUID | null;
+};
+
 function getGlmConfig() {
   const apiKey = process.env.GLM_API_KEY ?? process.env.ZHIPUAI_API_KEY ?? "";
   const baseUrl =
@@ -349,16 +619,17 @@ function getGlmConfig() {
   return { apiKey, baseUrl, model };
 }
 
-type LlmProvider = "glm" | "openrouter" | "openai_compatible";
+type LlmProvider = "glm" | "openrouter" | "openai_compatible" | "anthropic";
 type ResolvedLlmConfig = {
   provider: LlmProvider;
   model: string;
   baseUrl: string;
   apiKey: string;
   headers?: Record<string, string>;
+  timeoutMs?: number;
 };
 
-function getLlmProvider(): Exclude<LlmProvider, "openai_compatible"> {
+function getLlmProvider(): Exclude<LlmProvider, "openai_compatible" | "anthropic"> {
   const raw = (process.env.LLM_PROVIDER ?? "glm").toLowerCase();
   if (raw === "openrouter" || raw === "open-router" || raw === "or") return "openrouter";
   return "glm";
@@ -402,18 +673,20 @@ function getOpenAiCompatibleConfig() {
   return { apiKey, baseUrl, model, headers };
 }
 
-async function resolveAgentLlmConfig(agentId: UUID): Promise<ResolvedLlmConfig> {
-  const profile = await store.getAgentModelRuntimeConfig({ agentId });
-  if (profile.provider && profile.model && profile.baseUrl && profile.apiKey) {
-    return {
-      provider: profile.provider,
-      model: profile.model,
-      baseUrl: profile.baseUrl,
-      apiKey: profile.apiKey,
-      headers: profile.headers,
-    };
+function getAnthropicConfig() {
+  const apiKey = process.env.ANTHROPIC_API_KEY ?? "";
+  const baseUrl = normalizeAnthropicUrl(process.env.ANTHROPIC_BASE_URL ?? "");
+  const model = process.env.ANTHROPIC_MODEL ?? "";
+
+  if (!apiKey) {
+    throw new Error("Missing ANTHROPIC_API_KEY");
   }
 
+  return { apiKey, baseUrl, model };
+}
+
+// Env-based endpoint used when an agent has no complete model profile assigned.
+function resolveDefaultLlmConfig(): ResolvedLlmConfig {
   const provider = getLlmProvider();
   if (provider === "openrouter") {
     const cfg = getOpenRouterConfig();
@@ -440,6 +713,16 @@ async function resolveAgentLlmConfig(agentId: UUID): Promise<ResolvedLlmConfig>
     };
   }
 
+  if ((process.env.LLM_PROVIDER ?? "").toLowerCase() === "anthropic") {
+    const cfg = getAnthropicConfig();
+    return {
+      provider: "anthropic",
+      model: cfg.model,
+      baseUrl: cfg.baseUrl,
+      apiKey: cfg.apiKey,
+    };
+  }
+
   const cfg = getGlmConfig();
   return {
     provider: "glm",
@@ -472,7 +755,36 @@ class AgentRunner {
       senderId: UUID;
       content: string;
       contentType: string;
-    }) => void
+    }) => void,
+    private readonly requestToolApproval: (input: {
+      workspaceId: UUID;
+      agentId: UUID;
+      groupId: UUID;
+      toolCallId?: string;
+      toolName: string;
+      argumentsText: string;
+    }) => Promise<ToolApprovalOutcome>,
+    private readonly cancelToolApprovals: (agentId: UUID) => void,
+    private readonly completeTask: (input: {
+      workspaceId: UUID;
+      agentId: UUID;
+      groupId: UUID;
+      result: unknown;
+      summary: string;
+    }) => { ok: true; taskId: UUID } | { ok: false; error: string },
+    private readonly resolveTaskRun: (input: {
+      workspaceId: UUID;
+      groupId: UUID;
+      agentId: UUID;
+    }) => { taskId: UUID; rootGroupId: UUID } | null,
+    private readonly askHuman: (input: {
+      workspaceId: UUID;
+      agentId: UUID;
+      groupId: UUID;
+      toolCallId?: string;
+      question: HumanQuestionInput;
+    }) => Promise<HumanQuestionOutcome>,
+    private readonly cancelHumanQuestions: (agentId: UUID) => void
   ) {}
 
   start() {
@@ -488,7 +800,8 @@ class AgentRunner {
       const parsed = safeJsonParse<unknown>(agent.llmHistory, {});
       const history = Array.isArray(parsed) ? (parsed as HistoryMessage[]) : [];
       if (historyHasSkills(history)) return;
-      const skillsBlock = await buildSkillsBlock();
+      const persona = await this.loadPersona();
+      const skillsBlock = await buildSkillsBlock(persona?.skills);
       if (!skillsBlock) return;
       history.push({ role: "system", content: skillsBlock });
       await store.setAgentHistory({
@@ -511,6 +824,8 @@ class AgentRunner {
 
   requestInterrupt() {
     this.interruptRequested = true;
+    this.cancelToolApprovals(this.agentId);
+    this.cancelHumanQuestions(this.agentId);
     this.wake.resolve();
     this.wake = createDeferred<void>();
   }
@@ -540,6 +855,16 @@ class AgentRunner {
           kind: "error",
           error: message,
         });
+        void store
+          .getAgent({ agentId: this.agentId })
+          .then((agent) => {
+            if (!agent) return;
+            getWorkspaceUIBus().emit(agent.workspaceId, {
+              event: "ui.agent.error",
+              data: { workspaceId: agent.workspaceId, agentId: this.agentId, message },
+            });
+          })
+          .catch(() => undefined);
       } finally {
         this.running = false;
       }
@@ -548,7 +873,7 @@ class AgentRunner {
 
   private async processUntilIdle() {
     const agent = await store.getAgent({ agentId: this.agentId }).catch(() => null);
-    if (!agent || agent.role === "human" || !agent.autoRunEnabled) return;
+    if (!agent || agent.role === "human" || agent.kind === "integration" || !agent.autoRunEnabled) return;
     if (this.consumeInterruptRequest()) return;
     // eslint-disable-next-line no-constant-condition
     while (true) {
@@ -582,6 +907,9 @@ class AgentRunner {
       senderId: UUID;
       content: string;
       contentType: string;
+      replyToId: UUID | null;
+      mentions: UUID[];
+      attachments: ArtifactRecord[];
       sendTime: string;
     }>
   ) {
@@ -589,7 +917,8 @@ class AgentRunner {
     const agent = await store.getAgent({ agentId: this.agentId });
     const parsed = safeJsonParse<unknown>(agent.llmHistory, {});
     const history = Array.isArray(parsed) ? (parsed as HistoryMessage[]) : [];
-    const skillsBlock = await buildSkillsBlock();
+    const persona = await this.loadPersona();
+    const skillsBlock = await buildSkillsBlock(persona?.skills);
     const hasSkills = historyHasSkills(history);
 
     if (history.length === 0) {
@@ -605,6 +934,9 @@ class AgentRunner {
           `Your replies are NOT automatically delivered to humans.\n` +
           `To send messages, you MUST call tools like send_group_message or send_direct_message.\n` +
           `If you need to coordinate with other agents, you may use tools like self, list_agents, create, send, list_groups, list_group_members, create_group, send_group_message, send_direct_message, and get_group_messages.\n` +
+          `Incoming messages carry [msg:<id>]; answer one with replyToId, address members with mentions (or @role), or acknowledge with react_to_message.\n` +
+          `Files are shared as artifacts: store one with write_artifact, attach it via attachments, open [artifact:<id>] with read_artifact.\n` +
+          `When you need a decision or information only the human has, call ask_human and wait for the answer.\n` +
           `If you need to run shell commands, use the bash tool.` +
           (skillsBlock ? `\n\n${skillsBlock}` : ""),
       });
@@ -613,7 +945,14 @@ class AgentRunner {
     }
 
     const userContent = unreadMessages
-      .map((m) => `[group:${groupId}] ${m.senderId}: ${m.content}`)
+      .map((m) => {
+        const notes = [
+          m.replyToId ? `reply to msg:${m.replyToId}` : "",
+          m.mentions.includes(this.agentId) ? "mentions you" : "",
+        ].filter(Boolean);
+        const files = m.attachments.map((a) => `\n  [artifact:${a.id}] ${a.name} (${a.mimeType}, ${a.sizeBytes} bytes)`);
+        return `[group:${groupId}] [msg:${m.id}] ${m.senderId}${notes.length ? ` (${notes.join(", ")})` : ""}: ${m.content}${files.join("")}`;
+      })
       .join("\n");
     history.push({ role: "user", content: userContent });
 
@@ -622,7 +961,7 @@ class AgentRunner {
       await store.markGroupReadToMessage({ groupId, readerId: this.agentId, messageId: lastId });
     }
 
-    const { assistantText, assistantThinking, didSend } = await this.runWithTools({
+    const { assistantText, assistantThinking, reasoningBlocks, didSend } = await this.runWithTools({
       groupId,
       workspaceId,
       history,
@@ -632,6 +971,7 @@ class AgentRunner {
       role: "assistant",
       content: assistantText,
       reasoning_content: assistantThinking || undefined,
+      reasoning_blocks: reasoningBlocks,
     });
 
     if (!didSend && !this.interruptRequested) {
@@ -651,6 +991,7 @@ class AgentRunner {
         role: "assistant",
         content: followup.assistantText,
         reasoning_content: followup.assistantThinking || undefined,
+        reasoning_blocks: followup.reasoningBlocks,
       });
     }
     await store.setAgentHistory({
@@ -682,9 +1023,11 @@ class AgentRunner {
     const maxToolRounds = 3;
     let assistantText = "";
     let assistantThinking = "";
+    let reasoningBlocks: AnthropicThinkingBlock[] | undefined;
     let didSend = false;
 
     for (let round = 0; round < maxToolRounds; round++) {
+      await this.compactHistoryIfNeeded(input.history);
       const res = await this.callLlmStreaming(input.history, {
         workspaceId: input.workspaceId,
         groupId: input.groupId,
@@ -692,9 +1035,10 @@ class AgentRunner {
       });
       assistantText = res.assistantText;
       assistantThinking = res.assistantThinking;
+      reasoningBlocks = res.reasoningBlocks;
 
       if (res.toolCalls.length === 0) {
-        return { assistantText, assistantThinking, didSend };
+        return { assistantText, assistantThinking, reasoningBlocks, didSend };
       }
 
       input.history.push({
@@ -706,7 +1050,10 @@ class AgentRunner {
           function: { name: c.name, arguments: c.argumentsText },
         })),
         reasoning_content: res.assistantThinking || undefined,
+        reasoning_blocks: res.reasoningBlocks,
       });
+      // The thinking blocks belong to the turn that issued the tool calls, not to the follow-up.
+      reasoningBlocks = undefined;
 
       for (const call of res.toolCalls) {
         if (call.name && SEND_TOOL_NAMES.has(call.name)) {
@@ -743,15 +1090,40 @@ class AgentRunner {
 
     }
 
-    return { assistantText, assistantThinking, didSend };
+    return { assistantText, assistantThinking, reasoningBlocks, didSend };
+  }
+
+  private async compactHistoryIfNeeded(history: HistoryMessage[]) {
+    const result = await compactHistory({
+      agentId: this.agentId,
+      history,
+      tokenLimit: getConfig().tokenLimit,
+      onStart: ({ beforeTokens, foldedMessages }) => {
+        this.bus.emit(this.agentId, {
+          event: "agent.compaction.start",
+          data: { agentId: this.agentId, beforeTokens, foldedMessages },
+        });
+      },
+    });
+    if (!result.compacted) return;
+    this.bus.emit(this.agentId, {
+      event: "agent.compaction.done",
+      data: {
+        agentId: this.agentId,
+        beforeTokens: result.beforeTokens,
+        afterTokens: result.afterTokens,
+        foldedMessages: result.foldedMessages,
+        summarized: result.summarized,
+        error: result.error ?? null,
+      },
+    });
   }
 
   private async executeToolCall(input: { groupId: UUID; call: ToolCall }) {
     const name = input.call.name ?? "";
     const workspaceId = await store.getGroupWorkspaceId({ groupId: input.groupId });
-    const latestTask = await store.getLatestTaskRun({ workspaceId }).catch(() => null);
-    const inRunningRootTask =
-      !!latestTask && latestTask.status === "running" && latestTask.rootGroupId === input.groupId;
+    const runningTask = this.resolveTaskRun({ workspaceId, groupId: input.groupId, agentId: this.agentId });
+    const inRunningRootTask = runningTask?.rootGroupId === input.groupId;
     const toolMeta = { toolCallId: input.call.id, toolName: input.call.name };
 
     getWorkspaceUIBus().emit(workspaceId, {
@@ -779,6 +1151,35 @@ class AgentRunner {
       });
     };
 
+    const policyMode = await this.getToolPolicyMode(workspaceId, name);
+    if (policyMode === "deny") {
+      emitToolDone(false);
+      return { ok: false, error: `Tool ${name} is denied by workspace policy` };
+    }
+    const persona = await this.loadPersona();
+    if (!personaAllowsTool(persona, name)) {
+      emitToolDone(false);
+      return { ok: false, error: `Tool ${name} is not in the allowed tools of persona ${persona?.name}` };
+    }
+    if (policyMode === "require_approval") {
+      const outcome = await this.requestToolApproval({
+        workspaceId,
+        agentId: this.agentId,
+        groupId: input.groupId,
+        toolCallId: toolMeta.toolCallId,
+        toolName: name,
+        argumentsText: input.call.argumentsText,
+      });
+      if (outcome.status !== "approved") {
+        emitToolDone(false);
+        return {
+          ok: false,
+          error: `Tool ${name} was not approved (${outcome.status})`,
+          ...(outcome.note ? { note: outcome.note } : {}),
+        };
+      }
+    }
+
     if (name === "self") {
       const role = await store.getAgentRole({ agentId: this.agentId }).catch(() => null);
       emitToolDone(true);
@@ -807,6 +1208,22 @@ class AgentRunner {
       return { ok: true, content: formatSkillPrompt(skill) };
     }
 
+    if (name === "task_complete") {
+      const args = safeJsonParse<{ result?: unknown; summary?: unknown }>(input.call.argumentsText, {});
+      if (args.result === undefined || args.result === null || args.result === "") {
+        emitToolDone(false);
+        return { ok: false, error: "Missing result" };
+      }
+      const outcome = this.completeTask({
+        workspaceId,
+        agentId: this.agentId,
+        groupId: input.groupId,
+        ...normalizeCompletionResult(args),
+      });
+      emitToolDone(outcome.ok);
+      return outcome;
+    }
+
     if (name === "bash") {
       const args = safeJsonParse<{
         command?: string;
@@ -821,11 +1238,16 @@ class AgentRunner {
       }
 
       try {
+        const settings = await store.getWorkspaceSettings({ workspaceId });
+        if (!settings) throw new Error("workspace not found");
         const result = await executeShellCommand({
           command,
           cwd: args.cwd,
           timeoutMs: args.timeoutMs,
           maxOutputKB: args.maxOutputKB,
+          workspaceId,
+          backend: settings.shell.backend,
+          sandbox: settings.shell,
         });
         emitToolDone(result.ok);
         return result;
@@ -844,13 +1266,28 @@ class AgentRunner {
             "Tool 'create' is disabled during an active task run. Reuse existing participants in the current group.",
         };
       }
-      const args = safeJsonParse<{ role?: string; guidance?: string }>(input.call.argumentsText, {});
-      const role = (args.role ?? "").trim();
+      const args = safeJsonParse<{ role?: string; persona?: string; guidance?: string }>(
+        input.call.argumentsText,
+        {}
+      );
+      const personaName = (args.persona ?? "").trim();
+      const persona = personaName ? await store.getAgentPersona({ workspaceId, ref: personaName }) : null;
+      if (personaName && !persona) {
+        emitToolDone(false);
+        const available = (await store.listAgentPersonas({ workspaceId })).map((p) => p.name);
+        return { ok: false, error: `Unknown persona: ${personaName}`, available };
+      }
+      const role = (args.role ?? "").trim() || persona?.name || "";
       const guidance = (args.guidance ?? "").trim();
       if (!role) {
         emitToolDone(false);
         return { ok: false, error: "Missing role" };
       }
+      const reach = await checkCanCreateAgents(this.agentId);
+      if (!reach.ok) {
+        emitToolDone(false);
+        return reach;
+      }
 
       const created = await store.createSubAgentWithP2P({
         workspaceId,
@@ -858,6 +1295,7 @@ class AgentRunner {
         role,
         guidance,
         autoRunEnabled: false,
+        persona,
       });
       this.ensureRunner(created.agentId);
       getWorkspaceUIBus().emit(workspaceId, {
@@ -872,7 +1310,13 @@ class AgentRunner {
         },
       });
       emitToolDone(true);
-      return { ok: true, agentId: created.agentId, role, groupId: created.groupId };
+      return {
+        ok: true,
+        agentId: created.agentId,
+        role,
+        persona: persona?.name ?? null,
+        groupId: created.groupId,
+      };
     }
 
     if (name === "list_agents") {
@@ -881,6 +1325,12 @@ class AgentRunner {
       return { ok: true, agents };
     }
 
+    if (name === "list_personas") {
+      const personas = await store.listAgentPersonas({ workspaceId });
+      emitToolDone(true);
+      return { ok: true, personas: personas.map((p) => ({ name: p.name, description: p.description })) };
+    }
+
     if (name === "send") {
       if (inRunningRootTask) {
         emitToolDone(false);
@@ -905,6 +1355,11 @@ class AgentRunner {
         emitToolDone(false);
         return { ok: false, error: "Missing content" };
       }
+      const reach = await checkCommunication({ fromId: this.agentId, toIds: [to] });
+      if (!reach.ok) {
+        emitToolDone(false);
+        return reach;
+      }
 
       const delivered = await store.sendDirectMessage({
         workspaceId,
@@ -990,6 +1445,11 @@ class AgentRunner {
       if (!memberIds.includes(this.agentId)) {
         memberIds.push(this.agentId);
       }
+      const reach = await checkCommunication({ fromId: this.agentId, toIds: memberIds });
+      if (!reach.ok) {
+        emitToolDone(false);
+        return reach;
+      }
       let groupId = "";
       let groupName: string | null = args.name ?? null;
       if (memberIds.length === 2) {
@@ -1033,10 +1493,14 @@ class AgentRunner {
     }
 
     if (name === "send_group_message") {
-      const args = safeJsonParse<{ groupId?: string; content?: string; contentType?: string }>(
-        input.call.argumentsText,
-        {}
-      );
+      const args = safeJsonParse<{
+        groupId?: string;
+        content?: string;
+        contentType?: string;
+        replyToId?: string;
+        mentions?: unknown;
+        attachments?: unknown;
+      }>(input.call.argumentsText, {});
       const groupId = (args.groupId ?? "").trim();
       const content = (args.content ?? "").trim();
       if (!groupId) {
@@ -1061,12 +1525,35 @@ class AgentRunner {
         emitToolDone(false);
         return { ok: false, error: "Access denied" };
       }
+      const replyToId = (args.replyToId ?? "").trim();
+      const replyTo = replyToId ? await store.getGroupMessage({ groupId, messageId: replyToId }) : null;
+      if (replyToId && !replyTo) {
+        emitToolDone(false);
+        return { ok: false, error: "replyToId is not a message of this group" };
+      }
+      const mentions = resolveMentions({
+        mentions: args.mentions,
+        content,
+        members: await store.listGroupMemberRoles({ groupId }),
+      });
+      if (!mentions.ok) {
+        emitToolDone(false);
+        return mentions;
+      }
+      const attachments = await this.resolveAttachments(workspaceId, args.attachments);
+      if (!attachments.ok) {
+        emitToolDone(false);
+        return attachments;
+      }
 
       const result = await store.sendMessage({
         groupId,
         senderId: this.agentId,
         content,
         contentType: args.contentType ?? "text",
+        replyToId: replyTo?.id ?? null,
+        mentions: mentions.ids,
+        attachments: attachments.artifacts.map((a) => a.id),
       });
 
       getWorkspaceUIBus().emit(workspaceId, {
@@ -1081,6 +1568,9 @@ class AgentRunner {
             sendTime: result.sendTime,
             content,
             contentType: args.contentType ?? "text",
+            replyToId: replyTo?.id ?? null,
+            mentions: mentions.ids,
+            attachments: attachments.artifacts,
           },
         },
       });
@@ -1092,8 +1582,12 @@ class AgentRunner {
         contentType: args.contentType ?? "text",
       });
 
+      const wakeMode = await store.getGroupWakeMode({ groupId });
       for (const memberId of members) {
         if (memberId === this.agentId) continue;
+        if (!shouldWakeMember({ wakeMode, memberId, mentions: mentions.ids, replyToSenderId: replyTo?.senderId })) {
+          continue;
+        }
         const role = await store.getAgentRole({ agentId: memberId }).catch(() => null);
         if (role === "human" || role === null) continue;
         this.ensureRunner(memberId);
@@ -1101,7 +1595,48 @@ class AgentRunner {
       }
 
       emitToolDone(true);
-      return { ok: true, ...result };
+      return { ok: true, ...result, mentions: mentions.ids };
+    }
+
+    if (name === "react_to_message") {
+      const args = safeJsonParse<{ groupId?: string; messageId?: string; reaction?: string; remove?: boolean }>(
+        input.call.argumentsText,
+        {}
+      );
+      const groupId = (args.groupId ?? "").trim();
+      const messageId = (args.messageId ?? "").trim();
+      const reaction = normalizeReaction(args.reaction);
+      if (!groupId || !messageId) {
+        emitToolDone(false);
+        return { ok: false, error: "Missing groupId/messageId" };
+      }
+      if (!reaction) {
+        emitToolDone(false);
+        return { ok: false, error: "reaction must be a short code like \"ack\" or a single emoji" };
+      }
+      const members = await store.listGroupMemberIds({ groupId });
+      if (!members.includes(this.agentId)) {
+        emitToolDone(false);
+        return { ok: false, error: "Access denied" };
+      }
+      const target = await store.getGroupMessage({ groupId, messageId });
+      if (!target) {
+        emitToolDone(false);
+        return { ok: false, error: "message not found" };
+      }
+      const reactions = await store.setMessageReaction({
+        workspaceId: target.workspaceId,
+        messageId: target.id,
+        agentId: this.agentId,
+        reaction,
+        active: args.remove !== true,
+      });
+      getWorkspaceUIBus().emit(target.workspaceId, {
+        event: "ui.message.reactions",
+        data: { workspaceId: target.workspaceId, groupId, messageId: target.id, reactions },
+      });
+      emitToolDone(true);
+      return { ok: true, messageId: target.id, reactions };
     }
 
     if (name === "send_direct_message") {
@@ -1113,7 +1648,7 @@ class AgentRunner {
             "Tool 'send_direct_message' is disabled during an active task run. Use send_group_message in the current task group.",
         };
       }
-      const args = safeJsonParse<{ toAgentId?: string; content?: string; contentType?: string }>(
+      const args = safeJsonParse<{ toAgentId?: string; content?: string; contentType?: string; attachments?: unknown }>(
         input.call.argumentsText,
         {}
       );
@@ -1127,6 +1662,16 @@ class AgentRunner {
         emitToolDone(false);
         return { ok: false, error: "Missing content" };
       }
+      const reach = await checkCommunication({ fromId: this.agentId, toIds: [toAgentId] });
+      if (!reach.ok) {
+        emitToolDone(false);
+        return reach;
+      }
+      const attachments = await this.resolveAttachments(workspaceId, args.attachments);
+      if (!attachments.ok) {
+        emitToolDone(false);
+        return attachments;
+      }
 
       const delivered = await store.sendDirectMessage({
         workspaceId,
@@ -1134,6 +1679,7 @@ class AgentRunner {
         toId: toAgentId,
         content,
         contentType: args.contentType ?? "text",
+        attachments: attachments.artifacts.map((a) => a.id),
         groupName: null,
       });
       const groupId = delivered.groupId;
@@ -1151,6 +1697,7 @@ class AgentRunner {
             sendTime: delivered.sendTime,
             content,
             contentType: args.contentType ?? "text",
+            attachments: attachments.artifacts,
           },
         },
       });
@@ -1175,50 +1722,211 @@ class AgentRunner {
       };
     }
 
-    if (name === "get_group_messages") {
-      const args = safeJsonParse<{ groupId?: string }>(input.call.argumentsText, {});
-      const groupId = (args.groupId ?? "").trim();
-      if (!groupId) {
+    if (name === "ask_human") {
+      const args = safeJsonParse<{ question?: unknown; kind?: unknown; choices?: unknown; timeoutSeconds?: unknown }>(
+        input.call.argumentsText,
+        {}
+      );
+      const parsed = parseHumanQuestion(args);
+      if (!parsed.ok) {
         emitToolDone(false);
-        return { ok: false, error: "Missing groupId" };
+        return parsed;
       }
-      const members = await store.listGroupMemberIds({ groupId });
-      if (!members.includes(this.agentId)) {
+      const outcome = await this.askHuman({
+        workspaceId,
+        agentId: this.agentId,
+        groupId: input.groupId,
+        toolCallId: toolMeta.toolCallId,
+        question: parsed.value,
+      });
+      if (outcome.status !== "answered") {
         emitToolDone(false);
-        return { ok: false, error: "Access denied" };
+        return { ok: false, status: outcome.status, error: `The human did not answer (${outcome.status})` };
       }
-      const messages = await store.listMessages({ groupId });
       emitToolDone(true);
-      return { ok: true, messages };
+      return { ok: true, answer: outcome.answer, answeredBy: outcome.answeredBy ?? null };
     }
 
-    const mcp = await getMcpRegistry(BUILTIN_TOOL_NAMES);
-    if (mcp.hasTool(name)) {
-      const args = safeJsonParse<Record<string, unknown>>(input.call.argumentsText, {});
-      const result = await mcp.callTool(name, args);
-      emitToolDone(result.ok);
-      return result;
-    }
-
-    emitToolDone(false);
-    return { ok: false, error: `Unknown tool: ${name}` };
-  }
-
-  private async callLlmStreaming(
-    history: HistoryMessage[],
-    ctx: { workspaceId: UUID; groupId: UUID; round: number }
-  ) {
-    const llm = await resolveAgentLlmConfig(this.agentId);
-    if (llm.provider === "glm") {
-      return this.callGlmStreaming(history, ctx, llm);
+    if (name === "write_artifact") {
+      const args = safeJsonParse<{ name?: string; content?: string; encoding?: string; mimeType?: string }>(
+        input.call.argumentsText,
+        {}
+      );
+      const fileName = normalizeArtifactName(args.name);
+      if (!fileName) {
+        emitToolDone(false);
+        return { ok: false, error: "name must be a file name" };
+      }
+      const decoded = decodeArtifactContent(args.content, args.encoding);
+      if (!decoded.ok) {
+        emitToolDone(false);
+        return decoded;
+      }
+      const artifact = await saveArtifact({
+        workspaceId,
+        name: fileName,
+        mimeType: guessMimeType(fileName, args.mimeType),
+        bytes: decoded.bytes,
+        createdByAgentId: this.agentId,
+        taskRunId: runningTask?.taskId ?? null,
+        groupId: input.groupId,
+      });
+      emitToolDone(true);
+      return { ok: true, artifact };
+    }
+
+    if (name === "read_artifact") {
+      const args = safeJsonParse<{ artifactId?: string; maxChars?: number }>(input.call.argumentsText, {});
+      const artifact = await store.getArtifact({ workspaceId, id: (args.artifactId ?? "").trim() });
+      if (!artifact) {
+        emitToolDone(false);
+        return { ok: false, error: "artifact not found" };
+      }
+      const bytes = await readArtifactBytes(artifact);
+      if (!bytes) {
+        emitToolDone(false);
+        return { ok: false, error: "artifact content is missing from storage" };
+      }
+      const maxChars = Math.max(1, Math.min(MAX_ARTIFACT_READ_CHARS, Number(args.maxChars) || MAX_ARTIFACT_READ_CHARS));
+      const encoding = isTextMimeType(artifact.mimeType) ? "utf8" : "base64";
+      const content = bytes.toString(encoding);
+      emitToolDone(true);
+      return {
+        ok: true,
+        artifact,
+        encoding,
+        content: content.slice(0, maxChars),
+        truncated: content.length > maxChars,
+      };
+    }
+
+    if (name === "get_group_messages") {
+      const args = safeJsonParse<{ groupId?: string; before?: string; limit?: number }>(input.call.argumentsText, {});
+      const groupId = (args.groupId ?? "").trim();
+      if (!groupId) {
+        emitToolDone(false);
+        return { ok: false, error: "Missing groupId" };
+      }
+      const before = decodeMessageCursor(args.before);
+      if (args.before && !before) {
+        emitToolDone(false);
+        return { ok: false, error: "Invalid before cursor" };
+      }
+      const members = await store.listGroupMemberIds({ groupId });
+      if (!members.includes(this.agentId)) {
+        emitToolDone(false);
+        return { ok: false, error: "Access denied" };
+      }
+      const { messages, hasMore } = await store.listMessages({ groupId, before, limit: args.limit });
+      emitToolDone(true);
+      return {
+        ok: true,
+        messages,
+        hasMore,
+        beforeCursor: hasMore && messages[0] ? encodeMessageCursor(messages[0]) : null,
+      };
+    }
+
+    const mcp = await getMcpRegistry(BUILTIN_TOOL_NAMES);
+    if (mcp.hasTool(name)) {
+      const args = safeJsonParse<Record<string, unknown>>(input.call.argumentsText, {});
+      const result = await mcp.callTool(name, args);
+      emitToolDone(result.ok);
+      return result;
     }
-    return this.callOpenRouterStreaming(history, ctx, llm);
+
+    emitToolDone(false);
+    return { ok: false, error: `Unknown tool: ${name}` };
+  }
+
+  private async resolveAttachments(
+    workspaceId: UUID,
+    raw: unknown
+  ): Promise<{ ok: true; artifacts: ArtifactRecord[] } | { ok: false; error: string }> {
+    const parsed = parseAttachmentIds(raw);
+    if (!parsed.ok) return parsed;
+    const artifacts = await store.listArtifactsByIds({ workspaceId, ids: parsed.ids });
+    const missing = parsed.ids.find((id) => !artifacts.some((a) => a.id === id));
+    if (missing) return { ok: false, error: `artifact ${missing} not found` };
+    return { ok: true, artifacts };
+  }
+
+  private async loadToolPolicies(workspaceId: UUID) {
+    const [policies, role] = await Promise.all([
+      store.listToolPolicies({ workspaceId }).catch(() => []),
+      store.getAgentRole({ agentId: this.agentId }).catch(() => null),
+    ]);
+    return { policies, role };
+  }
+
+  private async getToolPolicyMode(workspaceId: UUID, toolName: string) {
+    const { policies, role } = await this.loadToolPolicies(workspaceId);
+    return resolveToolPolicyMode(policies, role, toolName);
+  }
+
+  /** Read on every use so persona edits reach agents already built from it. */
+  private async loadPersona() {
+    return await store.getAgentPersonaForAgent({ agentId: this.agentId }).catch(() => null);
+  }
+
+  // Denied tools and tools outside the persona's allow-list are hidden from the model entirely;
+  // approval-gated ones stay visible.
+  private async getPermittedTools(workspaceId: UUID) {
+    const [{ policies, role }, persona] = await Promise.all([this.loadToolPolicies(workspaceId), this.loadPersona()]);
+    if (policies.length === 0 && !persona?.allowedTools) return getAgentTools();
+    return getAgentTools(
+      (toolName) =>
+        personaAllowsTool(persona, toolName) && resolveToolPolicyMode(policies, role, toolName) !== "deny"
+    );
+  }
+
+  private async callLlmStreaming(
+    history: HistoryMessage[],
+    ctx: { workspaceId: UUID; groupId: UUID; round: number }
+  ): Promise<{
+    assistantText: string;
+    assistantThinking: string;
+    reasoningBlocks?: AnthropicThinkingBlock[];
+    toolCalls: ToolCall[];
+    finishReason?: string | null;
+  }> {
+    const { chain, policy } = await resolveAgentLlmChain(this.agentId, resolveDefaultLlmConfig);
+    const decode = (await this.loadPersona())?.decode;
+    return runWithLlmFailover({
+      agentId: this.agentId,
+      chain,
+      policy,
+      call: async (llm, entry) => {
+        const result =
+          llm.provider === "glm"
+            ? await this.callGlmStreaming(history, ctx, llm, decode)
+            : llm.provider === "anthropic"
+              ? await this.callAnthropicStreaming(history, ctx, llm, decode)
+              : await this.callOpenRouterStreaming(history, ctx, llm, decode);
+        void recordLlmUsage({
+          agentId: this.agentId,
+          workspaceId: ctx.workspaceId,
+          profileId: entry.profileId,
+          provider: llm.provider,
+          model: llm.model,
+          usage: result.usage,
+          source: "agent",
+          context: {
+            taskRunId:
+              this.resolveTaskRun({ workspaceId: ctx.workspaceId, groupId: ctx.groupId, agentId: this.agentId })
+                ?.taskId ?? null,
+          },
+        });
+        return result;
+      },
+    });
   }
 
   private async callOpenRouterStreaming(
     history: HistoryMessage[],
     ctx: { workspaceId: UUID; groupId: UUID; round: number },
-    llm: ResolvedLlmConfig
+    llm: ResolvedLlmConfig,
+    decode?: LlmDecodeParams
   ) {
     getWorkspaceUIBus().emit(ctx.workspaceId, {
       event: "ui.agent.llm.start",
@@ -1237,12 +1945,13 @@ class AgentRunner {
       kind: "start",
     });
 
-    const tools = await getAgentTools();
+    const tools = await this.getPermittedTools(ctx.workspaceId);
     const payload: Record<string, unknown> = {
       // Preserve reasoning for OpenRouter using the canonical "reasoning" field.
       messages: mapOpenRouterMessages(history),
       stream: true,
       stream_options: { include_usage: true },
+      ...openAiDecodeFields(decode),
     };
     if (llm.model) payload.model = llm.model;
     if (tools.length > 0) {
@@ -1259,15 +1968,19 @@ class AgentRunner {
     const requestBody = JSON.stringify(payload);
     void appendAgentLlmRequestRaw({ agentId: this.agentId, body: requestBody });
 
-    const upstream = await fetch(llm.baseUrl, {
-      method: "POST",
-      headers,
-      body: requestBody,
-    });
+    const upstream = await fetchWithTimeout(
+      llm.baseUrl,
+      {
+        method: "POST",
+        headers,
+        body: requestBody,
+      },
+      llm.timeoutMs
+    );
 
     if (!upstream.ok || !upstream.body) {
       const text = await upstream.text().catch(() => "");
-      throw new Error(formatUpstreamError(llm.provider, upstream.status, text));
+      throw new LlmUpstreamError(formatUpstreamError(llm.provider, upstream.status, text), upstream.status);
     }
 
     const assembler = new OpenAIStreamAssembler();
@@ -1380,13 +2093,190 @@ class AgentRunner {
       assistantThinking,
       toolCalls: (finalState.toolCalls ?? []) as ToolCall[],
       finishReason: finalState.finishReason,
+      usage: finalState.usage,
+    };
+  }
+
+  private async callAnthropicStreaming(
+    history: HistoryMessage[],
+    ctx: { workspaceId: UUID; groupId: UUID; round: number },
+    llm: ResolvedLlmConfig,
+    decode?: LlmDecodeParams
+  ) {
+    getWorkspaceUIBus().emit(ctx.workspaceId, {
+      event: "ui.agent.llm.start",
+      data: {
+        workspaceId: ctx.workspaceId,
+        agentId: this.agentId,
+        groupId: ctx.groupId,
+        round: ctx.round,
+        provider: llm.provider,
+        model: llm.model,
+      },
+    });
+    void appendAgentStreamEvent({
+      agentId: this.agentId,
+      round: ctx.round,
+      kind: "start",
+    });
+
+    const tools = await this.getPermittedTools(ctx.workspaceId);
+    const { system, messages } = toAnthropicMessages(history);
+    const thinkingBudget = getAnthropicThinkingBudget();
+    const payload: Record<string, unknown> = {
+      model: llm.model,
+      messages,
+      max_tokens: Math.max(decode?.maxTokens ?? getAnthropicMaxTokens(), thinkingBudget + 1024),
+      stream: true,
+    };
+    if (system) payload.system = system;
+    if (thinkingBudget > 0) payload.thinking = { type: "enabled", budget_tokens: thinkingBudget };
+    // Extended thinking fixes sampling, so persona temperature/top_p only apply without it.
+    if (thinkingBudget === 0 && decode?.temperature !== undefined) payload.temperature = Math.min(1, decode.temperature);
+    if (thinkingBudget === 0 && decode?.topP !== undefined) payload.top_p = decode.topP;
+    if (tools.length > 0) {
+      payload.tools = toAnthropicTools(tools);
+      payload.tool_choice = { type: "auto" };
+    }
+
+    const requestBody = JSON.stringify(payload);
+    void appendAgentLlmRequestRaw({ agentId: this.agentId, body: requestBody });
+
+    const upstream = await fetchWithTimeout(
+      llm.baseUrl,
+      {
+        method: "POST",
+        headers: buildAnthropicHeaders(llm.apiKey, llm.headers),
+        body: requestBody,
+      },
+      llm.timeoutMs
+    );
+
+    if (!upstream.ok || !upstream.body) {
+      const text = await upstream.text().catch(() => "");
+      throw new LlmUpstreamError(formatUpstreamError(llm.provider, upstream.status, text), upstream.status);
+    }
+
+    const assembler = new AnthropicStreamAssembler();
+    let prev = assembler.snapshot();
+    let assistantText = "";
+    let assistantThinking = "";
+
+    for await (const evt of parseSSEJsonLines(upstream.body)) {
+      const state = assembler.push(evt as any);
+
+      const reasoningDelta = state.reasoningContent.slice(prev.reasoningContent.length);
+      const contentDelta = state.content.slice(prev.content.length);
+      const toolCallDelta = assembler.toolCallDelta(evt as any);
+
+      if (reasoningDelta) {
+        assistantThinking += reasoningDelta;
+        this.bus.emit(this.agentId, {
+          event: "agent.stream",
+          data: { kind: "reasoning", delta: reasoningDelta },
+        });
+        void appendAgentStreamEvent({
+          agentId: this.agentId,
+          round: ctx.round,
+          kind: "reasoning",
+          delta: reasoningDelta,
+        });
+      }
+
+      if (contentDelta) {
+        assistantText += contentDelta;
+        this.bus.emit(this.agentId, {
+          event: "agent.stream",
+          data: { kind: "content", delta: contentDelta },
+        });
+        void appendAgentStreamEvent({
+          agentId: this.agentId,
+          round: ctx.round,
+          kind: "content",
+          delta: contentDelta,
+        });
+      }
+
+      if (toolCallDelta) {
+        this.bus.emit(this.agentId, {
+          event: "agent.stream",
+          data: {
+            kind: "tool_calls",
+            delta: toolCallDelta.delta,
+            tool_call_id: toolCallDelta.tool_call_id,
+            tool_call_name: toolCallDelta.tool_call_name,
+          },
+        });
+        void appendAgentStreamEvent({
+          agentId: this.agentId,
+          round: ctx.round,
+          kind: "tool_calls",
+          delta: toolCallDelta.delta,
+          tool_call_id: toolCallDelta.tool_call_id,
+          tool_call_name: toolCallDelta.tool_call_name,
+        });
+      }
+
+      prev = state;
+    }
+
+    this.bus.emit(this.agentId, {
+      event: "agent.done",
+      data: { finishReason: prev.finishReason ?? undefined },
+    });
+    void appendAgentStreamEvent({
+      agentId: this.agentId,
+      round: ctx.round,
+      kind: "done",
+      finishReason: prev.finishReason ?? null,
+    });
+    getWorkspaceUIBus().emit(ctx.workspaceId, {
+      event: "ui.agent.llm.done",
+      data: {
+        workspaceId: ctx.workspaceId,
+        agentId: this.agentId,
+        groupId: ctx.groupId,
+        round: ctx.round,
+        finishReason: prev.finishReason ?? undefined,
+        provider: llm.provider,
+        model: llm.model,
+      },
+    });
+    this.noteTaskTurn({
+      workspaceId: ctx.workspaceId,
+      groupId: ctx.groupId,
+      agentId: this.agentId,
+      finishReason: prev.finishReason ?? null,
+    });
+
+    const finalState = assembler.snapshot();
+
+    if (finalState.usage && finalState.usage.totalTokens > 0) {
+      try {
+        await store.setGroupContextTokens({
+          groupId: ctx.groupId,
+          tokens: finalState.usage.totalTokens,
+        });
+      } catch {
+        // Best effort - don't fail if token tracking fails
+      }
+    }
+
+    return {
+      assistantText,
+      assistantThinking,
+      reasoningBlocks: finalState.reasoningBlocks,
+      toolCalls: (finalState.toolCalls ?? []) as ToolCall[],
+      finishReason: finalState.finishReason,
+      usage: finalState.usage,
     };
   }
 
   private async callGlmStreaming(
     history: HistoryMessage[],
     ctx: { workspaceId: UUID; groupId: UUID; round: number },
-    llm: ResolvedLlmConfig
+    llm: ResolvedLlmConfig,
+    decode?: LlmDecodeParams
   ) {
     getWorkspaceUIBus().emit(ctx.workspaceId, {
       event: "ui.agent.llm.start",
@@ -1407,28 +2297,33 @@ class AgentRunner {
 
     const glmPayload: Record<string, unknown> = {
       model: llm.model,
-      messages: history,
-      tools: await getAgentTools(),
+      messages: stripReasoningSignatures(history),
+      tools: await this.getPermittedTools(ctx.workspaceId),
       tool_choice: "auto",
       stream: true,
       tool_stream: true,
+      ...openAiDecodeFields(decode),
     };
     const requestBody = JSON.stringify(glmPayload);
     void appendAgentLlmRequestRaw({ agentId: this.agentId, body: requestBody });
 
-    const upstream = await fetch(llm.baseUrl, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${llm.apiKey}`,
-        "Content-Type": "application/json",
-        ...(llm.headers ?? {}),
+    const upstream = await fetchWithTimeout(
+      llm.baseUrl,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${llm.apiKey}`,
+          "Content-Type": "application/json",
+          ...(llm.headers ?? {}),
+        },
+        body: requestBody,
       },
-      body: requestBody,
-    });
+      llm.timeoutMs
+    );
 
     if (!upstream.ok || !upstream.body) {
       const text = await upstream.text().catch(() => "");
-      throw new Error(formatUpstreamError("GLM", upstream.status, text));
+      throw new LlmUpstreamError(formatUpstreamError("GLM", upstream.status, text), upstream.status);
     }
 
     const assembler = new GLMStreamAssembler();
@@ -1542,6 +2437,7 @@ class AgentRunner {
       assistantThinking,
       toolCalls: (finalState.toolCalls ?? []) as ToolCall[],
       finishReason: finalState.finishReason,
+      usage: finalState.usage,
     };
   }
 }
@@ -1591,15 +2487,25 @@ function extractToolCallDeltas(
 
 export class AgentRuntime {
   private readonly runners = new Map<UUID, AgentRunner>();
+  /** Live task runs keyed by task id; a workspace may run several, one per root group. */
   private readonly taskRuns = new Map<UUID, TaskRun>();
+  private readonly pendingApprovals = new Map<UUID, PendingToolApproval>();
+  private readonly pendingQuestions = new Map<UUID, PendingHumanQuestion>();
   public readonly bus = new AgentEventBus();
   private bootstrapped = false;
+  private scheduleTimer: ReturnType<typeof setInterval> | null = null;
+  private schedulesTicking = false;
+  private redactionPurgeTimer: ReturnType<typeof setInterval> | null = null;
   static readonly VERSION = 3;
   private static readonly DEFAULT_TASK_DURATION_MS = 5 * 60 * 1000;
   private static readonly DEFAULT_TASK_MAX_TURNS = 40;
   private static readonly DEFAULT_TASK_MAX_TOKEN_DELTA = 20_000;
   private static readonly NO_PROGRESS_WINDOW_MS = 90 * 1000;
   private static readonly TASK_TICK_MS = 10 * 1000;
+  private static readonly MIN_FORK_REMAINING_MS = 60 * 1000;
+  private static readonly SCHEDULE_TICK_MS = 30 * 1000;
+  private static readonly REDACTION_PURGE_MS = 60 * 1000;
+  private static readonly DEFAULT_TOOL_APPROVAL_TIMEOUT_MS = 10 * 60 * 1000;
 
   private normalizeForSimilarity(input: string) {
     return (input || "")
@@ -1620,11 +2526,48 @@ export class AgentRuntime {
     return inter / Math.max(as.size, bs.size);
   }
 
+  private liveTasksInWorkspace(workspaceId: UUID) {
+    return [...this.taskRuns.values()].filter(
+      (t) => t.workspaceId === workspaceId && (t.status === "running" || t.status === "paused")
+    );
+  }
+
+  /** The running task whose root group is `groupId`, else one the agent already takes part in. */
+  private findRunningTask(input: { workspaceId: UUID; groupId: UUID; agentId?: UUID }) {
+    const running = this.liveTasksInWorkspace(input.workspaceId).filter((t) => t.status === "running");
+    return (
+      running.find((t) => t.rootGroupId === input.groupId) ??
+      (input.agentId ? running.find((t) => t.participants.has(input.agentId!)) : undefined) ??
+      null
+    );
+  }
+
+  private getWorkspaceTask(input: { workspaceId: UUID; taskId: UUID }) {
+    const task = this.taskRuns.get(input.taskId);
+    return task && task.workspaceId === input.workspaceId ? task : null;
+  }
+
+  /** Agents that other live tasks of the workspace still rely on; stopping or pausing a task leaves them alone. */
+  private async agentsClaimedByOtherTasks(workspaceId: UUID, excludeTaskId?: UUID) {
+    const claimed = new Set<UUID>();
+    for (const other of this.liveTasksInWorkspace(workspaceId)) {
+      if (other.id === excludeTaskId) continue;
+      claimed.add(other.ownerAgentId);
+      for (const id of other.participants) claimed.add(id);
+      for (const id of await store.listGroupMemberIds({ groupId: other.rootGroupId }).catch(() => [])) {
+        claimed.add(id);
+      }
+    }
+    return claimed;
+  }
+
   private toBudgetJson(task: TaskRun) {
     return JSON.stringify({
       maxDurationMs: task.maxDurationMs,
       maxTurns: task.maxTurns,
       maxTokenDelta: task.maxTokenDelta,
+      maxCostUsd: task.maxCostUsd,
+      maxUsageTokens: task.maxUsageTokens,
       startGroupTokens: task.startGroupTokens,
     });
   }
@@ -1635,7 +2578,11 @@ export class AgentRuntime {
       totalMessages: task.totalMessages,
       repeatedRatio: task.repeatedRatio,
       lastMessageAt: task.lastMessageAt,
+      usageTokens: task.usageTokens,
+      usageCostUsd: task.usageCostUsd,
       participants: [...task.participants],
+      pausedAt: task.pausedAt,
+      pausedAgentIds: task.pausedAgentIds,
     });
   }
 
@@ -1653,13 +2600,15 @@ export class AgentRuntime {
         repeatedRatio: Number(task.repeatedRatio.toFixed(3)),
         idleMs,
         remainingMs,
+        usageTokens: task.usageTokens,
+        usageCostUsd: task.usageCostUsd,
       },
     });
   }
 
   private async calcRepeatedRatio(groupId: UUID) {
-    const rows = await store.listMessages({ groupId }).catch(() => []);
-    const recent = rows.slice(-8).map((m) => String(m.content ?? "").trim()).filter(Boolean);
+    const { messages: rows } = await store.listMessages({ groupId, limit: 8 }).catch(() => ({ messages: [] }));
+    const recent = rows.map((m) => String(m.content ?? "").trim()).filter(Boolean);
     if (recent.length < 2) return 0;
     let pairs = 0;
     let high = 0;
@@ -1778,6 +2727,7 @@ export class AgentRuntime {
         systemPrompt,
         userPrompt,
         decode: { temperature: 0.2, topP: 0.9, maxTokens: 700 },
+        usage: { taskRunId: task.id },
       });
       const review = this.parseReviewJson(raw);
       if (!review) return this.fallbackReview(task, reason);
@@ -1790,7 +2740,7 @@ export class AgentRuntime {
   }
 
   private async tryStopTask(task: TaskRun, reason: TaskStopReason) {
-    if (task.status !== "running") return;
+    if (task.status !== "running" && task.status !== "paused") return;
     task.status = "stopping";
     task.stopReason = reason;
     task.stoppedAt = Date.now();
@@ -1813,7 +2763,8 @@ export class AgentRuntime {
       data: { workspaceId: task.workspaceId, taskId: task.id, reason },
     } as any);
 
-    const participantIds = [...task.participants];
+    const claimed = await this.agentsClaimedByOtherTasks(task.workspaceId, task.id);
+    const participantIds = [...task.participants].filter((id) => !claimed.has(id));
     for (const id of participantIds) {
       this.ensureRunner(id).requestInterrupt();
     }
@@ -1823,11 +2774,13 @@ export class AgentRuntime {
       if (id === task.ownerAgentId) continue;
       await store.setAgentAutoRun({ agentId: id, autoRunEnabled: false }).catch(() => undefined);
     }
-    // Hard stop all non-human agents in workspace to prevent tail chatter across groups.
+    // Hard stop the workspace's other non-human agents to prevent tail chatter across groups,
+    // sparing those still working on another task.
     const pausedAll = await store
       .bulkPauseAgents({
         workspaceId: task.workspaceId,
         excludeKinds: ["system_human"],
+        excludeAgentIds: [...claimed],
       })
       .catch(() => ({ agentIds: [] as UUID[], paused: 0 }));
     for (const id of pausedAll.agentIds) {
@@ -1845,7 +2798,15 @@ export class AgentRuntime {
       },
     });
 
-    const groupMessages = await store.listMessages({ groupId: task.rootGroupId }).catch(() => []);
+    // The judge's verdict is kept with the review, so run it once more unless it just decided the stop.
+    if (task.completionConfig.judge.enabled && !task.workflow && task.completion?.source !== "judge") {
+      await this.runGoalJudge(task, { stopOnComplete: false });
+    }
+
+    // generateTaskReview reads the last 30 messages, the summary the last 20.
+    const { messages: groupMessages } = await store
+      .listMessages({ groupId: task.rootGroupId, limit: 30 })
+      .catch(() => ({ messages: [] }));
     const recent = groupMessages.slice(-20);
     const summaryLines = recent.map((m) => {
       const text = String(m.content ?? "").replace(/\s+/g, " ").trim();
@@ -1858,7 +2819,16 @@ export class AgentRuntime {
       `- Duration: ${Math.round((task.stoppedAt - task.startAt) / 1000)}s\n` +
       `- Turns: ${task.totalTurns}\n` +
       `- Messages: ${task.totalMessages}\n` +
-      `- Repeat ratio: ${Number(task.repeatedRatio.toFixed(2))}\n\n` +
+      `- Repeat ratio: ${Number(task.repeatedRatio.toFixed(2))}\n` +
+      (task.workflow
+        ? `- Workflow: ${task.workflow.definition.name}, ${
+            [...task.workflow.steps.values()].filter((st) => st.status === "passed").length
+          }/${task.workflow.definition.steps.length} steps passed\n`
+        : "") +
+      (task.completion
+        ? `- Completed via: ${task.completion.source}${task.completion.detail ? ` (${task.completion.detail.slice(0, 160)})` : ""}\n`
+        : "") +
+      `\n` +
       `### Recent key logs\n` +
       `${summaryLines.length > 0 ? summaryLines.join("\n") : "- (no recent logs)"}`;
 
@@ -1897,11 +2867,19 @@ export class AgentRuntime {
     const reviewGenerated = await this.generateTaskReview(task, reason, groupMessages).catch(() => null);
     let reviewMessageId: string | undefined;
     if (reviewGenerated) {
+      const producedArtifacts = await store
+        .listArtifacts({ workspaceId: task.workspaceId, taskRunId: task.id })
+        .catch(() => []);
       await store
         .createTaskReview({
           taskId: task.id,
           workspaceId: task.workspaceId,
-          reviewJson: JSON.stringify(reviewGenerated.review),
+          reviewJson: JSON.stringify({
+            ...reviewGenerated.review,
+            completion: task.completion,
+            judge: task.judgeVerdict,
+            artifacts: producedArtifacts.map((a) => ({ id: a.id, name: a.name, mimeType: a.mimeType, sizeBytes: a.sizeBytes })),
+          }),
           narrativeText: reviewGenerated.narrative,
         })
         .catch(() => undefined);
@@ -1923,6 +2901,16 @@ export class AgentRuntime {
         }\n\n` +
         `### Next Actions\n` +
         `${reviewGenerated.review.nextActions.map((x) => `- ${x}`).join("\n") || "- (none)"}\n\n` +
+        (task.judgeVerdict
+          ? `### Goal Judge\n` +
+            `- Complete: ${task.judgeVerdict.complete ? "yes" : "no"} (confidence ${task.judgeVerdict.confidence.toFixed(2)})\n` +
+            `- Reason: ${task.judgeVerdict.reason || "(none)"}\n` +
+            `${task.judgeVerdict.missing.map((x) => `- Missing: ${x}`).join("\n")}${task.judgeVerdict.missing.length ? "\n" : ""}\n`
+          : "") +
+        (producedArtifacts.length > 0
+          ? `### Artifacts\n` +
+            `${producedArtifacts.map((a) => `- ${a.name} (${a.mimeType}, ${a.sizeBytes} bytes) [artifact:${a.id}]`).join("\n")}\n\n`
+          : "") +
         `Narrative: ${reviewGenerated.narrative}`;
 
       const reviewSent = await store
@@ -1931,6 +2919,8 @@ export class AgentRuntime {
           senderId: task.ownerAgentId,
           contentType: "text",
           content: reviewText,
+          // The review carries at most MAX_ATTACHMENTS files inline; the list above names them all.
+          attachments: producedArtifacts.slice(0, MAX_ATTACHMENTS).map((a) => a.id),
         })
         .catch(() => null);
       if (reviewSent) {
@@ -1948,6 +2938,7 @@ export class AgentRuntime {
               sendTime: reviewSent.sendTime,
               content: reviewText,
               contentType: "text",
+              attachments: producedArtifacts.slice(0, MAX_ATTACHMENTS),
             },
           },
         });
@@ -1974,7 +2965,7 @@ export class AgentRuntime {
         stoppedAt: task.stoppedAt ? new Date(task.stoppedAt) : new Date(),
       })
       .catch(() => undefined);
-    this.taskRuns.delete(task.workspaceId);
+    this.taskRuns.delete(task.id);
   }
 
   private async evaluateTask(task: TaskRun) {
@@ -1991,6 +2982,10 @@ export class AgentRuntime {
       await this.tryStopTask(task, "max_turns");
       return;
     }
+    // A participant blocked on ask_human is waiting, not stalled; the window restarts once the answer lands.
+    if ([...this.pendingQuestions.values()].some((q) => q.workspaceId === task.workspaceId && task.participants.has(q.agentId))) {
+      task.lastMessageAt = nowMs;
+    }
     const idleMs = nowMs - task.lastMessageAt;
     if (idleMs >= AgentRuntime.NO_PROGRESS_WINDOW_MS) {
       await this.tryStopTask(task, "no_progress");
@@ -2010,6 +3005,29 @@ export class AgentRuntime {
       return;
     }
 
+    const spent = await store.sumLlmUsage({ taskRunId: task.id }).catch(() => null);
+    if (spent) {
+      task.usageTokens = spent.totalTokens;
+      task.usageCostUsd = spent.costUsd;
+    }
+    if (
+      (task.maxCostUsd !== null && task.usageCostUsd >= task.maxCostUsd) ||
+      (task.maxUsageTokens !== null && task.usageTokens >= task.maxUsageTokens)
+    ) {
+      await this.tryStopTask(task, "budget_exceeded");
+      return;
+    }
+
+    if (
+      task.completionConfig.judge.enabled &&
+      !task.workflow &&
+      nowMs - task.lastJudgeAt >= task.completionConfig.judge.intervalMs
+    ) {
+      void this.runGoalJudge(task, { stopOnComplete: true });
+    }
+
+    // A pause that landed while this tick was awaiting must not be overwritten.
+    if (task.status !== "running") return;
     await store
       .updateTaskRun({
         taskId: task.id,
@@ -2024,6 +3042,15 @@ export class AgentRuntime {
     if (this.bootstrapped) return;
     this.bootstrapped = true;
 
+    await store.expirePendingToolApprovals().catch(() => 0);
+    await store.expirePendingHumanQuestions().catch(() => 0);
+    await store.purgeExpiredRedactionScrubs().catch(() => 0);
+    // Redacted texts kept for re-scrubbing must not outlive their hour, even in idle workspaces.
+    this.redactionPurgeTimer = setInterval(() => {
+      void store.purgeExpiredRedactionScrubs().catch(() => 0);
+    }, AgentRuntime.REDACTION_PURGE_MS);
+    getWebhookDispatcher().start();
+
     const agents = await store.listAgents();
     for (const a of agents) {
       if (a.role === "human" || !a.autoRunEnabled) continue;
@@ -2032,90 +3059,285 @@ export class AgentRuntime {
 
     const runningTasks = await store.listRunningTaskRuns().catch(() => []);
     for (const row of runningTasks) {
-      const budget = safeJsonParse<{
-        maxDurationMs?: number;
-        maxTurns?: number;
-        maxTokenDelta?: number;
-        startGroupTokens?: number;
-      }>(row.budgetJson, {});
-      const metrics = safeJsonParse<{
-        totalTurns?: number;
-        totalMessages?: number;
-        repeatedRatio?: number;
-        lastMessageAt?: number;
-        participants?: string[];
-      }>(row.metricsJson, {});
-      const task: TaskRun = {
-        id: row.id,
-        workspaceId: row.workspaceId,
-        rootGroupId: row.rootGroupId,
-        ownerAgentId: row.ownerAgentId,
-        goal: row.goal,
-        status: "running",
-        startAt: new Date(row.startAt).getTime(),
-        deadlineAt: new Date(row.deadlineAt).getTime(),
-        maxDurationMs: budget.maxDurationMs ?? AgentRuntime.DEFAULT_TASK_DURATION_MS,
-        maxTurns: budget.maxTurns ?? AgentRuntime.DEFAULT_TASK_MAX_TURNS,
-        maxTokenDelta: budget.maxTokenDelta ?? AgentRuntime.DEFAULT_TASK_MAX_TOKEN_DELTA,
-        totalTurns: metrics.totalTurns ?? 0,
-        totalMessages: metrics.totalMessages ?? 0,
-        startGroupTokens: budget.startGroupTokens ?? 0,
-        lastMessageAt: metrics.lastMessageAt ?? Date.now(),
-        repeatedRatio: metrics.repeatedRatio ?? 0,
-        participants: new Set((metrics.participants ?? []) as UUID[]),
-        timer: null,
-      };
-      if (!task.participants.has(task.ownerAgentId)) task.participants.add(task.ownerAgentId);
+      const task = await this.hydrateTaskRun(row);
+      this.taskRuns.set(task.id, task);
+      if (task.status === "paused") continue;
       task.timer = setInterval(() => {
         void this.evaluateTask(task);
       }, AgentRuntime.TASK_TICK_MS);
-      this.taskRuns.set(task.workspaceId, task);
+      void this.dispatchReadySteps(task);
     }
+
+    // next_run_at is persisted, so occurrences missed while the server was down fire once on this first tick.
+    this.scheduleTimer = setInterval(() => {
+      void this.runDueSchedules();
+    }, AgentRuntime.SCHEDULE_TICK_MS);
+    void this.runDueSchedules();
   }
 
-  async getActiveTaskRun(workspaceId: UUID) {
-    const task = this.taskRuns.get(workspaceId);
-    if (task) {
-      return {
-        taskId: task.id,
-        workspaceId: task.workspaceId,
-        rootGroupId: task.rootGroupId,
-        ownerAgentId: task.ownerAgentId,
-        goal: task.goal,
-        status: task.status,
-        startAt: new Date(task.startAt).toISOString(),
-        deadlineAt: new Date(task.deadlineAt).toISOString(),
-        stopReason: task.stopReason ?? null,
-        totalTurns: task.totalTurns,
-        totalMessages: task.totalMessages,
-        repeatedRatio: task.repeatedRatio,
-        remainingMs: Math.max(0, task.deadlineAt - Date.now()),
-      };
+  private async runDueSchedules() {
+    if (this.schedulesTicking) return;
+    this.schedulesTicking = true;
+    try {
+      const due = await store.listDueTaskSchedules({ dueBy: new Date() }).catch(() => []);
+      for (const schedule of due) {
+        if (!schedule.nextRunAt) continue;
+        const scheduledFor = new Date(schedule.nextRunAt);
+        const next = computeNextRunAt(schedule.trigger, Date.now(), Date.parse(schedule.anchorAt));
+        const claimed = await store
+          .claimTaskScheduleRun({
+            id: schedule.id,
+            expectedNextRunAt: scheduledFor,
+            nextRunAt: next === null ? null : new Date(next),
+          })
+          .catch(() => false);
+        if (!claimed) continue;
+        // One failed run record must not leave the remaining due schedules unfired this tick.
+        await this.fireSchedule(schedule, scheduledFor).catch(() => null);
+      }
+    } finally {
+      this.schedulesTicking = false;
     }
-    const latest = await store.getLatestTaskRun({ workspaceId }).catch(() => null);
-    if (!latest) return null;
+  }
+
+  /**
+   * Starts one run of a schedule and records it in the run history. A run is
+   * skipped rather than replacing whatever task already drives its root group.
+   */
+  private async fireSchedule(schedule: TaskScheduleRecord, scheduledFor: Date): Promise<TaskScheduleRunRecord> {
+    const spec = schedule.task;
+    let status: "started" | "skipped" | "failed" = "started";
+    let taskRunId: UUID | null = null;
+    let error: string | null = null;
+    try {
+      const rootGroupId =
+        spec.groupId ?? (await store.ensureWorkspaceDefaults({ workspaceId: schedule.workspaceId })).defaultGroupId;
+      const busy = this.liveTasksInWorkspace(schedule.workspaceId).find((t) => t.rootGroupId === rootGroupId);
+      if (busy) {
+        status = "skipped";
+        error = `root group busy with task ${busy.id}`;
+      } else {
+        const template = spec.templateId
+          ? await store.getTaskTemplate({
+              workspaceId: schedule.workspaceId,
+              ref: spec.templateId,
+              version: spec.templateVersion ?? undefined,
+            })
+          : null;
+        if (spec.templateId && (!template || template.archivedAt)) throw new Error(`unknown template ${spec.templateId}`);
+        const variables = template ? resolveTemplateVariables(template, spec.variables, spec.topic) : null;
+        if (variables && !variables.ok) throw new Error(`invalid variables: ${variables.error}`);
+        const values = variables?.ok ? variables.values : {};
+        const workflowId = spec.workflowId ?? template?.workflowId ?? null;
+        const completion = parseCompletionConfig(spec.completion);
+        if (!completion.ok) throw new Error(`invalid completion: ${completion.error}`);
+        const personas = await store.findAgentPersonasByName({
+          workspaceId: schedule.workspaceId,
+          names: template?.personas ?? [],
+        });
+        if (personas.missing.length > 0) throw new Error(`unknown persona: ${personas.missing.join(", ")}`);
+        const started = await this.startTaskRun({
+          workspaceId: schedule.workspaceId,
+          rootGroupId,
+          ownerAgentId: spec.ownerAgentId,
+          goal: template ? renderTemplateGoal(template, values) : spec.goal,
+          maxDurationMs: spec.budget.maxDurationMs ?? template?.budget.maxDurationMs,
+          maxTurns: spec.budget.maxTurns ?? template?.budget.maxTurns,
+          maxTokenDelta: spec.budget.maxTokenDelta ?? template?.budget.maxTokenDelta,
+          maxCostUsd: spec.budget.maxCostUsd ?? template?.budget.maxCostUsd ?? undefined,
+          maxUsageTokens: spec.budget.maxUsageTokens ?? template?.budget.maxUsageTokens ?? undefined,
+          workflow: workflowId ? (getWorkflowPreset(workflowId) ?? undefined) : undefined,
+          topic: typeof values.topic === "string" ? values.topic : spec.topic,
+          completion: completion.config,
+          template: template ? { id: template.id, version: template.version } : undefined,
+          personas: (template?.personas ?? []).map((name) => personas.byName.get(name)!),
+        });
+        taskRunId = started.taskId;
+      }
+    } catch (e) {
+      status = "failed";
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    const run = await store.insertTaskScheduleRun({
+      scheduleId: schedule.id,
+      workspaceId: schedule.workspaceId,
+      scheduledFor,
+      status,
+      taskRunId,
+      error,
+    });
+    getWorkspaceUIBus().emit(schedule.workspaceId, {
+      event: "ui.task.schedule.fired",
+      data: {
+        workspaceId: schedule.workspaceId,
+        scheduleId: schedule.id,
+        runId: run.id,
+        status,
+        taskId: taskRunId,
+        error,
+      },
+    });
+    return run;
+  }
+
+  /** Fires a schedule immediately without moving its next regular run. */
+  async runScheduleNow(input: { workspaceId: UUID; scheduleId: UUID }) {
+    await this.bootstrap();
+    const schedule = await store.getTaskSchedule({ id: input.scheduleId, workspaceId: input.workspaceId });
+    if (!schedule) return null;
+    await store.updateTaskSchedule({ id: schedule.id, workspaceId: schedule.workspaceId, lastRunAt: new Date() });
+    return await this.fireSchedule(schedule, new Date());
+  }
+
+  /** Rebuilds the in-memory state of a persisted running or paused task run. */
+  private async hydrateTaskRun(row: TaskRunRecord): Promise<TaskRun> {
+    const budget = safeJsonParse<{
+      maxDurationMs?: number;
+      maxTurns?: number;
+      maxTokenDelta?: number;
+      maxCostUsd?: number | null;
+      maxUsageTokens?: number | null;
+      startGroupTokens?: number;
+    }>(row.budgetJson, {});
     const metrics = safeJsonParse<{
       totalTurns?: number;
       totalMessages?: number;
       repeatedRatio?: number;
-    }>(latest.metricsJson, {});
+      lastMessageAt?: number;
+      usageTokens?: number;
+      usageCostUsd?: number;
+      participants?: string[];
+      pausedAt?: number | null;
+      pausedAgentIds?: string[];
+    }>(row.metricsJson, {});
+    const task: TaskRun = {
+      id: row.id,
+      workspaceId: row.workspaceId,
+      rootGroupId: row.rootGroupId,
+      ownerAgentId: row.ownerAgentId,
+      goal: row.goal,
+      status: row.status === "paused" ? "paused" : "running",
+      startAt: new Date(row.startAt).getTime(),
+      deadlineAt: new Date(row.deadlineAt).getTime(),
+      maxDurationMs: budget.maxDurationMs ?? AgentRuntime.DEFAULT_TASK_DURATION_MS,
+      maxTurns: budget.maxTurns ?? AgentRuntime.DEFAULT_TASK_MAX_TURNS,
+      maxTokenDelta: budget.maxTokenDelta ?? AgentRuntime.DEFAULT_TASK_MAX_TOKEN_DELTA,
+      maxCostUsd: budget.maxCostUsd ?? null,
+      maxUsageTokens: budget.maxUsageTokens ?? null,
+      usageTokens: metrics.usageTokens ?? 0,
+      usageCostUsd: metrics.usageCostUsd ?? 0,
+      totalTurns: metrics.totalTurns ?? 0,
+      totalMessages: metrics.totalMessages ?? 0,
+      startGroupTokens: budget.startGroupTokens ?? 0,
+      lastMessageAt: metrics.lastMessageAt ?? Date.now(),
+      repeatedRatio: metrics.repeatedRatio ?? 0,
+      participants: new Set((metrics.participants ?? []) as UUID[]),
+      pausedAt: row.status === "paused" ? (metrics.pausedAt ?? Date.now()) : null,
+      pausedAgentIds: row.status === "paused" ? ((metrics.pausedAgentIds ?? []) as UUID[]) : [],
+      workflow: row.workflowJson
+        ? restoreTaskWorkflow(row.workflowJson, await store.listTaskRunSteps({ taskId: row.id }).catch(() => []))
+        : null,
+      completionConfig: restoreCompletionConfig(row.completionJson),
+      completion: null,
+      judgeVerdict: null,
+      lastJudgeAt: Date.now(),
+      judging: false,
+      timer: null,
+    };
+    if (!task.participants.has(task.ownerAgentId)) task.participants.add(task.ownerAgentId);
+    return task;
+  }
+
+  private describeTaskRun(task: TaskRun) {
     return {
-      taskId: latest.id,
-      workspaceId: latest.workspaceId,
-      rootGroupId: latest.rootGroupId,
-      ownerAgentId: latest.ownerAgentId,
-      goal: latest.goal,
-      status: latest.status,
-      startAt: latest.startAt,
-      deadlineAt: latest.deadlineAt,
-      stopReason: latest.stopReason ?? null,
+      taskId: task.id,
+      workspaceId: task.workspaceId,
+      rootGroupId: task.rootGroupId,
+      ownerAgentId: task.ownerAgentId,
+      goal: task.goal,
+      status: task.status,
+      startAt: new Date(task.startAt).toISOString(),
+      deadlineAt: new Date(task.deadlineAt).toISOString(),
+      stopReason: task.stopReason ?? null,
+      totalTurns: task.totalTurns,
+      totalMessages: task.totalMessages,
+      repeatedRatio: task.repeatedRatio,
+      usageTokens: task.usageTokens,
+      usageCostUsd: task.usageCostUsd,
+      maxCostUsd: task.maxCostUsd,
+      maxUsageTokens: task.maxUsageTokens,
+      remainingMs: Math.max(0, task.deadlineAt - (task.pausedAt ?? Date.now())),
+      pausedAt: task.pausedAt ? new Date(task.pausedAt).toISOString() : null,
+      workflow: this.describeWorkflow(task.workflow),
+      completionConfig: task.completionConfig,
+      completion: task.completion,
+      judgeVerdict: task.judgeVerdict,
+    };
+  }
+
+  /** Snapshot of a persisted task run that is no longer live in this process. */
+  private async describeTaskRunRecord(row: TaskRunRecord) {
+    const metrics = safeJsonParse<{
+      totalTurns?: number;
+      totalMessages?: number;
+      repeatedRatio?: number;
+      usageTokens?: number;
+      usageCostUsd?: number;
+      pausedAt?: number | null;
+    }>(row.metricsJson, {});
+    const pausedAt = row.status === "paused" ? (metrics.pausedAt ?? null) : null;
+    const budget = safeJsonParse<{ maxCostUsd?: number | null; maxUsageTokens?: number | null }>(
+      row.budgetJson,
+      {}
+    );
+    return {
+      taskId: row.id,
+      workspaceId: row.workspaceId,
+      rootGroupId: row.rootGroupId,
+      ownerAgentId: row.ownerAgentId,
+      goal: row.goal,
+      status: row.status,
+      startAt: row.startAt,
+      deadlineAt: row.deadlineAt,
+      stopReason: row.stopReason ?? null,
       totalTurns: metrics.totalTurns ?? 0,
       totalMessages: metrics.totalMessages ?? 0,
       repeatedRatio: metrics.repeatedRatio ?? 0,
-      remainingMs: Math.max(0, new Date(latest.deadlineAt).getTime() - Date.now()),
+      usageTokens: metrics.usageTokens ?? 0,
+      usageCostUsd: metrics.usageCostUsd ?? 0,
+      maxCostUsd: budget.maxCostUsd ?? null,
+      maxUsageTokens: budget.maxUsageTokens ?? null,
+      remainingMs: Math.max(0, new Date(row.deadlineAt).getTime() - (pausedAt ?? Date.now())),
+      pausedAt: pausedAt ? new Date(pausedAt).toISOString() : null,
+      workflow: row.workflowJson
+        ? this.describeWorkflow(
+            restoreTaskWorkflow(row.workflowJson, await store.listTaskRunSteps({ taskId: row.id }).catch(() => []))
+          )
+        : null,
+      completionConfig: restoreCompletionConfig(row.completionJson),
+      completion: null,
+      judgeVerdict: null,
     };
   }
 
+  async getTaskRunState(input: { taskId: UUID }) {
+    await this.bootstrap();
+    const task = this.taskRuns.get(input.taskId);
+    if (task) return this.describeTaskRun(task);
+    const row = await store.getTaskRunById({ taskId: input.taskId }).catch(() => null);
+    return row ? await this.describeTaskRunRecord(row) : null;
+  }
+
+  /** Every live task of the workspace, newest first; falls back to the latest finished one. */
+  async listWorkspaceTaskRuns(workspaceId: UUID) {
+    await this.bootstrap();
+    const live = this.liveTasksInWorkspace(workspaceId).sort((a, b) => b.startAt - a.startAt);
+    if (live.length > 0) return live.map((task) => this.describeTaskRun(task));
+    const latest = await store.getLatestTaskRun({ workspaceId }).catch(() => null);
+    return latest ? [await this.describeTaskRunRecord(latest)] : [];
+  }
+
   async startTaskRun(input: {
     workspaceId: UUID;
     rootGroupId?: UUID;
@@ -2124,13 +3346,19 @@ export class AgentRuntime {
     maxDurationMs?: number;
     maxTurns?: number;
     maxTokenDelta?: number;
+    maxCostUsd?: number;
+    maxUsageTokens?: number;
+    /** Validated step pipeline; see parseWorkflowDefinition. */
+    workflow?: WorkflowDefinition;
+    topic?: string;
+    /** Goal-completion detector; see parseCompletionConfig. Defaults apply when omitted. */
+    completion?: TaskCompletionConfig;
+    /** Template version the run comes from, recorded so reviews can be compared across revisions. */
+    template?: { id: UUID; version: number };
+    /** Each persona gets a fresh agent in the root group before the run starts. */
+    personas?: AgentPersonaRecord[];
   }) {
     await this.bootstrap();
-    const existing = this.taskRuns.get(input.workspaceId);
-    if (existing && existing.status === "running") {
-      await this.tryStopTask(existing, "manual_replaced" as TaskStopReason);
-    }
-
     const startAt = Date.now();
     const maxDurationMs = Math.max(15_000, input.maxDurationMs ?? AgentRuntime.DEFAULT_TASK_DURATION_MS);
     const deadlineAt = startAt + maxDurationMs;
@@ -2141,18 +3369,52 @@ export class AgentRuntime {
       (g) => g.id === resolvedRootGroupId
     );
     if (!group) throw new Error("group not found");
-    // Isolate a task run: pause all non-human agents first, then enable only root-group members.
+    // A root group drives at most one task; starting another there replaces it.
+    for (const existing of this.liveTasksInWorkspace(input.workspaceId)) {
+      if (existing.rootGroupId !== resolvedRootGroupId) continue;
+      await this.tryStopTask(existing, "manual_replaced" as TaskStopReason);
+    }
+    for (const persona of input.personas ?? []) {
+      const created = await store.createSubAgentWithP2P({
+        workspaceId: input.workspaceId,
+        creatorId: input.ownerAgentId,
+        role: persona.name,
+        autoRunEnabled: false,
+        originType: input.template ? "task_template" : null,
+        originId: input.template?.id ?? null,
+        persona,
+      });
+      await store.addGroupMembers({ groupId: resolvedRootGroupId, userIds: [created.agentId] });
+      this.ensureRunner(created.agentId);
+      getWorkspaceUIBus().emit(input.workspaceId, {
+        event: "ui.agent.created",
+        data: {
+          workspaceId: input.workspaceId,
+          agent: { id: created.agentId, role: persona.name, parentId: input.ownerAgentId },
+        },
+      });
+      getWorkspaceUIBus().emit(input.workspaceId, {
+        event: "ui.group.created",
+        data: {
+          workspaceId: input.workspaceId,
+          group: { id: created.groupId, name: persona.name, memberIds: [created.humanAgentId, created.agentId] },
+        },
+      });
+    }
+    // Isolate a task run: pause the non-human agents no other task is using, then enable root-group members.
+    const claimed = await this.agentsClaimedByOtherTasks(input.workspaceId);
     await store
       .bulkPauseAgents({
         workspaceId: input.workspaceId,
         excludeKinds: ["system_human"],
+        excludeAgentIds: [...claimed],
       })
       .catch(() => undefined);
     const rootMemberIds = await store.listGroupMemberIds({ groupId: resolvedRootGroupId }).catch(() => []);
     const enableIds = [...new Set([input.ownerAgentId, ...rootMemberIds])];
     for (const agentId of enableIds) {
       const agent = await store.getAgent({ agentId }).catch(() => null);
-      if (!agent || agent.role === "human") continue;
+      if (!agent || agent.role === "human" || agent.kind === "integration") continue;
       await store.setAgentAutoRun({ agentId, autoRunEnabled: true }).catch(() => undefined);
     }
     const startGroupTokens = group.contextTokens ?? 0;
@@ -2169,12 +3431,24 @@ export class AgentRuntime {
       maxDurationMs,
       maxTurns: Math.max(1, input.maxTurns ?? AgentRuntime.DEFAULT_TASK_MAX_TURNS),
       maxTokenDelta: Math.max(1000, input.maxTokenDelta ?? AgentRuntime.DEFAULT_TASK_MAX_TOKEN_DELTA),
+      maxCostUsd: input.maxCostUsd && input.maxCostUsd > 0 ? input.maxCostUsd : null,
+      maxUsageTokens: input.maxUsageTokens && input.maxUsageTokens > 0 ? Math.floor(input.maxUsageTokens) : null,
+      usageTokens: 0,
+      usageCostUsd: 0,
       totalTurns: 0,
       totalMessages: 0,
       startGroupTokens,
       lastMessageAt: startAt,
       repeatedRatio: 0,
       participants: new Set<UUID>([input.ownerAgentId]),
+      pausedAt: null,
+      pausedAgentIds: [],
+      workflow: input.workflow ? createTaskWorkflow(input.workflow, input.topic ?? "") : null,
+      completionConfig: input.completion ?? defaultCompletionConfig(),
+      completion: null,
+      judgeVerdict: null,
+      lastJudgeAt: startAt,
+      judging: false,
       timer: null,
     };
 
@@ -2182,7 +3456,6 @@ export class AgentRuntime {
       void this.evaluateTask(task);
     }, AgentRuntime.TASK_TICK_MS);
 
-    this.taskRuns.set(input.workspaceId, task);
     const createdTask = await store
       .createTaskRun({
         workspaceId: task.workspaceId,
@@ -2192,6 +3465,10 @@ export class AgentRuntime {
         status: "running",
         budgetJson: this.toBudgetJson(task),
         metricsJson: this.toMetricsJson(task),
+        workflowJson: task.workflow ? serializeTaskWorkflow(task.workflow) : "",
+        completionJson: JSON.stringify(task.completionConfig),
+        templateId: input.template?.id ?? null,
+        templateVersion: input.template?.version ?? null,
         startAt: new Date(task.startAt),
         deadlineAt: new Date(task.deadlineAt),
       })
@@ -2199,6 +3476,10 @@ export class AgentRuntime {
     if (createdTask?.id) {
       task.id = createdTask.id;
     }
+    this.taskRuns.set(task.id, task);
+    for (const step of task.workflow?.definition.steps ?? []) {
+      await this.persistWorkflowStep(task, step.id, {});
+    }
     getWorkspaceUIBus().emit(input.workspaceId, {
       event: "ui.task.started",
       data: {
@@ -2212,24 +3493,22 @@ export class AgentRuntime {
         effectiveGroupId: task.rootGroupId,
       },
     } as any);
+    void this.dispatchReadySteps(task);
 
-    return await this.getActiveTaskRun(input.workspaceId);
+    return this.describeTaskRun(task);
   }
 
-  async stopTaskRun(input: { workspaceId: UUID; reason?: TaskStopReason }) {
-    let task = this.taskRuns.get(input.workspaceId);
-    if (!task) {
-      await this.bootstrap();
-      task = this.taskRuns.get(input.workspaceId);
-    }
+  async stopTaskRun(input: { workspaceId: UUID; taskId: UUID; reason?: TaskStopReason }) {
+    await this.bootstrap();
+    const task = this.getWorkspaceTask(input);
     if (!task) {
-      const latest = await store.getLatestTaskRun({ workspaceId: input.workspaceId }).catch(() => null);
-      return latest
+      const row = await store.getTaskRunById({ taskId: input.taskId }).catch(() => null);
+      return row && row.workspaceId === input.workspaceId
         ? {
-            taskId: latest.id,
-            workspaceId: latest.workspaceId,
-            stopReason: latest.stopReason ?? "manual",
-            stoppedAt: latest.stoppedAt ?? latest.updatedAt,
+            taskId: row.id,
+            workspaceId: row.workspaceId,
+            stopReason: row.stopReason ?? "manual",
+            stoppedAt: row.stoppedAt ?? row.updatedAt,
           }
         : null;
     }
@@ -2242,15 +3521,171 @@ export class AgentRuntime {
     };
   }
 
+  /**
+   * Freezes a running task: its tick stops, the runners of its agents are
+   * interrupted and paused, and the deadline clock stops counting until resume.
+   * Agents shared with another live task of the workspace keep running.
+   */
+  async pauseTaskRun(input: { workspaceId: UUID; taskId: UUID }) {
+    await this.bootstrap();
+    const task = this.getWorkspaceTask(input);
+    if (!task || task.status !== "running") return null;
+    task.status = "paused";
+    task.pausedAt = Date.now();
+    if (task.timer) {
+      clearInterval(task.timer);
+      task.timer = null;
+    }
+
+    const claimed = await this.agentsClaimedByOtherTasks(task.workspaceId, task.id);
+    const rootMemberIds = await store.listGroupMemberIds({ groupId: task.rootGroupId }).catch(() => []);
+    const own = new Set([task.ownerAgentId, ...task.participants, ...rootMemberIds]);
+    const agents = await store.listAgentsMeta({ workspaceId: task.workspaceId }).catch(() => []);
+    task.pausedAgentIds = agents
+      .filter((a) => own.has(a.id) && !claimed.has(a.id) && a.autoRunEnabled && a.kind !== "system_human")
+      .map((a) => a.id);
+    for (const id of task.pausedAgentIds) {
+      await store.setAgentAutoRun({ agentId: id, autoRunEnabled: false }).catch(() => undefined);
+    }
+    for (const id of own) {
+      if (!claimed.has(id)) this.ensureRunner(id).requestInterrupt();
+    }
+
+    await store
+      .updateTaskRun({
+        taskId: task.id,
+        workspaceId: task.workspaceId,
+        status: "paused",
+        metricsJson: this.toMetricsJson(task),
+      })
+      .catch(() => undefined);
+    getWorkspaceUIBus().emit(task.workspaceId, {
+      event: "ui.task.paused",
+      data: { workspaceId: task.workspaceId, taskId: task.id, pausedAt: new Date(task.pausedAt).toISOString() },
+    });
+    return this.describeTaskRun(task);
+  }
+
+  /** Picks a paused task back up, pushing its deadline out by the time spent paused. */
+  async resumeTaskRun(input: { workspaceId: UUID; taskId: UUID }) {
+    await this.bootstrap();
+    const task = this.getWorkspaceTask(input);
+    if (!task || task.status !== "paused") return null;
+    const pausedMs = Math.max(0, Date.now() - (task.pausedAt ?? Date.now()));
+    task.deadlineAt += pausedMs;
+    task.lastMessageAt += pausedMs;
+    task.lastJudgeAt += pausedMs;
+    task.pausedAt = null;
+    task.status = "running";
+
+    const resumeIds = task.pausedAgentIds;
+    task.pausedAgentIds = [];
+    for (const id of resumeIds) {
+      await store.setAgentAutoRun({ agentId: id, autoRunEnabled: true }).catch(() => undefined);
+    }
+    await store
+      .updateTaskRun({
+        taskId: task.id,
+        workspaceId: task.workspaceId,
+        status: "running",
+        deadlineAt: new Date(task.deadlineAt),
+        metricsJson: this.toMetricsJson(task),
+      })
+      .catch(() => undefined);
+
+    task.timer = setInterval(() => {
+      void this.evaluateTask(task);
+    }, AgentRuntime.TASK_TICK_MS);
+    getWorkspaceUIBus().emit(task.workspaceId, {
+      event: "ui.task.resumed",
+      data: {
+        workspaceId: task.workspaceId,
+        taskId: task.id,
+        deadlineAt: new Date(task.deadlineAt).toISOString(),
+      },
+    });
+    for (const id of resumeIds) {
+      this.ensureRunner(id).wakeup("manual");
+    }
+    void this.dispatchReadySteps(task);
+    return this.describeTaskRun(task);
+  }
+
+  /**
+   * Copies a task into a new workspace:
+   * participants with their llm histories, the root group and its messages. The
+   * fork starts paused with the source's remaining budget so it can be steered
+   * before resuming.
+   */
+  async forkTaskRun(input: { workspaceId: UUID; taskId: UUID; name?: string }) {
+    await this.bootstrap();
+    const active = this.getWorkspaceTask(input);
+    const record = await store.getTaskRunById({ taskId: input.taskId }).catch(() => null);
+    if (!record || record.workspaceId !== input.workspaceId) return null;
+
+    let participantIds: UUID[];
+    let metricsJson: string;
+    let remainingMs: number;
+    if (active) {
+      participantIds = [...active.participants];
+      metricsJson = this.toMetricsJson(active);
+      remainingMs = active.deadlineAt - (active.pausedAt ?? Date.now());
+    } else {
+      participantIds = safeJsonParse<{ participants?: UUID[] }>(record.metricsJson, {}).participants ?? [];
+      metricsJson = record.metricsJson;
+      remainingMs =
+        new Date(record.deadlineAt).getTime() - (record.stoppedAt ? new Date(record.stoppedAt).getTime() : Date.now());
+    }
+    const rootMemberIds = await store.listGroupMemberIds({ groupId: record.rootGroupId }).catch(() => []);
+    const agents = await store.listAgentsMeta({ workspaceId: input.workspaceId }).catch(() => []);
+    const wanted = new Set([record.ownerAgentId, ...participantIds, ...rootMemberIds]);
+    const copied = agents.filter((a) => wanted.has(a.id));
+
+    const pausedAt = Date.now();
+    const forkMetrics = {
+      ...safeJsonParse<Record<string, unknown>>(metricsJson, {}),
+      lastMessageAt: pausedAt,
+      pausedAt,
+      pausedAgentIds: copied.filter((a) => a.kind !== "system_human").map((a) => a.id),
+    };
+    const sourceName =
+      (await store.listWorkspaces().catch(() => [])).find((w) => w.id === input.workspaceId)?.name ?? "Workspace";
+    const fork = await store.forkTaskRun({
+      taskId: record.id,
+      name: input.name?.trim() || `${sourceName} (fork)`,
+      agentIds: copied.map((a) => a.id),
+      metricsJson: JSON.stringify(forkMetrics),
+      deadlineAt: new Date(pausedAt + Math.max(AgentRuntime.MIN_FORK_REMAINING_MS, remainingMs)),
+    });
+    for (const [sourceId, forkId] of Object.entries(fork.artifactIdMap)) {
+      await copyArtifactBlob(
+        { workspaceId: input.workspaceId, id: sourceId },
+        { workspaceId: fork.workspaceId, id: forkId }
+      ).catch(() => undefined);
+    }
+
+    const row = await store.getTaskRunById({ taskId: fork.taskId });
+    if (row) this.taskRuns.set(row.id, await this.hydrateTaskRun(row));
+    getWorkspaceUIBus().emit(input.workspaceId, {
+      event: "ui.task.forked",
+      data: {
+        workspaceId: input.workspaceId,
+        taskId: record.id,
+        forkWorkspaceId: fork.workspaceId,
+        forkTaskId: fork.taskId,
+      },
+    });
+    return fork;
+  }
+
   private noteTaskTurn(input: {
     workspaceId: UUID;
     groupId: UUID;
     agentId: UUID;
     finishReason?: string | null;
   }) {
-    const task = this.taskRuns.get(input.workspaceId);
-    if (!task || task.status !== "running") return;
-    if (input.groupId !== task.rootGroupId) return;
+    const task = this.findRunningTask({ workspaceId: input.workspaceId, groupId: input.groupId });
+    if (!task || input.groupId !== task.rootGroupId) return;
     task.totalTurns += 1;
     task.participants.add(input.agentId);
     void this.evaluateTask(task);
@@ -2263,30 +3698,500 @@ export class AgentRuntime {
     content: string;
     contentType: string;
   }) {
-    const task = this.taskRuns.get(input.workspaceId);
-    if (!task || task.status !== "running") return;
-    if (input.groupId !== task.rootGroupId) return;
+    const task = this.findRunningTask({ workspaceId: input.workspaceId, groupId: input.groupId });
+    if (!task || input.groupId !== task.rootGroupId) return;
     task.totalMessages += 1;
     task.lastMessageAt = Date.now();
     task.participants.add(input.senderId);
 
-    const text = String(input.content ?? "").toLowerCase();
-    if (
-      text.includes("最终总结") ||
-      text.includes("最终结果") ||
-      text.includes("任务完成") ||
-      text.includes("final summary") ||
-      text.includes("辩论结束") ||
-      text.includes("本场辩论圆满结束") ||
-      text.includes("debate concluded") ||
-      text.includes("debate finished")
-    ) {
+    // Workflow tasks finish when their last step passes, not on closing phrases.
+    if (task.workflow) {
+      void this.handleWorkflowReply(task, input.senderId, String(input.content ?? ""));
+      void this.evaluateTask(task);
+      return;
+    }
+
+    const sentinel = matchSentinel(task.completionConfig, String(input.content ?? ""));
+    if (sentinel) {
+      task.completion = {
+        source: "sentinel",
+        agentId: input.senderId,
+        detail: sentinel,
+        result: String(input.content ?? ""),
+        at: new Date().toISOString(),
+      };
       void this.tryStopTask(task, "goal_reached");
       return;
     }
     void this.evaluateTask(task);
   }
 
+  /** Backs the task_complete tool: ends the caller's running task with its result. */
+  private completeTask(input: {
+    workspaceId: UUID;
+    agentId: UUID;
+    groupId: UUID;
+    result: unknown;
+    summary: string;
+  }): { ok: true; taskId: UUID } | { ok: false; error: string } {
+    const task = this.findRunningTask(input);
+    if (!task) return { ok: false, error: "No running task for this group or agent" };
+    if (task.workflow) {
+      return { ok: false, error: "This task follows a workflow and finishes when its last step passes" };
+    }
+    if (!task.completionConfig.tool) return { ok: false, error: "task_complete is disabled for this task" };
+    task.completion = {
+      source: "tool",
+      agentId: input.agentId,
+      detail: input.summary,
+      result: input.result,
+      at: new Date().toISOString(),
+    };
+    void this.tryStopTask(task, "goal_reached");
+    return { ok: true, taskId: task.id };
+  }
+
+  /**
+   * Periodically asks the LLM judge whether the root group already meets the goal.
+   * Runs in the background so task ticks never wait on it; at most one call per
+   * task is in flight.
+   */
+  private async runGoalJudge(task: TaskRun, opts: { stopOnComplete: boolean }) {
+    if (task.judging) return;
+    task.judging = true;
+    task.lastJudgeAt = Date.now();
+    try {
+      const { messages } = await store
+        .listMessages({ groupId: task.rootGroupId, limit: 40 })
+        .catch(() => ({ messages: [] }));
+      const verdict = await judgeGoalCompletion({
+        agentId: task.ownerAgentId,
+        taskRunId: task.id,
+        goal: task.goal,
+        messages,
+      });
+      task.judgeVerdict = verdict;
+      if (
+        opts.stopOnComplete &&
+        task.status === "running" &&
+        verdict.complete &&
+        verdict.confidence >= task.completionConfig.judge.minConfidence
+      ) {
+        task.completion = {
+          source: "judge",
+          agentId: null,
+          detail: verdict.reason,
+          result: null,
+          at: verdict.at,
+        };
+        await this.tryStopTask(task, "goal_reached");
+      }
+    } catch {
+      // An unreachable judge never stops or blocks the task.
+    } finally {
+      task.judging = false;
+    }
+  }
+
+  private describeWorkflow(workflow: TaskWorkflow | null) {
+    if (!workflow) return null;
+    return {
+      id: workflow.definition.id,
+      name: workflow.definition.name,
+      topic: workflow.topic,
+      steps: workflow.definition.steps.map((step) => {
+        const state = workflow.steps.get(step.id);
+        return {
+          id: step.id,
+          title: step.title,
+          role: step.role,
+          dependsOn: step.dependsOn ?? [],
+          status: state?.status ?? "pending",
+          assigneeAgentId: state?.assigneeAgentId ?? null,
+          attempts: state?.attempts ?? 0,
+          checkNote: state?.checkNote ?? null,
+        };
+      }),
+    };
+  }
+
+  private async persistWorkflowStep(
+    task: TaskRun,
+    stepId: string,
+    times: { startedAt?: Date; completedAt?: Date }
+  ) {
+    const state = task.workflow?.steps.get(stepId);
+    const step = task.workflow?.definition.steps.find((s) => s.id === stepId);
+    if (!state || !step) return;
+    await store
+      .upsertTaskRunStep({
+        taskId: task.id,
+        stepId,
+        workspaceId: task.workspaceId,
+        status: state.status,
+        assigneeAgentId: state.assigneeAgentId,
+        attempts: state.attempts,
+        outputText: state.outputText,
+        checkNote: state.checkNote,
+        ...(times.startedAt ? { startedAt: times.startedAt } : {}),
+        ...(times.completedAt ? { completedAt: times.completedAt } : {}),
+      })
+      .catch(() => undefined);
+    getWorkspaceUIBus().emit(task.workspaceId, {
+      event: "ui.task.step.updated",
+      data: {
+        workspaceId: task.workspaceId,
+        taskId: task.id,
+        stepId,
+        title: step.title,
+        role: step.role,
+        status: state.status,
+        assigneeAgentId: state.assigneeAgentId,
+        attempts: state.attempts,
+        note: state.checkNote,
+      },
+    });
+  }
+
+  // Prefer a root-group member with the step's role; the owner covers roles nobody holds.
+  private async resolveStepAssignee(task: TaskRun, role: string): Promise<UUID> {
+    const memberIds = await store.listGroupMemberIds({ groupId: task.rootGroupId }).catch(() => [] as UUID[]);
+    const agents = await store.listAgentsMeta({ workspaceId: task.workspaceId }).catch(() => []);
+    const match = agents.find((a) => a.role === role && !a.deletedAt && memberIds.includes(a.id));
+    return match?.id ?? task.ownerAgentId;
+  }
+
+  private async sendWorkflowMessage(task: TaskRun, assigneeId: UUID, content: string) {
+    // The owner coordinates; when it is also the assignee the request comes from the human seat
+    // so that the owner sees it as unread.
+    const senderId =
+      assigneeId === task.ownerAgentId
+        ? ((await store.getDefaultHumanAgentId({ workspaceId: task.workspaceId }).catch(() => null)) ??
+          task.ownerAgentId)
+        : task.ownerAgentId;
+    const sent = await store
+      .sendMessage({ groupId: task.rootGroupId, senderId, contentType: "text", content })
+      .catch(() => null);
+    if (!sent) return;
+    task.lastMessageAt = Date.now();
+    const memberIds = await store.listGroupMemberIds({ groupId: task.rootGroupId }).catch(() => []);
+    getWorkspaceUIBus().emit(task.workspaceId, {
+      event: "ui.message.created",
+      data: {
+        workspaceId: task.workspaceId,
+        groupId: task.rootGroupId,
+        memberIds,
+        message: { id: sent.id, senderId, sendTime: sent.sendTime, content, contentType: "text" },
+      },
+    });
+    await store.setAgentAutoRun({ agentId: assigneeId, autoRunEnabled: true }).catch(() => undefined);
+    task.participants.add(assigneeId);
+    this.ensureRunner(assigneeId).wakeup("group_message");
+  }
+
+  private async dispatchReadySteps(task: TaskRun) {
+    const workflow = task.workflow;
+    if (!workflow || task.status !== "running") return;
+    const statusOf = stepStatusOf(workflow);
+    if (workflow.definition.steps.every((step) => statusOf(step.id) === "passed")) {
+      const terminal = workflow.definition.steps.filter(
+        (step) => !workflow.definition.steps.some((other) => other.dependsOn?.includes(step.id))
+      );
+      task.completion = {
+        source: "workflow",
+        agentId: null,
+        detail: `all ${workflow.definition.steps.length} steps passed`,
+        result: Object.fromEntries(terminal.map((step) => [step.id, workflow.steps.get(step.id)?.outputText ?? ""])),
+        at: new Date().toISOString(),
+      };
+      await this.tryStopTask(task, "goal_reached");
+      return;
+    }
+
+    const ready = listReadySteps(workflow.definition, statusOf);
+    // Claim every ready step before awaiting so concurrent calls never dispatch twice.
+    for (const step of ready) workflow.steps.get(step.id)!.status = "running";
+    for (const step of ready) {
+      const state = workflow.steps.get(step.id)!;
+      state.assigneeAgentId = await this.resolveStepAssignee(task, step.role);
+      state.attempts = 1;
+      await this.persistWorkflowStep(task, step.id, { startedAt: new Date() });
+      await this.sendWorkflowMessage(task, state.assigneeAgentId, renderStepDispatch(workflow, step));
+    }
+  }
+
+  /**
+   * Treats a root-group message from a step's assignee as that step's output and
+   * runs its acceptance checks. Passing steps unlock their dependents; failing ones
+   * are sent back for revision until their attempts run out, which fails the task.
+   */
+  private async handleWorkflowReply(task: TaskRun, senderId: UUID, content: string) {
+    const workflow = task.workflow;
+    const output = content.trim();
+    if (!workflow || !output || output.startsWith(WORKFLOW_MARKER)) return;
+
+    const candidates = workflow.definition.steps.filter((step) => {
+      const state = workflow.steps.get(step.id);
+      return state?.status === "running" && state.assigneeAgentId === senderId;
+    });
+    const step =
+      candidates.find((c) => output.includes(`${WORKFLOW_MARKER}${c.id}]`)) ?? candidates[0] ?? null;
+    if (!step) return;
+    const state = workflow.steps.get(step.id)!;
+    state.status = "checking";
+
+    const result = await checkStepOutput({
+      judgeAgentId: task.ownerAgentId,
+      taskRunId: task.id,
+      step,
+      output,
+    });
+    if (task.status !== "running") return;
+    state.checkNote = result.note;
+
+    if (result.pass) {
+      state.status = "passed";
+      state.outputText = clipStepOutput(output);
+      await this.persistWorkflowStep(task, step.id, { completedAt: new Date() });
+      await this.dispatchReadySteps(task);
+      return;
+    }
+
+    if (state.attempts >= getStepMaxAttempts(step)) {
+      state.status = "failed";
+      await this.persistWorkflowStep(task, step.id, { completedAt: new Date() });
+      await this.tryStopTask(task, "workflow_failed");
+      return;
+    }
+
+    state.attempts += 1;
+    state.status = "running";
+    await this.persistWorkflowStep(task, step.id, {});
+    await this.sendWorkflowMessage(
+      task,
+      senderId,
+      renderStepRetry(step, state.attempts, result.note ?? "acceptance criteria not met")
+    );
+  }
+
+  private getToolApprovalTimeoutMs() {
+    const raw = Number(process.env.TOOL_APPROVAL_TIMEOUT_MS);
+    return raw > 0 ? raw : AgentRuntime.DEFAULT_TOOL_APPROVAL_TIMEOUT_MS;
+  }
+
+  private async requestToolApproval(input: {
+    workspaceId: UUID;
+    agentId: UUID;
+    groupId: UUID;
+    toolCallId?: string;
+    toolName: string;
+    argumentsText: string;
+  }): Promise<ToolApprovalOutcome> {
+    const approval = await store.createToolApproval({
+      workspaceId: input.workspaceId,
+      agentId: input.agentId,
+      groupId: input.groupId,
+      toolCallId: input.toolCallId ?? null,
+      toolName: input.toolName,
+      argumentsJson: input.argumentsText,
+    });
+    const timeoutMs = this.getToolApprovalTimeoutMs();
+    const deferred = createDeferred<ToolApprovalOutcome>();
+    const pending: PendingToolApproval = {
+      id: approval.id,
+      workspaceId: input.workspaceId,
+      agentId: input.agentId,
+      toolName: input.toolName,
+      deferred,
+      timer: setTimeout(() => {
+        void this.settleToolApproval(approval.id, { status: "expired", note: "approval timed out" });
+      }, timeoutMs),
+    };
+    this.pendingApprovals.set(approval.id, pending);
+
+    getWorkspaceUIBus().emit(input.workspaceId, {
+      event: "ui.agent.tool_call.approval_requested",
+      data: {
+        workspaceId: input.workspaceId,
+        agentId: input.agentId,
+        groupId: input.groupId,
+        approvalId: approval.id,
+        toolCallId: input.toolCallId,
+        toolName: input.toolName,
+        arguments: input.argumentsText,
+        expiresAt: Date.now() + timeoutMs,
+      },
+    });
+
+    return deferred.promise;
+  }
+
+  private async settleToolApproval(
+    approvalId: UUID,
+    outcome: ToolApprovalOutcome,
+    decidedBy?: UUID | null
+  ) {
+    const pending = this.pendingApprovals.get(approvalId);
+    if (!pending) return false;
+    this.pendingApprovals.delete(approvalId);
+    clearTimeout(pending.timer);
+
+    await store
+      .decideToolApproval({
+        id: approvalId,
+        workspaceId: pending.workspaceId,
+        status: outcome.status,
+        decidedBy: decidedBy ?? null,
+        decisionNote: outcome.note ?? null,
+      })
+      .catch(() => null);
+
+    getWorkspaceUIBus().emit(pending.workspaceId, {
+      event: "ui.agent.tool_call.approval_resolved",
+      data: {
+        workspaceId: pending.workspaceId,
+        agentId: pending.agentId,
+        approvalId,
+        toolName: pending.toolName,
+        status: outcome.status,
+        decidedBy: decidedBy ?? null,
+      },
+    });
+    pending.deferred.resolve(outcome);
+    return true;
+  }
+
+  private cancelToolApprovals(agentId: UUID) {
+    for (const pending of [...this.pendingApprovals.values()]) {
+      if (pending.agentId !== agentId) continue;
+      void this.settleToolApproval(pending.id, { status: "cancelled", note: "agent interrupted" });
+    }
+  }
+
+  async resolveToolApproval(input: {
+    workspaceId: UUID;
+    approvalId: UUID;
+    approved: boolean;
+    decidedBy?: UUID | null;
+    note?: string | null;
+  }) {
+    const pending = this.pendingApprovals.get(input.approvalId);
+    if (!pending || pending.workspaceId !== input.workspaceId) return false;
+    return this.settleToolApproval(
+      input.approvalId,
+      { status: input.approved ? "approved" : "denied", note: input.note ?? null },
+      input.decidedBy
+    );
+  }
+
+  private async askHuman(input: {
+    workspaceId: UUID;
+    agentId: UUID;
+    groupId: UUID;
+    toolCallId?: string;
+    question: HumanQuestionInput;
+  }): Promise<HumanQuestionOutcome> {
+    const expiresAt = new Date(Date.now() + input.question.timeoutSeconds * 1000);
+    const record = await store.createHumanQuestion({
+      workspaceId: input.workspaceId,
+      agentId: input.agentId,
+      groupId: input.groupId,
+      toolCallId: input.toolCallId ?? null,
+      kind: input.question.kind,
+      question: input.question.question,
+      choices: input.question.choices,
+      expiresAt,
+    });
+    const deferred = createDeferred<HumanQuestionOutcome>();
+    this.pendingQuestions.set(record.id, {
+      id: record.id,
+      workspaceId: input.workspaceId,
+      agentId: input.agentId,
+      kind: record.kind,
+      choices: record.choices,
+      deferred,
+      timer: setTimeout(() => {
+        void this.settleHumanQuestion(record.id, { status: "expired", answer: null });
+      }, input.question.timeoutSeconds * 1000),
+    });
+
+    getWorkspaceUIBus().emit(input.workspaceId, {
+      event: "ui.agent.question.asked",
+      data: {
+        workspaceId: input.workspaceId,
+        agentId: input.agentId,
+        groupId: input.groupId,
+        questionId: record.id,
+        toolCallId: input.toolCallId,
+        kind: record.kind,
+        question: record.question,
+        choices: record.choices,
+        expiresAt: record.expiresAt,
+      },
+    });
+
+    return deferred.promise;
+  }
+
+  private async settleHumanQuestion(questionId: UUID, outcome: HumanQuestionOutcome) {
+    const pending = this.pendingQuestions.get(questionId);
+    if (!pending) return false;
+    this.pendingQuestions.delete(questionId);
+    clearTimeout(pending.timer);
+
+    await store
+      .settleHumanQuestion({
+        id: questionId,
+        workspaceId: pending.workspaceId,
+        status: outcome.status,
+        answer: outcome.answer,
+        answeredBy: outcome.answeredBy ?? null,
+      })
+      .catch(() => null);
+
+    getWorkspaceUIBus().emit(pending.workspaceId, {
+      event: "ui.agent.question.resolved",
+      data: {
+        workspaceId: pending.workspaceId,
+        agentId: pending.agentId,
+        questionId,
+        status: outcome.status,
+        answer: outcome.answer,
+        answeredBy: outcome.answeredBy ?? null,
+      },
+    });
+    pending.deferred.resolve(outcome);
+    return true;
+  }
+
+  private cancelHumanQuestions(agentId: UUID) {
+    for (const pending of [...this.pendingQuestions.values()]) {
+      if (pending.agentId !== agentId) continue;
+      void this.settleHumanQuestion(pending.id, { status: "cancelled", answer: null });
+    }
+  }
+
+  /** Delivers the human's answer to the waiting ask_human call; answers are checked against the question kind. */
+  async answerHumanQuestion(input: {
+    workspaceId: UUID;
+    questionId: UUID;
+    answer: unknown;
+    answeredBy?: UUID | null;
+  }): Promise<{ ok: true } | { ok: false; status: 400 | 404; error: string }> {
+    const pending = this.pendingQuestions.get(input.questionId);
+    if (!pending || pending.workspaceId !== input.workspaceId) {
+      return { ok: false, status: 404, error: "Question not found or already resolved" };
+    }
+    const normalized = normalizeHumanAnswer(pending, input.answer);
+    if (!normalized.ok) return { ok: false, status: 400, error: normalized.error };
+    await this.settleHumanQuestion(input.questionId, {
+      status: "answered",
+      answer: normalized.answer,
+      answeredBy: input.answeredBy ?? null,
+    });
+    return { ok: true };
+  }
+
   ensureRunner(agentId: UUID) {
     const existing = this.runners.get(agentId);
     if (existing) return existing;
@@ -2300,7 +4205,16 @@ export class AgentRuntime {
         this.ensureRunner(id).wakeup("manual");
       },
       (evt) => this.noteTaskTurn(evt),
-      (evt) => this.noteTaskMessage(evt)
+      (evt) => this.noteTaskMessage(evt),
+      (evt) => this.requestToolApproval(evt),
+      (id) => this.cancelToolApprovals(id),
+      (evt) => this.completeTask(evt),
+      (evt) => {
+        const task = this.findRunningTask(evt);
+        return task ? { taskId: task.id, rootGroupId: task.rootGroupId } : null;
+      },
+      (evt) => this.askHuman(evt),
+      (id) => this.cancelHumanQuestions(id)
     );
     this.runners.set(agentId, runner);
     runner.start();
@@ -2310,7 +4224,7 @@ export class AgentRuntime {
   async wakeAgentsForGroup(
     groupId: UUID,
     senderId: UUID,
-    message?: { content?: string; contentType?: string }
+    message?: { content?: string; contentType?: string; mentions?: UUID[]; replyToSenderId?: UUID | null }
   ) {
     await this.bootstrap();
     const groupKind = await store.getGroupKind({ groupId });
@@ -2326,9 +4240,20 @@ export class AgentRuntime {
       });
     }
     const memberIds = await store.listGroupMemberIds({ groupId });
+    const wakeMode = await store.getGroupWakeMode({ groupId });
 
     for (const memberId of memberIds) {
       if (memberId === senderId) continue;
+      if (
+        !shouldWakeMember({
+          wakeMode,
+          memberId,
+          mentions: message?.mentions,
+          replyToSenderId: message?.replyToSenderId,
+        })
+      ) {
+        continue;
+      }
       const agent = await store.getAgent({ agentId: memberId }).catch(() => null);
       if (!agent || agent.role === "human" || !agent.autoRunEnabled) continue;
       this.ensureRunner(memberId).wakeup("group_message");
@@ -0,0 +1,74 @@
+import { store, type AgentLinkRecord } from "@/lib/storage";
+
+type UUID = string;
+
+export type ReachCheck = { ok: true } | { ok: false; error: string };
+
+/** The human and assistant seats coordinate every blueprint and are never restricted themselves. */
+const OPEN_KINDS = new Set(["system_human", "system_assistant"]);
+
+function isLinked(links: AgentLinkRecord[], a: UUID, b: UUID) {
+  return links.some(
+    (l) => (l.fromAgentId === a && l.toAgentId === b) || (l.fromAgentId === b && l.toAgentId === a)
+  );
+}
+
+/**
+ * Agents created from a blueprint may only talk along its edges. Reachability is
+ * symmetric (a commanded or reviewing agent answers whoever handed it work), and
+ * it applies whenever either side of a pair is a linked, non-seat agent.
+ */
+export async function checkCommunication(input: { fromId: UUID; toIds: UUID[] }): Promise<ReachCheck> {
+  const ids = [...new Set([input.fromId, ...input.toIds])];
+  const links = await store.listAgentLinksTouching({ agentIds: ids });
+  if (links.length === 0) return { ok: true };
+
+  const linkedIds = new Set(links.flatMap((l) => [l.fromAgentId, l.toAgentId]));
+  const restricted = new Map<UUID, string>();
+  for (const id of ids) {
+    if (!linkedIds.has(id)) continue;
+    const agent = await store.getAgent({ agentId: id }).catch(() => null);
+    if (agent && !OPEN_KINDS.has(agent.kind)) restricted.set(id, agent.role);
+  }
+  if (restricted.size === 0) return { ok: true };
+
+  // Every pair in the conversation must be allowed, so a group cannot smuggle a
+  // restricted agent in front of someone it is not linked to.
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const a = ids[i]!;
+      const b = ids[j]!;
+      if (!restricted.has(a) && !restricted.has(b)) continue;
+      if (isLinked(links, a, b)) continue;
+      const subject = restricted.has(a) ? a : b;
+      const other = subject === a ? b : a;
+      const peers = new Set(
+        links
+          .filter((l) => l.fromAgentId === subject || l.toAgentId === subject)
+          .map((l) => (l.fromAgentId === subject ? l.toAgentId : l.fromAgentId))
+      );
+      return {
+        ok: false,
+        error:
+          `Blocked by the blueprint communication graph: ${restricted.get(subject)} (${subject}) is not linked to ${other}. ` +
+          `Allowed peers: ${[...peers].join(", ") || "none"}`,
+      };
+    }
+  }
+  return { ok: true };
+}
+
+/**
+ * A linked, non-seat agent may not create sub-agents: the new agent would have no
+ * links and so could relay messages to peers its creator cannot reach.
+ */
+export async function checkCanCreateAgents(agentId: UUID): Promise<ReachCheck> {
+  const links = await store.listAgentLinksTouching({ agentIds: [agentId] });
+  if (links.length === 0) return { ok: true };
+  const agent = await store.getAgent({ agentId }).catch(() => null);
+  if (!agent || OPEN_KINDS.has(agent.kind)) return { ok: true };
+  return {
+    ok: false,
+    error: `Blocked by the blueprint communication graph: ${agent.role} (${agentId}) is linked and cannot create sub-agents`,
+  };
+}
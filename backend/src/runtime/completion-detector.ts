@@ -0,0 +1,187 @@
+import { chatJsonByAgent } from "@/lib/llm-client";
+
+import { safeJsonParse } from "./utils";
+
+type UUID = string;
+
+/** Closing phrases that end a free-form task when no per-task list is given. */
+export const DEFAULT_COMPLETION_SENTINELS = [
+  "最终总结",
+  "最终结果",
+  "任务完成",
+  "final summary",
+  "辩论结束",
+  "本场辩论圆满结束",
+  "debate concluded",
+  "debate finished",
+];
+
+const DEFAULT_JUDGE_INTERVAL_MS = 60_000;
+const MIN_JUDGE_INTERVAL_MS = 15_000;
+const DEFAULT_JUDGE_MIN_CONFIDENCE = 0.7;
+const MAX_RESULT_CHARS = 20_000;
+
+export type TaskCompletionConfig = {
+  /** Case-insensitive phrases; a root-group message containing one ends the task. Empty disables. */
+  sentinels: string[];
+  /** Whether agents may end the task with the task_complete tool. */
+  tool: boolean;
+  judge: {
+    enabled: boolean;
+    /** Minimum time between periodic judge calls while the task runs. */
+    intervalMs: number;
+    /** A "complete" verdict below this confidence does not stop the task. */
+    minConfidence: number;
+  };
+};
+
+export type TaskCompletionSource = "sentinel" | "tool" | "judge" | "workflow";
+
+export type TaskCompletion = {
+  source: TaskCompletionSource;
+  agentId: UUID | null;
+  /** Matched phrase, task_complete summary, or judge reason. */
+  detail: string;
+  result: unknown;
+  at: string;
+};
+
+export type GoalJudgeVerdict = {
+  complete: boolean;
+  confidence: number;
+  reason: string;
+  missing: string[];
+  at: string;
+};
+
+export function defaultCompletionConfig(): TaskCompletionConfig {
+  return {
+    sentinels: [...DEFAULT_COMPLETION_SENTINELS],
+    tool: true,
+    judge: {
+      enabled: false,
+      intervalMs: DEFAULT_JUDGE_INTERVAL_MS,
+      minConfidence: DEFAULT_JUDGE_MIN_CONFIDENCE,
+    },
+  };
+}
+
+/**
+ * Validates a completion config from a request body or task_runs.completion_json.
+ * Missing fields fall back to the defaults, so `{}` and `undefined` both yield
+ * the default detector.
+ */
+export function parseCompletionConfig(
+  raw: unknown
+): { ok: true; config: TaskCompletionConfig } | { ok: false; error: string } {
+  const config = defaultCompletionConfig();
+  if (raw === undefined || raw === null) return { ok: true, config };
+  if (typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "completion must be an object" };
+  const input = raw as Record<string, unknown>;
+
+  if (input.sentinels !== undefined) {
+    if (!Array.isArray(input.sentinels) || input.sentinels.some((s) => typeof s !== "string")) {
+      return { ok: false, error: "sentinels must be an array of strings" };
+    }
+    config.sentinels = [...new Set((input.sentinels as string[]).map((s) => s.trim()).filter(Boolean))];
+  }
+  if (input.tool !== undefined) {
+    if (typeof input.tool !== "boolean") return { ok: false, error: "tool must be a boolean" };
+    config.tool = input.tool;
+  }
+  if (input.judge !== undefined) {
+    if (typeof input.judge === "boolean") {
+      config.judge.enabled = input.judge;
+    } else if (input.judge && typeof input.judge === "object" && !Array.isArray(input.judge)) {
+      const judge = input.judge as Record<string, unknown>;
+      if (judge.enabled !== undefined && typeof judge.enabled !== "boolean") {
+        return { ok: false, error: "judge.enabled must be a boolean" };
+      }
+      config.judge.enabled = judge.enabled === undefined ? true : judge.enabled;
+      if (judge.intervalMs !== undefined) {
+        const interval = Number(judge.intervalMs);
+        if (!Number.isFinite(interval)) return { ok: false, error: "judge.intervalMs must be a number" };
+        config.judge.intervalMs = Math.max(MIN_JUDGE_INTERVAL_MS, Math.floor(interval));
+      }
+      if (judge.minConfidence !== undefined) {
+        const confidence = Number(judge.minConfidence);
+        if (!Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+          return { ok: false, error: "judge.minConfidence must be between 0 and 1" };
+        }
+        config.judge.minConfidence = confidence;
+      }
+    } else {
+      return { ok: false, error: "judge must be a boolean or an object" };
+    }
+  }
+  return { ok: true, config };
+}
+
+export function restoreCompletionConfig(json: string) {
+  const parsed = parseCompletionConfig(json.trim() ? safeJsonParse<unknown>(json, null) : null);
+  return parsed.ok ? parsed.config : defaultCompletionConfig();
+}
+
+/** Returns the first configured sentinel contained in the message, if any. */
+export function matchSentinel(config: TaskCompletionConfig, content: string) {
+  const text = content.toLowerCase();
+  return config.sentinels.find((s) => text.includes(s.toLowerCase())) ?? null;
+}
+
+/** Normalizes the task_complete tool arguments into a stored result payload. */
+export function normalizeCompletionResult(args: { result?: unknown; summary?: unknown }) {
+  let result: unknown = args.result ?? null;
+  if (typeof result === "string" && /^\s*[[{]/.test(result)) {
+    result = safeJsonParse<unknown>(result, result);
+  }
+  if (typeof result === "string") {
+    result = result.length > MAX_RESULT_CHARS ? result.slice(0, MAX_RESULT_CHARS) : result;
+  } else if (result !== null) {
+    const text = JSON.stringify(result);
+    if (text.length > MAX_RESULT_CHARS) result = text.slice(0, MAX_RESULT_CHARS);
+  }
+  const summary = typeof args.summary === "string" ? args.summary.trim() : "";
+  return { result, summary };
+}
+
+/**
+ * Asks an LLM whether the root group's conversation already satisfies the task
+ * goal. Throws when the judge cannot be reached; callers treat that as "unknown".
+ */
+export async function judgeGoalCompletion(input: {
+  agentId: UUID;
+  taskRunId: UUID;
+  goal: string;
+  messages: Array<{ senderId: string; content: string }>;
+}): Promise<GoalJudgeVerdict> {
+  const logs = input.messages
+    .slice(-40)
+    .map((m) => `- ${m.senderId.slice(0, 8)}: ${String(m.content ?? "").replace(/\s+/g, " ").slice(0, 400)}`)
+    .join("\n");
+  const systemPrompt =
+    "You judge whether a multi-agent conversation has fully achieved its goal.\n" +
+    "Only answer complete=true when the deliverable the goal asks for is actually present.\n" +
+    'Return JSON only: {"complete": boolean, "confidence": number 0-1, "reason": string, "missing": [string]}';
+  const userPrompt = `Goal: ${input.goal}\n\nConversation (most recent last):\n${logs || "- (no messages)"}`;
+  const raw = await chatJsonByAgent({
+    agentId: input.agentId,
+    systemPrompt,
+    userPrompt,
+    decode: { temperature: 0.1, topP: 0.9, maxTokens: 400 },
+    usage: { taskRunId: input.taskRunId },
+  });
+  const parsed = safeJsonParse<{ complete?: unknown; confidence?: unknown; reason?: unknown; missing?: unknown }>(
+    raw,
+    {}
+  );
+  const confidence = Number(parsed.confidence);
+  return {
+    complete: parsed.complete === true,
+    confidence: Number.isFinite(confidence) ? Math.max(0, Math.min(1, confidence)) : 0,
+    reason: typeof parsed.reason === "string" ? parsed.reason.trim() : "",
+    missing: Array.isArray(parsed.missing)
+      ? parsed.missing.map((x) => String(x).trim()).filter(Boolean).slice(0, 8)
+      : [],
+    at: new Date().toISOString(),
+  };
+}
@@ -28,6 +28,25 @@ type AgentEvent =
         tool_call_name?: string;
       };
     }
+  | {
+      id: number;
+      at: number;
+      event: "agent.compaction.start";
+      data: { agentId: string; beforeTokens: number; foldedMessages: number };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "agent.compaction.done";
+      data: {
+        agentId: string;
+        beforeTokens: number;
+        afterTokens: number;
+        foldedMessages: number;
+        summarized: boolean;
+        error?: string | null;
+      };
+    }
   | {
       id: number;
       at: number;
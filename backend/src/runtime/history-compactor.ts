@@ -0,0 +1,226 @@
+import type { AnthropicThinkingBlock } from "@/lib/anthropic-stream";
+import { chatJsonByAgent } from "@/lib/llm-client";
+
+import { safeJsonParse } from "./utils";
+
+export type HistoryMessage =
+  | {
+      role: "system" | "user" | "assistant";
+      content: string;
+      tool_calls?: unknown;
+      reasoning_content?: string;
+      /** Anthropic thinking blocks with their signatures, replayed verbatim. */
+      reasoning_blocks?: AnthropicThinkingBlock[];
+      /** Legacy single signature from histories written before reasoning_blocks. */
+      reasoning_signature?: string;
+    }
+  | { role: "tool"; content: string; tool_call_id?: string; name?: string };
+
+export const SKILLS_MARKER = "[skills:loaded]";
+export const SUMMARY_MARKER = "[history:summary]";
+
+// Compaction starts once the history passes TRIGGER_RATIO of the token budget
+// and folds old turns until it is back under TARGET_RATIO.
+const TRIGGER_RATIO = 0.8;
+const TARGET_RATIO = 0.5;
+const KEEP_RECENT_TOOL_PAIRS = 2;
+const MIN_RECENT_MESSAGES = 4;
+const SUMMARY_MAX_TOKENS = 800;
+const CHUNK_TOKENS = 6000;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const MAX_FOLDED_CHARS_PER_MESSAGE = 4000;
+
+const CJK_RE = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+/**
+ * Cheap tokenizer estimate: CJK characters are roughly one token each, everything
+ * else averages about four characters per token for BPE vocabularies.
+ */
+export function estimateTextTokens(text: string) {
+  if (!text) return 0;
+  const cjk = text.match(CJK_RE)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+export function estimateMessageTokens(msg: HistoryMessage) {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(msg.content ?? "");
+  if (msg.role === "tool") {
+    tokens += estimateTextTokens(msg.name ?? "") + estimateTextTokens(msg.tool_call_id ?? "");
+    return tokens;
+  }
+  if (msg.tool_calls) tokens += estimateTextTokens(JSON.stringify(msg.tool_calls));
+  if (msg.reasoning_content) tokens += estimateTextTokens(msg.reasoning_content);
+  return tokens;
+}
+
+export function estimateHistoryTokens(history: HistoryMessage[]) {
+  return history.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+}
+
+function isSummaryMessage(msg: HistoryMessage) {
+  return msg.role === "system" && msg.content.startsWith(SUMMARY_MARKER);
+}
+
+function isPinnedSystemMessage(msg: HistoryMessage, index: number) {
+  if (msg.role !== "system" || isSummaryMessage(msg)) return false;
+  return index === 0 || msg.content.includes(SKILLS_MARKER);
+}
+
+function hasToolCalls(msg: HistoryMessage) {
+  return msg.role === "assistant" && Array.isArray(msg.tool_calls) && msg.tool_calls.length > 0;
+}
+
+/**
+ * Picks the first index of the tail that must survive verbatim: the most recent
+ * messages that fit the tail budget, widened to cover the last tool call/result
+ * pairs, and never starting on a tool result whose call would be folded away.
+ */
+function findTailStart(history: HistoryMessage[], tailBudget: number) {
+  let start = history.length;
+  let used = 0;
+  while (start > 0) {
+    const cost = estimateMessageTokens(history[start - 1]!);
+    if (history.length - start >= MIN_RECENT_MESSAGES && used + cost > tailBudget) break;
+    used += cost;
+    start--;
+  }
+
+  let pairs = 0;
+  for (let i = history.length - 1; i >= 0 && pairs < KEEP_RECENT_TOOL_PAIRS; i--) {
+    if (!hasToolCalls(history[i]!)) continue;
+    pairs++;
+    start = Math.min(start, i);
+  }
+
+  while (start > 0 && history[start]?.role === "tool") start--;
+  return start;
+}
+
+function renderForSummary(msg: HistoryMessage) {
+  const content = (msg.content ?? "").trim();
+  const clipped =
+    content.length > MAX_FOLDED_CHARS_PER_MESSAGE
+      ? `${content.slice(0, MAX_FOLDED_CHARS_PER_MESSAGE)}...`
+      : content;
+  if (msg.role === "tool") return `tool(${msg.name ?? "unknown"}): ${clipped}`;
+  if (hasToolCalls(msg)) {
+    const names = (msg.tool_calls as Array<{ function?: { name?: string; arguments?: string } }>)
+      .map((c) => `${c.function?.name ?? "tool"}(${(c.function?.arguments ?? "").slice(0, 300)})`)
+      .join(", ");
+    return `${msg.role}: ${clipped}${clipped ? " " : ""}[calls: ${names}]`;
+  }
+  return `${msg.role}: ${clipped}`;
+}
+
+function chunkTranscript(lines: string[]) {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+  for (const line of lines) {
+    const cost = estimateTextTokens(line);
+    if (current.length > 0 && currentTokens + cost > CHUNK_TOKENS) {
+      chunks.push(current.join("\n"));
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(line);
+    currentTokens += cost;
+  }
+  if (current.length > 0) chunks.push(current.join("\n"));
+  return chunks;
+}
+
+async function foldIntoSummary(input: { agentId: string; previous: string; transcript: string }) {
+  const systemPrompt =
+    "You maintain the long-term memory of an agent in a multi-agent IM system.\n" +
+    "Merge the previous summary and the new transcript into one updated summary.\n" +
+    "Keep: goals, decisions, commitments, open questions, ids of agents/groups, and results of tool calls that later turns may rely on.\n" +
+    "Drop: greetings, repetition, and raw tool output that is no longer needed.\n" +
+    'Return JSON only: {"summary": string}';
+  const userPrompt =
+    `Previous summary:\n${input.previous || "(none)"}\n\n` + `New transcript:\n${input.transcript}`;
+  const raw = await chatJsonByAgent({
+    agentId: input.agentId,
+    systemPrompt,
+    userPrompt,
+    decode: { temperature: 0.2, topP: 0.9, maxTokens: SUMMARY_MAX_TOKENS },
+  });
+  const parsed = safeJsonParse<{ summary?: unknown }>(raw, {});
+  const summary = typeof parsed.summary === "string" ? parsed.summary.trim() : raw.trim();
+  if (!summary) throw new Error("empty summary");
+  return summary;
+}
+
+export type CompactionResult = {
+  compacted: boolean;
+  beforeTokens: number;
+  afterTokens: number;
+  foldedMessages: number;
+  summarized: boolean;
+  error?: string;
+};
+
+/**
+ * Folds old turns of `history` into a single rolling summary system message, in place.
+ * The system prompt, skills block and the recent tail are kept verbatim. When the
+ * summary call fails the folded turns are replaced by a short omission note so the
+ * next request still fits the model context.
+ */
+export async function compactHistory(input: {
+  agentId: string;
+  history: HistoryMessage[];
+  tokenLimit: number;
+  force?: boolean;
+  onStart?: (info: { beforeTokens: number; foldedMessages: number }) => void;
+}): Promise<CompactionResult> {
+  const { history } = input;
+  const beforeTokens = estimateHistoryTokens(history);
+  const idle = { compacted: false, beforeTokens, afterTokens: beforeTokens, foldedMessages: 0, summarized: false };
+  if (!input.force && beforeTokens <= input.tokenLimit * TRIGGER_RATIO) return idle;
+
+  const pinned: HistoryMessage[] = [];
+  let previousSummary = "";
+  const body: HistoryMessage[] = [];
+  history.forEach((msg, index) => {
+    if (isPinnedSystemMessage(msg, index)) pinned.push(msg);
+    else if (isSummaryMessage(msg) && body.length === 0) {
+      previousSummary = msg.content.slice(SUMMARY_MARKER.length).trim();
+    } else body.push(msg);
+  });
+
+  const pinnedTokens = estimateHistoryTokens(pinned);
+  const tailBudget = Math.max(0, input.tokenLimit * TARGET_RATIO - pinnedTokens - SUMMARY_MAX_TOKENS);
+  const tailStart = findTailStart(body, tailBudget);
+  const folded = body.slice(0, tailStart);
+  if (folded.length === 0) return idle;
+
+  input.onStart?.({ beforeTokens, foldedMessages: folded.length });
+
+  let summary = previousSummary;
+  let error: string | undefined;
+  try {
+    for (const chunk of chunkTranscript(folded.map(renderForSummary))) {
+      summary = await foldIntoSummary({ agentId: input.agentId, previous: summary, transcript: chunk });
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+    const note = `(${folded.length} earlier messages were omitted because summarization failed)`;
+    summary = previousSummary ? `${previousSummary}\n${note}` : note;
+  }
+
+  const next: HistoryMessage[] = [
+    ...pinned,
+    { role: "system", content: `${SUMMARY_MARKER}\nSummary of earlier conversation:\n${summary}` },
+    ...body.slice(tailStart),
+  ];
+  history.splice(0, history.length, ...next);
+
+  return {
+    compacted: true,
+    beforeTokens,
+    afterTokens: estimateHistoryTokens(history),
+    foldedMessages: folded.length,
+    summarized: !error,
+    ...(error ? { error } : {}),
+  };
+}
@@ -1,13 +1,19 @@
-import { exec } from "node:child_process";
+import { exec, execFile } from "node:child_process";
+import fs from "node:fs/promises";
 import path from "node:path";
 import { promisify } from "node:util";
 
+import type { ShellBackend, WorkspaceShellSettings } from "@/lib/storage";
+
 type ExecuteShellInput = {
   command: string;
   cwd?: string;
   timeoutMs?: number;
   maxOutputKB?: number;
   workspaceRoot?: string;
+  workspaceId?: string;
+  backend?: ShellBackend;
+  sandbox?: Partial<Omit<WorkspaceShellSettings, "backend">>;
 };
 
 type ExecuteShellSuccess = {
@@ -32,6 +38,11 @@ type ExecuteShellFailure = {
 
 type ExecuteShellResult = ExecuteShellSuccess | ExecuteShellFailure;
 
+export type ShellExecutor = {
+  backend: ShellBackend;
+  execute(input: ExecuteShellInput): Promise<ExecuteShellResult>;
+};
+
 function getShellMode() {
   const mode = (process.env.AGENT_SHELL_MODE ?? "auto").toLowerCase();
   if (mode === "powershell" || mode === "pwsh") return "powershell";
@@ -71,42 +82,159 @@ function getShellAndCommand(command: string): { shell: string; commandText: stri
 function resolveCwd(workspaceRoot: string, requestedCwd: string | undefined) {
   const trimmed = (requestedCwd ?? "").trim();
   if (!trimmed) return path.resolve(workspaceRoot);
-  const resolved = path.isAbsolute(trimmed) ? trimmed : path.resolve(workspaceRoot, trimmed);
+  const resolved = path.isAbsolute(trimmed) ? path.resolve(trimmed) : path.resolve(workspaceRoot, trimmed);
   const rootResolved = path.resolve(workspaceRoot);
-  if (!resolved.startsWith(rootResolved)) {
+  const relative = path.relative(rootResolved, resolved);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
     throw new Error(`cwd must be within workspace root: ${rootResolved}`);
   }
   return resolved;
 }
 
-export async function executeShellCommand(input: ExecuteShellInput): Promise<ExecuteShellResult> {
-  const execAsync = promisify(exec);
-  const workspaceRoot = input.workspaceRoot ?? process.env.AGENT_WORKDIR ?? process.cwd();
-  const finalCwd = resolveCwd(workspaceRoot, input.cwd);
+function getExecLimits(input: ExecuteShellInput) {
   const timeoutMs = Number(input.timeoutMs) > 0 ? Number(input.timeoutMs) : 120000;
   const maxOutputKB = Number(input.maxOutputKB) > 0 ? Number(input.maxOutputKB) : 1024;
   const maxBuffer = Math.max(64 * 1024, Math.floor(maxOutputKB * 1024));
-  const shellSpec = getShellAndCommand(input.command);
+  return { timeoutMs, maxBuffer };
+}
+
+function toFailure(err: any, cwd: string, shellMode: string): ExecuteShellFailure {
+  return {
+    ok: false,
+    stdout: err?.stdout ?? "",
+    stderr: err?.stderr ?? "",
+    exitCode: typeof err?.code === "number" ? err.code : null,
+    signal: typeof err?.signal === "string" ? err.signal : null,
+    cwd,
+    shellMode,
+    error: String(err?.message ?? err),
+  };
+}
+
+const hostExecutor: ShellExecutor = {
+  backend: "host",
+  async execute(input) {
+    const execAsync = promisify(exec);
+    const workspaceRoot = input.workspaceRoot ?? process.env.AGENT_WORKDIR ?? process.cwd();
+    const finalCwd = resolveCwd(workspaceRoot, input.cwd);
+    const { timeoutMs, maxBuffer } = getExecLimits(input);
+    const shellSpec = getShellAndCommand(input.command);
+
+    try {
+      const { stdout, stderr } = await execAsync(shellSpec.commandText, {
+        cwd: finalCwd,
+        timeout: timeoutMs,
+        maxBuffer,
+        shell: shellSpec.shell,
+        windowsHide: true,
+      });
+      return { ok: true, stdout, stderr, exitCode: 0, cwd: finalCwd, shellMode: shellSpec.shellMode };
+    } catch (err: any) {
+      return toFailure(err, finalCwd, shellSpec.shellMode);
+    }
+  },
+};
+
+function getSandboxBaseDir() {
+  return path.resolve(process.env.AGENT_SANDBOX_DIR ?? path.join(process.cwd(), ".agent_sandboxes"));
+}
+
+async function ensureSandboxRoot(workspaceId: string | undefined) {
+  const key = (workspaceId ?? "").trim() || "shared";
+  if (!/^[A-Za-z0-9_-]+$/.test(key)) throw new Error("invalid workspace id for sandbox");
+  const root = path.join(getSandboxBaseDir(), key);
+  await fs.mkdir(root, { recursive: true });
+  return root;
+}
+
+// Resource limits are applied inside the jail before the user command runs, so a
+// runaway command cannot raise them again. Positional args avoid any re-quoting.
+const SANDBOX_ENTRYPOINT =
+  'ulimit -t "$1" && ulimit -v "$2" && ulimit -u "$3" && exec /bin/bash -lc "$4"';
 
-  try {
-    const { stdout, stderr } = await execAsync(shellSpec.commandText, {
+function buildBwrapArgs(input: {
+  root: string;
+  cwd: string;
+  command: string;
+  networkEnabled: boolean;
+  cpuSeconds: number;
+  memoryMb: number;
+  maxProcesses: number;
+}) {
+  const args = [
+    "--ro-bind", "/", "/",
+    "--dev", "/dev",
+    "--proc", "/proc",
+    "--tmpfs", "/tmp",
+    "--bind", input.root, input.root,
+    "--unshare-all",
+  ];
+  if (input.networkEnabled) args.push("--share-net");
+  args.push(
+    "--die-with-parent",
+    "--new-session",
+    "--setenv", "HOME", input.root,
+    "--chdir", input.cwd,
+    "/bin/bash", "-c", SANDBOX_ENTRYPOINT, "swarm-sandbox",
+    String(input.cpuSeconds),
+    String(input.memoryMb * 1024),
+    String(input.maxProcesses),
+    input.command
+  );
+  return args;
+}
+
+const bwrapExecutor: ShellExecutor = {
+  backend: "bwrap",
+  async execute(input) {
+    const shellMode = "bwrap";
+    if (process.platform !== "linux") {
+      return toFailure(new Error("bwrap sandbox is only available on Linux"), "", shellMode);
+    }
+
+    let root: string;
+    let finalCwd: string;
+    try {
+      root = await ensureSandboxRoot(input.workspaceId);
+      finalCwd = resolveCwd(root, input.cwd);
+    } catch (err) {
+      return toFailure(err, "", shellMode);
+    }
+
+    const execFileAsync = promisify(execFile);
+    const { timeoutMs, maxBuffer } = getExecLimits(input);
+    const args = buildBwrapArgs({
+      root,
       cwd: finalCwd,
-      timeout: timeoutMs,
-      maxBuffer,
-      shell: shellSpec.shell,
-      windowsHide: true,
+      command: input.command,
+      networkEnabled: input.sandbox?.networkEnabled === true,
+      cpuSeconds: Number(input.sandbox?.cpuSeconds) > 0 ? Number(input.sandbox?.cpuSeconds) : 60,
+      memoryMb: Number(input.sandbox?.memoryMb) > 0 ? Number(input.sandbox?.memoryMb) : 1024,
+      maxProcesses: Number(input.sandbox?.maxProcesses) > 0 ? Number(input.sandbox?.maxProcesses) : 64,
     });
-    return { ok: true, stdout, stderr, exitCode: 0, cwd: finalCwd, shellMode: shellSpec.shellMode };
-  } catch (err: any) {
-    return {
-      ok: false,
-      stdout: err?.stdout ?? "",
-      stderr: err?.stderr ?? "",
-      exitCode: typeof err?.code === "number" ? err.code : null,
-      signal: typeof err?.signal === "string" ? err.signal : null,
-      cwd: finalCwd,
-      shellMode: shellSpec.shellMode,
-      error: String(err?.message ?? err),
-    };
-  }
+
+    try {
+      const { stdout, stderr } = await execFileAsync(process.env.AGENT_BWRAP_PATH ?? "bwrap", args, {
+        timeout: timeoutMs,
+        maxBuffer,
+        killSignal: "SIGKILL",
+      });
+      return { ok: true, stdout, stderr, exitCode: 0, cwd: finalCwd, shellMode };
+    } catch (err: any) {
+      return toFailure(err, finalCwd, shellMode);
+    }
+  },
+};
+
+const SHELL_EXECUTORS: Record<ShellBackend, ShellExecutor> = {
+  host: hostExecutor,
+  bwrap: bwrapExecutor,
+};
+
+export function getShellExecutor(backend: ShellBackend | undefined): ShellExecutor {
+  return SHELL_EXECUTORS[backend ?? "host"] ?? hostExecutor;
+}
+
+export async function executeShellCommand(input: ExecuteShellInput): Promise<ExecuteShellResult> {
+  return getShellExecutor(input.backend).execute(input);
 }
@@ -0,0 +1,32 @@
+import type { ToolPolicyMode, ToolPolicyRecord } from "@/lib/storage";
+
+export const TOOL_POLICY_MODES: ToolPolicyMode[] = ["allow", "deny", "require_approval"];
+
+export function parseToolPolicyMode(raw: unknown): ToolPolicyMode | null {
+  const value = typeof raw === "string" ? raw.trim().toLowerCase() : "";
+  return (TOOL_POLICY_MODES as string[]).includes(value) ? (value as ToolPolicyMode) : null;
+}
+
+/**
+ * Most specific rule wins: role+tool, then role+"*", then "*"+tool, then "*"+"*".
+ * Tools without any matching rule are allowed.
+ */
+export function resolveToolPolicyMode(
+  policies: Pick<ToolPolicyRecord, "agentRole" | "toolName" | "mode">[],
+  agentRole: string | null | undefined,
+  toolName: string
+): ToolPolicyMode {
+  const role = (agentRole ?? "").trim();
+  const candidates: Array<[string, string]> = [
+    [role, toolName],
+    [role, "*"],
+    ["*", toolName],
+    ["*", "*"],
+  ];
+  for (const [r, t] of candidates) {
+    if (!r) continue;
+    const hit = policies.find((p) => p.agentRole === r && p.toolName === t);
+    if (hit) return hit.mode;
+  }
+  return "allow";
+}
@@ -25,9 +25,49 @@ export type UIEvent =
           sendTime: string;
           content?: string;
           contentType?: string;
+          replyToId?: string | null;
+          mentions?: string[];
+          attachments?: Array<{ id: string; workspaceId: string; name: string; mimeType: string; sizeBytes: number; previewKind: string }>;
         };
       };
     }
+  | {
+      id: number;
+      at: number;
+      event: "ui.message.reactions";
+      data: {
+        workspaceId: string;
+        groupId: string;
+        messageId: string;
+        reactions: Array<{ reaction: string; agentIds: string[] }>;
+      };
+    }
+  | {
+      id: number;
+      at: number;
+      /** An edit by the sender or an admin redaction; `content` is the new text. */
+      event: "ui.message.updated";
+      data: {
+        workspaceId: string;
+        groupId: string;
+        messageId: string;
+        content: string;
+        editedAt: string | null;
+        redactedAt: string | null;
+      };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "ui.message.deleted";
+      data: { workspaceId: string; groupId: string; messageId: string; deletedAt: string };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "ui.group.wake_mode";
+      data: { workspaceId: string; groupId: string; wakeMode: "all" | "mentions" };
+    }
   | {
       id: number;
       at: number;
@@ -55,6 +95,31 @@ export type UIEvent =
         model?: string;
       };
     }
+  | {
+      id: number;
+      at: number;
+      event: "ui.agent.llm.failover";
+      data: {
+        workspaceId: string;
+        agentId: string;
+        kind: "retry" | "failover";
+        attempt: number;
+        fromProfileId: string | null;
+        fromProvider: string;
+        fromModel: string;
+        toProfileId: string | null;
+        toProvider: string;
+        toModel: string;
+        error: string;
+        delayMs: number;
+      };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "ui.agent.error";
+      data: { workspaceId: string; agentId: string; message: string };
+    }
   | {
       id: number;
       at: number;
@@ -80,6 +145,63 @@ export type UIEvent =
         ok: boolean;
       };
     }
+  | {
+      id: number;
+      at: number;
+      event: "ui.agent.tool_call.approval_requested";
+      data: {
+        workspaceId: string;
+        agentId: string;
+        groupId: string;
+        approvalId: string;
+        toolCallId?: string;
+        toolName: string;
+        arguments: string;
+        expiresAt: number;
+      };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "ui.agent.tool_call.approval_resolved";
+      data: {
+        workspaceId: string;
+        agentId: string;
+        approvalId: string;
+        toolName: string;
+        status: "approved" | "denied" | "expired" | "cancelled";
+        decidedBy?: string | null;
+      };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "ui.agent.question.asked";
+      data: {
+        workspaceId: string;
+        agentId: string;
+        groupId: string;
+        questionId: string;
+        toolCallId?: string;
+        kind: "text" | "choice" | "yes_no";
+        question: string;
+        choices: string[] | null;
+        expiresAt: string;
+      };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "ui.agent.question.resolved";
+      data: {
+        workspaceId: string;
+        agentId: string;
+        questionId: string;
+        status: "answered" | "expired" | "cancelled";
+        answer: string | null;
+        answeredBy?: string | null;
+      };
+    }
   | {
       id: number;
       at: number;
@@ -130,6 +252,8 @@ export type UIEvent =
         repeatedRatio: number;
         idleMs: number;
         remainingMs: number;
+        usageTokens?: number;
+        usageCostUsd?: number;
       };
     }
   | {
@@ -147,7 +271,9 @@ export type UIEvent =
           | "goal_reached"
           | "max_turns"
           | "manual_replaced"
-          | "token_delta_exceeded";
+          | "token_delta_exceeded"
+          | "budget_exceeded"
+          | "workflow_failed";
       };
     }
   | {
@@ -165,10 +291,59 @@ export type UIEvent =
           | "goal_reached"
           | "max_turns"
           | "manual_replaced"
-          | "token_delta_exceeded";
+          | "token_delta_exceeded"
+          | "budget_exceeded"
+          | "workflow_failed";
         stoppedAt: string;
       };
     }
+  | {
+      id: number;
+      at: number;
+      event: "ui.task.paused";
+      data: { workspaceId: string; taskId: string; pausedAt: string };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "ui.task.resumed";
+      data: { workspaceId: string; taskId: string; deadlineAt: string };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "ui.task.forked";
+      data: { workspaceId: string; taskId: string; forkWorkspaceId: string; forkTaskId: string };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "ui.task.schedule.fired";
+      data: {
+        workspaceId: string;
+        scheduleId: string;
+        runId: string;
+        status: "started" | "skipped" | "failed";
+        taskId: string | null;
+        error: string | null;
+      };
+    }
+  | {
+      id: number;
+      at: number;
+      event: "ui.task.step.updated";
+      data: {
+        workspaceId: string;
+        taskId: string;
+        stepId: string;
+        title: string;
+        role: string;
+        status: "pending" | "running" | "checking" | "passed" | "failed";
+        assigneeAgentId: string | null;
+        attempts: number;
+        note: string | null;
+      };
+    }
   | {
       id: number;
       at: number;
@@ -201,6 +376,12 @@ export type UIEvent =
       event: "ui.agent.deleted";
       data: { workspaceId: string; agentId: string };
     }
+  | {
+      id: number;
+      at: number;
+      event: "ui.werewolf.game_over" | "ui.undercover.game_over";
+      data: { workspaceId: string; gameId: string; groupId: string; winner: string | null };
+    }
   | {
       id: number;
       at: number;
@@ -251,6 +432,7 @@ export class WorkspaceUIBus {
 
     // Best-effort persistence for cross-process/history replay (optional).
     void persistUIEvent(workspaceId, evt);
+    void dispatchWebhooks(workspaceId, evt);
 
     for (const listener of channel.listeners) {
       listener(evt);
@@ -293,3 +475,14 @@ async function persistUIEvent(workspaceId: string, evt: UIEvent) {
     // ignore
   }
 }
+
+async function dispatchWebhooks(workspaceId: string, evt: UIEvent) {
+  // The hottest event is never deliverable; skip the import and lookup for it.
+  if (evt.event === "ui.db.write") return;
+  try {
+    const { getWebhookDispatcher } = await import("./webhooks");
+    await getWebhookDispatcher().handleEvent(workspaceId, evt);
+  } catch {
+    // best-effort only
+  }
+}
@@ -0,0 +1,303 @@
+import crypto from "node:crypto";
+import dns from "node:dns/promises";
+import net from "node:net";
+
+import { store, type WebhookDeliveryRecord, type WebhookSubscriptionRecord } from "@/lib/storage";
+
+import type { UIEvent } from "./ui-bus";
+
+type UUID = string;
+
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+/** Backoff before retry n is RETRY_BASE_MS * 4^(n-1): 10s, 40s, 160s, ~11m, ~43m. */
+const RETRY_BASE_MS = 10_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const SWEEP_INTERVAL_MS = 15_000;
+const SUBSCRIPTION_CACHE_MS = 30_000;
+/** How long a sweep holds a due delivery before another process may pick it up. */
+const DELIVERY_LEASE_MS = 60_000;
+const MAX_EVENT_TYPES = 32;
+const MAX_ERROR_CHARS = 500;
+
+const EVENT_TYPE_RE = /^ui(\.[a-z0-9_]+)*(\.\*)?$/;
+
+/** Internal plumbing events that are never delivered, even through a wildcard. */
+const UNDELIVERABLE_EVENTS = new Set(["ui.db.write"]);
+
+export function parseWebhookEventTypes(raw: unknown): { ok: true; eventTypes: string[] } | { ok: false; error: string } {
+  if (!Array.isArray(raw) || raw.length === 0) return { ok: false, error: "eventTypes must be a non-empty array" };
+  if (raw.length > MAX_EVENT_TYPES) return { ok: false, error: `at most ${MAX_EVENT_TYPES} eventTypes` };
+  const eventTypes: string[] = [];
+  for (const item of raw) {
+    const type = typeof item === "string" ? item.trim() : "";
+    if (!EVENT_TYPE_RE.test(type)) return { ok: false, error: `invalid event type "${String(item)}"` };
+    if (UNDELIVERABLE_EVENTS.has(type)) return { ok: false, error: `${type} cannot be subscribed to` };
+    if (!eventTypes.includes(type)) eventTypes.push(type);
+  }
+  return { ok: true, eventTypes };
+}
+
+export function parseWebhookUrl(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  try {
+    const url = new URL(raw.trim());
+    return url.protocol === "https:" || url.protocol === "http:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function isPrivateAddress(ip: string): boolean {
+  if (net.isIPv4(ip)) {
+    const [a, b] = ip.split(".").map(Number) as [number, number];
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168)
+    );
+  }
+  const v6 = ip.toLowerCase();
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]!);
+  return v6 === "::" || v6 === "::1" || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith("ff");
+}
+
+/**
+ * Refuses targets that resolve to loopback, link-local or private addresses, so a
+ * subscription cannot be used to probe internal hosts. Checked when a URL is saved
+ * and again before every attempt (DNS may change). WEBHOOK_ALLOW_PRIVATE_TARGETS=1
+ * lifts the check for local development.
+ */
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === "1") return null;
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host) ? [host] : (await dns.lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    return `cannot resolve ${host}`;
+  }
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    return `${host} resolves to a loopback, link-local or private address`;
+  }
+  return null;
+}
+
+/** Exact types match themselves; "ui.task.*" matches every event under ui.task. */
+export function matchesWebhookEvent(eventTypes: string[], eventType: string) {
+  if (UNDELIVERABLE_EVENTS.has(eventType)) return false;
+  return eventTypes.some((pattern) =>
+    pattern.endsWith(".*") ? eventType.startsWith(pattern.slice(0, -1)) : pattern === eventType
+  );
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, sent as `X-AgentWechat-Signature: sha256=<hex>`.
+ * Receivers should recompute it and reject stale timestamps to block replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function retryDelayMs(attempts: number) {
+  return RETRY_BASE_MS * 4 ** Math.max(0, attempts - 1);
+}
+
+export class WebhookDispatcher {
+  private readonly subscriptions = new Map<UUID, { loadedAt: number; list: WebhookSubscriptionRecord[] }>();
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private sweeping = false;
+
+  /** Starts the persistent retry sweep; pending deliveries survive restarts. */
+  start() {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => {
+      void this.sweep();
+    }, SWEEP_INTERVAL_MS);
+    void this.sweep();
+  }
+
+  invalidate(workspaceId: UUID) {
+    this.subscriptions.delete(workspaceId);
+  }
+
+  private async getSubscriptions(workspaceId: UUID) {
+    const cached = this.subscriptions.get(workspaceId);
+    if (cached && Date.now() - cached.loadedAt < SUBSCRIPTION_CACHE_MS) return cached.list;
+    const list = await store.listWebhookSubscriptions({ workspaceId, enabledOnly: true }).catch(() => []);
+    this.subscriptions.set(workspaceId, { loadedAt: Date.now(), list });
+    return list;
+  }
+
+  async handleEvent(workspaceId: UUID, evt: UIEvent) {
+    if (UNDELIVERABLE_EVENTS.has(evt.event)) return;
+    const subs = (await this.getSubscriptions(workspaceId)).filter((s) => matchesWebhookEvent(s.eventTypes, evt.event));
+    if (subs.length === 0) return;
+    this.start();
+    const payloadJson = JSON.stringify({
+      type: evt.event,
+      workspaceId,
+      eventId: evt.id,
+      at: new Date(evt.at).toISOString(),
+      data: evt.data,
+    });
+    for (const sub of subs) {
+      // Created already leased, so the sweep leaves it alone while this inline attempt runs.
+      const delivery = await store
+        .createWebhookDelivery({
+          subscriptionId: sub.id,
+          workspaceId,
+          eventType: evt.event,
+          payloadJson,
+          leaseUntil: new Date(Date.now() + DELIVERY_LEASE_MS),
+        })
+        .catch(() => null);
+      if (delivery) void this.attempt(delivery, { subscription: sub });
+    }
+  }
+
+  /** Sends a synthetic event once, without retries; the outcome is kept in the delivery log. */
+  async testFire(subscription: WebhookSubscriptionRecord) {
+    const payloadJson = JSON.stringify({
+      type: WEBHOOK_TEST_EVENT,
+      workspaceId: subscription.workspaceId,
+      eventId: null,
+      at: new Date().toISOString(),
+      data: { subscriptionId: subscription.id, message: "Test delivery" },
+    });
+    const delivery = await store.createWebhookDelivery({
+      subscriptionId: subscription.id,
+      workspaceId: subscription.workspaceId,
+      eventType: WEBHOOK_TEST_EVENT,
+      payloadJson,
+      leaseUntil: new Date(Date.now() + DELIVERY_LEASE_MS),
+    });
+    return await this.attempt(delivery, { subscription, maxAttempts: 1, ignoreDisabled: true });
+  }
+
+  /** Re-sends a dead-lettered delivery now, with a fresh retry budget if it fails again. */
+  async redeliver(input: { workspaceId: UUID; deliveryId: UUID }) {
+    const delivery = await store.requeueWebhookDelivery({
+      id: input.deliveryId,
+      workspaceId: input.workspaceId,
+      nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS),
+    });
+    if (!delivery) return null;
+    return await this.attempt(delivery, {});
+  }
+
+  private async attempt(
+    delivery: WebhookDeliveryRecord,
+    opts: { subscription?: WebhookSubscriptionRecord; maxAttempts?: number; ignoreDisabled?: boolean }
+  ): Promise<WebhookDeliveryRecord> {
+    const subscription =
+      opts.subscription ?? (await store.getWebhookSubscription({ id: delivery.subscriptionId }).catch(() => null));
+    const attempts = delivery.attempts + 1;
+    if (!subscription || (!subscription.enabled && !opts.ignoreDisabled)) {
+      const dead = await store
+        .recordWebhookAttempt({
+          id: delivery.id,
+          status: "dead",
+          attempts: delivery.attempts,
+          nextAttemptAt: null,
+          lastStatusCode: null,
+          lastError: subscription ? "subscription disabled" : "subscription deleted",
+        })
+        .catch(() => null);
+      return dead ?? delivery;
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS);
+    try {
+      const targetError = await checkWebhookTarget(subscription.url);
+      if (targetError) throw new Error(targetError);
+      const res = await fetch(subscription.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "agent-wechat-webhooks/1",
+          "X-AgentWechat-Event": delivery.eventType,
+          "X-AgentWechat-Delivery": delivery.id,
+          "X-AgentWechat-Timestamp": String(timestamp),
+          "X-AgentWechat-Signature": `sha256=${signWebhookPayload(subscription.secret, timestamp, delivery.payloadJson)}`,
+        },
+        body: delivery.payloadJson,
+        // A redirect could point at an internal host; it counts as a failed delivery instead.
+        redirect: "manual",
+        signal: controller.signal,
+      });
+      statusCode = res.status;
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        error = `HTTP ${res.status}${text ? `: ${text.slice(0, MAX_ERROR_CHARS)}` : ""}`;
+      }
+    } catch (err) {
+      error = controller.signal.aborted
+        ? `timed out after ${DELIVERY_TIMEOUT_MS}ms`
+        : String((err as Error)?.message ?? err).slice(0, MAX_ERROR_CHARS);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const maxAttempts = opts.maxAttempts ?? WEBHOOK_MAX_ATTEMPTS;
+    const status = error === null ? "delivered" : attempts >= maxAttempts ? "dead" : "pending";
+    const updated = await store
+      .recordWebhookAttempt({
+        id: delivery.id,
+        status,
+        attempts,
+        nextAttemptAt: status === "pending" ? new Date(Date.now() + retryDelayMs(attempts)) : null,
+        lastStatusCode: statusCode,
+        lastError: error,
+      })
+      .catch(() => null);
+    return updated ?? delivery;
+  }
+
+  private async sweep() {
+    if (this.sweeping) return;
+    this.sweeping = true;
+    try {
+      const due = await store.listDueWebhookDeliveries({ dueBy: new Date() }).catch(() => []);
+      for (const delivery of due) {
+        if (!delivery.nextAttemptAt) continue;
+        const leased = await store
+          .leaseWebhookDelivery({
+            id: delivery.id,
+            expectedNextAttemptAt: new Date(delivery.nextAttemptAt),
+            leaseUntil: new Date(Date.now() + DELIVERY_LEASE_MS),
+          })
+          .catch(() => false);
+        if (leased) await this.attempt(delivery, {});
+      }
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __agentWechatWebhooks: WebhookDispatcher | undefined;
+}
+
+export function getWebhookDispatcher() {
+  if (globalThis.__agentWechatWebhooks) return globalThis.__agentWechatWebhooks;
+  globalThis.__agentWechatWebhooks = new WebhookDispatcher();
+  return globalThis.__agentWechatWebhooks;
+}
@@ -0,0 +1,186 @@
+import { chatJsonByAgent } from "@/lib/llm-client";
+import type { TaskRunStepRecord } from "@/lib/storage";
+import {
+  DEFAULT_STEP_MAX_ATTEMPTS,
+  describeCheck,
+  parseWorkflowDefinition,
+  type WorkflowCheck,
+  type WorkflowDefinition,
+  type WorkflowStep,
+  type WorkflowStepStatus,
+} from "@/lib/workflows";
+
+import { safeJsonParse } from "./utils";
+
+type UUID = string;
+
+export const WORKFLOW_MARKER = "[workflow:";
+
+const MAX_INPUT_CHARS = 4000;
+const MAX_STORED_OUTPUT_CHARS = 20_000;
+
+export type WorkflowStepState = {
+  status: WorkflowStepStatus;
+  assigneeAgentId: UUID | null;
+  attempts: number;
+  outputText: string;
+  checkNote: string | null;
+};
+
+export type TaskWorkflow = {
+  definition: WorkflowDefinition;
+  topic: string;
+  steps: Map<string, WorkflowStepState>;
+};
+
+export function createTaskWorkflow(definition: WorkflowDefinition, topic: string): TaskWorkflow {
+  return {
+    definition,
+    topic: topic.trim(),
+    steps: new Map(
+      definition.steps.map((step) => [
+        step.id,
+        { status: "pending", assigneeAgentId: null, attempts: 0, outputText: "", checkNote: null },
+      ])
+    ),
+  };
+}
+
+export function serializeTaskWorkflow(workflow: TaskWorkflow) {
+  return JSON.stringify({ definition: workflow.definition, topic: workflow.topic });
+}
+
+/** Rebuilds a workflow from task_runs.workflow_json and its persisted step rows. */
+export function restoreTaskWorkflow(workflowJson: string, rows: TaskRunStepRecord[]): TaskWorkflow | null {
+  if (!workflowJson.trim()) return null;
+  const stored = safeJsonParse<{ definition?: unknown; topic?: unknown }>(workflowJson, {});
+  const parsed = parseWorkflowDefinition(stored.definition);
+  if (!parsed.ok) return null;
+  const workflow = createTaskWorkflow(parsed.workflow, typeof stored.topic === "string" ? stored.topic : "");
+  for (const row of rows) {
+    if (!workflow.steps.has(row.stepId)) continue;
+    workflow.steps.set(row.stepId, {
+      // A check interrupted by a restart is simply re-run on the next reply.
+      status: row.status === "checking" ? "running" : row.status,
+      assigneeAgentId: row.assigneeAgentId,
+      attempts: row.attempts,
+      outputText: row.outputText,
+      checkNote: row.checkNote,
+    });
+  }
+  return workflow;
+}
+
+export function stepStatusOf(workflow: TaskWorkflow) {
+  return (stepId: string): WorkflowStepStatus => workflow.steps.get(stepId)?.status ?? "pending";
+}
+
+export function getStepMaxAttempts(step: WorkflowStep) {
+  return step.maxAttempts ?? DEFAULT_STEP_MAX_ATTEMPTS;
+}
+
+export function clipStepOutput(text: string) {
+  return text.length > MAX_STORED_OUTPUT_CHARS ? text.slice(0, MAX_STORED_OUTPUT_CHARS) : text;
+}
+
+function fillTopic(text: string, topic: string) {
+  return text.replaceAll("{{topic}}", topic || "the topic given by the user");
+}
+
+/** The coordinator message that hands a step to its assignee. */
+export function renderStepDispatch(workflow: TaskWorkflow, step: WorkflowStep) {
+  const inputs = (step.dependsOn ?? [])
+    .map((depId) => {
+      const dep = workflow.definition.steps.find((s) => s.id === depId);
+      const output = workflow.steps.get(depId)?.outputText ?? "";
+      const clipped = output.length > MAX_INPUT_CHARS ? `${output.slice(0, MAX_INPUT_CHARS)}...` : output;
+      return `### ${dep?.title ?? depId} (${dep?.role ?? "?"})\n${clipped}`;
+    })
+    .join("\n\n");
+  const checks = (step.acceptance ?? []).map((c) => `- ${describeCheck(c)}`).join("\n");
+
+  return (
+    `${WORKFLOW_MARKER}${step.id}] ${step.title}\n` +
+    `@${step.role}: ${fillTopic(step.instruction, workflow.topic)}\n` +
+    (inputs ? `\nInputs from earlier steps:\n${inputs}\n` : "") +
+    (checks ? `\nAcceptance criteria:\n${checks}\n` : "") +
+    `\nReply in this group with your complete result for this step. Other members: wait for your own step.`
+  );
+}
+
+export function renderStepRetry(step: WorkflowStep, attempt: number, note: string) {
+  return (
+    `${WORKFLOW_MARKER}${step.id}] ${step.title} was not accepted (attempt ${attempt}/${getStepMaxAttempts(step)}).\n` +
+    `@${step.role}: ${note}\nPlease revise and send the complete result again.`
+  );
+}
+
+function runCheck(check: Exclude<WorkflowCheck, { kind: "llm_judge" }>, output: string) {
+  if (check.kind === "min_length") {
+    return output.trim().length >= check.chars ? null : `output is shorter than ${check.chars} characters`;
+  }
+  if (check.kind === "contains") {
+    const lower = output.toLowerCase();
+    const hits = check.phrases.filter((p) => lower.includes(p.toLowerCase()));
+    const ok = check.mode === "all" ? hits.length === check.phrases.length : hits.length > 0;
+    return ok ? null : `output must ${describeCheck(check)}`;
+  }
+  return new RegExp(check.pattern, check.flags).test(output) ? null : `output must ${describeCheck(check)}`;
+}
+
+async function runJudge(input: { agentId: UUID; taskRunId: UUID; criteria: string; step: WorkflowStep; output: string }) {
+  const systemPrompt =
+    "You are the acceptance checker of a multi-agent workflow.\n" +
+    "Decide whether the step output satisfies the criteria. Be strict but fair.\n" +
+    'Return JSON only: {"pass": boolean, "reason": string}';
+  const userPrompt =
+    `Step: ${input.step.title}\nInstruction: ${input.step.instruction}\n` +
+    `Criteria: ${input.criteria}\n\nOutput:\n${input.output.slice(0, 12_000)}`;
+  const raw = await chatJsonByAgent({
+    agentId: input.agentId,
+    systemPrompt,
+    userPrompt,
+    decode: { temperature: 0.1, topP: 0.9, maxTokens: 300 },
+    usage: { taskRunId: input.taskRunId },
+  });
+  const parsed = safeJsonParse<{ pass?: unknown; reason?: unknown }>(raw, {});
+  return {
+    pass: parsed.pass === true,
+    reason: typeof parsed.reason === "string" && parsed.reason.trim() ? parsed.reason.trim() : "judge rejected the output",
+  };
+}
+
+/**
+ * Runs a step's acceptance checks against a candidate output. Cheap local checks
+ * run first; LLM judges only run once those pass. A judge that cannot be reached
+ * does not block the workflow.
+ */
+export async function checkStepOutput(input: {
+  judgeAgentId: UUID;
+  taskRunId: UUID;
+  step: WorkflowStep;
+  output: string;
+}): Promise<{ pass: boolean; note: string | null }> {
+  const checks = input.step.acceptance ?? [];
+  for (const check of checks) {
+    if (check.kind === "llm_judge") continue;
+    const failure = runCheck(check, input.output);
+    if (failure) return { pass: false, note: failure };
+  }
+  for (const check of checks) {
+    if (check.kind !== "llm_judge") continue;
+    try {
+      const verdict = await runJudge({
+        agentId: input.judgeAgentId,
+        taskRunId: input.taskRunId,
+        criteria: check.criteria,
+        step: input.step,
+        output: input.output,
+      });
+      if (!verdict.pass) return { pass: false, note: verdict.reason };
+    } catch (err) {
+      return { pass: true, note: `judge unavailable: ${err instanceof Error ? err.message : String(err)}` };
+    }
+  }
+  return { pass: true, note: null };
+}